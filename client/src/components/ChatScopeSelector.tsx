@@ -1,15 +1,19 @@
 import { useQuery } from '@tanstack/react-query';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
-import { Database, BookMarked, Folder, Layers } from 'lucide-react';
+import { Database, BookMarked, Folder, Layers, Tag } from 'lucide-react';
+import { useTopics } from '@/hooks/useTopics';
+import { customTopicSlug } from '@shared/schema';
+import type { UserPreferences } from '@shared/schema';
 
-export type ScopeType = 'current_digest' | 'all_digests' | 'saved_items' | 'folder';
+export type ScopeType = 'current_digest' | 'all_digests' | 'saved_items' | 'folder' | 'topic';
 
 export interface SearchScope {
   type: ScopeType;
   digestId?: string;
   folderId?: string;
   userId?: string;
+  topic?: string;
 }
 
 interface FolderType {
@@ -23,6 +27,8 @@ interface ChatScopeSelectorProps {
   onScopeChange: (scope: ScopeType) => void;
   selectedFolderId?: string | null;
   onFolderChange?: (folderId: string | null) => void;
+  selectedTopic?: string | null;
+  onTopicChange?: (topic: string | null) => void;
   userTier: 'free' | 'premium' | 'pro';
   digestId?: string;
   className?: string;
@@ -50,6 +56,13 @@ const scopeOptions = [
     icon: BookMarked,
     tierRequired: 'premium' as const,
   },
+  {
+    value: 'topic' as ScopeType,
+    label: 'Topic',
+    description: 'Search a favorite or custom topic',
+    icon: Tag,
+    tierRequired: 'premium' as const,
+  },
   {
     value: 'folder' as ScopeType,
     label: 'Folders',
@@ -66,6 +79,8 @@ export function ChatScopeSelector({
   onScopeChange,
   selectedFolderId = null,
   onFolderChange,
+  selectedTopic = null,
+  onTopicChange,
   userTier,
   digestId,
   className = '',
@@ -79,6 +94,17 @@ export function ChatScopeSelector({
   });
   const folders = (rawFolders as FolderType[] | undefined) || [];
 
+  // Topics to scope to: the user's favorites and custom topics
+  const { data: preferences } = useQuery<UserPreferences>({
+    queryKey: ['/api/preferences'],
+    enabled: selectedScope === 'topic',
+  });
+  const { customTopics, getTopicLabel } = useTopics();
+  const topicOptions = Array.from(new Set<string>([
+    ...(preferences?.favoriteTopics || []),
+    ...customTopics.map(topic => customTopicSlug(topic.id)),
+  ]));
+
   const isOptionAvailable = (requiredTier: 'free' | 'premium' | 'pro') => {
     return tierHierarchy[requiredTier] <= userTierLevel;
   };
@@ -93,10 +119,13 @@ export function ChatScopeSelector({
         value={selectedScope} 
         onValueChange={(value) => {
           onScopeChange(value as ScopeType);
-          // Reset folder selection when changing scopes
+          // Reset folder and topic selection when changing scopes
           if (value !== 'folder' && onFolderChange) {
             onFolderChange(null);
           }
+          if (value !== 'topic' && onTopicChange) {
+            onTopicChange(null);
+          }
         }}
         data-testid="select-chat-scope"
       >
@@ -142,6 +171,46 @@ export function ChatScopeSelector({
         </SelectContent>
       </Select>
 
+      {/* Topic Picker - Show when topic scope is selected */}
+      {selectedScope === 'topic' && userTier !== 'free' && onTopicChange && (
+        <>
+          <span className="text-sm text-muted-foreground">→</span>
+          <Select 
+            value={selectedTopic || undefined} 
+            onValueChange={onTopicChange}
+            data-testid="select-topic"
+          >
+            <SelectTrigger className="w-48" data-testid="button-topic-trigger">
+              <SelectValue placeholder="Select topic">
+                {selectedTopic && (
+                  <div className="flex items-center gap-2">
+                    <Tag className="w-4 h-4" />
+                    <span className="truncate">{getTopicLabel(selectedTopic)}</span>
+                  </div>
+                )}
+              </SelectValue>
+            </SelectTrigger>
+            <SelectContent>
+              {topicOptions.length === 0 ? (
+                <div className="px-3 py-4 text-center text-sm text-muted-foreground">
+                  No favorite or custom topics
+                </div>
+              ) : (
+                topicOptions.map((topic) => (
+                  <SelectItem
+                    key={topic}
+                    value={topic}
+                    data-testid={`option-topic-${topic}`}
+                  >
+                    {getTopicLabel(topic)}
+                  </SelectItem>
+                ))
+              )}
+            </SelectContent>
+          </Select>
+        </>
+      )}
+
       {/* Folder Picker - Show when folder scope is selected */}
       {selectedScope === 'folder' && userTier === 'pro' && onFolderChange && (
         <>
@@ -0,0 +1,274 @@
+import { useState } from "react";
+import { Check, Pencil, Plus, Trash2 } from "lucide-react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { useTopics } from "@/hooks/useTopics";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { customTopicSlug } from "@shared/schema";
+import type { CustomTopic, Item } from "@shared/schema";
+
+const MAX_SEED_ITEMS = 20;
+
+interface CustomTopicForm {
+  label: string;
+  includeKeywords: string;
+  excludeKeywords: string;
+  seedItemIds: string[];
+}
+
+const EMPTY_FORM: CustomTopicForm = { label: "", includeKeywords: "", excludeKeywords: "", seedItemIds: [] };
+
+interface CustomTopicManagerProps {
+  selectedTopics: string[];
+  onTopicToggle: (topic: string) => void;
+}
+
+const splitKeywords = (value: string) =>
+  value.split(",").map(keyword => keyword.trim()).filter(Boolean);
+
+/**
+ * Private topics defined by keywords and example items from the user's saved
+ * items. Selecting one adds it to the favorite topics like any other topic.
+ */
+export function CustomTopicManager({ selectedTopics, onTopicToggle }: CustomTopicManagerProps) {
+  const { customTopics } = useTopics();
+  const [editingTopic, setEditingTopic] = useState<CustomTopic | null>(null);
+  const [form, setForm] = useState<CustomTopicForm>(EMPTY_FORM);
+  const { toast } = useToast();
+
+  const { data: savedItems = [] } = useQuery<Item[]>({
+    queryKey: ["/api/saved-items"],
+  });
+
+  const resetForm = () => {
+    setEditingTopic(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const saveTopicMutation = useMutation({
+    mutationFn: async () => {
+      const data = {
+        label: form.label.trim(),
+        includeKeywords: splitKeywords(form.includeKeywords),
+        excludeKeywords: splitKeywords(form.excludeKeywords),
+        seedItemIds: form.seedItemIds,
+      };
+      if (editingTopic) {
+        await apiRequest("PATCH", `/api/custom-topics/${editingTopic.id}`, data);
+      } else {
+        await apiRequest("POST", "/api/custom-topics", data);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/custom-topics"] });
+      toast({
+        title: editingTopic ? "Topic updated" : "Topic created",
+        description: "Matching items from the last 30 days have been tagged.",
+      });
+      resetForm();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message.replace(/^\d+: /, "") || "Failed to save topic. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteTopicMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/custom-topics/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/custom-topics"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/preferences"] });
+      toast({
+        title: "Topic deleted",
+        description: "Your custom topic has been deleted.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete topic. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleEdit = (topic: CustomTopic) => {
+    setEditingTopic(topic);
+    setForm({
+      label: topic.label,
+      includeKeywords: topic.includeKeywords.join(", "),
+      excludeKeywords: topic.excludeKeywords.join(", "),
+      seedItemIds: topic.seedItemIds,
+    });
+  };
+
+  const toggleSeedItem = (itemId: string) => {
+    setForm(prev => ({
+      ...prev,
+      seedItemIds: prev.seedItemIds.includes(itemId)
+        ? prev.seedItemIds.filter(id => id !== itemId)
+        : [...prev.seedItemIds, itemId].slice(0, MAX_SEED_ITEMS),
+    }));
+  };
+
+  const canSave = form.label.trim().length > 0
+    && (splitKeywords(form.includeKeywords).length > 0 || form.seedItemIds.length > 0);
+
+  return (
+    <Card data-testid="card-custom-topics">
+      <CardHeader>
+        <CardTitle>Custom Topics</CardTitle>
+        <CardDescription>
+          Track niche subjects with your own keywords and example items. Select a topic to add it to your favorites.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {customTopics.length > 0 && (
+          <div className="space-y-2">
+            {customTopics.map((topic) => {
+              const slug = customTopicSlug(topic.id);
+              return (
+                <div
+                  key={topic.id}
+                  className="flex items-center justify-between gap-2"
+                  data-testid={`custom-topic-${topic.id}`}
+                >
+                  <Badge
+                    variant={selectedTopics.includes(slug) ? "default" : "outline"}
+                    className="cursor-pointer hover-elevate active-elevate-2 px-3 py-1.5"
+                    onClick={() => onTopicToggle(slug)}
+                    data-testid={`badge-custom-topic-${topic.id}`}
+                  >
+                    {selectedTopics.includes(slug) && (
+                      <Check className="w-3 h-3 mr-1" />
+                    )}
+                    {topic.label}
+                  </Badge>
+                  <div className="flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleEdit(topic)}
+                      data-testid={`button-edit-custom-topic-${topic.id}`}
+                    >
+                      <Pencil className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        if (confirm(`Delete topic "${topic.label}"?`)) {
+                          deleteTopicMutation.mutate(topic.id);
+                        }
+                      }}
+                      data-testid={`button-delete-custom-topic-${topic.id}`}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (canSave) saveTopicMutation.mutate();
+          }}
+          className="space-y-3 border-t pt-4"
+        >
+          <div className="space-y-2">
+            <Label htmlFor="custom-topic-label">{editingTopic ? "Edit Topic" : "New Topic"}</Label>
+            <Input
+              id="custom-topic-label"
+              placeholder="e.g. EU AI Act"
+              value={form.label}
+              onChange={(e) => setForm(prev => ({ ...prev, label: e.target.value }))}
+              data-testid="input-custom-topic-label"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="custom-topic-include">Include keywords</Label>
+            <Input
+              id="custom-topic-include"
+              placeholder="Comma-separated; any one tags an item"
+              value={form.includeKeywords}
+              onChange={(e) => setForm(prev => ({ ...prev, includeKeywords: e.target.value }))}
+              data-testid="input-custom-topic-include"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="custom-topic-exclude">Exclude keywords</Label>
+            <Input
+              id="custom-topic-exclude"
+              placeholder="Comma-separated; any one rules an item out"
+              value={form.excludeKeywords}
+              onChange={(e) => setForm(prev => ({ ...prev, excludeKeywords: e.target.value }))}
+              data-testid="input-custom-topic-exclude"
+            />
+          </div>
+
+          {savedItems.length > 0 && (
+            <div className="space-y-2">
+              <Label>Example items ({form.seedItemIds.length}/{MAX_SEED_ITEMS})</Label>
+              <p className="text-xs text-muted-foreground">
+                Items similar to the saved items you pick are tagged too.
+              </p>
+              <div className="max-h-48 overflow-y-auto space-y-1 rounded-md border p-2">
+                {savedItems.map((item) => (
+                  <label
+                    key={item.id}
+                    className="flex items-start gap-2 text-sm cursor-pointer"
+                    data-testid={`seed-item-${item.id}`}
+                  >
+                    <Checkbox
+                      checked={form.seedItemIds.includes(item.id)}
+                      onCheckedChange={() => toggleSeedItem(item.id)}
+                    />
+                    <span className="line-clamp-1">{item.title}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Button
+              type="submit"
+              size="sm"
+              disabled={!canSave || saveTopicMutation.isPending}
+              data-testid="button-save-custom-topic"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              {saveTopicMutation.isPending ? "Saving..." : editingTopic ? "Update" : "Create"}
+            </Button>
+            {editingTopic && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={resetForm}
+                data-testid="button-cancel-custom-topic"
+              >
+                Cancel
+              </Button>
+            )}
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,6 +1,6 @@
 import { ItemCard } from "./ItemCard";
 import { CategorySummary } from "./CategorySummary";
-import type { DigestSectionItem, Topic, CategorySummary as CategorySummaryType } from "@shared/schema";
+import type { DigestSectionItem, CategorySummary as CategorySummaryType } from "@shared/schema";
 import { Sparkles } from "lucide-react";
 
 interface DigestSectionProps {
@@ -8,11 +8,12 @@ interface DigestSectionProps {
   description: string;
   items: DigestSectionItem[];
   categorySummary?: CategorySummaryType;
-  onTopicClick?: (topic: Topic) => void;
+  onTopicClick?: (topic: string) => void;
   readItemIds?: Set<string>;
+  digestSlug?: string;
 }
 
-export function DigestSection({ title, description, items, categorySummary, onTopicClick, readItemIds }: DigestSectionProps) {
+export function DigestSection({ title, description, items, categorySummary, onTopicClick, readItemIds, digestSlug }: DigestSectionProps) {
   if (!items || items.length === 0) {
     return null;
   }
@@ -40,6 +41,7 @@ export function DigestSection({ title, description, items, categorySummary, onTo
             item={item}
             onTopicClick={onTopicClick}
             isRead={readItemIds?.has(item.itemId) || false}
+            digestSlug={digestSlug}
           />
         ))}
       </div>
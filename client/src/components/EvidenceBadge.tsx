@@ -1,5 +1,5 @@
 import { Badge } from "@/components/ui/badge";
-import type { EvidenceLevel } from "@shared/schema";
+import type { EvidenceLevel, IntegrityStatus } from "@shared/schema";
 
 interface EvidenceBadgeProps {
   level: EvidenceLevel;
@@ -21,3 +21,33 @@ export function EvidenceBadge({ level, className = "" }: EvidenceBadgeProps) {
     </Badge>
   );
 }
+
+interface IntegrityBadgeProps {
+  status: IntegrityStatus;
+  noticeDoi?: string;
+  date?: string;
+  className?: string;
+}
+
+// Retraction, expression of concern or correction; links to the notice when known
+export function IntegrityBadge({ status, noticeDoi, date, className = "" }: IntegrityBadgeProps) {
+  const config: Record<IntegrityStatus, { label: string; variant: "destructive" | "outline" | "secondary" }> = {
+    retracted: { label: "Retracted", variant: "destructive" },
+    expression_of_concern: { label: "Expression of concern", variant: "outline" },
+    corrected: { label: "Corrected", variant: "secondary" },
+  };
+
+  const { label, variant } = config[status];
+  const title = date ? `${label} (${date})` : label;
+  const badge = (
+    <Badge variant={variant} className={className} title={title} data-testid={`badge-integrity-${status}`}>
+      {label}
+    </Badge>
+  );
+
+  return noticeDoi ? (
+    <a href={`https://doi.org/${noticeDoi}`} target="_blank" rel="noopener noreferrer">
+      {badge}
+    </a>
+  ) : badge;
+}
@@ -91,6 +91,10 @@ export function FeedHealthBanner() {
     }
   };
 
+  // Retraction/correction notices about saved items are counted apart from feed issues
+  const itemNotices = visibleNotifications.filter(n => n.actionType === 'integrity');
+  const feedNotices = visibleNotifications.filter(n => n.actionType !== 'integrity');
+
   // Group notifications by severity
   const errorCount = visibleNotifications.filter(n => n.severity === 'error').length;
   const warningCount = visibleNotifications.filter(n => n.severity === 'warning').length;
@@ -98,9 +102,13 @@ export function FeedHealthBanner() {
 
   const summaryMessage = () => {
     const parts = [];
-    if (errorCount > 0) parts.push(`${errorCount} feed${errorCount > 1 ? 's' : ''} need attention`);
-    if (warningCount > 0) parts.push(`${warningCount} minor issue${warningCount > 1 ? 's' : ''}`);
-    if (infoCount > 0) parts.push(`${infoCount} update${infoCount > 1 ? 's' : ''}`);
+    const feedErrorCount = feedNotices.filter(n => n.severity === 'error').length;
+    const feedWarningCount = feedNotices.filter(n => n.severity === 'warning').length;
+    const feedInfoCount = feedNotices.filter(n => n.severity === 'info').length;
+    if (itemNotices.length > 0) parts.push(`${itemNotices.length} saved item${itemNotices.length > 1 ? 's' : ''} retracted or corrected`);
+    if (feedErrorCount > 0) parts.push(`${feedErrorCount} feed${feedErrorCount > 1 ? 's' : ''} need attention`);
+    if (feedWarningCount > 0) parts.push(`${feedWarningCount} minor issue${feedWarningCount > 1 ? 's' : ''}`);
+    if (feedInfoCount > 0) parts.push(`${feedInfoCount} update${feedInfoCount > 1 ? 's' : ''}`);
     return parts.join(', ');
   };
 
@@ -120,7 +128,7 @@ export function FeedHealthBanner() {
                 ) : (
                   <Info className="h-4 w-4 text-blue-500" />
                 )}
-                Feed Health Update
+                {feedNotices.length === 0 ? 'Saved Item Update' : 'Feed Health Update'}
               </AlertTitle>
               <AlertDescription className="mt-2">
                 {summaryMessage()}
@@ -161,6 +169,9 @@ export function FeedHealthBanner() {
                   </div>
                   <div className="flex-1 min-w-0">
                     <p className="text-sm leading-relaxed">{notification.message}</p>
+                    {notification.actionType === 'integrity' && notification.technicalDetails && (
+                      <p className="text-xs text-muted-foreground mt-1 break-words">{notification.technicalDetails}</p>
+                    )}
                     <div className="flex items-center gap-2 mt-2">
                       <Badge variant={getSeverityColor(notification.severity)} className="text-xs">
                         {notification.severity}
@@ -183,6 +194,7 @@ export function FeedHealthBanner() {
               ))}
             </div>
 
+            {feedNotices.length > 0 && (
             <div className="mt-4 pt-4 border-t">
               <div className="flex items-center justify-between">
                 <p className="text-xs text-muted-foreground">
@@ -199,6 +211,7 @@ export function FeedHealthBanner() {
                 </Button>
               </div>
             </div>
+            )}
           </CollapsibleContent>
         </Collapsible>
       </Alert>
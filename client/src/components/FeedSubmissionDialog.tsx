@@ -186,6 +186,9 @@ export function FeedSubmissionDialog({ children }: FeedSubmissionDialogProps) {
                         <SelectItem value="reddit">Reddit</SelectItem>
                         <SelectItem value="substack">Substack</SelectItem>
                         <SelectItem value="youtube">YouTube</SelectItem>
+                        <SelectItem value="hackernews">Hacker News</SelectItem>
+                        <SelectItem value="mastodon">Mastodon</SelectItem>
+                        <SelectItem value="bluesky">Bluesky</SelectItem>
                       </SelectContent>
                     </Select>
                     <FormMessage />
@@ -0,0 +1,140 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Check, HelpCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useTopics } from "@/hooks/useTopics";
+import type { InclusionTrace } from "@shared/schema";
+
+type ItemExplanation = InclusionTrace & { itemId: string; title: string; section: string };
+
+const SIGNAL_LABELS: Record<string, string> = {
+  contentQuality: "Content quality",
+  engagement: "Engagement",
+  sourceCredibility: "Source credibility",
+  recency: "Recency",
+  community: "Community",
+  quality: "Quality",
+  sourceQuality: "Source type",
+  topicCount: "Topic coverage",
+  preprint: "Preprint penalty",
+};
+
+const FILTER_LABELS: Record<InclusionTrace["filters"][number]["name"], string> = {
+  window: "Date window",
+  quality: "Content quality",
+  topics: "Your topics",
+  selection: "Diversity selection",
+};
+
+function describeOrigin({ path, feedName }: InclusionTrace["origin"]): string {
+  const feed = feedName ? ` ${feedName}` : "";
+  switch (path) {
+    case "subscription":
+      return feedName ? `From your subscription to ${feedName}` : "From your subscribed feeds";
+    case "newsletter":
+      return `From your newsletter${feed}`;
+    case "starter":
+      return `From the starter feed${feed}, since you have no subscriptions yet`;
+    case "featured-fallback":
+      return "From featured feeds, since nothing recent matched your subscriptions";
+    case "cached":
+      return "From recently stored items, since your feeds had nothing new";
+    case "window":
+      return feedName ? `Published this week in ${feedName}` : "Published this week";
+  }
+}
+
+interface InclusionExplainerProps {
+  digestSlug: string;
+  itemId: string;
+}
+
+// "Why am I seeing this?" popover, loaded when first opened
+export function InclusionExplainer({ digestSlug, itemId }: InclusionExplainerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const { getTopicLabel } = useTopics();
+  const { data: explanation, isLoading, error } = useQuery<ItemExplanation>({
+    queryKey: ['/api/digest', digestSlug, 'items', itemId, 'explain'],
+    enabled: isOpen,
+    retry: false,
+  });
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          title="Why am I seeing this?"
+          data-testid={`button-explain-${itemId}`}
+        >
+          <HelpCircle className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-3 text-xs" align="end" data-testid={`popover-explain-${itemId}`}>
+        <p className="text-sm font-semibold">Why am I seeing this?</p>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-4 w-full" />
+            <Skeleton className="h-4 w-3/4" />
+            <Skeleton className="h-4 w-5/6" />
+          </div>
+        ) : error || !explanation ? (
+          <p className="text-muted-foreground">No explanation is available for this item.</p>
+        ) : (
+          <>
+            <p data-testid="text-explain-origin">{describeOrigin(explanation.origin)}</p>
+
+            {explanation.matchedTopics.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {explanation.matchedTopics.map((topic) => (
+                  <Badge key={topic} variant="outline" className="text-xs">{getTopicLabel(topic)}</Badge>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-1">
+              <p className="font-medium">
+                Score {explanation.ranking.score} ({explanation.ranking.strategy} v{explanation.ranking.version})
+              </p>
+              <ul className="space-y-0.5 text-muted-foreground">
+                {explanation.ranking.components.map((component) => (
+                  <li key={component.signal} className="flex justify-between gap-2">
+                    <span>{SIGNAL_LABELS[component.signal] ?? component.signal} ({Math.round(component.weight * 100)}%)</span>
+                    <span className="tabular-nums">{component.points > 0 ? "+" : ""}{component.points}</span>
+                  </li>
+                ))}
+              </ul>
+              {explanation.ranking.preference && (
+                <p className="text-muted-foreground">
+                  Re-ranked for you: {Math.round(explanation.ranking.preference.probability * 100)}% predicted interest
+                  ({Math.round(explanation.ranking.preference.weight * 100)}% of the ordering)
+                </p>
+              )}
+            </div>
+
+            <p className="text-muted-foreground" data-testid="text-explain-positions">
+              Ranked #{explanation.positions.ranked} overall, #{explanation.positions.sectionCandidate} in this section
+              before diversity selection, shown #{explanation.positions.final}
+            </p>
+
+            <ul className="space-y-1">
+              {explanation.filters.map((filter) => (
+                <li key={filter.name} className="flex gap-1.5">
+                  <Check className="h-3.5 w-3.5 mt-px shrink-0 text-primary" />
+                  <span>
+                    <span className="font-medium">{FILTER_LABELS[filter.name]}:</span> {filter.detail}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
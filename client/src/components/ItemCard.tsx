@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { ExternalLink, BookOpen, BookOpenCheck, ChevronDown, ChevronUp, FileText } from "lucide-react";
+import { ExternalLink, BookOpen, BookOpenCheck, ChevronDown, ChevronUp, FileText, MessagesSquare, PlayCircle } from "lucide-react";
 import { Card, CardHeader, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { SourceBadge } from "./SourceBadge";
@@ -7,7 +7,10 @@ import { TopicTag } from "./TopicTag";
 import { SaveButton } from "./SaveButton";
 import { FolderSelector } from "./FolderSelector";
 import { QualityScoreCard } from "./QualityScoreCard";
-import type { DigestSectionItem, Topic } from "@shared/schema";
+import { IntegrityBadge } from "./EvidenceBadge";
+import { SavedItemUpdates } from "./RevisionDiff";
+import { InclusionExplainer } from "./InclusionExplainer";
+import type { DigestSectionItem, ItemRevision, SourceType } from "@shared/schema";
 import { format } from "date-fns";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
@@ -27,9 +30,19 @@ function addUTMParams(url: string, source: string = 'digest', medium: string = '
 
 interface ItemCardProps {
   item: DigestSectionItem;
-  onTopicClick?: (topic: Topic) => void;
+  onTopicClick?: (topic: string) => void;
   isSaved?: boolean;
   isRead?: boolean;
+  updatesSinceSaved?: ItemRevision[]; // Content changes the source published after the user saved the item
+  digestSlug?: string; // Digest the card is shown in, for "Why am I seeing this?"
+}
+
+// 75 -> "1:15", 3725 -> "1:02:05"
+function formatMomentTime(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor(totalSeconds / 60) % 60;
+  const seconds = String(Math.floor(totalSeconds % 60)).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
 }
 
 function extractFirstSentence(text: string): string {
@@ -38,7 +51,7 @@ function extractFirstSentence(text: string): string {
   return match ? match[0].trim() : text.substring(0, 120) + '...';
 }
 
-export function ItemCard({ item, onTopicClick, isSaved = false, isRead = false }: ItemCardProps) {
+export function ItemCard({ item, onTopicClick, isSaved = false, isRead = false, updatesSinceSaved, digestSlug }: ItemCardProps) {
   const [isExpanded, setIsExpanded] = useState(false);
   const publishedDate = format(new Date(item.publishedAt), "MMM d, yyyy");
   
@@ -85,6 +98,13 @@ export function ItemCard({ item, onTopicClick, isSaved = false, isRead = false }
         <div className="flex flex-wrap items-center justify-between gap-3">
           <div className="flex items-center gap-2 flex-wrap">
             <SourceBadge sourceType={item.sourceType} />
+            {item.integrity && (
+              <IntegrityBadge
+                status={item.integrity.status}
+                noticeDoi={item.integrity.noticeDoi}
+                date={item.integrity.date}
+              />
+            )}
             {/* Show ALL topic tags */}
             {item.topics && item.topics.map((topic, index) => (
               <TopicTag
@@ -113,6 +133,9 @@ export function ItemCard({ item, onTopicClick, isSaved = false, isRead = false }
                 <BookOpen className="h-4 w-4" />
               )}
             </Button>
+            {digestSlug && item.inclusion && (
+              <InclusionExplainer digestSlug={digestSlug} itemId={item.itemId} />
+            )}
             <SaveButton itemId={item.itemId} isSaved={isSaved} />
             <FolderSelector itemId={item.itemId} />
             <span className="text-xs text-muted-foreground whitespace-nowrap" data-testid="text-date">
@@ -142,6 +165,11 @@ export function ItemCard({ item, onTopicClick, isSaved = false, isRead = false }
               {item.journalName || item.authorOrChannel}
             </p>
           )}
+          {item.readingTimeMinutes && (
+            <p className="text-sm text-muted-foreground" data-testid="text-reading-time">
+              {item.readingTimeMinutes} min read
+            </p>
+          )}
           <div className="flex items-center gap-3">
             {/* Open Access PDF Link (when available) */}
             {item.pdfUrl && (
@@ -175,6 +203,67 @@ export function ItemCard({ item, onTopicClick, isSaved = false, isRead = false }
           {keySummary}
         </p>
 
+        {updatesSinceSaved && updatesSinceSaved.length > 0 && (
+          <SavedItemUpdates itemId={item.itemId} revisions={updatesSinceSaved} />
+        )}
+
+        {/* Key moments: jump straight to that point of the video or episode */}
+        {item.keyMoments && item.keyMoments.length > 0 && (
+          <div className="space-y-2" data-testid="section-key-moments">
+            <p className="inline-flex items-center gap-1.5 text-xs font-medium text-muted-foreground">
+              <PlayCircle className="h-3.5 w-3.5" />
+              Key moments
+            </p>
+            <ol className="space-y-1">
+              {item.keyMoments.map((moment) => (
+                <li key={moment.startSeconds}>
+                  <a
+                    href={moment.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-baseline gap-2 text-xs text-muted-foreground hover:text-primary group"
+                    data-testid={`link-key-moment-${moment.startSeconds}`}
+                  >
+                    <span className="font-mono text-primary tabular-nums">{formatMomentTime(moment.startSeconds)}</span>
+                    <span className="group-hover:underline">{moment.title}</span>
+                  </a>
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+
+        {/* Community discussions linking to this item */}
+        {item.discussions && item.discussions.length > 0 && (
+          <div className="space-y-2" data-testid="section-discussions">
+            <p className="inline-flex items-center gap-1.5 text-xs font-medium text-muted-foreground">
+              <MessagesSquare className="h-3.5 w-3.5" />
+              Discussed in {item.discussionCommunities ?? item.discussions.length} {(item.discussionCommunities ?? item.discussions.length) === 1 ? 'community' : 'communities'}
+            </p>
+            <ul className="space-y-1.5">
+              {item.discussions.map((discussion) => (
+                <li key={discussion.url} className="flex items-center gap-2 min-w-0">
+                  <SourceBadge sourceType={discussion.platform as SourceType} />
+                  <a
+                    href={discussion.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-xs text-muted-foreground hover:text-primary hover:underline truncate"
+                    data-testid="link-discussion"
+                  >
+                    {discussion.label}
+                  </a>
+                  {(discussion.counts.comments ?? 0) > 0 && (
+                    <span className="text-xs text-muted-foreground whitespace-nowrap">
+                      {discussion.counts.comments} comments
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Expand/Collapse button */}
         {hasExpandableContent && (
           <Button
@@ -0,0 +1,75 @@
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import type { SourceReputation } from "@shared/schema";
+
+const COMPONENT_LABELS: Record<string, string> = {
+  contentQuality: "Content quality",
+  ratings: "Reader ratings",
+  saves: "Save rate",
+  integrity: "Integrity",
+  reliability: "Feed reliability",
+};
+
+interface ReputationHistoryProps {
+  history: SourceReputation[]; // Oldest first
+}
+
+// Nightly reputation scores as a bar strip, with the latest run's components and inputs
+export function ReputationHistory({ history }: ReputationHistoryProps) {
+  if (history.length === 0) return null;
+
+  const latest = history[history.length - 1];
+  const { inputs } = latest;
+
+  return (
+    <Card data-testid="card-reputation">
+      <CardHeader>
+        <CardTitle>Source Reputation</CardTitle>
+        <CardDescription>
+          Recomputed nightly from the last 6 months of items · {latest.score}/100 as of {format(new Date(latest.computedAt), "MMM d, yyyy")}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-end gap-0.5 h-16" data-testid="chart-reputation-history">
+          {history.map((entry) => (
+            <Tooltip key={entry.id}>
+              <TooltipTrigger asChild>
+                <div className="flex-1 h-full flex items-end">
+                  <div className="w-full bg-primary/70 hover:bg-primary rounded-sm" style={{ height: `${Math.max(entry.score, 2)}%` }} />
+                </div>
+              </TooltipTrigger>
+              <TooltipContent>
+                {format(new Date(entry.computedAt), "MMM d")}: {entry.score}/100
+              </TooltipContent>
+            </Tooltip>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2">
+          {Object.entries(latest.components).map(([name, value]) => (
+            <div key={name} className="space-y-1" data-testid={`reputation-component-${name}`}>
+              <div className="flex justify-between text-xs">
+                <span className="text-muted-foreground">{COMPONENT_LABELS[name] ?? name}</span>
+                <span className="font-medium">{Math.round(value * 100)}</span>
+              </div>
+              <div className="bg-secondary rounded-full h-1.5 overflow-hidden">
+                <div className="bg-primary h-full" style={{ width: `${value * 100}%` }} />
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <p className="text-xs text-muted-foreground" data-testid="text-reputation-inputs">
+          {inputs.items} items
+          {inputs.avgContentQuality !== null && ` · avg content quality ${inputs.avgContentQuality}/40`}
+          {` · ${inputs.ratings} ratings`}
+          {inputs.avgRating !== null && ` (avg ${inputs.avgRating.toFixed(1)}★)`}
+          {` · ${inputs.saves} saves`}
+          {inputs.retracted + inputs.corrected > 0 && ` · ${inputs.retracted} retracted, ${inputs.corrected} corrected`}
+          {inputs.healingAttempts !== undefined && ` · ${inputs.healingFailures ?? 0} failed recoveries of ${inputs.healingAttempts}`}
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,84 @@
+import { useState } from "react";
+import { History, ChevronDown, ChevronUp } from "lucide-react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import type { ItemRevision, RevisedItemField, TextDiffOp } from "@shared/schema";
+
+const FIELD_LABELS: Record<RevisedItemField, string> = {
+  title: "Title",
+  rawExcerpt: "Excerpt",
+  fullText: "Full text",
+};
+
+function DiffText({ diff }: { diff: TextDiffOp[] }) {
+  return (
+    <p className="text-xs leading-relaxed whitespace-pre-wrap break-words">
+      {diff.map((part, index) => {
+        if (part.op === "insert") {
+          return (
+            <ins key={index} className="no-underline bg-green-500/15 text-green-700 dark:text-green-400">
+              {part.text}
+            </ins>
+          );
+        }
+        if (part.op === "delete") {
+          return (
+            <del key={index} className="bg-destructive/10 text-destructive">
+              {part.text}
+            </del>
+          );
+        }
+        return <span key={index} className="text-muted-foreground">{part.text}</span>;
+      })}
+    </p>
+  );
+}
+
+interface SavedItemUpdatesProps {
+  itemId: string;
+  revisions: ItemRevision[];
+}
+
+// "Updated since you saved it" toggle with what the source changed, newest change first
+export function SavedItemUpdates({ itemId, revisions }: SavedItemUpdatesProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  if (revisions.length === 0) return null;
+
+  const newestFirst = [...revisions].reverse();
+  const lastUpdated = format(new Date(newestFirst[0].detectedAt), "MMM d, yyyy");
+
+  return (
+    <div className="space-y-2" data-testid={`section-updates-${itemId}`}>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-auto px-0 text-xs text-primary hover:bg-transparent"
+        onClick={() => setIsOpen(!isOpen)}
+        data-testid={`button-updates-${itemId}`}
+      >
+        <History className="h-3.5 w-3.5 mr-1.5" />
+        Updated since you saved it ({lastUpdated})
+        {isOpen ? <ChevronUp className="h-3.5 w-3.5 ml-1" /> : <ChevronDown className="h-3.5 w-3.5 ml-1" />}
+      </Button>
+
+      {isOpen && (
+        <div className="space-y-4 rounded-md border p-3">
+          {newestFirst.map((revision) => (
+            <div key={revision.id} className="space-y-2" data-testid={`revision-${revision.id}`}>
+              <p className="text-xs font-medium text-muted-foreground">
+                {format(new Date(revision.detectedAt), "MMM d, yyyy")} · {revision.changeRatio}% changed
+                {revision.summaryRegenerated && " · summary refreshed"}
+              </p>
+              {revision.changes.map((change) => (
+                <div key={change.field} className="space-y-1">
+                  <p className="text-xs font-medium">{FIELD_LABELS[change.field]}</p>
+                  <DiffText diff={change.diff} />
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { Newspaper, MessageSquare, FileText, Video, Mic } from "lucide-react";
+import { Newspaper, MessageSquare, FileText, Video, Mic, Flame, AtSign, Cloud, Mail } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import type { SourceType } from "@shared/schema";
 
@@ -34,6 +34,26 @@ export function SourceBadge({ sourceType, className = "" }: SourceBadgeProps) {
       label: "Podcast",
       variant: "outline" as const,
     },
+    hackernews: {
+      icon: Flame,
+      label: "Hacker News",
+      variant: "outline" as const,
+    },
+    mastodon: {
+      icon: AtSign,
+      label: "Mastodon",
+      variant: "outline" as const,
+    },
+    bluesky: {
+      icon: Cloud,
+      label: "Bluesky",
+      variant: "outline" as const,
+    },
+    newsletter: {
+      icon: Mail,
+      label: "Newsletter",
+      variant: "outline" as const,
+    },
   };
 
   const { icon: Icon, label, variant } = config[sourceType];
@@ -15,6 +15,10 @@ const sourceTypeLabels: Record<SourceType, string> = {
   substack: "Expert Newsletters",
   youtube: "Video Content",
   podcast: "Podcasts",
+  hackernews: "Hacker News",
+  mastodon: "Mastodon",
+  bluesky: "Bluesky",
+  newsletter: "Email Newsletters",
 };
 
 const sourceTypeDescriptions: Record<SourceType, string> = {
@@ -23,6 +27,10 @@ const sourceTypeDescriptions: Record<SourceType, string> = {
   substack: "Expert analysis and commentary",
   youtube: "Educational videos and presentations",
   podcast: "Audio content and expert interviews",
+  hackernews: "Tech community stories and comment threads",
+  mastodon: "Hashtag and account timelines from the fediverse",
+  bluesky: "Posts from Bluesky accounts and custom feeds",
+  newsletter: "Newsletters sent to your inbound address",
 };
 
 export function SourceTypeFilter({ selectedTypes, onTypeToggle, onClearTypes }: SourceTypeFilterProps) {
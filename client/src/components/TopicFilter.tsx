@@ -3,7 +3,8 @@ import { X, Filter } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { TopicTag } from "./TopicTag";
-import { topics, type Topic } from "@shared/schema";
+import { useTopics } from "@/hooks/useTopics";
+import { customTopicSlug } from "@shared/schema";
 import {
   Sheet,
   SheetContent,
@@ -13,17 +14,26 @@ import {
 } from "@/components/ui/sheet";
 
 interface TopicFilterProps {
-  selectedTopics: Topic[];
-  onTopicToggle: (topic: Topic) => void;
+  selectedTopics: string[]; // Taxonomy slugs and "custom:<id>" custom topics
+  onTopicToggle: (topic: string) => void;
   onClearFilters: () => void;
 }
 
 export function TopicFilter({ selectedTopics, onTopicToggle, onClearFilters }: TopicFilterProps) {
   const [search, setSearch] = useState("");
 
-  const filteredTopics = topics.filter(topic =>
-    topic.toLowerCase().includes(search.toLowerCase())
-  );
+  const { topics, customTopics } = useTopics();
+
+  // Match on labels and synonyms so merged-away names still find their topic
+  const query = search.toLowerCase();
+  const filteredTopics = topics
+    .filter(topic =>
+      [topic.slug, topic.label, ...topic.synonyms].some(name => name.toLowerCase().includes(query))
+    )
+    .map(topic => topic.slug);
+  const filteredCustomTopics = customTopics
+    .filter(topic => topic.label.toLowerCase().includes(query))
+    .map(topic => customTopicSlug(topic.id));
 
   return (
     <div className="space-y-4">
@@ -60,6 +70,22 @@ export function TopicFilter({ selectedTopics, onTopicToggle, onClearFilters }: T
         </div>
       )}
 
+      {filteredCustomTopics.length > 0 && (
+        <div className="space-y-2">
+          <span className="text-xs font-medium text-muted-foreground">Your topics</span>
+          <div className="flex flex-wrap gap-2">
+            {filteredCustomTopics.map((topic) => (
+              <TopicTag
+                key={topic}
+                topic={topic}
+                active={selectedTopics.includes(topic)}
+                onClick={onTopicToggle}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+
       <div className="flex flex-wrap gap-2">
         {filteredTopics.map((topic) => (
           <TopicTag
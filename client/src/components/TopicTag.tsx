@@ -1,15 +1,16 @@
 import { Badge } from "@/components/ui/badge";
-import type { Topic } from "@shared/schema";
+import { useTopics } from "@/hooks/useTopics";
 
 interface TopicTagProps {
-  topic: Topic;
-  onClick?: (topic: Topic) => void;
+  topic: string;
+  onClick?: (topic: string) => void;
   active?: boolean;
   className?: string;
 }
 
 export function TopicTag({ topic, onClick, active = false, className = "" }: TopicTagProps) {
-  const displayName = topic.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
+  const { getTopicLabel } = useTopics();
+  const displayName = getTopicLabel(topic);
 
   return (
     <Badge
@@ -0,0 +1,74 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { customTopicSlug } from "@shared/schema";
+import type { CustomTopic, TopicTreeNode } from "@shared/schema";
+
+// Fallback label for slugs not in the taxonomy (e.g. while it loads)
+export function formatTopicSlug(slug: string): string {
+  return slug.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
+}
+
+/**
+ * The topic taxonomy from /api/topics: categories with their topics, a flat
+ * list of selectable topics, the signed-in user's custom topics, and label lookup
+ */
+export function useTopics() {
+  const { isAuthenticated } = useAuth();
+  const { data: categories = [], isLoading } = useQuery<TopicTreeNode[]>({
+    queryKey: ["/api/topics"],
+  });
+  const { data: customTopics = [] } = useQuery<CustomTopic[]>({
+    queryKey: ["/api/custom-topics"],
+    enabled: isAuthenticated,
+  });
+
+  const { topics, labels } = useMemo(() => {
+    const topics: TopicTreeNode[] = [];
+    const collect = (nodes: TopicTreeNode[]) => {
+      for (const node of nodes) {
+        topics.push(node);
+        collect(node.children);
+      }
+    };
+    for (const category of categories) collect(category.children);
+
+    const labels = new Map(topics.map(topic => [topic.slug, topic.label]));
+    for (const custom of customTopics) {
+      labels.set(customTopicSlug(custom.id), custom.label);
+    }
+    return { topics, labels };
+  }, [categories, customTopics]);
+
+  return {
+    categories,
+    topics,
+    customTopics,
+    isLoading,
+    getTopicLabel: (slug: string) => labels.get(slug) ?? formatTopicSlug(slug),
+  };
+}
+
+/**
+ * The signed-in user's custom topic slugs for each item that matched any,
+ * so lists can filter on custom topics alongside item.topics
+ */
+export function useCustomTopicMatches(itemIds: string[]): Record<string, string[]> {
+  const { isAuthenticated } = useAuth();
+  const { data } = useQuery<{ matches: Record<string, string[]> }>({
+    queryKey: ['/api/custom-topics/matches', { itemIds }],
+    enabled: isAuthenticated && itemIds.length > 0,
+    queryFn: async () => {
+      const response = await fetch('/api/custom-topics/matches', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ itemIds }),
+      });
+      if (!response.ok) throw new Error('Failed to fetch custom topic matches');
+      return response.json();
+    },
+  });
+
+  return data?.matches || {};
+}
@@ -11,8 +11,8 @@ import { useToast } from '@/hooks/use-toast';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import { Check, X, ExternalLink, Activity, TrendingUp, Hash, DollarSign, AlertCircle, CheckCircle, FlaskConical, Info } from 'lucide-react';
 import { Header } from '@/components/Header';
-import type { UserFeedSubmission, JobRun, Topic, User } from '@shared/schema';
-import { topics } from '@shared/schema';
+import { useTopics } from '@/hooks/useTopics';
+import type { UserFeedSubmission, JobRun, User, NearDuplicateMerge } from '@shared/schema';
 import { formatDistanceToNow } from 'date-fns';
 import { formatTokensWithCost, formatCost, estimateCostFromTokens } from '@/utils/token-pricing';
 
@@ -29,6 +29,93 @@ interface MetricsData {
   };
 }
 
+interface NearDuplicateReportData {
+  settings: {
+    enabled: boolean;
+    minSimilarity: number;
+    windowDays: number;
+    minTokens: number;
+  };
+  summary: {
+    total: number;
+    bySourceType: Record<string, number>;
+    averageSimilarity: number | null;
+  };
+  merges: Array<NearDuplicateMerge & {
+    canonicalTitle: string;
+    canonicalUrl: string;
+    canonicalSourceType: string;
+  }>;
+}
+
+function NearDuplicateReport() {
+  const { data: report, isLoading } = useQuery<NearDuplicateReportData>({
+    queryKey: ['/api/admin/near-duplicates'],
+  });
+
+  if (isLoading || !report) {
+    return <div className="text-sm text-muted-foreground">Loading merges...</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="text-sm text-muted-foreground">
+        {report.settings.enabled
+          ? `Merging items sharing ${report.settings.minSimilarity}%+ of their text over ${report.settings.windowDays} days`
+          : 'Near-duplicate detection is disabled'}
+        {' · '}
+        {report.summary.total} merge{report.summary.total !== 1 ? 's' : ''} in the last 7 days
+        {report.summary.averageSimilarity !== null && ` · avg similarity ${report.summary.averageSimilarity}%`}
+      </div>
+
+      {Object.keys(report.summary.bySourceType).length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {Object.entries(report.summary.bySourceType).map(([sourceType, count]) => (
+            <Badge key={sourceType} variant="secondary">
+              {sourceType}: {count}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {report.merges.length > 0 && (
+        <div className="overflow-x-auto -mx-4 md:mx-0">
+          <table className="w-full text-xs md:text-sm min-w-[600px]">
+            <thead>
+              <tr className="border-b">
+                <th className="text-left py-2 px-2 md:px-0 font-medium">Duplicate</th>
+                <th className="text-left py-2 px-2 md:px-0 font-medium">Merged Into</th>
+                <th className="text-right py-2 px-2 md:px-0 font-medium">Similarity</th>
+                <th className="text-left py-2 px-2 md:px-0 font-medium">When</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.merges.map((merge) => (
+                <tr key={merge.id} className="border-b" data-testid={`row-near-duplicate-${merge.id}`}>
+                  <td className="py-2 px-2 md:px-0">
+                    <a href={merge.duplicateUrl} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                      {merge.duplicateTitle}
+                    </a>
+                    <div className="text-xs text-muted-foreground">{merge.duplicateSourceType}</div>
+                  </td>
+                  <td className="py-2 px-2 md:px-0">
+                    <a href={merge.canonicalUrl} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                      {merge.canonicalTitle}
+                    </a>
+                    <div className="text-xs text-muted-foreground">{merge.canonicalSourceType}</div>
+                  </td>
+                  <td className="py-2 px-2 md:px-0 text-right font-mono">{merge.similarity}%</td>
+                  <td className="py-2 px-2 md:px-0">{formatDistanceToNow(new Date(merge.createdAt), { addSuffix: true })}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
 function TestAccountManager() {
   const { toast } = useToast();
   
@@ -123,7 +210,8 @@ function TestAccountManager() {
 
 export default function AdminPage() {
   const [reviewNotes, setReviewNotes] = useState<Record<string, string>>({});
-  const [selectedTopics, setSelectedTopics] = useState<Topic[]>([]);
+  const [selectedTopics, setSelectedTopics] = useState<string[]>([]);
+  const { topics } = useTopics();
   const [researchCount, setResearchCount] = useState('15');
   const [communityCount, setCommunityCount] = useState('15');
   const [expertCount, setExpertCount] = useState('10');
@@ -139,7 +227,7 @@ export default function AdminPage() {
   });
 
   const runIngestMutation = useMutation({
-    mutationFn: async (topicsFilter?: Topic[]) => {
+    mutationFn: async (topicsFilter?: string[]) => {
       return await apiRequest('POST', '/admin/run/ingest', {
         topics: topicsFilter && topicsFilter.length > 0 ? topicsFilter : undefined,
       });
@@ -305,7 +393,7 @@ export default function AdminPage() {
               </p>
             </div>
             <div className="flex flex-wrap gap-2">
-              {topics.slice(0, 10).map(topic => (
+              {topics.slice(0, 10).map(({ slug: topic, label }) => (
                 <Badge
                   key={topic}
                   variant={selectedTopics.includes(topic) ? 'default' : 'outline'}
@@ -319,7 +407,7 @@ export default function AdminPage() {
                   }}
                   data-testid={`badge-topic-${topic}`}
                 >
-                  {topic.replace(/_/g, ' ')}
+                  {label}
                 </Badge>
               ))}
             </div>
@@ -562,6 +650,19 @@ export default function AdminPage() {
         </div>
       )}
 
+      {/* Near-Duplicate Merges */}
+      <Card className="mb-8">
+        <CardHeader>
+          <CardTitle>Near-Duplicate Merges</CardTitle>
+          <CardDescription>
+            Copies of the same story from different sources, folded into the first item stored
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <NearDuplicateReport />
+        </CardContent>
+      </Card>
+
       {/* Test Account Management */}
       <Card className="mb-8">
         <CardHeader>
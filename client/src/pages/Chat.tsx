@@ -43,6 +43,7 @@ export default function Chat() {
   const [chatMode, setChatMode] = useState<'rag' | 'hybrid' | 'general' | null>(null);
   const [selectedScope, setSelectedScope] = useState<ScopeType>('current_digest');
   const [selectedFolderId, setSelectedFolderId] = useState<string | null>(null);
+  const [selectedTopic, setSelectedTopic] = useState<string | null>(null);
   const [currentConversationId, setCurrentConversationId] = useState<string | null>(null);
   const [historySheetOpen, setHistorySheetOpen] = useState(false);
   const [limitError, setLimitError] = useState<{ 
@@ -76,6 +77,8 @@ export default function Chat() {
         scope = { type: 'saved_items' };
       } else if (selectedScope === 'folder' && selectedFolderId) {
         scope = { type: 'folder', folderId: selectedFolderId };
+      } else if (selectedScope === 'topic' && selectedTopic) {
+        scope = { type: 'topic', topic: selectedTopic };
       }
       
       // Use fetch directly to handle tier limit errors
@@ -160,6 +163,7 @@ export default function Chat() {
         } else {
           setSelectedFolderId(null);
         }
+        setSelectedTopic(conversation.scope.type === 'topic' ? conversation.scope.topic ?? null : null);
       }
       
       setCurrentConversationId(conversation.id);
@@ -195,6 +199,7 @@ export default function Chat() {
         type: selectedScope,
         ...(selectedScope === 'current_digest' && digest?.id ? { digestId: digest.id } : {}),
         ...(selectedScope === 'folder' && selectedFolderId ? { folderId: selectedFolderId } : {}),
+        ...(selectedScope === 'topic' && selectedTopic ? { topic: selectedTopic } : {}),
       };
       
       const response = await fetch('/api/chat/conversations', {
@@ -241,6 +246,9 @@ export default function Chat() {
     if (selectedScope === 'folder' && !selectedFolderId) {
       return;
     }
+    if (selectedScope === 'topic' && !selectedTopic) {
+      return;
+    }
 
     const userMessage = query.trim();
     const nextHistory: ChatMessage[] = [
@@ -352,6 +360,8 @@ export default function Chat() {
                 onScopeChange={setSelectedScope}
                 selectedFolderId={selectedFolderId}
                 onFolderChange={setSelectedFolderId}
+                selectedTopic={selectedTopic}
+                onTopicChange={setSelectedTopic}
                 userTier={userTierInfo.tier}
                 digestId={digest?.id}
               />
@@ -497,6 +507,13 @@ export default function Chat() {
                 </p>
               </div>
             )}
+            {selectedScope === 'topic' && !selectedTopic && (
+              <div className="mb-3 p-3 bg-muted/50 rounded-md border">
+                <p className="text-sm text-muted-foreground">
+                  Please select a topic from the dropdown above to search in topic scope.
+                </p>
+              </div>
+            )}
             
             <div className="flex gap-2">
               <Textarea
@@ -510,7 +527,7 @@ export default function Chat() {
               />
               <Button
                 onClick={handleSend}
-                disabled={!query.trim() || chatMutation.isPending || !digest || !!limitError || (selectedScope === 'folder' && !selectedFolderId)}
+                disabled={!query.trim() || chatMutation.isPending || !digest || !!limitError || (selectedScope === 'folder' && !selectedFolderId) || (selectedScope === 'topic' && !selectedTopic)}
                 size="icon"
                 className="shrink-0"
                 data-testid="button-send-message"
@@ -7,11 +7,12 @@ import { DigestSection } from "@/components/DigestSection";
 import { TopicFilter } from "@/components/TopicFilter";
 import { LoadingState } from "@/components/LoadingState";
 import { EmptyState } from "@/components/EmptyState";
-import type { Digest, Topic } from "@shared/schema";
+import { useCustomTopicMatches } from "@/hooks/useTopics";
+import type { Digest } from "@shared/schema";
 
 export default function DigestView() {
   const [, params] = useRoute("/digest/:slug");
-  const [selectedTopics, setSelectedTopics] = useState<Topic[]>([]);
+  const [selectedTopics, setSelectedTopics] = useState<string[]>([]);
 
   const { data: digest, isLoading, error } = useQuery<Digest>({
     queryKey: ['/api/digest', params?.slug],
@@ -43,8 +44,9 @@ export default function DigestView() {
   });
 
   const readItemIds = new Set((readStatusData as { readIds?: string[] })?.readIds || []);
+  const customTopicMatches = useCustomTopicMatches(allItemIds);
 
-  const handleTopicToggle = (topic: Topic) => {
+  const handleTopicToggle = (topic: string) => {
     setSelectedTopics(prev =>
       prev.includes(topic)
         ? prev.filter(t => t !== topic)
@@ -59,7 +61,8 @@ export default function DigestView() {
   const filterItems = (items: any[]) => {
     if (selectedTopics.length === 0) return items;
     return items.filter(item =>
-      item.topics?.some((topic: Topic) => selectedTopics.includes(topic))
+      [...(item.topics || []), ...(customTopicMatches[item.itemId] || [])]
+        .some((topic: string) => selectedTopics.includes(topic))
     );
   };
 
@@ -136,6 +139,7 @@ export default function DigestView() {
                   items={filteredSections.researchHighlights}
                   onTopicClick={handleTopicToggle}
                   readItemIds={readItemIds}
+                  digestSlug={digest.slug}
                 />
 
                 <DigestSection
@@ -144,6 +148,7 @@ export default function DigestView() {
                   items={filteredSections.communityTrends}
                   onTopicClick={handleTopicToggle}
                   readItemIds={readItemIds}
+                  digestSlug={digest.slug}
                 />
 
                 <DigestSection
@@ -152,6 +157,7 @@ export default function DigestView() {
                   items={filteredSections.expertCommentary}
                   onTopicClick={handleTopicToggle}
                   readItemIds={readItemIds}
+                  digestSlug={digest.slug}
                 />
               </>
             )}
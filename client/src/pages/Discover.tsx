@@ -6,7 +6,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Search, Plus, Check, Youtube, Podcast, MessageSquare, FileText, Loader2, Bell } from "lucide-react";
+import { Search, Plus, Check, Youtube, Podcast, MessageSquare, FileText, Loader2, Bell, Flame, AtSign, Cloud } from "lucide-react";
 import { Header } from "@/components/Header";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
@@ -16,7 +16,7 @@ interface FeedResult {
   title: string;
   url: string;
   description: string;
-  sourceType: 'youtube' | 'podcast' | 'reddit' | 'substack' | 'journal';
+  sourceType: 'youtube' | 'podcast' | 'reddit' | 'substack' | 'journal' | 'hackernews' | 'mastodon' | 'bluesky';
   category?: string;
   subscriberCount?: number;
   itemCount?: number;
@@ -28,6 +28,9 @@ const sourceTypeIcons = {
   reddit: MessageSquare,
   substack: FileText,
   journal: FileText,
+  hackernews: Flame,
+  mastodon: AtSign,
+  bluesky: Cloud,
 };
 
 const sourceTypeLabels = {
@@ -36,6 +39,9 @@ const sourceTypeLabels = {
   reddit: 'Reddit',
   substack: 'Substack',
   journal: 'Journal',
+  hackernews: 'Hacker News',
+  mastodon: 'Mastodon',
+  bluesky: 'Bluesky',
 };
 
 export default function Discover() {
@@ -177,6 +183,9 @@ export default function Discover() {
             <TabsTrigger value="podcast" data-testid="tab-podcast">Podcasts</TabsTrigger>
             <TabsTrigger value="reddit" data-testid="tab-reddit">Reddit</TabsTrigger>
             <TabsTrigger value="substack" data-testid="tab-substack">Substack</TabsTrigger>
+            <TabsTrigger value="hackernews" data-testid="tab-hackernews">Hacker News</TabsTrigger>
+            <TabsTrigger value="mastodon" data-testid="tab-mastodon">Mastodon</TabsTrigger>
+            <TabsTrigger value="bluesky" data-testid="tab-bluesky">Bluesky</TabsTrigger>
           </TabsList>
         </Tabs>
 
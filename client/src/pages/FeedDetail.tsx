@@ -7,6 +7,9 @@ import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
 import { ArrowLeft, Check, Plus, ExternalLink } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { ReputationHistory } from "@/components/ReputationHistory";
+import type { SourceReputation } from "@shared/schema";
 
 export default function FeedDetail() {
   const { id } = useParams();
@@ -18,11 +21,23 @@ export default function FeedDetail() {
     enabled: !!id,
   });
 
-  // TODO: Items preview disabled until feedId is added to items table
-  // Currently items don't have feedId reference, causing incorrect matching
-  // for feeds that share domains (Reddit, YouTube, etc.)
-  const items: any[] = [];
-  const itemsLoading = false;
+  // Fetch recent items from this feed (matched by items.feedId / item_feeds)
+  const { data: items = [], isLoading: itemsLoading } = useQuery<any[]>({
+    queryKey: ['/api/feeds', id, 'items'],
+    enabled: !!id,
+  });
+
+  // Fetch per-feed item stats
+  const { data: stats } = useQuery<{ itemCount: number; lastPublishedAt: string | null; averageScore: number | null }>({
+    queryKey: ['/api/feeds', id, 'stats'],
+    enabled: !!id,
+  });
+
+  // Fetch nightly source reputation history
+  const { data: reputationHistory = [] } = useQuery<SourceReputation[]>({
+    queryKey: ['/api/feeds', id, 'reputation'],
+    enabled: !!id,
+  });
 
   // Check if user is subscribed
   const { data: user } = useQuery<any>({ queryKey: ['/api/auth/user'] });
@@ -188,7 +203,7 @@ export default function FeedDetail() {
           {/* Quality score */}
           {feed.qualityScore !== null && feed.qualityScore !== undefined && (
             <div>
-              <p className="text-sm font-medium mb-1">Quality Score:</p>
+              <p className="text-sm font-medium mb-1">{reputationHistory.length > 0 ? 'Reputation:' : 'Quality Score:'}</p>
               <div className="flex items-center gap-2">
                 <div className="flex-1 bg-secondary rounded-full h-2 overflow-hidden">
                   <div
@@ -224,21 +239,52 @@ export default function FeedDetail() {
         </CardContent>
       </Card>
 
-      {/* Sample items - Coming Soon */}
+      {/* Reputation history */}
+      <ReputationHistory history={reputationHistory} />
+
+      {/* Sample items */}
       <Card>
         <CardHeader>
           <CardTitle>Recent Items Preview</CardTitle>
-          <CardDescription>
-            Coming soon - we're working on adding item previews
+          <CardDescription data-testid="text-feed-stats">
+            {stats && stats.itemCount > 0
+              ? `${stats.itemCount} items ingested${stats.lastPublishedAt ? ` · latest ${formatDistanceToNow(new Date(stats.lastPublishedAt), { addSuffix: true })}` : ''}${stats.averageScore !== null ? ` · avg score ${stats.averageScore}` : ''}`
+              : 'Latest items we have ingested from this feed'}
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <div className="text-center py-8 text-muted-foreground">
-            <p className="mb-2">Item previews will be available in a future update.</p>
-            <p className="text-sm">
-              Subscribe to this feed to see content in your personalized digests.
-            </p>
-          </div>
+          {itemsLoading ? (
+            <div className="space-y-3">
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+            </div>
+          ) : items.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <p className="mb-2">No items ingested from this feed yet.</p>
+              <p className="text-sm">
+                Subscribe to this feed to see content in your personalized digests.
+              </p>
+            </div>
+          ) : (
+            <ul className="space-y-3">
+              {items.map((item: any) => (
+                <li key={item.id} className="border-b last:border-0 pb-3 last:pb-0" data-testid={`item-preview-${item.id}`}>
+                  <a
+                    href={item.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="font-medium hover:underline"
+                  >
+                    {item.title}
+                  </a>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {item.authorOrChannel} · {formatDistanceToNow(new Date(item.publishedAt), { addSuffix: true })}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          )}
         </CardContent>
       </Card>
     </div>
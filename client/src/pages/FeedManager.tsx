@@ -12,7 +12,7 @@ import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, For
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-import { Loader2, Upload, Link, Search, CheckCircle, XCircle, AlertCircle, Rss } from "lucide-react";
+import { Loader2, Upload, Link, Search, CheckCircle, XCircle, AlertCircle, Rss, Mail, Copy, RefreshCw } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 
 // Form schemas
@@ -134,6 +134,41 @@ export default function FeedManager() {
     }
   });
 
+  // Inbound address for newsletters without RSS
+  const { data: inboundAddress, isLoading: isInboundAddressLoading } = useQuery<{ address: string }>({
+    queryKey: ["/api/inbound-email/address"],
+  });
+
+  const rotateAddressMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/inbound-email/address/rotate");
+      return res.json();
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["/api/inbound-email/address"], data);
+      toast({
+        title: "New Address Created",
+        description: "Mail sent to your old address will no longer be added.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to create a new address",
+      });
+    }
+  });
+
+  const copyInboundAddress = async () => {
+    if (!inboundAddress) return;
+    await navigator.clipboard.writeText(inboundAddress.address);
+    toast({
+      title: "Copied",
+      description: "Use this address when subscribing to a newsletter.",
+    });
+  };
+
   // Handle OPML file upload
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -159,7 +194,7 @@ export default function FeedManager() {
       </div>
 
       <Tabs defaultValue="submit" className="w-full">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="submit" data-testid="tab-submit">
             <Link className="w-4 h-4 mr-2" />
             Submit Feed
@@ -172,6 +207,10 @@ export default function FeedManager() {
             <Search className="w-4 h-4 mr-2" />
             Discover
           </TabsTrigger>
+          <TabsTrigger value="newsletters" data-testid="tab-newsletters">
+            <Mail className="w-4 h-4 mr-2" />
+            Newsletters
+          </TabsTrigger>
         </TabsList>
 
         {/* Manual Feed Submission */}
@@ -444,6 +483,61 @@ export default function FeedManager() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        {/* Email Newsletters */}
+        <TabsContent value="newsletters">
+          <Card>
+            <CardHeader>
+              <CardTitle>Email Newsletters</CardTitle>
+              <CardDescription>
+                Subscribe to newsletters that have no RSS feed with your private address. Each sender becomes a feed in your subscriptions.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {isInboundAddressLoading ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : inboundAddress ? (
+                <div className="flex gap-2">
+                  <Input
+                    readOnly
+                    value={inboundAddress.address}
+                    className="font-mono"
+                    data-testid="input-inbound-address"
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={copyInboundAddress}
+                    data-testid="button-copy-inbound-address"
+                  >
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+              ) : null}
+
+              <Alert>
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle>Keep this address private</AlertTitle>
+                <AlertDescription>
+                  Anyone with the address can add items to your feed. If it leaks, create a new one and update your newsletter subscriptions.
+                </AlertDescription>
+              </Alert>
+
+              <Button
+                variant="outline"
+                onClick={() => rotateAddressMutation.mutate()}
+                disabled={rotateAddressMutation.isPending || !inboundAddress}
+                data-testid="button-rotate-inbound-address"
+              >
+                {rotateAddressMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                )}
+                Create New Address
+              </Button>
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -17,16 +17,17 @@ import { Header } from "@/components/Header";
 import { DigestHeader } from "@/components/DigestHeader";
 import { DigestSection } from "@/components/DigestSection";
 import { TopicFilter } from "@/components/TopicFilter";
+import { useCustomTopicMatches } from "@/hooks/useTopics";
 import { SourceTypeFilter } from "@/components/SourceTypeFilter";
 import { SortSelector, type SortOption } from "@/components/SortSelector";
 import { LoadingState } from "@/components/LoadingState";
 import { EmptyState } from "@/components/EmptyState";
 import { LandingPage } from "@/components/LandingPage";
-import type { Digest, Topic, SourceType, UserPreferences } from "@shared/schema";
+import type { Digest, SourceType, UserPreferences } from "@shared/schema";
 
 export default function Home() {
   const [, navigate] = useLocation();
-  const [selectedTopics, setSelectedTopics] = useState<Topic[]>([]);
+  const [selectedTopics, setSelectedTopics] = useState<string[]>([]);
   const [selectedSourceTypes, setSelectedSourceTypes] = useState<SourceType[]>([]);
   const [showReadFilter, setShowReadFilter] = useState<'all' | 'unread' | 'read'>('all');
   const [sortOption, setSortOption] = useState<SortOption>('quality-desc');
@@ -70,6 +71,7 @@ export default function Home() {
   });
 
   const readItemIds = new Set((readStatusData as { readIds?: string[] })?.readIds || []);
+  const customTopicMatches = useCustomTopicMatches(allItemIds);
 
   // Async digest refresh with polling
   const [jobId, setJobId] = useState<string | null>(null);
@@ -259,7 +261,7 @@ export default function Home() {
     return <LandingPage />;
   }
 
-  const handleTopicToggle = (topic: Topic) => {
+  const handleTopicToggle = (topic: string) => {
     setSelectedTopics(prev =>
       prev.includes(topic)
         ? prev.filter(t => t !== topic)
@@ -290,7 +292,8 @@ export default function Home() {
     // Filter by topic
     if (selectedTopics.length > 0) {
       filtered = filtered.filter(item =>
-        item.topics?.some((topic: Topic) => selectedTopics.includes(topic))
+        [...(item.topics || []), ...(customTopicMatches[item.itemId] || [])]
+          .some((topic: string) => selectedTopics.includes(topic))
       );
     }
 
@@ -532,6 +535,7 @@ export default function Home() {
                   categorySummary={(digest.sections as any)?.researchHighlightsSummary}
                   onTopicClick={handleTopicToggle}
                   readItemIds={readItemIds}
+                  digestSlug={digest.slug}
                 />
 
                 <DigestSection
@@ -541,6 +545,7 @@ export default function Home() {
                   categorySummary={(digest.sections as any)?.communityTrendsSummary}
                   onTopicClick={handleTopicToggle}
                   readItemIds={readItemIds}
+                  digestSlug={digest.slug}
                 />
 
                 <DigestSection
@@ -550,6 +555,7 @@ export default function Home() {
                   categorySummary={(digest.sections as any)?.expertCommentarySummary}
                   onTopicClick={handleTopicToggle}
                   readItemIds={readItemIds}
+                  digestSlug={digest.slug}
                 />
               </>
             )}
@@ -7,128 +7,23 @@ import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { Progress } from "@/components/ui/progress";
-import { Sparkles, Rss, CheckCircle, ArrowRight, BookOpen, Mail, Video, MessageCircle, Mic } from "lucide-react";
+import { Sparkles, Rss, CheckCircle, ArrowRight, BookOpen, Mail, Video, MessageCircle, Mic, Flame, AtSign, Cloud } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useTopics } from "@/hooks/useTopics";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import type { Topic, SourceType } from "@shared/schema";
 import logoImage from "@assets/brandkit-template-663-2025-11-04_1762296047785.png";
 import ReCAPTCHA from "react-google-recaptcha";
 
-interface CategoryGroup {
-  category: string;
-  description: string;
-  subtopics: { value: Topic; label: string }[];
-}
-
-const TOPIC_CATEGORIES: CategoryGroup[] = [
-  {
-    category: "Health & Wellness",
-    description: "Physical and mental health optimization",
-    subtopics: [
-      { value: "metabolic", label: "Metabolic Health" },
-      { value: "longevity", label: "Longevity" },
-      { value: "nutrition_science", label: "Nutrition Science" },
-      { value: "fitness_recovery", label: "Fitness & Recovery" },
-      { value: "sleep_optimization", label: "Sleep Optimization" },
-      { value: "mindfulness", label: "Mindfulness" },
-      { value: "mental_health", label: "Mental Health" },
-      { value: "hormone_optimization", label: "Hormones & Metabolism" },
-      { value: "supplementation", label: "Supplementation" },
-      { value: "preventive_medicine", label: "Preventive Medicine" },
-    ],
-  },
-  {
-    category: "Science & Nature",
-    description: "Scientific discoveries and natural phenomena",
-    subtopics: [
-      { value: "neuroscience", label: "Neuroscience" },
-      { value: "psychology", label: "Psychology" },
-      { value: "genetics", label: "Genetics" },
-      { value: "space_exploration", label: "Space Exploration" },
-      { value: "physics", label: "Physics" },
-      { value: "biology", label: "Biology" },
-      { value: "ecology", label: "Ecology" },
-      { value: "chemistry", label: "Chemistry" },
-      { value: "cognitive_science", label: "Cognitive Science" },
-    ],
-  },
-  {
-    category: "Technology & AI",
-    description: "Emerging tech and digital innovation",
-    subtopics: [
-      { value: "artificial_intelligence", label: "Artificial Intelligence" },
-      { value: "machine_learning", label: "Machine Learning" },
-      { value: "automation", label: "Automation" },
-      { value: "robotics", label: "Robotics" },
-      { value: "data_science", label: "Data Science" },
-      { value: "cybersecurity", label: "Cybersecurity" },
-      { value: "software_development", label: "Software Development" },
-      { value: "tech_policy", label: "Tech Policy" },
-      { value: "emerging_tech", label: "Emerging Tech" },
-    ],
-  },
-  {
-    category: "Productivity & Self-Improvement",
-    description: "Personal growth and effectiveness",
-    subtopics: [
-      { value: "focus_flow", label: "Focus & Flow" },
-      { value: "habit_building", label: "Habit Building" },
-      { value: "learning_techniques", label: "Learning Techniques" },
-      { value: "time_management", label: "Time Management" },
-      { value: "stoicism", label: "Stoicism" },
-      { value: "motivation", label: "Motivation" },
-      { value: "journaling", label: "Journaling" },
-      { value: "decision_making", label: "Decision-Making" },
-      { value: "systems_thinking", label: "Systems Thinking" },
-    ],
-  },
-  {
-    category: "Finance & Business",
-    description: "Money, markets, and entrepreneurship",
-    subtopics: [
-      { value: "investing", label: "Investing" },
-      { value: "personal_finance", label: "Personal Finance" },
-      { value: "startups", label: "Startups" },
-      { value: "entrepreneurship", label: "Entrepreneurship" },
-      { value: "economics", label: "Economics" },
-      { value: "real_estate", label: "Real Estate" },
-      { value: "crypto_web3", label: "Crypto/Web3" },
-      { value: "marketing", label: "Marketing" },
-      { value: "productivity_founders", label: "Productivity for Founders" },
-    ],
-  },
-  {
-    category: "Society & Culture",
-    description: "Social systems and cultural trends",
-    subtopics: [
-      { value: "politics", label: "Politics" },
-      { value: "ethics", label: "Ethics" },
-      { value: "media_studies", label: "Media Studies" },
-      { value: "philosophy", label: "Philosophy" },
-      { value: "education_reform", label: "Education Reform" },
-      { value: "gender_identity", label: "Gender & Identity" },
-      { value: "sociology", label: "Sociology" },
-      { value: "global_affairs", label: "Global Affairs" },
-      { value: "history", label: "History" },
-    ],
-  },
-];
-
-// Helper function to get topic label from value
-const getTopicLabel = (topicValue: Topic): string => {
-  for (const category of TOPIC_CATEGORIES) {
-    const subtopic = category.subtopics.find((st) => st.value === topicValue);
-    if (subtopic) return subtopic.label;
-  }
-  return topicValue;
-};
-
 const SOURCE_TYPES: { value: SourceType; label: string; description: string; Icon: typeof BookOpen }[] = [
   { value: "journal", label: "Academic Journals", description: "Peer-reviewed research papers", Icon: BookOpen },
   { value: "substack", label: "Substacks", description: "Independent newsletters and analysis", Icon: Mail },
   { value: "youtube", label: "YouTube", description: "Video content and talks", Icon: Video },
   { value: "reddit", label: "Reddit", description: "Community discussions and threads", Icon: MessageCircle },
   { value: "podcast", label: "Podcasts", description: "Audio interviews and shows", Icon: Mic },
+  { value: "hackernews", label: "Hacker News", description: "Tech stories and comment threads", Icon: Flame },
+  { value: "mastodon", label: "Mastodon", description: "Hashtags and accounts on the fediverse", Icon: AtSign },
+  { value: "bluesky", label: "Bluesky", description: "Accounts and custom feeds", Icon: Cloud },
 ];
 
 export default function Onboarding() {
@@ -136,6 +31,7 @@ export default function Onboarding() {
   const { toast } = useToast();
   const [currentStep, setCurrentStep] = useState(1);
   const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
+  const { categories, getTopicLabel } = useTopics();
   const [selectedTopics, setSelectedTopics] = useState<Topic[]>([]);
   const [selectedSourceTypes, setSelectedSourceTypes] = useState<SourceType[]>([]);
   const [subscribedFeeds, setSubscribedFeeds] = useState<string[]>([]);
@@ -390,25 +286,25 @@ export default function Onboarding() {
             <CardContent className="space-y-6">
               {/* Category Selection */}
               <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                {TOPIC_CATEGORIES.map((category) => (
+                {categories.map((category) => (
                   <div
-                    key={category.category}
+                    key={category.slug}
                     className={`p-4 rounded-md border cursor-pointer transition-colors ${
-                      selectedCategories.includes(category.category)
+                      selectedCategories.includes(category.slug)
                         ? "bg-primary/10 border-primary"
                         : "hover-elevate"
                     }`}
-                    data-testid={`category-${category.category.toLowerCase().replace(/\s+/g, "-")}`}
+                    data-testid={`category-${category.label.toLowerCase().replace(/\s+/g, "-")}`}
                   >
                     <div className="flex items-start gap-3">
                       <Checkbox
-                        checked={selectedCategories.includes(category.category)}
-                        onCheckedChange={() => handleCategoryToggle(category.category)}
-                        data-testid={`checkbox-category-${category.category.toLowerCase().replace(/\s+/g, "-")}`}
+                        checked={selectedCategories.includes(category.slug)}
+                        onCheckedChange={() => handleCategoryToggle(category.slug)}
+                        data-testid={`checkbox-category-${category.label.toLowerCase().replace(/\s+/g, "-")}`}
                       />
                       <div className="flex-1">
-                        <h4 className="font-medium" data-testid={`category-name-${category.category.toLowerCase().replace(/\s+/g, "-")}`}>
-                          {category.category}
+                        <h4 className="font-medium" data-testid={`category-name-${category.label.toLowerCase().replace(/\s+/g, "-")}`}>
+                          {category.label}
                         </h4>
                         <p className="text-xs text-muted-foreground mt-1">
                           {category.description}
@@ -442,20 +338,20 @@ export default function Onboarding() {
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
-              {TOPIC_CATEGORIES.filter((cat) => selectedCategories.includes(cat.category)).map(
+              {categories.filter((cat) => selectedCategories.includes(cat.slug)).map(
                 (category) => (
-                  <div key={category.category} className="space-y-2">
-                    <h4 className="text-sm font-medium text-muted-foreground" data-testid={`subtopics-header-${category.category.toLowerCase().replace(/\s+/g, "-")}`}>
-                      {category.category}
+                  <div key={category.slug} className="space-y-2">
+                    <h4 className="text-sm font-medium text-muted-foreground" data-testid={`subtopics-header-${category.label.toLowerCase().replace(/\s+/g, "-")}`}>
+                      {category.label}
                     </h4>
                     <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
-                      {category.subtopics.map((subtopic) => (
+                      {category.children.map((subtopic) => (
                         <Badge
-                          key={subtopic.value}
-                          variant={selectedTopics.includes(subtopic.value) ? "default" : "outline"}
+                          key={subtopic.slug}
+                          variant={selectedTopics.includes(subtopic.slug as Topic) ? "default" : "outline"}
                           className="cursor-pointer justify-center py-2 hover-elevate"
-                          onClick={() => handleTopicToggle(subtopic.value)}
-                          data-testid={`subtopic-${subtopic.value}`}
+                          onClick={() => handleTopicToggle(subtopic.slug as Topic)}
+                          data-testid={`subtopic-${subtopic.slug}`}
                         >
                           {subtopic.label}
                         </Badge>
@@ -5,149 +5,14 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
-import { topics, sourceTypes } from "@shared/schema";
-import type { Topic, SourceType, UserPreferences } from "@shared/schema";
+import { useTopics } from "@/hooks/useTopics";
+import { CustomTopicManager } from "@/components/CustomTopicManager";
+import type { SourceType, UserPreferences } from "@shared/schema";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import { Check, BookOpen, Mail, Video, MessageCircle, Mic } from "lucide-react";
-
-// Comprehensive topic labels matching all 114 topics
-const TOPIC_LABELS: Record<Topic, string> = {
-  // Health & Wellness
-  metabolic: "Metabolic Health",
-  chronic_fatigue: "Chronic Fatigue",
-  chronic_EBV: "Chronic EBV",
-  autoimmune: "Autoimmune",
-  leaky_gut: "Leaky Gut",
-  carnivore: "Carnivore Diet",
-  keto: "Keto Diet",
-  IV_therapy: "IV Therapy",
-  HRT: "HRT",
-  TRT: "TRT",
-  mold_CIRS: "Mold/CIRS",
-  weight_loss: "Weight Loss",
-  PANS_PANDAS: "PANS/PANDAS",
-  insulin_resistance: "Insulin Resistance",
-  gut_health: "Gut Health",
-  hormone_optimization: "Hormone Optimization",
-  biohacking: "Biohacking",
-  mitochondrial_health: "Mitochondrial Health",
-  thyroid_health: "Thyroid Health",
-  adrenal_fatigue: "Adrenal Fatigue",
-  brain_fog: "Brain Fog",
-  inflammation: "Inflammation",
-  SIBO: "SIBO",
-  candida: "Candida",
-  histamine_DAO: "Histamine/DAO",
-  NAD_therapy: "NAD+ Therapy",
-  ozone_therapy: "Ozone Therapy",
-  red_light_therapy: "Red Light Therapy",
-  cold_exposure: "Cold Exposure",
-  sauna_therapy: "Sauna Therapy",
-  fasting: "Fasting",
-  autophagy: "Autophagy",
-  longevity: "Longevity",
-  nutrition_science: "Nutrition Science",
-  fitness_recovery: "Fitness & Recovery",
-  sleep_optimization: "Sleep Optimization",
-  mindfulness: "Mindfulness",
-  mental_health: "Mental Health",
-  preventive_medicine: "Preventive Medicine",
-  supplementation: "Supplementation",
-  
-  // Science & Nature
-  neuroscience: "Neuroscience",
-  psychology: "Psychology",
-  genetics: "Genetics",
-  space_exploration: "Space Exploration",
-  physics: "Physics",
-  biology: "Biology",
-  ecology: "Ecology",
-  chemistry: "Chemistry",
-  cognitive_science: "Cognitive Science",
-  
-  // Technology & AI
-  artificial_intelligence: "Artificial Intelligence",
-  machine_learning: "Machine Learning",
-  automation: "Automation",
-  robotics: "Robotics",
-  data_science: "Data Science",
-  cybersecurity: "Cybersecurity",
-  software_development: "Software Development",
-  tech_policy: "Tech Policy",
-  emerging_tech: "Emerging Tech",
-  
-  // Productivity & Self-Improvement
-  focus_flow: "Focus & Flow",
-  habit_building: "Habit Building",
-  learning_techniques: "Learning Techniques",
-  time_management: "Time Management",
-  stoicism: "Stoicism",
-  motivation: "Motivation",
-  journaling: "Journaling",
-  decision_making: "Decision-Making",
-  systems_thinking: "Systems Thinking",
-  
-  // Finance & Business
-  investing: "Investing",
-  personal_finance: "Personal Finance",
-  startups: "Startups",
-  entrepreneurship: "Entrepreneurship",
-  economics: "Economics",
-  real_estate: "Real Estate",
-  crypto_web3: "Crypto/Web3",
-  marketing: "Marketing",
-  productivity_founders: "Productivity for Founders",
-  
-  // Society & Culture
-  politics: "Politics",
-  ethics: "Ethics",
-  media_studies: "Media Studies",
-  philosophy: "Philosophy",
-  education_reform: "Education Reform",
-  gender_identity: "Gender & Identity",
-  sociology: "Sociology",
-  global_affairs: "Global Affairs",
-  history: "History",
-  
-  // Environment & Sustainability
-  climate_change: "Climate Change",
-  renewable_energy: "Renewable Energy",
-  agriculture_food_systems: "Agriculture & Food Systems",
-  conservation: "Conservation",
-  environmental_policy: "Environmental Policy",
-  urban_design: "Urban Design",
-  sustainable_living: "Sustainable Living",
-  
-  // Creativity & Media
-  writing: "Writing",
-  art_design: "Art & Design",
-  storytelling: "Storytelling",
-  film_tv: "Film & TV",
-  music: "Music",
-  photography: "Photography",
-  branding: "Branding",
-  digital_creation: "Digital Creation",
-  creative_process: "Creative Process",
-  
-  // Education & Learning
-  teaching: "Teaching",
-  online_learning: "Online Learning",
-  skill_development: "Skill Development",
-  learning_technology: "Learning Technology",
-  critical_thinking: "Critical Thinking",
-  memory_optimization: "Memory Optimization",
-  
-  // Lifestyle & Travel
-  minimalism: "Minimalism",
-  relationships: "Relationships",
-  parenting: "Parenting",
-  adventure_travel: "Adventure Travel",
-  outdoor_life: "Outdoor Life",
-  work_life_balance: "Work-Life Balance",
-  home_design: "Home Design",
-  spirituality: "Spirituality",
-};
+import { Check, BookOpen, Mail, Video, MessageCircle, Mic, Flame, AtSign, Cloud } from "lucide-react";
 
 const SOURCE_TYPE_OPTIONS = [
   { value: "journal" as SourceType, label: "Academic Journals", description: "Peer-reviewed research", Icon: BookOpen },
@@ -155,13 +20,18 @@ const SOURCE_TYPE_OPTIONS = [
   { value: "youtube" as SourceType, label: "YouTube", description: "Video content", Icon: Video },
   { value: "reddit" as SourceType, label: "Reddit", description: "Community discussions", Icon: MessageCircle },
   { value: "podcast" as SourceType, label: "Podcasts", description: "Audio shows", Icon: Mic },
+  { value: "hackernews" as SourceType, label: "Hacker News", description: "Tech discussions", Icon: Flame },
+  { value: "mastodon" as SourceType, label: "Mastodon", description: "Fediverse posts", Icon: AtSign },
+  { value: "bluesky" as SourceType, label: "Bluesky", description: "Bluesky posts", Icon: Cloud },
 ];
 
 export default function Preferences() {
   const { user, isAuthenticated, isLoading: authLoading } = useAuth();
   const { toast } = useToast();
-  const [selectedTopics, setSelectedTopics] = useState<Topic[]>([]);
+  const [selectedTopics, setSelectedTopics] = useState<string[]>([]);
   const [selectedSourceTypes, setSelectedSourceTypes] = useState<SourceType[]>([]);
+  const [personalizedRanking, setPersonalizedRanking] = useState(true);
+  const { categories } = useTopics();
 
   const { data: preferences, isLoading: prefsLoading } = useQuery<UserPreferences>({
     queryKey: ["/api/preferences"],
@@ -175,6 +45,9 @@ export default function Preferences() {
     if (preferences?.preferredSourceTypes) {
       setSelectedSourceTypes(preferences.preferredSourceTypes);
     }
+    if (preferences) {
+      setPersonalizedRanking(preferences.personalizedRanking ?? true);
+    }
   }, [preferences]);
 
   const updatePreferencesMutation = useMutation({
@@ -182,6 +55,7 @@ export default function Preferences() {
       return await apiRequest("PUT", "/api/preferences", { 
         favoriteTopics: selectedTopics,
         preferredSourceTypes: selectedSourceTypes,
+        personalizedRanking,
       });
     },
     onSuccess: () => {
@@ -200,7 +74,7 @@ export default function Preferences() {
     },
   });
 
-  const toggleTopic = (topic: Topic) => {
+  const toggleTopic = (topic: string) => {
     setSelectedTopics(prev =>
       prev.includes(topic)
         ? prev.filter(t => t !== topic)
@@ -329,22 +203,27 @@ export default function Preferences() {
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-6">
-            <div className="flex flex-wrap gap-2">
-              {topics.map((topic) => (
-                <Badge
-                  key={topic}
-                  variant={selectedTopics.includes(topic) ? "default" : "outline"}
-                  className="cursor-pointer hover-elevate active-elevate-2 px-3 py-1.5"
-                  onClick={() => toggleTopic(topic)}
-                  data-testid={`badge-topic-${topic}`}
-                >
-                  {selectedTopics.includes(topic) && (
-                    <Check className="w-3 h-3 mr-1" />
-                  )}
-                  {TOPIC_LABELS[topic]}
-                </Badge>
-              ))}
-            </div>
+            {categories.map((category) => (
+              <div key={category.slug} className="space-y-2" data-testid={`topic-category-${category.slug}`}>
+                <h4 className="text-sm font-medium text-muted-foreground">{category.label}</h4>
+                <div className="flex flex-wrap gap-2">
+                  {category.children.map(({ slug, label }) => (
+                    <Badge
+                      key={slug}
+                      variant={selectedTopics.includes(slug) ? "default" : "outline"}
+                      className="cursor-pointer hover-elevate active-elevate-2 px-3 py-1.5"
+                      onClick={() => toggleTopic(slug)}
+                      data-testid={`badge-topic-${slug}`}
+                    >
+                      {selectedTopics.includes(slug) && (
+                        <Check className="w-3 h-3 mr-1" />
+                      )}
+                      {label}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            ))}
 
             <p className="text-sm text-muted-foreground">
               {selectedTopics.length} topic{selectedTopics.length !== 1 ? 's' : ''} selected
@@ -352,6 +231,31 @@ export default function Preferences() {
           </CardContent>
         </Card>
 
+        <CustomTopicManager selectedTopics={selectedTopics} onTopicToggle={toggleTopic} />
+
+        {/* Personalized Ranking Section */}
+        <Card data-testid="card-personalized-ranking">
+          <CardHeader>
+            <CardTitle>Personalized Ranking</CardTitle>
+            <CardDescription>
+              Order your digests by what you read, save, file and rate, learned overnight. Turn it off to see the same ranking as everyone else.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-center gap-3">
+              <Switch
+                id="personalized-ranking"
+                checked={personalizedRanking}
+                onCheckedChange={setPersonalizedRanking}
+                data-testid="switch-personalized-ranking"
+              />
+              <Label htmlFor="personalized-ranking">
+                {personalizedRanking ? "Personalized" : "Global ranking"}
+              </Label>
+            </div>
+          </CardContent>
+        </Card>
+
         {/* Save Button */}
         <div className="flex justify-end">
           <Button
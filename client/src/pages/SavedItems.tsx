@@ -5,7 +5,7 @@ import { ItemCard } from "@/components/ItemCard";
 import { SortSelector, type SortOption } from "@/components/SortSelector";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import type { Item } from "@shared/schema";
+import type { Item, ItemRevision } from "@shared/schema";
 
 export default function SavedItems() {
   const [sortOption, setSortOption] = useState<SortOption>('quality-desc');
@@ -16,6 +16,11 @@ export default function SavedItems() {
     enabled: isAuthenticated,
   });
 
+  const { data: updates = {} } = useQuery<Record<string, ItemRevision[]>>({
+    queryKey: ["/api/saved-items/updates"],
+    enabled: isAuthenticated,
+  });
+
   if (authLoading || itemsLoading) {
     return (
       <div className="max-w-7xl mx-auto px-6 py-8">
@@ -128,6 +133,7 @@ export default function SavedItems() {
                 scoreBreakdown: item.scoreBreakdown as any,
               }}
               isSaved={true}
+              updatesSinceSaved={updates[item.id]}
             />
           ))}
         </div>
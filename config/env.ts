@@ -30,6 +30,39 @@ export interface EnvConfig {
   proDigestFreq: 'weekly' | 'daily';
   proRealtimeOptIn: boolean;
 
+  // Feed polling bounds (minutes) - adaptive scheduler clamps each feed's interval
+  freeMinPollMinutes: number;
+  freeMaxPollMinutes: number;
+  premiumMinPollMinutes: number;
+  premiumMaxPollMinutes: number;
+  proMinPollMinutes: number;
+  proMaxPollMinutes: number;
+
+  // WebSub push subscriptions
+  publicBaseUrl: string; // Externally reachable origin for hub callbacks
+  websubEnabled: boolean;
+  websubSecret: string | undefined; // Per-feed HMAC secrets are derived from this
+  websubLeaseSeconds: number;
+  websubLocalHub: boolean; // Mount the in-process hub stand-in at /websub-hub
+
+  // Inbound email (newsletters)
+  inboundEmailDomain: string | undefined; // Addresses are u-<token>@<domain>
+  inboundEmailSecret: string | undefined; // Shared secret the mail provider's webhook must present
+
+  // Full-article extraction for truncated feeds
+  articleExtractionEnabled: boolean;
+  articleHostIntervalMs: number; // Minimum gap between page requests to one host
+
+  // Near-duplicate detection across sources
+  nearDuplicateEnabled: boolean;
+  nearDuplicateMinSimilarity: number; // % of title + excerpt two items must share to count as copies
+  nearDuplicateWindowDays: number; // How far back to look for the canonical copy
+  nearDuplicateMinTokens: number; // Shorter title + excerpt texts are not fingerprinted
+
+  // Topic tagging
+  topicEmbeddingFallback: boolean; // Embed items no keyword or feed topic matched and compare them with topic descriptions
+  topicEmbeddingMinSimilarity: number; // Cosine similarity (%) a topic description needs to be assigned
+
   // Token caps
   msgInputTokensMax: number;
   msgOutputTokensMax: number;
@@ -95,6 +128,39 @@ export const env: EnvConfig = {
   proDigestFreq: (process.env.PRO_DIGEST_FREQ as 'weekly' | 'daily') || 'daily',
   proRealtimeOptIn: parseBoolean(process.env.PRO_REALTIME_OPT_IN, true),
 
+  // Feed polling bounds
+  freeMinPollMinutes: parseNumber(process.env.FREE_MIN_POLL_MINUTES, 360),
+  freeMaxPollMinutes: parseNumber(process.env.FREE_MAX_POLL_MINUTES, 2880),
+  premiumMinPollMinutes: parseNumber(process.env.PREMIUM_MIN_POLL_MINUTES, 60),
+  premiumMaxPollMinutes: parseNumber(process.env.PREMIUM_MAX_POLL_MINUTES, 1440),
+  proMinPollMinutes: parseNumber(process.env.PRO_MIN_POLL_MINUTES, 15),
+  proMaxPollMinutes: parseNumber(process.env.PRO_MAX_POLL_MINUTES, 720),
+
+  // WebSub
+  publicBaseUrl: process.env.PUBLIC_BASE_URL || process.env.REPLIT_DEV_DOMAIN || 'http://localhost:5000',
+  websubEnabled: parseBoolean(process.env.WEBSUB_ENABLED, true),
+  websubSecret: process.env.WEBSUB_SECRET || process.env.SESSION_SECRET,
+  websubLeaseSeconds: parseNumber(process.env.WEBSUB_LEASE_SECONDS, 864000), // 10 days
+  websubLocalHub: parseBoolean(process.env.WEBSUB_LOCAL_HUB, false),
+
+  // Inbound email
+  inboundEmailDomain: process.env.INBOUND_EMAIL_DOMAIN,
+  inboundEmailSecret: process.env.INBOUND_EMAIL_SECRET,
+
+  // Article extraction
+  articleExtractionEnabled: parseBoolean(process.env.ARTICLE_EXTRACTION_ENABLED, true),
+  articleHostIntervalMs: parseNumber(process.env.ARTICLE_HOST_INTERVAL_MS, 2000),
+
+  // Near-duplicate detection
+  nearDuplicateEnabled: parseBoolean(process.env.NEAR_DUPLICATE_ENABLED, true),
+  nearDuplicateMinSimilarity: parseNumber(process.env.NEAR_DUPLICATE_MIN_SIMILARITY, 50),
+  nearDuplicateWindowDays: parseNumber(process.env.NEAR_DUPLICATE_WINDOW_DAYS, 14),
+  nearDuplicateMinTokens: parseNumber(process.env.NEAR_DUPLICATE_MIN_TOKENS, 20),
+
+  // Topic tagging
+  topicEmbeddingFallback: parseBoolean(process.env.TOPIC_EMBEDDING_FALLBACK, false),
+  topicEmbeddingMinSimilarity: parseNumber(process.env.TOPIC_EMBEDDING_MIN_SIMILARITY, 30),
+
   // Token caps
   msgInputTokensMax: parseNumber(process.env.MSG_INPUT_TOKENS_MAX, 2000),
   msgOutputTokensMax: parseNumber(process.env.MSG_OUTPUT_TOKENS_MAX, 500),
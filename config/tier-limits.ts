@@ -13,6 +13,8 @@ export interface TierLimits {
   rpm: number; // Requests per minute
   maxDigestItems: number;
   realtimeOptIn?: boolean;
+  minPollMinutes: number; // Fastest a subscribed feed may be polled
+  maxPollMinutes: number; // Slowest a subscribed feed may be polled
   analytics: boolean;
   exportFormats: string[];
 }
@@ -24,6 +26,8 @@ export const tierLimits: Record<SubscriptionTier, TierLimits> = {
     dailyChatMessages: env.freeDailyChat,
     rpm: env.freeRPM,
     maxDigestItems: env.freeItemsPerDigest,
+    minPollMinutes: env.freeMinPollMinutes,
+    maxPollMinutes: env.freeMaxPollMinutes,
     analytics: false,
     exportFormats: ['json'],
   },
@@ -33,6 +37,8 @@ export const tierLimits: Record<SubscriptionTier, TierLimits> = {
     dailyChatMessages: env.premiumDailyChat,
     rpm: env.premiumRPM,
     maxDigestItems: env.premiumItemsPerDigest,
+    minPollMinutes: env.premiumMinPollMinutes,
+    maxPollMinutes: env.premiumMaxPollMinutes,
     analytics: false,
     exportFormats: ['json', 'markdown'],
   },
@@ -42,6 +48,8 @@ export const tierLimits: Record<SubscriptionTier, TierLimits> = {
     dailyChatMessages: env.proDailyChat,
     rpm: env.proRPM,
     maxDigestItems: env.proItemsPerDigest,
+    minPollMinutes: env.proMinPollMinutes,
+    maxPollMinutes: env.proMaxPollMinutes,
     realtimeOptIn: env.proRealtimeOptIn,
     analytics: true,
     exportFormats: ['json', 'markdown', 'rss'],
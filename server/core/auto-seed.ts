@@ -1,5 +1,7 @@
 import { db } from "../db";
-import { feedCatalog } from "../../shared/schema";
+import { feedCatalog, taxonomyTopics } from "../../shared/schema";
+import type { Topic } from "../../shared/schema";
+import { topicDefinitions } from "./topics";
 import { eq } from "drizzle-orm";
 import fs from "fs";
 import path from "path";
@@ -74,3 +76,47 @@ export async function autoSeedFeedCatalog(): Promise<void> {
     // Don't crash the app - just log the error
   }
 }
+
+/**
+ * Insert built-in categories and topics that aren't in the table yet. Rows
+ * already present are never touched, so admin edits survive restarts.
+ */
+export async function autoSeedTopicTaxonomy(): Promise<void> {
+  try {
+    const seedPath = path.join(process.cwd(), "server/seeds/topic-taxonomy.json");
+    if (!fs.existsSync(seedPath)) {
+      console.warn("⚠️  Topic taxonomy seed not found at:", seedPath);
+      return;
+    }
+
+    const seed: {
+      categories: Array<{ slug: string; label: string; description: string; topics: Array<{ slug: string; label: string }> }>;
+    } = JSON.parse(fs.readFileSync(seedPath, "utf-8"));
+
+    const rows = seed.categories.flatMap((category, categoryIndex) => [
+      { slug: category.slug, label: category.label, description: category.description, parentSlug: null, sortOrder: categoryIndex },
+      ...category.topics.map((topic, topicIndex) => ({
+        slug: topic.slug,
+        label: topic.label,
+        description: topicDefinitions[topic.slug as Topic]?.description ?? null,
+        parentSlug: category.slug,
+        sortOrder: topicIndex,
+      })),
+    ]);
+
+    // Categories first so parent links resolve
+    const inserted = await db
+      .insert(taxonomyTopics)
+      .values(rows)
+      .onConflictDoNothing()
+      .returning({ slug: taxonomyTopics.slug });
+
+    if (inserted.length > 0) {
+      console.log(`🌱 Seeded ${inserted.length} taxonomy topics`);
+    } else {
+      console.log(`✓ Topic taxonomy already populated`);
+    }
+  } catch (error: any) {
+    console.error(`❌ Topic taxonomy seeding failed: ${error.message}`);
+  }
+}
@@ -43,6 +43,30 @@ export function normalizeUrl(url: string): string | null {
   }
 }
 
+/**
+ * Spellings under which a URL may have been stored (scheme, www prefix,
+ * trailing slash, tracking params), for exact-match lookups against items.url
+ */
+export function urlVariants(url: string): string[] {
+  const variants = new Set<string>([url]);
+  const normalized = normalizeUrl(url);
+  if (!normalized) return Array.from(variants);
+
+  const parsed = new URL(normalized);
+  const host = parsed.hostname.replace(/^www\./, '');
+  const rest = `${parsed.pathname}${parsed.search}`;
+
+  for (const protocol of ['https:', 'http:']) {
+    for (const prefix of ['', 'www.']) {
+      const base = `${protocol}//${prefix}${host}${parsed.port ? `:${parsed.port}` : ''}${rest}`;
+      variants.add(base);
+      if (!parsed.search && parsed.pathname !== '/') variants.add(`${base}/`);
+    }
+  }
+
+  return Array.from(variants);
+}
+
 /**
  * Extract DOI from various formats
  * - Direct DOI: 10.1234/example
@@ -116,29 +140,49 @@ export function canonicalize(url: string, title: string, excerpt: string, source
   };
 }
 
+export interface ContentReference {
+  canonicalId: string;
+  doi: string | null;
+  url: string | null; // Normalized
+}
+
+const MAX_REFERENCES = 10;
+
 /**
- * Check if this item references another canonical item
- * Used to determine if we should create a related_ref or a new primary item
+ * DOIs and links cited in an item's text, in order of appearance, without repeats
  */
-export function extractReferencedCanonicalId(url: string, title: string, excerpt: string): string | null {
-  // Check if content contains a DOI reference
-  const doi = extractDoi(`${title} ${excerpt}`);
-  if (doi) {
-    return `doi:${doi}`;
-  }
-  
-  // Check if content contains URLs that should be canonical
-  const urlPattern = /(https?:\/\/[^\s<>"]+)/gi;
-  const urls = `${title} ${excerpt}`.match(urlPattern);
-  
-  if (urls && urls.length > 0) {
-    // Return the first normalized URL as potential canonical reference
-    const normalized = normalizeUrl(urls[0]);
+export function extractReferences(title: string, text: string): ContentReference[] {
+  const references = new Map<string, ContentReference>();
+
+  for (const token of `${title} ${text}`.split(/\s+/)) {
+    if (references.size >= MAX_REFERENCES) break;
+
+    const doi = extractDoi(token)?.replace(/[)\]}>"'.,;:!?]+$/, '').toLowerCase();
+    if (doi) {
+      references.set(`doi:${doi}`, { canonicalId: `doi:${doi}`, doi, url: null });
+      continue;
+    }
+
+    const link = token.match(/https?:\/\/[^\s<>"]+/)?.[0].replace(/[)\]}>'.,;:!?]+$/, '');
+    const normalized = link ? normalizeUrl(link) : null;
     if (normalized) {
-      const hash = crypto.createHash('sha256').update(normalized).digest('hex');
-      return `url:${hash}`;
+      const canonicalId = `url:${crypto.createHash('sha256').update(normalized).digest('hex')}`;
+      if (!references.has(canonicalId)) {
+        references.set(canonicalId, { canonicalId, doi: null, url: normalized });
+      }
     }
   }
-  
-  return null;
+
+  return Array.from(references.values());
+}
+
+/**
+ * Check if this item references another canonical item
+ * Used to determine if we should create a related_ref or a new primary item
+ */
+export function extractReferencedCanonicalId(url: string, title: string, excerpt: string): string | null {
+  // A cited DOI wins over links
+  const references = extractReferences(title, excerpt);
+  const reference = references.find(ref => ref.doi) ?? references[0];
+  return reference?.canonicalId ?? null;
 }
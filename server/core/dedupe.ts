@@ -39,6 +39,42 @@ export function generateHashDedupe(url: string, title: string): string {
   return createHash('sha256').update(normalized).digest('hex');
 }
 
+/**
+ * Dedupe hash of an item private to one feed (newsletter issues), salted with
+ * the feed id so it only matches that feed's own copy - never another
+ * recipient's copy of the issue or the public post it mirrors.
+ */
+export function scopeHashDedupe(hash: string, feedId: string): string {
+  return createHash('sha256').update(`${feedId}|${hash}`).digest('hex');
+}
+
+/**
+ * Whether an incoming entry may be merged into a stored item. Newsletter items
+ * are private to the inbox that received them, so they only merge with entries
+ * of their own feed. Items stored before hashes were scoped can still collide.
+ */
+export function canMergeIntoItem(
+  item: { sourceType: string; feedId?: string | null },
+  existing: { sourceType: string; feedId: string | null }
+): boolean {
+  if (item.sourceType !== 'newsletter' && existing.sourceType !== 'newsletter') return true;
+  return !!item.feedId && item.feedId === existing.feedId;
+}
+
+/**
+ * Hash of what a feed published for an entry, to notice when it republishes
+ * the same entry with edited content. Whitespace is collapsed so a reflowed
+ * body doesn't count as a change.
+ *
+ * @param title - The entry title
+ * @param body - The entry's full text as the feed carries it (before truncation)
+ * @returns SHA-256 hash of the content
+ */
+export function generateContentHash(title: string, body: string): string {
+  const normalized = `${title.trim().replace(/\s+/g, ' ')}|${body.trim().replace(/\s+/g, ' ')}`;
+  return createHash('sha256').update(normalized).digest('hex');
+}
+
 export function extractDOI(text: string): string | null {
   // Match DOI patterns like 10.xxxx/xxxxx
   const doiMatch = text.match(/10\.\d{4,}\/[^\s\])]+/);
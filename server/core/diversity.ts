@@ -0,0 +1,173 @@
+import type { Item, DigestSectionKey, DigestSelectionConfig, DigestSelectionOverrides, DigestSelectionPick, DigestSectionSelection } from "@shared/schema";
+
+/**
+ * Digest section selection by maximal marginal relevance (MMR). Each pick
+ * maximizes lambda * relevance - (1 - lambda) * maxSimilarity, where
+ * maxSimilarity is the cosine similarity of the item's embedding to the
+ * closest item already picked, so near-identical stories push each other down.
+ *
+ * Relevance comes from the candidate's position in the ranked list rather than
+ * its score, so a personalized re-ranking carries through: the candidate at
+ * position `count` is worth half the top one.
+ *
+ * Candidates without an embedding can't be compared, so they compete on
+ * relevance alone; the selection records how many there were.
+ *
+ * Per-source and per-topic caps make an over-cap candidate ineligible. When
+ * every remaining candidate is over a cap the caps are ignored for the rest of
+ * the section rather than leaving it short (e.g. a user with one journal feed).
+ */
+
+export const DEFAULT_SELECTION_CONFIG: Record<DigestSectionKey, DigestSelectionConfig> = {
+  research: { lambda: 0.7, maxPerSource: 3, maxPerTopic: 5 },
+  community: { lambda: 0.7, maxPerSource: 3, maxPerTopic: 5 },
+  expert: { lambda: 0.75, maxPerSource: 2, maxPerTopic: 4 },
+};
+
+// Candidates considered per section, in ranked order
+export const MAX_SELECTION_CANDIDATES = 200;
+
+export function selectionConfigFor(
+  section: DigestSectionKey,
+  overrides?: DigestSelectionOverrides
+): DigestSelectionConfig {
+  return { ...DEFAULT_SELECTION_CONFIG[section], ...overrides?.[section] };
+}
+
+// Feed the item came from; journal or channel name for items stored without one
+export function selectionSource(item: Item): string {
+  return item.feedId || item.journalName || item.authorOrChannel;
+}
+
+function primaryTopic(item: Item): string | null {
+  return Array.isArray(item.topics) && item.topics.length > 0 ? item.topics[0] : null;
+}
+
+function cosine(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+// Similarity worth calling out in a pick's reason
+const NOTABLE_SIMILARITY = 0.5;
+
+function describePick(pick: Omit<DigestSelectionPick, 'reason'>, titles: Map<string, string>): string {
+  const parts = [pick.candidateRank === 1 ? 'Top-ranked candidate' : `Ranked #${pick.candidateRank}`];
+  if (pick.maxSimilarity !== null && pick.maxSimilarity >= NOTABLE_SIMILARITY && pick.similarTo) {
+    parts.push(`${Math.round(pick.maxSimilarity * 100)}% similar to "${titles.get(pick.similarTo)}"`);
+  }
+  if (pick.hasEmbedding === false) {
+    parts.push('no embedding, so not compared for similarity');
+  }
+  if (pick.capsRelaxed) {
+    parts.push('picked after every remaining candidate reached a source or topic cap');
+  }
+  return parts.join('; ');
+}
+
+/**
+ * Pick up to `count` items from ranked candidates (best first)
+ */
+export function selectDiverse(
+  rankedCandidates: Item[],
+  count: number,
+  config: DigestSelectionConfig,
+  embeddings: Map<string, number[]>
+): { items: Item[]; selection: DigestSectionSelection } {
+  const candidates = rankedCandidates.slice(0, MAX_SELECTION_CANDIDATES);
+  const titles = new Map(candidates.map(item => [item.id, item.title]));
+  const remaining = candidates.map((item, index) => ({
+    item,
+    rank: index + 1,
+    relevance: count / (count + index),
+    source: selectionSource(item),
+    topic: primaryTopic(item),
+    maxSimilarity: null as number | null,
+    similarTo: null as string | null,
+    hasEmbedding: embeddings.has(item.id),
+  }));
+
+  const picked: Item[] = [];
+  const picks: Record<string, DigestSelectionPick> = {};
+  const perSource = new Map<string, number>();
+  const perTopic = new Map<string, number>();
+  const skippedForCaps = new Set<string>();
+  let capsRelaxed = false;
+
+  const mmr = (candidate: typeof remaining[number]) =>
+    config.lambda * candidate.relevance - (1 - config.lambda) * (candidate.maxSimilarity ?? 0);
+  const overCap = (candidate: typeof remaining[number]) =>
+    (perSource.get(candidate.source) ?? 0) >= config.maxPerSource ||
+    (candidate.topic !== null && (perTopic.get(candidate.topic) ?? 0) >= config.maxPerTopic);
+
+  while (picked.length < count && remaining.length > 0) {
+    let bestIndex = -1;
+    let bestOverall = -1;
+    for (let i = 0; i < remaining.length; i++) {
+      if (bestOverall === -1 || mmr(remaining[i]) > mmr(remaining[bestOverall])) bestOverall = i;
+      if (!capsRelaxed && overCap(remaining[i])) continue;
+      if (bestIndex === -1 || mmr(remaining[i]) > mmr(remaining[bestIndex])) bestIndex = i;
+    }
+
+    if (bestIndex === -1) {
+      capsRelaxed = true;
+      bestIndex = bestOverall;
+    } else if (bestOverall !== bestIndex) {
+      skippedForCaps.add(remaining[bestOverall].item.id);
+    }
+
+    const [chosen] = remaining.splice(bestIndex, 1);
+    picked.push(chosen.item);
+    perSource.set(chosen.source, (perSource.get(chosen.source) ?? 0) + 1);
+    if (chosen.topic !== null) perTopic.set(chosen.topic, (perTopic.get(chosen.topic) ?? 0) + 1);
+
+    const pick = {
+      candidateRank: chosen.rank,
+      relevance: round(chosen.relevance),
+      maxSimilarity: chosen.maxSimilarity === null ? null : round(chosen.maxSimilarity),
+      similarTo: chosen.similarTo,
+      hasEmbedding: chosen.hasEmbedding,
+      mmrScore: round(mmr(chosen)),
+      source: chosen.source,
+      topic: chosen.topic,
+      capsRelaxed,
+    };
+    picks[chosen.item.id] = { ...pick, reason: describePick(pick, titles) };
+
+    // Only similarity to the newest pick can raise a candidate's maximum
+    const chosenEmbedding = embeddings.get(chosen.item.id);
+    if (!chosenEmbedding) continue;
+    for (const candidate of remaining) {
+      const embedding = embeddings.get(candidate.item.id);
+      if (!embedding) continue;
+      const similarity = cosine(embedding, chosenEmbedding);
+      if (candidate.maxSimilarity === null || similarity > candidate.maxSimilarity) {
+        candidate.maxSimilarity = similarity;
+        candidate.similarTo = chosen.item.id;
+      }
+    }
+  }
+
+  return {
+    items: picked,
+    selection: {
+      config,
+      candidates: candidates.length,
+      skippedForCaps: skippedForCaps.size,
+      withoutEmbedding: candidates.filter(item => !embeddings.has(item.id)).length,
+      picks,
+    },
+  };
+}
@@ -0,0 +1,65 @@
+import type { EngagementCounts, ItemEngagement } from "@shared/schema";
+
+/**
+ * Engagement for sources that expose no signal (RSS feeds, podcasts, journals).
+ * Zero counts flagged 'unknown' so ranking and scoring can tell them apart
+ * from content that was measured and found unpopular.
+ */
+export function unknownEngagement(): ItemEngagement {
+  return { comments: 0, upvotes: 0, views: 0, status: 'unknown' };
+}
+
+export function hasEngagementSignal(engagement: ItemEngagement | null | undefined): boolean {
+  return !!engagement && engagement.status !== 'unknown';
+}
+
+export function engagementSourceKey(sourceType: string, sourceId: string): string {
+  return `${sourceType}:${sourceId}`;
+}
+
+/**
+ * Fold a source's latest counts into an item's engagement.
+ *
+ * Counts are kept per source and the totals re-summed, so re-fetching the same
+ * post replaces its earlier numbers instead of adding them again, while
+ * cross-source references (the same paper discussed on Reddit) still add up.
+ * Items stored before per-source tracking count their totals as their own source.
+ */
+export function mergeEngagement(
+  current: ItemEngagement,
+  currentKey: string,
+  incoming: ItemEngagement,
+  incomingKey: string
+): ItemEngagement {
+  if (!hasEngagementSignal(incoming)) {
+    return current;
+  }
+
+  const bySource: Record<string, EngagementCounts> = current.bySource
+    ? { ...current.bySource }
+    : hasEngagementSignal(current)
+      ? { [currentKey]: { comments: current.comments, upvotes: current.upvotes, views: current.views } }
+      : {};
+
+  bySource[incomingKey] = { comments: incoming.comments, upvotes: incoming.upvotes, views: incoming.views };
+
+  const totals = Object.values(bySource).reduce(
+    (sum, counts) => ({
+      comments: sum.comments + counts.comments,
+      upvotes: sum.upvotes + counts.upvotes,
+      views: sum.views + counts.views,
+    }),
+    { comments: 0, upvotes: 0, views: 0 }
+  );
+
+  return {
+    ...current,
+    ...totals,
+    status: 'reported',
+    bySource,
+    upvoteRatio: incoming.upvoteRatio ?? current.upvoteRatio,
+    flair: incoming.flair !== undefined ? incoming.flair : current.flair,
+    over18: incoming.over18 ?? current.over18,
+    refreshedAt: new Date().toISOString(),
+  };
+}
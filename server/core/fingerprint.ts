@@ -0,0 +1,88 @@
+import { createHash } from "crypto";
+
+/**
+ * Content fingerprints for near-duplicate detection (MinHash).
+ *
+ * Text is reduced to word 3-gram shingles, and the fingerprint keeps, for each
+ * of 64 hash functions, the smallest hash over all shingles. Two fingerprints
+ * agree in a position with probability equal to the Jaccard similarity of the
+ * shingle sets, so the share of agreeing positions estimates how much text two
+ * items have in common. Unrelated texts share almost no 3-grams, which keeps
+ * them far apart even when they are short and on the same subject.
+ * Fingerprints are hex strings of 64 32-bit values.
+ */
+
+const SHINGLE_SIZE = 3;
+const NUM_HASHES = 64;
+
+// One seed per hash function; each function is the shingle hash mixed with its seed
+const SEEDS = Array.from({ length: NUM_HASHES }, (_, i) => fmix32(Math.imul(i + 1, 0x9e3779b9)));
+
+/**
+ * Lowercased words without punctuation, URLs or numbers-only tokens
+ */
+export function fingerprintTokens(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/[!-\/:-@[-`{-~\u00a0-\u00bf\u2000-\u206f]+/g, ' ') // ASCII, Latin-1 and general punctuation
+    .split(/\s+/)
+    .filter(token => token && !/^\d+$/.test(token));
+}
+
+export function minhash(tokens: string[]): string {
+  const shingles = new Set<string>();
+  if (tokens.length < SHINGLE_SIZE) {
+    shingles.add(tokens.join(' '));
+  } else {
+    for (let i = 0; i <= tokens.length - SHINGLE_SIZE; i++) {
+      shingles.add(tokens.slice(i, i + SHINGLE_SIZE).join(' '));
+    }
+  }
+
+  const mins = new Array<number>(NUM_HASHES).fill(0xffffffff);
+  for (const shingle of Array.from(shingles)) {
+    const base = createHash('md5').update(shingle).digest().readUInt32BE(0);
+    for (let i = 0; i < NUM_HASHES; i++) {
+      const hash = fmix32(base ^ SEEDS[i]);
+      if (hash < mins[i]) mins[i] = hash;
+    }
+  }
+
+  return mins.map(value => value.toString(16).padStart(8, '0')).join('');
+}
+
+/**
+ * Estimated share of shingles two texts have in common, as a percentage
+ */
+export function fingerprintSimilarity(a: string, b: string): number {
+  if (a.length !== b.length) return 0;
+
+  let agreeing = 0;
+  for (let offset = 0; offset < a.length; offset += 8) {
+    if (a.slice(offset, offset + 8) === b.slice(offset, offset + 8)) agreeing++;
+  }
+  return Math.round((agreeing / (a.length / 8)) * 100);
+}
+
+/**
+ * Fingerprint of an item's title and excerpt, or null when there are too few
+ * words for the fingerprint to mean anything.
+ * The excerpt (not fullText) is used because every source has one of
+ * comparable length, so a copy with extracted full text still matches one without.
+ */
+export function contentFingerprint(title: string, excerpt: string, minTokens: number): string | null {
+  const tokens = fingerprintTokens(`${title} ${excerpt}`);
+  return tokens.length >= minTokens ? minhash(tokens) : null;
+}
+
+// MurmurHash3 finalizer: spreads every input bit over the unsigned 32-bit result
+function fmix32(value: number): number {
+  let h = value >>> 0;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
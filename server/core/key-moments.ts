@@ -0,0 +1,137 @@
+import type { KeyMoment, TranscriptCue } from '@shared/schema';
+
+/**
+ * Timed transcripts and summary "key moments" for videos and podcasts.
+ *
+ * Caption files split speech into cues of a few seconds; cues are merged into
+ * stretches of about CUE_WINDOW_SECONDS (breaking early when the speaker
+ * changes) so an hour-long transcript stores as ~120 cues. The summarizer sees
+ * the transcript as "[mm:ss] text" lines and names 3-8 moments by their start
+ * time; moments are checked against the transcript before they get a link.
+ */
+
+const CUE_WINDOW_SECONDS = 30;
+export const MIN_KEY_MOMENTS = 3;
+export const MAX_KEY_MOMENTS = 8;
+const MIN_MOMENT_GAP_SECONDS = 30; // Two moments closer than this are the same moment
+
+export interface TimedSegment {
+  startSeconds: number | null;
+  text: string;
+  speaker?: string | null;
+}
+
+/**
+ * Merge caption cues into ~30s stretches. Returns [] when the segments carry no timing.
+ */
+export function mergeTranscriptCues(segments: TimedSegment[]): TranscriptCue[] {
+  const cues: TranscriptCue[] = [];
+  let current: TranscriptCue | null = null;
+
+  for (const segment of segments) {
+    if (segment.startSeconds === null || !segment.text.trim()) continue;
+    const speaker = segment.speaker || undefined;
+
+    if (!current || speaker !== current.speaker || segment.startSeconds - current.startSeconds >= CUE_WINDOW_SECONDS) {
+      current = { startSeconds: Math.floor(segment.startSeconds), text: segment.text.trim(), speaker };
+      cues.push(current);
+    } else {
+      current.text = `${current.text} ${segment.text.trim()}`;
+    }
+  }
+
+  return cues;
+}
+
+/**
+ * 75 -> "1:15", 3725 -> "1:02:05"
+ */
+export function formatTimestamp(totalSeconds: number): string {
+  const seconds = Math.floor(totalSeconds % 60);
+  const minutes = Math.floor(totalSeconds / 60) % 60;
+  const hours = Math.floor(totalSeconds / 3600);
+  const mmss = `${hours > 0 ? String(minutes).padStart(2, '0') : minutes}:${String(seconds).padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+}
+
+/**
+ * Transcript as "[mm:ss] text" lines within maxChars. Long transcripts are
+ * grouped into fewer, evenly trimmed lines so the whole episode is covered
+ * rather than its first minutes.
+ */
+export function formatTimedTranscript(cues: TranscriptCue[], maxChars: number): string {
+  if (cues.length === 0) return '';
+
+  const maxLines = Math.max(1, Math.floor(maxChars / 160));
+  const groupSize = Math.ceil(cues.length / maxLines);
+  const lines: string[] = [];
+
+  for (let i = 0; i < cues.length; i += groupSize) {
+    const group = cues.slice(i, i + groupSize);
+    const speaker = group[0].speaker ? `${group[0].speaker}: ` : '';
+    lines.push(`[${formatTimestamp(group[0].startSeconds)}] ${speaker}${group.map(cue => cue.text).join(' ')}`);
+  }
+
+  const perLine = Math.floor(maxChars / lines.length) - 1; // Room for the newline
+  return lines
+    .map(line => line.length > perLine ? `${line.slice(0, perLine - 3)}...` : line)
+    .join('\n');
+}
+
+/**
+ * Link that starts playback at the given second: YouTube's t parameter, or a
+ * Media Fragments "#t=" on podcast episode pages and audio files
+ */
+export function keyMomentUrl(url: string, sourceType: string, startSeconds: number): string {
+  const seconds = Math.floor(startSeconds);
+  try {
+    const parsed = new URL(url);
+    if (sourceType === 'youtube') {
+      parsed.searchParams.set('t', `${seconds}s`);
+    } else {
+      parsed.hash = `t=${seconds}`;
+    }
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
+
+// Seconds as a number, or a "mm:ss" / "h:mm:ss" timestamp copied from the transcript
+function momentSeconds(value: unknown): number {
+  if (typeof value === 'number') return Math.floor(value);
+  if (typeof value !== 'string' || !/^\d+(:\d{1,2}){0,2}$/.test(value.trim())) return NaN;
+  return value.trim().split(':').reduce((total, part) => total * 60 + Number(part), 0);
+}
+
+/**
+ * Validate the summarizer's moments: start times must fall inside the
+ * transcript, near-duplicates are dropped, and at most MAX_KEY_MOMENTS are
+ * kept in playback order. Fewer than MIN_KEY_MOMENTS usable moments means
+ * the answer isn't trustworthy, so none are returned.
+ */
+export function parseKeyMoments(
+  raw: unknown,
+  cues: TranscriptCue[],
+  item: { url: string; sourceType: string }
+): KeyMoment[] {
+  if (!Array.isArray(raw) || cues.length === 0) return [];
+
+  const last = cues[cues.length - 1].startSeconds + CUE_WINDOW_SECONDS;
+  const candidates = raw
+    .map(moment => ({
+      startSeconds: momentSeconds(moment?.startSeconds),
+      title: typeof moment?.title === 'string' ? moment.title.trim() : '',
+    }))
+    .filter(moment => Number.isFinite(moment.startSeconds) && moment.startSeconds >= 0 && moment.startSeconds <= last && moment.title)
+    .sort((a, b) => a.startSeconds - b.startSeconds);
+
+  const moments: KeyMoment[] = [];
+  for (const moment of candidates) {
+    const previous = moments[moments.length - 1];
+    if (previous && moment.startSeconds - previous.startSeconds < MIN_MOMENT_GAP_SECONDS) continue;
+    moments.push({ ...moment, url: keyMomentUrl(item.url, item.sourceType, moment.startSeconds) });
+  }
+
+  return moments.length >= MIN_KEY_MOMENTS ? moments.slice(0, MAX_KEY_MOMENTS) : [];
+}
@@ -0,0 +1,164 @@
+import type { PaperSection, PaperSectionKind } from '@shared/schema';
+
+/**
+ * Section splitting for paper full text (PDF text from pdf-parse).
+ *
+ * A heading is a short line that matches a known section name, optionally
+ * numbered ("2.", "2.1", "IV.") and in any case. Funding and conflict
+ * statements are also recognized inline ("Funding: This work was..."), since
+ * journals often print them as a run-in paragraph. Text under a heading we
+ * don't track (author contributions, data availability...) closes the
+ * previous section without starting a new one, and text before the first
+ * heading (title, authors, affiliations) is dropped.
+ */
+
+const MAX_HEADING_LENGTH = 80;
+const MAX_SECTION_CHARS = 20000;
+const MIN_SECTIONS = 2; // Fewer means the text has no usable structure
+
+const HEADING_PATTERNS: Array<{ kind: PaperSectionKind | null; pattern: RegExp }> = [
+  { kind: 'abstract', pattern: /^(abstract|summary)$/ },
+  { kind: 'introduction', pattern: /^(introduction|background)$/ },
+  { kind: 'methods', pattern: /^(materials? and methods|methods?( and materials?)?|methodology|study design|(patients|subjects|participants) and methods|experimental( procedures| section)?)$/ },
+  { kind: 'results', pattern: /^(results?|findings|results and discussion)$/ },
+  { kind: 'discussion', pattern: /^(discussion|general discussion)$/ },
+  { kind: 'conclusions', pattern: /^(conclusions?|concluding remarks|summary and conclusions?)$/ },
+  { kind: 'limitations', pattern: /^((study |strengths and )?limitations( of (the|this) study)?)$/ },
+  { kind: 'funding', pattern: /^(funding( sources?| information| statement)?|financial support|sources? of funding)$/ },
+  { kind: 'conflicts', pattern: /^(conflicts? of interests?( statement)?|competing interests?|declarations? of (competing |conflicting )?interests?|disclosures?|financial disclosures?)$/ },
+  { kind: 'references', pattern: /^(references|bibliography|literature cited|works cited)$/ },
+  { kind: null, pattern: /^(author contributions?|data (availability|sharing)( statement)?|ethics( statement| approval)?|supplementary (material|data|information)|abbreviations|appendix|acknowledge?ments?)$/ },
+];
+
+// Kinds that may share a line with their text
+const INLINE_KINDS: PaperSectionKind[] = ['funding', 'conflicts'];
+
+function headingKind(line: string): { kind: PaperSectionKind | null } | undefined {
+  const cleaned = line
+    .trim()
+    .replace(/^(\d+(\.\d+)*\.?|[ivx]+\.)\s+/i, '')
+    .replace(/\s+/g, ' ');
+  if (!cleaned || cleaned.length > MAX_HEADING_LENGTH) return undefined;
+
+  const whole = cleaned.replace(/[:.]$/, '').toLowerCase();
+  for (const { kind, pattern } of HEADING_PATTERNS) {
+    if (pattern.test(whole)) return { kind };
+  }
+
+  return undefined;
+}
+
+function inlineHeading(line: string): { kind: PaperSectionKind; heading: string; rest: string } | undefined {
+  const match = line.trim().match(/^([A-Za-z ]{4,60})[:.]\s+(.+)$/);
+  if (!match) return undefined;
+  const found = headingKind(match[1]);
+  if (!found?.kind || !INLINE_KINDS.includes(found.kind)) return undefined;
+  return { kind: found.kind, heading: match[1].trim(), rest: match[2] };
+}
+
+/**
+ * Split full text into recognized sections, in paper order. Repeated kinds
+ * (e.g. a structured abstract's "Methods" line and the real Methods) are
+ * merged into one section. Returns [] when the text has no usable structure.
+ */
+export function splitPaperSections(fullText: string): PaperSection[] {
+  const sections: Array<{ kind: PaperSectionKind | null; heading: string; lines: string[] }> = [];
+  let current: (typeof sections)[number] | null = null;
+
+  for (const line of fullText.split(/\r?\n/)) {
+    const heading = headingKind(line);
+    if (heading) {
+      current = { kind: heading.kind, heading: line.trim(), lines: [] };
+      sections.push(current);
+      continue;
+    }
+
+    const inline = inlineHeading(line);
+    if (inline) {
+      current = { kind: inline.kind, heading: inline.heading, lines: [inline.rest] };
+      sections.push(current);
+      continue;
+    }
+
+    current?.lines.push(line);
+  }
+
+  const merged = new Map<PaperSectionKind, PaperSection>();
+  for (const section of sections) {
+    if (!section.kind) continue;
+    const text = section.lines.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+    if (!text) continue;
+
+    const existing = merged.get(section.kind);
+    if (existing) {
+      existing.text = `${existing.text}\n\n${text}`;
+    } else {
+      merged.set(section.kind, { kind: section.kind, heading: section.heading, text });
+    }
+  }
+
+  if (merged.size < MIN_SECTIONS) return [];
+
+  return Array.from(merged.values()).map(section => ({
+    ...section,
+    text: section.text.slice(0, MAX_SECTION_CHARS),
+  }));
+}
+
+// Most useful sections first; anything not listed is left out
+const SECTION_PRIORITIES: Record<'summary' | 'quality', PaperSectionKind[]> = {
+  summary: ['abstract', 'results', 'conclusions', 'discussion', 'limitations', 'methods', 'introduction'],
+  quality: ['methods', 'results', 'limitations', 'abstract', 'conflicts', 'funding', 'discussion'],
+};
+
+/**
+ * Build model input from the sections that matter for the task, within
+ * maxChars. Every wanted section gets an equal share first; what shorter
+ * sections leave over goes to the others in priority order. Sections keep
+ * their paper order and headings.
+ */
+export function selectPaperSections(
+  sections: PaperSection[],
+  purpose: 'summary' | 'quality',
+  maxChars: number
+): string {
+  const priority = SECTION_PRIORITIES[purpose];
+  const wanted = sections
+    .filter(section => priority.includes(section.kind))
+    .sort((a, b) => priority.indexOf(a.kind) - priority.indexOf(b.kind));
+  if (wanted.length === 0) return '';
+
+  const budget = new Map<PaperSectionKind, number>();
+  const share = Math.floor(maxChars / wanted.length);
+  let remaining = maxChars;
+  for (const section of wanted) {
+    const chars = Math.min(section.text.length, share);
+    budget.set(section.kind, chars);
+    remaining -= chars;
+  }
+  for (const section of wanted) {
+    if (remaining <= 0) break;
+    const extra = Math.min(section.text.length - budget.get(section.kind)!, remaining);
+    budget.set(section.kind, budget.get(section.kind)! + extra);
+    remaining -= extra;
+  }
+
+  return sections
+    .filter(section => budget.has(section.kind))
+    .map(section => {
+      const chars = budget.get(section.kind)!;
+      const text = chars < section.text.length ? `${section.text.slice(0, chars)} [...]` : section.text;
+      return `## ${section.heading}\n${text}`;
+    })
+    .join('\n\n');
+}
+
+/**
+ * Text of the given sections, e.g. the funding and conflict statements
+ */
+export function paperSectionText(sections: PaperSection[] | null | undefined, kinds: PaperSectionKind[]): string {
+  return (sections || [])
+    .filter(section => kinds.includes(section.kind))
+    .map(section => section.text)
+    .join('\n\n');
+}
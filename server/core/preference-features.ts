@@ -0,0 +1,50 @@
+import type { Item } from "@shared/schema";
+import { normalizeAuthorKey } from "./reputation";
+
+/**
+ * Sparse features for the per-user preference model. Categorical features
+ * (source, feed, author/channel, topics, methodology, length) are one-hot
+ * names; score components are 0-1 values. Recency is left out on purpose:
+ * items are learned from long after they were published, so it would only
+ * teach the model that old items are what users like.
+ */
+
+export type FeatureVector = Record<string, number>;
+
+// Characters of text behind the item: full text when extracted, else the excerpt
+const LENGTH_BUCKETS: Array<{ name: string; maxChars: number }> = [
+  { name: 'short', maxChars: 2000 },
+  { name: 'medium', maxChars: 15000 },
+  { name: 'long', maxChars: Infinity },
+];
+
+export function preferenceFeatures(item: Item, methodology?: string | null): FeatureVector {
+  const features: FeatureVector = {};
+
+  features[`source:${item.sourceType}`] = 1;
+  if (item.feedId) features[`feed:${item.feedId}`] = 1;
+  if (item.authorOrChannel) features[`author:${normalizeAuthorKey(item.authorOrChannel)}`] = 1;
+
+  // Split one unit across the topics so many-topic items don't outweigh focused ones
+  const topics = Array.isArray(item.topics) ? item.topics : [];
+  for (const topic of topics) {
+    features[`topic:${topic}`] = 1 / Math.sqrt(topics.length);
+  }
+
+  if (methodology) features[`method:${methodology}`] = 1;
+  if (item.isPreprint) features.preprint = 1;
+
+  const textLength = (item.fullText || item.rawExcerpt || '').length;
+  const bucket = LENGTH_BUCKETS.find(b => textLength <= b.maxChars)!;
+  features[`length:${bucket.name}`] = 1;
+
+  const breakdown = item.scoreBreakdown;
+  if (breakdown) {
+    features['score:content'] = breakdown.contentQuality / 40;
+    features['score:engagement'] = breakdown.engagementSignals / 20;
+    features['score:credibility'] = breakdown.sourceCredibility / 20;
+    features['score:community'] = breakdown.communityValidation / 10;
+  }
+
+  return features;
+}
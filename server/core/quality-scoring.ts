@@ -11,7 +11,7 @@
  * Traditional metrics (citations, h-index) shown separately for journals
  */
 
-import type { Item } from '@shared/schema';
+import type { Item, IntegrityStatus, ItemIntegrity } from '@shared/schema';
 
 export interface QualityMetrics {
   // Content Quality (from AI)
@@ -33,6 +33,7 @@ export interface QualityMetrics {
   subredditQuality?: number; // For Reddit (0-10)
   channelSubscribers?: number; // For YouTube
   authorReputation?: number; // For Substack (0-10)
+  sourceReputation?: number; // 0-100, the feed's or author's track record (server/core/reputation.ts)
   
   // Traditional metrics (for journals - shown separately)
   citationCount?: number;
@@ -61,6 +62,8 @@ export interface ScoreBreakdown {
   explanation: string;
 }
 
+const UNKNOWN_ENGAGEMENT_BASELINE = 0.3;
+
 /**
  * Calculate engagement score (0-20 points)
  * Normalized across different source types
@@ -73,6 +76,14 @@ function calculateEngagementScore(
   const comments = metrics.comments || 0;
   const views = metrics.views || 0;
   
+  // No counts collected (source has no engagement signal): neutral baseline
+  // rather than scoring it as content nobody engaged with
+  const hasCounts = [metrics.upvotes, metrics.comments, metrics.views, metrics.likes]
+    .some(value => value !== undefined);
+  if (sourceType !== 'journal' && !hasCounts) {
+    return UNKNOWN_ENGAGEMENT_BASELINE * 20;
+  }
+  
   let normalized = 0;
   
   switch (sourceType) {
@@ -84,7 +95,8 @@ function calculateEngagementScore(
       break;
       
     case 'reddit':
-      // Upvotes + engagement ratio
+    case 'hackernews':
+      // Upvotes (HN points) + engagement ratio
       // 0-10 upvotes = 0-33%, 10-100 = 33-67%, 100+ = 67-100%
       const upvoteScore = Math.min(Math.log10(upvotes + 1) / 2, 1);
       
@@ -114,14 +126,26 @@ function calculateEngagementScore(
       normalized = Math.min(substackScore + substackComments, 1);
       break;
       
+    case 'mastodon':
+    case 'bluesky':
+      // Likes + boosts/reposts (stored as upvotes) and replies, on a smaller scale than Reddit
+      const reactionScore = Math.min(Math.log10(upvotes + 1) / 2, 0.8);
+      const replyScore = Math.min(comments / 20, 0.2);
+      
+      normalized = Math.min(reactionScore + replyScore, 1);
+      break;
+      
     default:
-      normalized = 0.3; // Baseline
+      normalized = UNKNOWN_ENGAGEMENT_BASELINE;
   }
   
   const score = normalized * 20;
   return Math.round(score * 10) / 10;
 }
 
+// Share of source credibility taken from the nightly source reputation when there is one
+const SOURCE_REPUTATION_WEIGHT = 0.6;
+
 /**
  * Calculate source credibility score (0-20 points)
  * Based on platform-specific reputation signals
@@ -165,12 +189,18 @@ function calculateSourceCredibility(
       break;
       
     case 'substack':
+    case 'newsletter':
       // Author reputation (if tracked)
       const reputation = metrics.authorReputation || 5;
       score = Math.min(reputation * 2, 20); // 0-10 scale → 0-20
       break;
   }
   
+  // Measured track record outweighs the name-based priors above once it's known
+  if (metrics.sourceReputation !== undefined) {
+    score = SOURCE_REPUTATION_WEIGHT * (metrics.sourceReputation / 5) + (1 - SOURCE_REPUTATION_WEIGHT) * score; // 0-100 → 0-20
+  }
+  
   // Quality deductions (apply to all sources)
   if (metrics.conflictOfInterest) score -= 3;
   if (metrics.biasFlags && metrics.biasFlags.length > 0) {
@@ -271,6 +301,10 @@ function generateExplanation(
   // Engagement
   if (sourceType === 'reddit' && metrics.upvotes) {
     parts.push(`${metrics.upvotes} upvotes, ${metrics.comments || 0} comments`);
+  } else if (sourceType === 'hackernews' && metrics.upvotes) {
+    parts.push(`${metrics.upvotes} points, ${metrics.comments || 0} comments`);
+  } else if ((sourceType === 'mastodon' || sourceType === 'bluesky') && metrics.upvotes) {
+    parts.push(`${metrics.upvotes} likes and reposts, ${metrics.comments || 0} replies`);
   } else if (sourceType === 'youtube' && metrics.views) {
     parts.push(`${metrics.views} views`);
   } else if (sourceType === 'journal' && metrics.citationCount) {
@@ -322,9 +356,10 @@ export function calculateQualityScore(
   const safeEngagement = Math.max(0, Math.min(20,
     Number.isFinite(engagementSignals) ? engagementSignals : 0
   ));
+  // Retracted papers and those with an expression of concern get no credit for where they were published
   const safeCredibility = Math.max(0, Math.min(20,
     Number.isFinite(sourceCredibility) ? sourceCredibility : 10
-  ));
+  )) * (item.integrity ? INTEGRITY_CREDIBILITY[item.integrity.status] : 1);
   const safeRecency = Math.max(0, Math.min(10,
     Number.isFinite(recencyScore) ? recencyScore : 5
   ));
@@ -350,10 +385,44 @@ export function calculateQualityScore(
   } catch (error) {
     breakdown.explanation = `Source: ${item.sourceType || 'unknown'}`;
   }
+  if (item.integrity) {
+    breakdown.explanation = `${INTEGRITY_LABELS[item.integrity.status]} | ${breakdown.explanation}`;
+  }
   
   return breakdown;
 }
 
+const INTEGRITY_LABELS: Record<IntegrityStatus, string> = {
+  retracted: 'Retracted',
+  expression_of_concern: 'Expression of concern',
+  corrected: 'Corrected',
+};
+
+// Share of source credibility an item keeps once flagged; a correction is the
+// literature working as intended, so it only earns the label
+const INTEGRITY_CREDIBILITY: Record<IntegrityStatus, number> = {
+  retracted: 0,
+  expression_of_concern: 0,
+  corrected: 1,
+};
+
+/**
+ * Rescore source credibility on an already-computed breakdown once an item is
+ * flagged by the retraction check, without re-running the AI analysis
+ */
+export function applyIntegrityToScore(breakdown: ScoreBreakdown, integrity: ItemIntegrity): ScoreBreakdown {
+  const label = INTEGRITY_LABELS[integrity.status];
+  const explanation = breakdown.explanation.replace(/^(Retracted|Expression of concern|Corrected) \| /, '');
+  const sourceCredibility = Math.round(breakdown.sourceCredibility * INTEGRITY_CREDIBILITY[integrity.status] * 10) / 10;
+  const totalScore = Math.max(0, Math.round((breakdown.totalScore - breakdown.sourceCredibility + sourceCredibility) * 10) / 10);
+  return {
+    ...breakdown,
+    sourceCredibility,
+    totalScore,
+    explanation: `${label} | ${explanation}`,
+  };
+}
+
 /**
  * Get baseline content score when AI analysis unavailable
  */
@@ -1,49 +1,229 @@
 import type { Item, SourceType } from "@shared/schema";
+import { hasEngagementSignal } from "./engagement";
+import { calculateQualityScore, type QualityMetrics, type ScoreBreakdown } from "./quality-scoring";
 
-const QUALITY_SCORES: Record<SourceType, number> = {
+/**
+ * Ranking engine. A strategy is a named, versioned set of weighted signals;
+ * an item's score is the weighted sum of its signal values times 100. Signals
+ * return 0-1 (the legacy engagement z-score and preprint penalty excepted), so
+ * strategies whose weights sum to 1 score on the same 0-100 scale as
+ * scoreBreakdown.totalScore.
+ *
+ * Stored scores (items.score) come from the default strategy and carry its
+ * name and version, so the archive can be rescored when a strategy changes
+ * (POST /admin/run/rescore). Digests may rank with any strategy.
+ *
+ * Bump a strategy's version whenever its signals or weights change.
+ */
+
+export interface RankingContext {
+  now: number;
+  engagement: { mean: number; stdDev: number }; // Over items whose source reports engagement
+  breakdowns: WeakMap<Item, ScoreBreakdown>;
+}
+
+export interface RankingSignal {
+  weight: number;
+  value: (item: Item, context: RankingContext) => number;
+}
+
+export interface RankingStrategy {
+  name: string;
+  version: number;
+  description: string;
+  signals: Record<string, RankingSignal>;
+}
+
+export interface ItemRanking {
+  score: number;
+  strategy: string;
+  version: number;
+  signals: Record<string, number>; // Weighted contribution of each signal, in score points
+}
+
+const SOURCE_QUALITY: Record<SourceType, number> = {
   journal: 1.0,
   substack: 0.7,
+  newsletter: 0.7,
   youtube: 0.6,
+  podcast: 0.6,
+  hackernews: 0.5,
   reddit: 0.5,
+  mastodon: 0.4,
+  bluesky: 0.4,
 };
 
-export function calculateScore(item: Item, allItems: Item[]): number {
-  // Quality component
-  const quality = QUALITY_SCORES[item.sourceType];
-
-  // Recency component (inverse days since publication)
-  const now = new Date();
-  const published = new Date(item.publishedAt);
-  const daysSince = Math.max(1, (now.getTime() - published.getTime()) / (1000 * 60 * 60 * 24));
-  const recency = 1 / daysSince;
-
-  // Engagement z-score
-  const totalEngagement = item.engagement.comments + item.engagement.upvotes + (item.engagement.views / 100);
-  const engagements = allItems.map(i => i.engagement.comments + i.engagement.upvotes + (i.engagement.views / 100));
-  const mean = engagements.reduce((a, b) => a + b, 0) / engagements.length;
-  const variance = engagements.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / engagements.length;
-  const stdDev = Math.sqrt(variance);
-  const engagementZ = stdDev > 0 ? (totalEngagement - mean) / stdDev : 0;
-
-  // Topic weight (more topics = slightly higher weight)
-  const topicWeight = Math.min(item.topics.length / 5, 1);
-
-  // Calculate final score
-  let score = (0.35 * quality) + (0.25 * recency) + (0.25 * engagementZ) + (0.15 * topicWeight);
-
-  // Penalty for preprints
-  if (item.isPreprint) {
-    score -= 0.1;
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+function engagementTotal(item: Item): number {
+  return item.engagement.comments + item.engagement.upvotes + (item.engagement.views / 100);
+}
+
+/**
+ * Unified quality breakdown (server/core/quality-scoring.ts) as of now: recency
+ * decays since enrichment and engagement keeps merging in, so the stored
+ * breakdown is recomputed from the item's metrics rather than read back
+ */
+function breakdownFor(item: Item, context: RankingContext): ScoreBreakdown {
+  const cached = context.breakdowns.get(item);
+  if (cached) return cached;
+
+  const metrics: QualityMetrics = { ...(item.qualityMetrics || {}) };
+  if (hasEngagementSignal(item.engagement)) {
+    metrics.upvotes = item.engagement.upvotes;
+    metrics.comments = item.engagement.comments;
+    metrics.views = item.engagement.views;
   }
+  const breakdown = calculateQualityScore(item, metrics);
+  context.breakdowns.set(item, breakdown);
+  return breakdown;
+}
+
+function component(key: Exclude<keyof ScoreBreakdown, 'totalScore' | 'explanation'>, max: number): RankingSignal['value'] {
+  return (item, context) => breakdownFor(item, context)[key] / max;
+}
+
+const RANKING_STRATEGIES: Record<string, RankingStrategy> = {
+  unified: {
+    name: 'unified',
+    version: 1,
+    description: 'Unified quality score: content 40%, engagement 20%, source credibility 20%, recency 10%, community 10%',
+    signals: {
+      contentQuality: { weight: 0.4, value: component('contentQuality', 40) },
+      engagement: { weight: 0.2, value: component('engagementSignals', 20) },
+      sourceCredibility: { weight: 0.2, value: component('sourceCredibility', 20) },
+      recency: { weight: 0.1, value: component('recencyScore', 10) },
+      community: { weight: 0.1, value: component('communityValidation', 10) },
+    },
+  },
+  'quality-recency-engagement': {
+    name: 'quality-recency-engagement',
+    version: 1,
+    description: 'Quality 40% (content and source credibility), recency 30%, engagement 30%',
+    signals: {
+      quality: {
+        weight: 0.4,
+        value: (item, context) => {
+          const breakdown = breakdownFor(item, context);
+          return (breakdown.contentQuality + breakdown.sourceCredibility) / 60;
+        },
+      },
+      recency: { weight: 0.3, value: component('recencyScore', 10) },
+      engagement: { weight: 0.3, value: component('engagementSignals', 20) },
+    },
+  },
+  legacy: {
+    name: 'legacy',
+    version: 1,
+    description: 'Original digest ranking: source type 35%, recency 25%, engagement z-score 25%, topic count 15%, preprint penalty',
+    signals: {
+      sourceQuality: { weight: 0.35, value: item => SOURCE_QUALITY[item.sourceType as SourceType] ?? 0.5 },
+      recency: {
+        weight: 0.25,
+        value: (item, context) => 1 / Math.max(1, (context.now - new Date(item.publishedAt).getTime()) / DAY_MS),
+      },
+      // Items with unknown engagement sit at the mean (z = 0)
+      engagement: {
+        weight: 0.25,
+        value: (item, context) => {
+          if (!hasEngagementSignal(item.engagement) || context.engagement.stdDev === 0) return 0;
+          return (engagementTotal(item) - context.engagement.mean) / context.engagement.stdDev;
+        },
+      },
+      topicCount: { weight: 0.15, value: item => Math.min(item.topics.length / 5, 1) },
+      preprint: { weight: -0.1, value: item => item.isPreprint ? 1 : 0 },
+    },
+  },
+};
+
+export const DEFAULT_RANKING_STRATEGY = 'unified';
 
-  return Math.max(0, score);
+export function getRankingStrategy(name: string = DEFAULT_RANKING_STRATEGY): RankingStrategy | undefined {
+  return RANKING_STRATEGIES[name];
 }
 
-export function rankItems(items: Item[]): Item[] {
-  const rankedItems = items.map(item => ({
-    ...item,
-    score: calculateScore(item, items),
+export function listRankingStrategies(): Array<{ name: string; version: number; description: string; weights: Record<string, number>; isDefault: boolean }> {
+  return Object.values(RANKING_STRATEGIES).map(strategy => ({
+    name: strategy.name,
+    version: strategy.version,
+    description: strategy.description,
+    weights: Object.fromEntries(Object.entries(strategy.signals).map(([signal, { weight }]) => [signal, weight])),
+    isDefault: strategy.name === DEFAULT_RANKING_STRATEGY,
   }));
+}
+
+/**
+ * Batch-level inputs for scoring: the legacy engagement z-score compares each
+ * item with the rest of the batch
+ */
+export function buildRankingContext(items: Item[], now: Date = new Date()): RankingContext {
+  const engagements = items.filter(item => hasEngagementSignal(item.engagement)).map(engagementTotal);
+  const mean = engagements.length > 0 ? engagements.reduce((a, b) => a + b, 0) / engagements.length : 0;
+  const variance = engagements.length > 0
+    ? engagements.reduce((sum, value) => sum + Math.pow(value - mean, 2), 0) / engagements.length
+    : 0;
+
+  return {
+    now: now.getTime(),
+    engagement: { mean, stdDev: Math.sqrt(variance) },
+    breakdowns: new WeakMap(),
+  };
+}
+
+export function scoreItem(item: Item, strategy: RankingStrategy, context: RankingContext): ItemRanking {
+  const signals: Record<string, number> = {};
+  let total = 0;
+
+  for (const [name, signal] of Object.entries(strategy.signals)) {
+    const value = signal.value(item, context);
+    const points = Number.isFinite(value) ? signal.weight * value * 100 : 0;
+    signals[name] = Math.round(points * 10) / 10;
+    total += points;
+  }
+
+  return {
+    score: Math.max(0, Math.round(total * 10) / 10),
+    strategy: strategy.name,
+    version: strategy.version,
+    signals,
+  };
+}
+
+/**
+ * Score and sort items with the named strategy (default: DEFAULT_RANKING_STRATEGY).
+ * Each returned item carries its score and the strategy that produced it,
+ * alongside the per-signal breakdown.
+ */
+export function rankItemsWithSignals(items: Item[], strategyName: string = DEFAULT_RANKING_STRATEGY): Array<{ item: Item; ranking: ItemRanking }> {
+  const strategy = getRankingStrategy(strategyName);
+  if (!strategy) {
+    throw new Error(`Unknown ranking strategy "${strategyName}"`);
+  }
+
+  const context = buildRankingContext(items);
+  return items
+    .map(item => ({ item, ranking: scoreItem(item, strategy, context) }))
+    .sort((a, b) => b.ranking.score - a.ranking.score)
+    .map(({ item, ranking }) => ({
+      item: {
+        ...item,
+        score: Math.round(ranking.score),
+        rankingStrategy: ranking.strategy,
+        rankingVersion: ranking.version,
+      },
+      ranking,
+    }));
+}
+
+export function rankItems(items: Item[], strategyName: string = DEFAULT_RANKING_STRATEGY): Item[] {
+  return rankItemsWithSignals(items, strategyName).map(({ item }) => item);
+}
 
-  return rankedItems.sort((a, b) => (b.score || 0) - (a.score || 0));
+/**
+ * Fields stored with an item's score: the default strategy scoring it on its own
+ */
+export function storedRanking(item: Item): Pick<Item, 'score' | 'rankingStrategy' | 'rankingVersion'> {
+  const strategy = getRankingStrategy()!;
+  const ranking = scoreItem(item, strategy, buildRankingContext([item]));
+  return { score: Math.round(ranking.score), rankingStrategy: ranking.strategy, rankingVersion: ranking.version };
 }
@@ -0,0 +1,69 @@
+import type { SourceReputationInputs } from "@shared/schema";
+
+/**
+ * Source reputation (0-100) from a feed's or author's track record. Each
+ * component is 0-1; components without data for a subject (no scored items,
+ * healing history for authors) are left out and the remaining weights
+ * renormalized.
+ */
+
+const COMPONENT_WEIGHTS = {
+  contentQuality: 0.35, // Average AI-assessed content quality of its items
+  ratings: 0.25, // User star ratings, shrunk toward neutral when there are few
+  saves: 0.15, // Save rate relative to the catalog-wide rate
+  integrity: 0.15, // Retractions, expressions of concern and corrections
+  reliability: 0.10, // Feeds only: failed healing attempts
+} as const;
+
+export type ReputationComponent = keyof typeof COMPONENT_WEIGHTS;
+
+// Ratings count as this many neutral (3-star) votes before the source's own
+const RATING_PRIOR_VOTES = 5;
+// Save rates count as this many items saved at the catalog-wide rate before the source's own
+const SAVE_PRIOR_ITEMS = 20;
+// Share of items retracted (corrections count half) at which integrity reaches 0
+const INTEGRITY_ZERO_SHARE = 0.1;
+// Failed healing attempts at which reliability is halved
+const RELIABILITY_HALF_FAILURES = 5;
+
+export function computeReputation(
+  inputs: SourceReputationInputs,
+  catalogSaveRate: number
+): { score: number; components: Partial<Record<ReputationComponent, number>> } {
+  const components: Partial<Record<ReputationComponent, number>> = {};
+
+  if (inputs.avgContentQuality !== null) {
+    components.contentQuality = Math.min(1, inputs.avgContentQuality / 40);
+  }
+
+  const ratingSum = (inputs.avgRating ?? 0) * inputs.ratings;
+  const shrunkRating = (ratingSum + 3 * RATING_PRIOR_VOTES) / (inputs.ratings + RATING_PRIOR_VOTES);
+  components.ratings = (shrunkRating - 1) / 4;
+
+  // 0.5 at the catalog-wide rate, approaching 1 well above it
+  const saveRate = (inputs.saves + SAVE_PRIOR_ITEMS * catalogSaveRate) / (inputs.items + SAVE_PRIOR_ITEMS);
+  components.saves = catalogSaveRate > 0 ? saveRate / (saveRate + catalogSaveRate) : 0.5;
+
+  const integrityShare = inputs.items > 0 ? (inputs.retracted + inputs.corrected / 2) / inputs.items : 0;
+  components.integrity = Math.max(0, 1 - integrityShare / INTEGRITY_ZERO_SHARE);
+
+  if (inputs.healingAttempts !== undefined) {
+    const failures = inputs.healingFailures ?? 0;
+    components.reliability = 1 - failures / (failures + RELIABILITY_HALF_FAILURES);
+  }
+
+  let weighted = 0;
+  let totalWeight = 0;
+  for (const [name, value] of Object.entries(components) as Array<[ReputationComponent, number]>) {
+    components[name] = Math.round(value * 1000) / 1000;
+    weighted += COMPONENT_WEIGHTS[name] * value;
+    totalWeight += COMPONENT_WEIGHTS[name];
+  }
+
+  return { score: Math.round((weighted / totalWeight) * 100), components };
+}
+
+// Author/channel names as reputations are keyed
+export function normalizeAuthorKey(author: string): string {
+  return author.trim().toLowerCase().replace(/\s+/g, ' ');
+}
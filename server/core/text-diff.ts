@@ -0,0 +1,119 @@
+import type { TextDiffOp } from '@shared/schema';
+
+/**
+ * Small LCS diff for item revisions: titles and excerpts are compared word by
+ * word, full texts sentence by sentence. The common prefix and suffix are
+ * trimmed first, so a typical edit leaves a short middle to align; when the
+ * middle is still too big for the LCS table it is reported as one replaced
+ * block.
+ */
+
+const MAX_LCS_CELLS = 4_000_000;
+const DIFF_CONTEXT_CHARS = 80; // Unchanged text kept on each side of a change
+
+export type DiffGranularity = 'word' | 'sentence';
+
+// Whitespace runs are tokens of their own, so joining the tokens gives back the text
+function tokenize(text: string, granularity: DiffGranularity): string[] {
+  const pattern = granularity === 'word' ? /\s+|\S+/g : /\s+|[^.!?\n]*[^.!?\s][.!?]*|[.!?]+/g;
+  return text.match(pattern) || [];
+}
+
+function pushOp(ops: TextDiffOp[], op: TextDiffOp['op'], text: string): void {
+  if (!text) return;
+  const last = ops[ops.length - 1];
+  if (last && last.op === op) {
+    last.text += text;
+  } else {
+    ops.push({ op, text });
+  }
+}
+
+function lcsOps(before: string[], after: string[]): TextDiffOp[] {
+  const ops: TextDiffOp[] = [];
+  const n = before.length;
+  const m = after.length;
+
+  if ((n + 1) * (m + 1) > MAX_LCS_CELLS) {
+    pushOp(ops, 'delete', before.join(''));
+    pushOp(ops, 'insert', after.join(''));
+    return ops;
+  }
+
+  // lengths[i][j] = LCS of before[i..] and after[j..]
+  const width = m + 1;
+  const lengths = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * width + j] = before[i] === after[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (before[i] === after[j]) {
+      pushOp(ops, 'equal', before[i++]);
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      pushOp(ops, 'delete', before[i++]);
+    } else {
+      pushOp(ops, 'insert', after[j++]);
+    }
+  }
+  while (i < n) pushOp(ops, 'delete', before[i++]);
+  while (j < m) pushOp(ops, 'insert', after[j++]);
+
+  return ops;
+}
+
+/**
+ * Diff two texts into equal/insert/delete runs. Joining the equal and delete
+ * runs gives `before`; the equal and insert runs give `after`.
+ */
+export function diffText(before: string, after: string, granularity: DiffGranularity): TextDiffOp[] {
+  const a = tokenize(before, granularity);
+  const b = tokenize(after, granularity);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const ops: TextDiffOp[] = [];
+  pushOp(ops, 'equal', a.slice(0, prefix).join(''));
+  for (const op of lcsOps(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix))) {
+    pushOp(ops, op.op, op.text);
+  }
+  pushOp(ops, 'equal', a.slice(a.length - suffix).join(''));
+  return ops;
+}
+
+/**
+ * Characters inserted plus characters deleted
+ */
+export function changedChars(ops: TextDiffOp[]): number {
+  return ops.reduce((total, op) => total + (op.op === 'equal' ? 0 : op.text.length), 0);
+}
+
+/**
+ * Shorten unchanged runs to the context around the changes, for storage and display
+ */
+export function condenseDiff(ops: TextDiffOp[], context: number = DIFF_CONTEXT_CHARS): TextDiffOp[] {
+  return ops.map((op, index) => {
+    if (op.op !== 'equal') return op;
+    const keepStart = index > 0 ? context : 0;
+    const keepEnd = index < ops.length - 1 ? context : 0;
+    if (op.text.length <= keepStart + keepEnd + 3) return op;
+
+    const start = keepStart > 0 ? op.text.slice(0, keepStart) : '';
+    const end = keepEnd > 0 ? op.text.slice(op.text.length - keepEnd) : '';
+    return { op: 'equal', text: `${start}…${end}` };
+  });
+}
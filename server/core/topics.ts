@@ -1,54 +1,590 @@
 import type { Topic } from "@shared/schema";
 
-// Regex patterns for topic detection (case-insensitive)
-const topicPatterns: Record<Topic, RegExp[]> = {
-  metabolic: [/metabolic/i, /metabolism/i, /metabol\w+/i],
-  chronic_fatigue: [/chronic fatigue/i, /CFS/i, /ME\/CFS/i, /myalgic encephalomyelitis/i],
-  chronic_EBV: [/chronic EBV/i, /epstein.?barr/i, /reactivat\w+ EBV/i, /chronic viral/i],
-  autoimmune: [/autoimmune/i, /auto.?immun\w+/i, /lupus/i, /rheumatoid/i, /hashimoto/i],
-  leaky_gut: [/leaky gut/i, /intestinal permeability/i, /gut barrier/i],
-  carnivore: [/carnivore/i, /carnivore diet/i, /all.?meat diet/i],
-  keto: [/keto/i, /ketogenic/i, /ketosis/i, /low.?carb/i],
-  IV_therapy: [/IV therapy/i, /intravenous/i, /IV nutrition/i, /IV vitamin/i],
-  HRT: [/\bHRT\b/i, /hormone replacement/i],
-  TRT: [/\bTRT\b/i, /testosterone replacement/i],
-  mold_CIRS: [/mold/i, /\bCIRS\b/i, /chronic inflammatory response/i, /mycotoxin/i],
-  weight_loss: [/weight loss/i, /obesity/i, /fat loss/i, /bariatric/i],
-  PANS_PANDAS: [/\bPANS\b/i, /\bPANDAS\b/i, /pediatric autoimmune/i],
-  insulin_resistance: [/insulin resistance/i, /hyperinsulinemia/i, /metabolic syndrome/i],
-  gut_health: [/gut health/i, /microbiome/i, /digestive health/i, /intestinal/i],
-  hormone_optimization: [/hormone optimization/i, /hormonal balance/i, /endocrine/i],
-  biohacking: [/biohack/i, /bio.?hack\w+/i, /optimization/i, /longevity/i],
-  mitochondrial_health: [/mitochondrial/i, /mitochondria/i, /cellular energy/i],
-  thyroid_health: [/thyroid/i, /hypothyroid/i, /hyperthyroid/i, /TSH/i, /T3/i, /T4/i],
-  adrenal_fatigue: [/adrenal fatigue/i, /adrenal dysfunction/i, /HPA axis/i],
-  brain_fog: [/brain fog/i, /cognitive dysfunction/i, /mental clarity/i],
-  inflammation: [/inflammation/i, /inflammatory/i, /anti.?inflammatory/i],
-  SIBO: [/\bSIBO\b/i, /small intestinal bacterial overgrowth/i],
-  candida: [/candida/i, /yeast overgrowth/i, /fungal infection/i],
-  histamine_DAO: [/histamine/i, /\bDAO\b/i, /diamine oxidase/i, /histamine intolerance/i],
-  NAD_therapy: [/\bNAD\b/i, /NAD\+/i, /nicotinamide/i],
-  ozone_therapy: [/ozone therapy/i, /ozone treatment/i, /\bO3\b therapy/i],
-  red_light_therapy: [/red light/i, /photobiomodulation/i, /LLLT/i, /LED therapy/i],
-  cold_exposure: [/cold exposure/i, /cold therapy/i, /cryotherapy/i, /ice bath/i],
-  sauna_therapy: [/sauna/i, /heat therapy/i, /hyperthermia/i, /infrared sauna/i],
-  fasting: [/fasting/i, /intermittent fasting/i, /\bIF\b/i, /time.?restricted eating/i],
-  autophagy: [/autophagy/i, /cellular cleanup/i, /autophagic/i],
+/**
+ * Keyword topic tagger
+ *
+ * Every topic has a one-line description (also what the embedding fallback in
+ * services/topic-classifier.ts compares items against) and keyword patterns.
+ * Patterns run against the original text: words carry the i flag, while
+ * acronyms that collide with ordinary words (ME, PANS, AI, IRA) are matched
+ * case-sensitively.
+ *
+ * A topic's confidence grows with the evidence for it: each pattern adds a
+ * point per occurrence in the body (up to three) and two more when it
+ * matches the title.
+ *
+ * These definitions cover the built-in topics. The live matchers are built
+ * from the taxonomy (server/services/taxonomy.ts), which adds topics created
+ * at runtime and every topic's synonyms as phrase patterns.
+ */
+
+export interface TopicScore {
+  topic: Topic;
+  confidence: number; // 0-1
+}
+
+interface TopicDefinition {
+  description: string;
+  patterns: RegExp[];
+}
+
+export interface TopicMatcher {
+  topic: Topic;
+  patterns: Array<{ test: RegExp; all: RegExp }>; // `all` is a global copy for counting occurrences
+}
+
+export interface TopicDescription {
+  topic: Topic;
+  text: string; // What the embedding fallback embeds for the topic
+}
+
+export const MAX_TOPICS = 5;
+export const MIN_KEYWORD_CONFIDENCE = 0.25; // One body mention
+
+const MAX_OCCURRENCES_PER_PATTERN = 3;
+const TITLE_POINTS = 2;
+const POINTS_SCALE = 3; // Points at which confidence reaches ~0.63
+
+export const topicDefinitions: Record<Topic, TopicDefinition> = {
+  // Health & Wellness
+  metabolic: {
+    description: 'Metabolic health: how the body produces and uses energy, blood sugar and metabolites',
+    patterns: [/\bmetabol(ic|ism|ites?)\b/i, /\bglucose (control|regulation|metabolism)\b/i],
+  },
+  chronic_fatigue: {
+    description: 'Chronic fatigue syndrome (ME/CFS), post-exertional malaise and persistent exhaustion',
+    patterns: [/\bchronic fatigue\b/i, /\bME\/CFS\b/, /\bCFS\b/, /\bmyalgic encephalomyelitis\b/i, /\bpost.exertional malaise\b/i],
+  },
+  chronic_EBV: {
+    description: 'Chronic Epstein-Barr virus infection and viral reactivation',
+    patterns: [/\bchronic EBV\b/i, /\bepstein.?barr\b/i, /\bEBV\b/, /\bviral reactivation\b/i, /\breactivat\w+ EBV\b/i],
+  },
+  autoimmune: {
+    description: 'Autoimmune diseases such as lupus, rheumatoid arthritis, Hashimoto\'s and multiple sclerosis',
+    patterns: [/\bauto.?immun\w*/i, /\blupus\b/i, /\brheumatoid arthritis\b/i, /\bhashimoto/i, /\bmultiple sclerosis\b/i, /\bceliac disease\b/i, /\bpsoriasis\b/i, /\btype 1 diabetes\b/i],
+  },
+  leaky_gut: {
+    description: 'Leaky gut: intestinal permeability and gut barrier function',
+    patterns: [/\bleaky gut\b/i, /\bintestinal permeability\b/i, /\bgut barrier\b/i, /\bzonulin\b/i],
+  },
+  carnivore: {
+    description: 'Carnivore and all-meat or animal-based diets',
+    patterns: [/\bcarnivore\b/i, /\ball.?meat diet\b/i, /\banimal.based diet\b/i],
+  },
+  keto: {
+    description: 'Ketogenic and low-carb diets, ketosis and ketones',
+    patterns: [/\bketo\b/i, /\bketogenic\b/i, /\bketosis\b/i, /\bketones?\b/i, /\blow.carb\b/i],
+  },
+  IV_therapy: {
+    description: 'Intravenous vitamin and nutrient infusions',
+    patterns: [/\bIV (therapy|drips?|nutrition|vitamins?|infusions?)\b/i, /\bintravenous (vitamins?|nutrients?|therapy|infusions?)\b/i, /\bmyers.? cocktail\b/i, /\binfusion therapy\b/i],
+  },
+  HRT: {
+    description: 'Hormone replacement therapy, menopause and perimenopause treatment',
+    patterns: [/\bHRT\b/, /\bhormone replacement\b/i, /\b(peri)?menopaus\w+/i, /\bestrogen therapy\b/i],
+  },
+  TRT: {
+    description: 'Testosterone replacement therapy, low testosterone and hypogonadism',
+    patterns: [/\bTRT\b/, /\btestosterone (replacement|therapy)\b/i, /\blow testosterone\b/i, /\bhypogonadism\b/i],
+  },
+  mold_CIRS: {
+    description: 'Mold illness, mycotoxins and chronic inflammatory response syndrome (CIRS)',
+    patterns: [/\bmou?ld (illness|exposure|toxicity|remediation)\b/i, /\bblack mou?ld\b/i, /\bCIRS\b/, /\bchronic inflammatory response syndrome\b/i, /\bmycotoxins?\b/i],
+  },
+  weight_loss: {
+    description: 'Weight loss, obesity, fat loss, bariatric surgery and GLP-1 drugs',
+    patterns: [/\bweight loss\b/i, /\blosing weight\b/i, /\bobes(e|ity)\b/i, /\bfat loss\b/i, /\bbariatric\b/i, /\bGLP-?1\b/i, /\b(semaglutide|tirzepatide|ozempic|wegovy|mounjaro)\b/i],
+  },
+  PANS_PANDAS: {
+    description: 'PANS and PANDAS: pediatric acute-onset neuropsychiatric syndromes',
+    patterns: [/\bPANS\b/, /\bPANDAS\b/, /\bpediatric (acute.onset |autoimmune )?neuropsychiatric\b/i],
+  },
+  insulin_resistance: {
+    description: 'Insulin resistance, prediabetes, type 2 diabetes and metabolic syndrome',
+    patterns: [/\binsulin (resistan\w+|sensitivity)\b/i, /\bhyperinsulinemia\b/i, /\bmetabolic syndrome\b/i, /\bprediabet\w+/i, /\btype 2 diabetes\b/i, /\bHbA1c\b/i],
+  },
+  gut_health: {
+    description: 'Gut health, the microbiome, probiotics and digestive disorders',
+    patterns: [/\bgut health\b/i, /\bmicrobio(me|ta)\b/i, /\b(pro|pre)biotics?\b/i, /\bdigestive health\b/i, /\bIBS\b/, /\birritable bowel\b/i, /\bintestinal\b/i],
+  },
+  hormone_optimization: {
+    description: 'Hormonal balance and endocrine health: cortisol, estrogen, progesterone',
+    patterns: [/\bhormone optimi[sz]ation\b/i, /\bhormonal (balance|health|imbalance)\b/i, /\bendocrin\w+/i, /\bcortisol\b/i, /\bprogesterone\b/i],
+  },
+  biohacking: {
+    description: 'Biohacking: self-experimentation, nootropics, wearables and quantified self',
+    patterns: [/\bbio.?hack\w*/i, /\bquantified self\b/i, /\bnootropics?\b/i, /\bcontinuous glucose monitor\w*/i, /\bCGM\b/],
+  },
+  mitochondrial_health: {
+    description: 'Mitochondria, cellular energy and ATP production',
+    patterns: [/\bmitochondri\w+/i, /\bcellular energy\b/i, /\bATP production\b/i, /\boxidative phosphorylation\b/i],
+  },
+  thyroid_health: {
+    description: 'Thyroid health: hypothyroidism, hyperthyroidism and thyroid hormones',
+    patterns: [/\bthyroid\b/i, /\bhypothyroid\w*/i, /\bhyperthyroid\w*/i, /\bTSH\b/, /\b(free )?T[34]\b/, /\blevothyroxine\b/i, /\bgraves'? disease\b/i],
+  },
+  adrenal_fatigue: {
+    description: 'Adrenal fatigue, adrenal dysfunction and the HPA axis',
+    patterns: [/\badrenal (fatigue|dysfunction|insufficiency)\b/i, /\bHPA.axis\b/i],
+  },
+  brain_fog: {
+    description: 'Brain fog, mental fatigue and cognitive dysfunction',
+    patterns: [/\bbrain fog\b/i, /\bcognitive dysfunction\b/i, /\bmental (clarity|fatigue)\b/i],
+  },
+  inflammation: {
+    description: 'Inflammation, inflammatory markers and cytokines',
+    patterns: [/\binflammat\w+/i, /\banti.?inflammatory\b/i, /\bCRP\b/, /\bC.reactive protein\b/i, /\bcytokines?\b/i, /\binflammaging\b/i],
+  },
+  SIBO: {
+    description: 'Small intestinal bacterial overgrowth (SIBO)',
+    patterns: [/\bSIBO\b/, /\bsmall intestinal bacterial overgrowth\b/i],
+  },
+  candida: {
+    description: 'Candida, yeast and fungal overgrowth',
+    patterns: [/\bcandida\b/i, /\byeast overgrowth\b/i, /\bfungal (infection|overgrowth)s?\b/i],
+  },
+  histamine_DAO: {
+    description: 'Histamine intolerance, DAO enzyme and mast cell activation',
+    patterns: [/\bhistamine\b/i, /\bDAO\b/, /\bdiamine oxidase\b/i, /\bmast cells?\b/i, /\bMCAS\b/],
+  },
+  NAD_therapy: {
+    description: 'NAD+ therapy and precursors such as NMN and nicotinamide riboside',
+    patterns: [/\bNAD\b/, /\bNMN\b/, /\bnicotinamide (riboside|mononucleotide)\b/i],
+  },
+  ozone_therapy: {
+    description: 'Ozone therapy and ozonated treatments',
+    patterns: [/\bozone (therapy|treatments?|sauna|injections?)\b/i, /\bozonated\b/i, /\bEBOO\b/],
+  },
+  red_light_therapy: {
+    description: 'Red and near-infrared light therapy (photobiomodulation)',
+    patterns: [/\bred light\b/i, /\bnear.infrared (light|therapy)\b/i, /\bphotobiomodulation\b/i, /\bLLLT\b/, /\blow.level laser\b/i],
+  },
+  cold_exposure: {
+    description: 'Cold exposure: cold plunges, ice baths and cryotherapy',
+    patterns: [/\bcold (exposure|therapy|plunges?|water immersion|showers?)\b/i, /\bcryotherapy\b/i, /\bice baths?\b/i, /\bcold.water swimming\b/i],
+  },
+  sauna_therapy: {
+    description: 'Sauna use and heat therapy',
+    patterns: [/\bsaunas?\b/i, /\bheat (therapy|exposure|stress)\b/i, /\bhyperthermia\b/i],
+  },
+  fasting: {
+    description: 'Fasting, intermittent fasting and time-restricted eating',
+    patterns: [/\bfasting\b/i, /\bintermittent fast\w*/i, /\btime.restricted eating\b/i, /\bOMAD\b/],
+  },
+  autophagy: {
+    description: 'Autophagy and cellular recycling',
+    patterns: [/\bautophag\w+/i, /\bmitophagy\b/i, /\bcellular (cleanup|recycling)\b/i],
+  },
+  longevity: {
+    description: 'Longevity, lifespan, healthy aging and the biology of aging',
+    patterns: [/\blongevity\b/i, /\blifespan\b/i, /\bhealthspan\b/i, /\banti.?aging\b/i, /\bbiological age\b/i, /\bsenescen\w+/i, /\bepigenetic clocks?\b/i, /\baging (research|biology|process)\b/i],
+  },
+  nutrition_science: {
+    description: 'Nutrition science: diet, nutrients, protein and food quality',
+    patterns: [/\bnutrition(al)?\b/i, /\bdiet(ary|s)?\b/i, /\bnutrients?\b/i, /\bmacronutrients?\b/i, /\bprotein intake\b/i, /\bultra.?processed foods?\b/i, /\bfib(er|re) intake\b/i],
+  },
+  fitness_recovery: {
+    description: 'Exercise, strength and endurance training, and muscle recovery',
+    patterns: [/\bexercis(e|es|ing)\b/i, /\b(strength|resistance) training\b/i, /\bworkouts?\b/i, /\bfitness\b/i, /\bmuscle (recovery|growth|mass|soreness)\b/i, /\bVO2 ?max\b/i, /\bzone 2\b/i, /\bHIIT\b/, /\bendurance\b/i],
+  },
+  sleep_optimization: {
+    description: 'Sleep quality, insomnia, circadian rhythm and melatonin',
+    patterns: [/\bsleep(ing)?\b/i, /\binsomnia\b/i, /\bcircadian\b/i, /\bmelatonin\b/i, /\bsleep apnea\b/i],
+  },
+  mindfulness: {
+    description: 'Mindfulness, meditation and breathwork',
+    patterns: [/\bmindful\w*/i, /\bmeditat\w+/i, /\bbreathwork\b/i, /\bvipassana\b/i],
+  },
+  mental_health: {
+    description: 'Mental health: depression, anxiety, PTSD, ADHD and psychiatric care',
+    patterns: [/\bmental health\b/i, /\bdepress(ion|ive)\b/i, /\banxiety\b/i, /\bPTSD\b/, /\bpsychiatr\w+/i, /\bADHD\b/, /\bbipolar\b/i, /\bsuicid\w+/i, /\bpsychedelic.assisted\b/i],
+  },
+  preventive_medicine: {
+    description: 'Preventive medicine: screening, vaccination and cardiovascular risk factors',
+    patterns: [/\bprevent(ive|ative) (medicine|care|health)\b/i, /\bscreening\b/i, /\bearly detection\b/i, /\bvaccin\w+/i, /\bcardiovascular (risk|disease)\b/i, /\brisk factors?\b/i, /\bcholesterol\b/i, /\bblood pressure\b/i, /\bhypertension\b/i],
+  },
+  supplementation: {
+    description: 'Dietary supplements: vitamins, minerals, creatine and omega-3s',
+    patterns: [/\bsupplement(s|ation)?\b/i, /\bvitamin [A-K]\d{0,2}\b/i, /\bmagnesium\b/i, /\bcreatine\b/i, /\bomega.?3s?\b/i, /\bfish oil\b/i, /\bzinc\b/i],
+  },
+
+  // Science & Nature
+  neuroscience: {
+    description: 'Neuroscience: neurons, brain circuits, neurotransmitters and brain imaging',
+    patterns: [/\bneuroscien\w+/i, /\bneurons?\b/i, /\bneural\b(?! net)/i, /\bbrain (activity|regions?|circuits?|imaging|scans?|cells?)\b/i, /\bneurotransmitters?\b/i, /\bdopamine\b/i, /\bfMRI\b/i, /\bneuroplasticity\b/i, /\bhippocamp\w+/i, /\bcortex\b/i],
+  },
+  psychology: {
+    description: 'Psychology: behavior, emotions, personality and cognitive biases',
+    patterns: [/\bpsycholog\w+/i, /\bbehaviou?ral (science|research)\b/i, /\bpersonality\b/i, /\bemotions?\b/i, /\bemotional\b/i, /\bself.esteem\b/i],
+  },
+  genetics: {
+    description: 'Genetics and genomics: genes, DNA, mutations, CRISPR and heritability',
+    patterns: [/\bgene(s|tic|tics)?\b/i, /\bgenom\w+/i, /\bDNA\b/, /\bCRISPR\b/i, /\bmutations?\b/i, /\bheritab\w+/i, /\bepigenetic\w*/i, /\bGWAS\b/],
+  },
+  space_exploration: {
+    description: 'Space exploration and astronomy: missions, rockets, planets and telescopes',
+    patterns: [/\bNASA\b/, /\bSpaceX\b/i, /\bspacecraft\b/i, /\brockets?\b/i, /\bMars\b/, /\blunar\b/i, /\bmoon (missions?|landing)\b/i, /\borbit(al|er|s)?\b/i, /\basteroids?\b/i, /\btelescopes?\b/i, /\bJames Webb\b|\bJWST\b/, /\bexoplanets?\b/i, /\bastronauts?\b/i, /\bgalax(y|ies)\b/i, /\bastronom\w+/i],
+  },
+  physics: {
+    description: 'Physics: quantum mechanics, particles, relativity and fusion',
+    patterns: [/\bphysics\b/i, /\bphysicists?\b/i, /\bquantum (mechanics|physics|field|entanglement|states?)\b/i, /\bparticle physics\b/i, /\bLHC\b/, /\bdark (matter|energy)\b/i, /\bgravitational\b/i, /\brelativity\b/i, /\bsuperconduct\w+/i, /\bfusion (energy|reactors?|power)\b/i, /\bphotons?\b/i],
+  },
+  biology: {
+    description: 'Biology: cells, proteins, organisms, evolution and microbes',
+    patterns: [/\bbiolog(y|ical|ists?)\b/i, /\bcell biology\b/i, /\bcellular\b/i, /\bproteins?\b/i, /\borganisms?\b/i, /\bevolution(ary)?\b/i, /\bspecies\b/i, /\benzymes?\b/i, /\bbacteri(a|al|um)\b/i, /\bviruses\b/i, /\bstem cells?\b/i],
+  },
+  ecology: {
+    description: 'Ecology: ecosystems, biodiversity, habitats and wildlife',
+    patterns: [/\becolog\w+/i, /\becosystems?\b/i, /\bbiodiversity\b/i, /\bhabitats?\b/i, /\bextinctions?\b/i, /\bfood webs?\b/i, /\bpollinators?\b/i, /\bcoral reefs?\b/i, /\bwildlife\b/i],
+  },
+  chemistry: {
+    description: 'Chemistry: molecules, reactions, catalysts and materials',
+    patterns: [/\bchemistry\b/i, /\bchemists?\b/i, /\bchemical reactions?\b/i, /\bmolecul(e|es|ar)\b/i, /\bcatalys(t|ts|is)\b/i, /\bcompounds?\b/i, /\bpolymers?\b/i],
+  },
+  cognitive_science: {
+    description: 'Cognitive science: cognition, perception, working memory and consciousness',
+    patterns: [/\bcognitive science\b/i, /\bcognition\b/i, /\bcognitive (load|processing|function|abilit\w+|decline)\b/i, /\bperception\b/i, /\bworking memory\b/i, /\bconsciousness\b/i, /\blanguage acquisition\b/i],
+  },
+  mathematics: {
+    description: 'Mathematics: theorems, proofs, algebra, geometry and number theory',
+    patterns: [/\bmathemat\w+/i, /\btheorems?\b/i, /\balgebra(ic)?\b/i, /\bgeometr(y|ic)\b/i, /\bprime numbers?\b/i, /\bcalculus\b/i, /\btopolog\w+/i, /\bnumber theory\b/i, /\bconjectures?\b/i],
+  },
+  research: {
+    description: 'Scientific research and methods: trials, meta-analyses and peer review',
+    patterns: [/\bstudy (finds|found|shows|suggests)\b/i, /\bresearchers\b/i, /\bpeer.reviewed\b/i, /\brandomi[sz]ed (controlled )?trials?\b/i, /\bmeta.analys[ie]s\b/i, /\bsystematic review\b/i, /\bcohort study\b/i, /\bclinical trials?\b/i, /\bpreprints?\b/i, /\breplication crisis\b/i],
+  },
+
+  // Technology & AI
+  artificial_intelligence: {
+    description: 'Artificial intelligence: large language models, chatbots, generative AI and AI safety',
+    patterns: [/\bartificial intelligence\b/i, /\bAI\b/, /\bLLMs?\b/, /\blarge language models?\b/i, /\bGPT-?\d\w*\b/, /\bChatGPT\b/i, /\bgenerative AI\b/i, /\bAGI\b/, /\bchatbots?\b/i, /\bOpenAI\b/i, /\bDeepMind\b/i],
+  },
+  machine_learning: {
+    description: 'Machine learning: deep learning, neural networks, model training and fine-tuning',
+    patterns: [/\bmachine learning\b/i, /\bdeep learning\b/i, /\bneural net(work)?s?\b/i, /\btransformer (models?|architecture)\b/i, /\btraining data\b/i, /\bfine.tun(e|ed|ing)\b/i, /\breinforcement learning\b/i, /\bgradient descent\b/i, /\bembeddings\b/i, /\bPyTorch\b/i, /\bTensorFlow\b/i, /\bdiffusion models?\b/i],
+  },
+  automation: {
+    description: 'Automation of work and workflows, no-code tools and AI agents',
+    patterns: [/\bautomat(e|ed|es|ing|ion)\b/i, /\bworkflows?\b/i, /\bno.code\b/i, /\bZapier\b/i, /\bRPA\b/, /\bAI agents?\b/i],
+  },
+  robotics: {
+    description: 'Robotics, humanoid robots, drones and self-driving vehicles',
+    patterns: [/\brobot(s|ic|ics)?\b/i, /\bhumanoids?\b/i, /\bautonomous (vehicles?|cars?|driving|drones?)\b/i, /\bself.driving\b/i, /\bdrones?\b/i],
+  },
+  data_science: {
+    description: 'Data science: statistics, data analysis, SQL, pipelines and visualization',
+    patterns: [/\bdata scien\w+/i, /\bdata (analysis|analytics|engineering|visuali[sz]ation|pipelines?)\b/i, /\bstatistic(s|al)\b/i, /\bSQL\b/, /\bdataframes?\b/i, /\bJupyter\b/i, /\bbig data\b/i, /\bdashboards?\b/i],
+  },
+  cybersecurity: {
+    description: 'Cybersecurity: hacking, ransomware, malware, vulnerabilities and data breaches',
+    patterns: [/\bcyber.?security\b/i, /\bcyber.?attacks?\b/i, /\bhackers?\b/i, /\bransomware\b/i, /\bmalware\b/i, /\bphishing\b/i, /\bvulnerabilit(y|ies)\b/i, /\bCVE-\d{4}/i, /\bdata breach(es)?\b/i, /\bzero.day\b/i, /\bencryption\b/i, /\binfosec\b/i],
+  },
+  software_development: {
+    description: 'Software development: programming, languages, open source and engineering practice',
+    patterns: [/\bsoftware (development|engineering|engineers?|developers?)\b/i, /\bprogramm(ing|ers?)\b/i, /\bdevelopers\b/i, /\bcoding\b/i, /\bopen.source\b/i, /\bGitHub\b/i, /\b(JavaScript|TypeScript|Rust|Golang|Kotlin)\b/, /\bAPIs?\b/, /\bcompilers?\b/i, /\brefactor\w*/i, /\bDevOps\b/i, /\bcode review\b/i, /\bdatabases?\b/i, /\bKubernetes\b/i],
+  },
+  tech_policy: {
+    description: 'Technology policy: regulation of tech companies and AI, antitrust, privacy and moderation',
+    patterns: [/\btech (policy|regulation|giants?|companies)\b/i, /\bantitrust\b/i, /\bAI (act|regulation|policy|governance)\b/i, /\bprivacy (laws?|regulations?|rules)\b/i, /\bGDPR\b/, /\bnet neutrality\b/i, /\bsection 230\b/i, /\bcontent moderation\b/i, /\bFTC\b/, /\bdigital (markets|services) act\b/i, /\bdata protection\b/i, /\bsurveillance\b/i],
+  },
+  emerging_tech: {
+    description: 'Emerging technologies: quantum computing, VR/AR, semiconductors, brain-computer interfaces',
+    patterns: [/\bemerging tech\w*/i, /\bquantum comput\w+/i, /\b(augmented|virtual|mixed) reality\b/i, /\bmetaverse\b/i, /\b3D print\w+/i, /\bnanotech\w*/i, /\bbrain.computer interfaces?\b/i, /\bNeuralink\b/i, /\bwearables?\b/i, /\bsemiconductors?\b/i, /\bchipmakers?\b/i, /\bIoT\b/, /\binternet of things\b/i],
+  },
+
+  // Productivity & Self-Improvement
+  focus_flow: {
+    description: 'Focus, deep work, flow states and managing distraction',
+    patterns: [/\bdeep work\b/i, /\bflow state\b/i, /\bstate of flow\b/i, /\b(ability to|improve|sustain\w*) focus\b/i, /\bconcentration\b/i, /\bdistractions?\b/i, /\b(single|multi).?tasking\b/i, /\bpomodoro\b/i],
+  },
+  habit_building: {
+    description: 'Building habits and routines, and behavior change',
+    patterns: [/\bhabits?\b/i, /\broutines?\b/i, /\bhabit (stacking|formation|tracking)\b/i, /\bbehaviou?r change\b/i],
+  },
+  learning_techniques: {
+    description: 'How to learn: spaced repetition, active recall, retrieval practice and study methods',
+    patterns: [/\bspaced repetition\b/i, /\bactive recall\b/i, /\bretrieval practice\b/i, /\bFeynman technique\b/i, /\binterleaving\b/i, /\bhow to learn\b/i, /\bmetacognition\b/i, /\bstudy (techniques|methods|habits|tips)\b/i, /\bAnki\b/],
+  },
+  time_management: {
+    description: 'Time management and productivity: priorities, to-do lists, calendars and procrastination',
+    patterns: [/\btime management\b/i, /\bproductivity\b/i, /\bto.do lists?\b/i, /\btime.?block\w*/i, /\bprocrastinat\w+/i, /\bprioriti[sz]\w+/i, /\bEisenhower matrix\b/i, /\bGetting Things Done\b|\bGTD\b/],
+  },
+  stoicism: {
+    description: 'Stoicism and Stoic philosophers: Marcus Aurelius, Seneca, Epictetus',
+    patterns: [/\bstoic(ism|s)?\b/i, /\bMarcus Aurelius\b/i, /\bSeneca\b/, /\bEpictetus\b/i, /\bmemento mori\b/i, /\bamor fati\b/i],
+  },
+  motivation: {
+    description: 'Motivation, willpower, self-discipline, goal setting and mindset',
+    patterns: [/\bmotivat\w+/i, /\bwillpower\b/i, /\bself.discipline\b/i, /\bgoal.setting\b/i, /\bgrit\b/i, /\bmindset\b/i],
+  },
+  journaling: {
+    description: 'Journaling, morning pages and reflective writing',
+    patterns: [/\bjournall?ing\b/i, /\bmorning pages\b/i, /\bgratitude journal\b/i, /\bdiar(y|ies)\b/i, /\breflective writing\b/i],
+  },
+  decision_making: {
+    description: 'Decision making: mental models, heuristics, trade-offs and probabilistic thinking',
+    patterns: [/\bdecision.making\b/i, /\bdecisions?\b/i, /\bmental models?\b/i, /\bcognitive bias(es)?\b/i, /\bheuristics?\b/i, /\btrade.offs?\b/i, /\bprobabilistic thinking\b/i, /\bexpected value\b/i],
+  },
+  systems_thinking: {
+    description: 'Systems thinking: feedback loops, complex systems, emergence and second-order effects',
+    patterns: [/\bsystems thinking\b/i, /\bfeedback loops?\b/i, /\bsecond.order (effects|thinking|consequences)\b/i, /\bcomplex (adaptive )?systems?\b/i, /\bemergen(t|ce)\b/i, /\bleverage points?\b/i],
+  },
+
+  // Finance & Business
+  investing: {
+    description: 'Investing: stock markets, portfolios, index funds, bonds and valuations',
+    patterns: [/\binvest(ing|ors?|ments?)\b/i, /\bstock (market|prices?)\b/i, /\bstocks\b/i, /\bportfolios?\b/i, /\bS&P 500\b/i, /\bindex funds?\b/i, /\bETFs?\b/, /\bdividends?\b/i, /\b(treasury|corporate|government) bonds?\b/i, /\bbond (markets?|yields?)\b/i, /\bequities\b/i, /\bvaluations?\b/i, /\bhedge funds?\b/i, /\basset allocation\b/i, /\bNasdaq\b/i],
+  },
+  personal_finance: {
+    description: 'Personal finance: budgeting, saving, retirement, debt and credit',
+    patterns: [/\bpersonal finance\b/i, /\bbudgeting\b/i, /\bsavings\b/i, /\bretirement\b/i, /\b401\(?k\)?/i, /\bIRA\b/, /\bRoth\b/, /\bcredit (cards?|scores?)\b/i, /\bdebt\b/i, /\bmortgages?\b/i, /\bemergency fund\b/i, /\bfinancial independence\b/i, /\bfrugal\w*/i],
+  },
+  startups: {
+    description: 'Startups: founders, venture capital, fundraising and product-market fit',
+    patterns: [/\bstart.?ups?\b/i, /\bventure capital\w*/i, /\bVCs?\b/, /\bseed (round|funding|stage)\b/i, /\bSeries [A-D]\b/, /\bY Combinator\b/i, /\bfounders?\b/i, /\bproduct.market fit\b/i, /\bfundrais\w+/i, /\bpitch decks?\b/i],
+  },
+  entrepreneurship: {
+    description: 'Entrepreneurship: running a small business, bootstrapping and side businesses',
+    patterns: [/\bentrepreneur\w*/i, /\bsmall business(es)?\b/i, /\bbusiness owners?\b/i, /\bsolopreneur\w*/i, /\bbootstrap(ped|ping)\b/i, /\bside (hustles?|business(es)?)\b/i, /\bcustomer acquisition\b/i, /\bindie hackers?\b/i],
+  },
+  economics: {
+    description: 'Economics: inflation, interest rates, central banks, GDP, labor markets and trade',
+    patterns: [/\beconom(y|ies|ics|ic|ists?)\b/i, /\binflation\b/i, /\binterest rates?\b/i, /\bFederal Reserve\b/i, /\bcentral banks?\b/i, /\bGDP\b/, /\brecessions?\b/i, /\bunemployment\b/i, /\blabou?r markets?\b/i, /\btariffs?\b/i, /\btrade (wars?|deficits?|policy)\b/i, /\bmonetary policy\b/i, /\bfiscal\b/i],
+  },
+  real_estate: {
+    description: 'Real estate: housing markets, home prices, rentals, landlords and REITs',
+    patterns: [/\breal estate\b/i, /\bhousing (market|prices|crisis|supply)\b/i, /\bhome prices\b/i, /\bproperty (market|prices|investments?|investors?)\b/i, /\brental (properties|property|market|income)\b/i, /\blandlords?\b/i, /\bREITs?\b/, /\bmortgage rates?\b/i, /\bhomebuyers?\b/i],
+  },
+  crypto_web3: {
+    description: 'Cryptocurrency and web3: Bitcoin, Ethereum, blockchains, DeFi and stablecoins',
+    patterns: [/\bcrypto(currency|currencies)?\b/i, /\bbitcoin\b/i, /\bethereum\b/i, /\bblockchains?\b/i, /\bweb3\b/i, /\bDeFi\b/, /\bNFTs?\b/, /\bstablecoins?\b/i, /\bsolana\b/i, /\bBTC\b/],
+  },
+  marketing: {
+    description: 'Marketing: advertising, SEO, content strategy, funnels and copywriting',
+    patterns: [/\bmarketing\b/i, /\bmarketers?\b/i, /\bSEO\b/, /\badvertis\w+/i, /\bcontent strategy\b/i, /\bconversion rates?\b/i, /\bemail (lists?|campaigns?)\b/i, /\bgrowth hacking\b/i, /\bfunnels?\b/i, /\baudience (growth|building)\b/i, /\bcopywriting\b/i, /\bgo.to.market\b/i],
+  },
+  productivity_founders: {
+    description: 'Leadership and productivity for founders and executives: delegation, managing teams',
+    patterns: [/\bfounder (productivity|burnout|mode|life)\b/i, /\bCEOs?\b/, /\bmaker'?s schedule\b/i, /\bmanager'?s schedule\b/i, /\bdelegat(e|ion|ing)\b/i, /\bexecutives?\b/i, /\bleadership\b/i, /\bmanag(e|ing) (a )?teams?\b/i, /\bremote teams?\b/i],
+  },
+
+  // Society & Culture
+  politics: {
+    description: 'Politics: elections, governments, legislatures, parties and voters',
+    patterns: [/\bpolitic(s|al|ians?)\b/i, /\belections?\b/i, /\bCongress\b/, /\bSenate\b/, /\bparliament\w*/i, /\bdemocra(cy|cies|tic)\b/i, /\bRepublicans?\b/, /\bDemocrats\b/, /\bpresidential\b/i, /\bvot(ers?|ing)\b/i, /\blegislat(ion|ure|ive)\b/i, /\bgovernments?\b/i, /\bpolicymakers?\b/i],
+  },
+  ethics: {
+    description: 'Ethics and moral philosophy, including bioethics and AI ethics',
+    patterns: [/\bethic(s|al|ists?)\b/i, /\bmoral(s|ity)?\b/i, /\bbioethics\b/i, /\butilitarian\w*/i, /\beffective altruism\b/i],
+  },
+  media_studies: {
+    description: 'Media and journalism: news outlets, misinformation, propaganda and social media',
+    patterns: [/\bmedia (literacy|studies|coverage|bias|landscape|ecosystem)\b/i, /\bjournalis(m|ts?)\b/i, /\bnews(rooms?|papers?| media| outlets?)\b/i, /\bmisinformation\b/i, /\bdisinformation\b/i, /\bpropaganda\b/i, /\bsocial media\b/i, /\bpress freedom\b/i, /\battention economy\b/i],
+  },
+  philosophy: {
+    description: 'Philosophy: metaphysics, epistemology, existentialism and great philosophers',
+    patterns: [/\bphilosoph\w+/i, /\bmetaphysic\w*/i, /\bepistemolog\w+/i, /\bexistential\w*/i, /\b(Nietzsche|Kant|Plato|Aristotle|Wittgenstein|Socrates|Heidegger)\b/, /\bfree will\b/i, /\bmeaning of life\b/i, /\bphenomenolog\w+/i],
+  },
+  education_reform: {
+    description: 'Education policy and reform: schools, curricula, testing, higher education and tuition',
+    patterns: [/\beducation (reform|policy|system)\b/i, /\bschool (reform|choice|funding|districts?|boards?)\b/i, /\bstandardi[sz]ed test\w*/i, /\bcharter schools?\b/i, /\bcurricul(um|a)\b/i, /\bpublic schools?\b/i, /\bstudent (debt|loans?|outcomes|achievement)\b/i, /\bhigher education\b/i, /\btuition\b/i],
+  },
+  gender_identity: {
+    description: 'Gender and identity: gender equality, transgender and LGBTQ issues, feminism',
+    patterns: [/\bgender (identity|equality|gap|roles?|norms|affirming|dysphoria)\b/i, /\btransgender\b/i, /\bnon.binary\b/i, /\bLGBTQ?\+?/, /\bfeminis(m|ts?)\b/i, /\bqueer\b/i, /\bsexism\b/i, /\bmasculinity\b/i, /\bwomen'?s rights\b/i],
+  },
+  sociology: {
+    description: 'Sociology: inequality, social mobility, demographics, immigration and loneliness',
+    patterns: [/\bsociolog\w+/i, /\bsocial (inequality|mobility|class|norms|capital|trust|cohesion|isolation)\b/i, /\binequalit(y|ies)\b/i, /\bloneliness\b/i, /\bdemograph\w+/i, /\b(birth|fertility) rates?\b/i, /\bimmigra\w+/i, /\bracism\b/i],
+  },
+  global_affairs: {
+    description: 'Global affairs: geopolitics, foreign policy, diplomacy, wars and international institutions',
+    patterns: [/\bgeopolitic\w*/i, /\bforeign policy\b/i, /\binternational relations\b/i, /\bdiplomac(y|ts?)\b/i, /\bdiplomatic\b/i, /\bUnited Nations\b/i, /\bNATO\b/, /\b(Ukraine|Russia|China|Gaza|Israel|Iran|Taiwan|Middle East)\b/, /\bsanctions\b/i, /\brefugees?\b/i, /\bglobal (governance|order|south)\b/i],
+  },
+  history: {
+    description: 'History: historical events, eras, empires, archaeology and historians',
+    patterns: [/\bhistor(y|ical|ians?)\b/i, /\bcentur(y|ies) ago\b/i, /\b(ancient|medieval|victorian)\b/i, /\barchaeolog\w+/i, /\bWorld War (I|II|One|Two|1|2)\b/i, /\b\d{1,2}(st|nd|rd|th).century\b/i, /\bempires?\b/i, /\bcivili[sz]ations?\b/i],
+  },
+
+  // Environment & Sustainability
+  climate_change: {
+    description: 'Climate change: global warming, emissions, net zero, extreme weather and climate science',
+    patterns: [/\bclimate (change|crisis|science|emergency|action|models?|risk)\b/i, /\bglobal warming\b/i, /\bgreenhouse gas(es)?\b/i, /\bcarbon (emissions|dioxide|budget|capture|removal)\b/i, /\bCO2\b/, /\bemissions\b/i, /\bnet.zero\b/i, /\bdecarboni[sz]\w+/i, /\bheat ?waves?\b/i, /\bsea.level rise\b/i, /\bIPCC\b/, /\bextreme weather\b/i],
+  },
+  renewable_energy: {
+    description: 'Renewable and clean energy: solar, wind, batteries, electric vehicles and the grid',
+    patterns: [/\brenewables?\b/i, /\brenewable energy\b/i, /\bsolar (power|panels?|energy|farms?|PV)\b/i, /\bwind (power|turbines?|energy|farms?)\b/i, /\bbattery storage\b/i, /\bgrid.scale\b/i, /\belectric vehicles?\b/i, /\bEVs?\b/, /\bheat pumps?\b/i, /\bclean energy\b/i, /\bgeothermal\b/i, /\bgreen hydrogen\b/i, /\bnuclear (power|energy|reactors?)\b/i, /\bpower grid\b/i],
+  },
+  agriculture_food_systems: {
+    description: 'Agriculture and food systems: farming, crops, livestock, soil and food security',
+    patterns: [/\bagricultur\w+/i, /\bfarm(s|ing|ers?)?\b/i, /\bcrops?\b/i, /\bfood (systems?|security|supply|production|waste)\b/i, /\bregenerative (agriculture|farming)\b/i, /\bsoil (health|carbon)\b/i, /\blivestock\b/i, /\bfertili[sz]ers?\b/i, /\bpesticides?\b/i, /\bharvests?\b/i],
+  },
+  conservation: {
+    description: 'Nature conservation: endangered species, protected areas, deforestation and rewilding',
+    patterns: [/\bconservation(ists?)?\b/i, /\bendangered\b/i, /\bwildlife (protection|conservation|trade)\b/i, /\bprotected areas?\b/i, /\bnational parks?\b/i, /\brewilding\b/i, /\bdeforestation\b/i, /\breforestation\b/i, /\bpoaching\b/i, /\bmarine (reserves?|protected)\b/i],
+  },
+  environmental_policy: {
+    description: 'Environmental and climate policy: regulation, carbon pricing, climate agreements',
+    patterns: [/\benvironmental (policy|regulations?|law|protection|justice)\b/i, /\bEPA\b/, /\bcarbon (tax|pricing|markets?|credits?)\b/i, /\bcap.and.trade\b/i, /\bParis (Agreement|accord)\b/i, /\bCOP\d{2}\b/, /\bclimate (policy|law|legislation|targets?|finance|diplomacy)\b/i, /\bemissions? (standards?|targets?|rules)\b/i, /\bgreen new deal\b/i],
+  },
+  urban_design: {
+    description: 'Urban design and planning: zoning, transit, walkability and cities',
+    patterns: [/\burban (design|planning|planners?|development)\b/i, /\bcity planning\b/i, /\bzoning\b/i, /\bwalkab(le|ility)\b/i, /\bpublic transit\b/i, /\btransit (systems?|networks?)\b/i, /\bbike lanes?\b/i, /\bpedestrians?\b/i, /\bsuburb(s|an)\b/i, /\b15.minute cit(y|ies)\b/i],
+  },
+  sustainable_living: {
+    description: 'Sustainable living: zero waste, recycling, composting and reducing your footprint',
+    patterns: [/\bsustainab(le|ility) (living|lifestyle|fashion|homes?)\b/i, /\bzero.waste\b/i, /\brecycl\w+/i, /\bcompost\w*/i, /\bplastics? (waste|free|pollution)\b/i, /\beco.friendly\b/i, /\bcarbon footprint\b/i, /\bsecond.?hand\b/i, /\bupcycl\w+/i],
+  },
+
+  // Creativity & Media
+  writing: {
+    description: 'Writing: craft, essays, fiction, poetry, publishing and writers',
+    patterns: [/\bwrit(ing|ers?)\b/i, /\bnovelists?\b/i, /\b(debut|first|new) novel\b/i, /\bessays?\b/i, /\bprose\b/i, /\bpublishing\b/i, /\bpo(etry|ems?|ets?)\b/i, /\bfiction\b/i, /\bwriter'?s block\b/i, /\bmemoirs?\b/i],
+  },
+  art_design: {
+    description: 'Art and design: artists, galleries, graphic and product design, typography',
+    patterns: [/\bartists?\b/i, /\bartworks?\b/i, /\b(contemporary|modern|fine) art\b/i, /\bart (world|history|exhibitions?|museums?|galler(y|ies))\b/i, /\b(graphic|product|visual|interior|industrial|UX|UI) design\b/i, /\bdesigners?\b/i, /\btypograph\w+/i, /\billustrat(ion|ions|ors?)\b/i, /\bpaint(ings?|ers?)\b/i, /\bsculptures?\b/i, /\bgaller(y|ies)\b/i, /\bmuseums?\b/i, /\baesthetics?\b/i],
+  },
+  storytelling: {
+    description: 'Storytelling: narrative, story structure, characters, screenwriting and myth',
+    patterns: [/\bstorytell\w+/i, /\bnarratives?\b/i, /\bstory (structure|arcs?)\b/i, /\bhero'?s journey\b/i, /\bplots?\b/i, /\bcharacter (development|arcs?)\b/i, /\bscreenwrit\w+/i, /\bfolklore\b/i, /\bmyths?\b/i],
+  },
+  film_tv: {
+    description: 'Film and television: movies, series, streaming services and documentaries',
+    patterns: [/\bfilm(s|makers?|making)\b/i, /\bthe film\b/i, /\bfilm (festival|industry|review)\b/i, /\bmovies?\b/i, /\bcinema\b/i, /\b(TV|television) (shows?|series)\b/i, /\btelevision\b/i, /\bstreaming (services?|platforms?)\b/i, /\b(Netflix|HBO|Hollywood)\b/i, /\bdocumentar(y|ies)\b/i, /\bbox office\b/i, /\bOscars?\b/, /\bsitcoms?\b/i],
+  },
+  music: {
+    description: 'Music: songs, albums, musicians, concerts and music production',
+    patterns: [/\bmusic(al|ians?)?\b/i, /\bsongs?\b/i, /\balbums?\b/i, /\bsongwrit\w+/i, /\bconcerts?\b/i, /\bSpotify\b/i, /\bsymphon(y|ies)\b/i, /\borchestras?\b/i, /\bjazz\b/i, /\bhip.hop\b/i],
+  },
+  photography: {
+    description: 'Photography: cameras, photographers, techniques and photo editing',
+    patterns: [/\bphotograph(y|ers?|s|ic)\b/i, /\bcameras?\b/i, /\bphotos?\b/i, /\bphotoshoots?\b/i, /\b(Lightroom|Photoshop)\b/i, /\baperture\b/i, /\bshutter speed\b/i],
+  },
+  branding: {
+    description: 'Branding: brand identity, strategy, positioning, logos and personal brands',
+    patterns: [/\bbranding\b/i, /\bbrand (identity|strategy|building|awareness|voice|positioning)\b/i, /\bpersonal brand\b/i, /\brebrand\w*/i, /\blogos?\b/i, /\bpositioning\b/i],
+  },
+  digital_creation: {
+    description: 'Digital creation and the creator economy: YouTubers, podcasts, newsletters, influencers',
+    patterns: [/\bcontent creat(ors?|ion)\b/i, /\bcreator economy\b/i, /\bcreators\b/i, /\bYouTubers?\b/i, /\binfluencers?\b/i, /\bTikTok\b/i, /\bdigital (art|content|products?|creation|tools)\b/i, /\bvideo editing\b/i, /\bpodcast(ing|ers)\b/i, /\bnewsletters?\b/i, /\bSubstack\b/i, /\bPatreon\b/i, /\bgenerative art\b/i],
+  },
+  creative_process: {
+    description: 'Creativity and the creative process: ideas, inspiration, creative blocks and practice',
+    patterns: [/\bcreativ(e|ity)\b/i, /\binspiration\b/i, /\bideation\b/i, /\bbrainstorm\w*/i, /\bartistic process\b/i],
+  },
+
+  // Education & Learning
+  teaching: {
+    description: 'Teaching: teachers, classrooms, pedagogy, lesson planning and students',
+    patterns: [/\bteach(ing|ers?)\b/i, /\bclassrooms?\b/i, /\bpedagog\w+/i, /\beducators?\b/i, /\blesson plans?\b/i, /\binstructors?\b/i, /\bstudents?\b/i, /\btutor(ing|s)?\b/i],
+  },
+  online_learning: {
+    description: 'Online learning: courses, MOOCs and e-learning platforms',
+    patterns: [/\bonline (learning|courses?|education|classes|degrees?)\b/i, /\bMOOCs?\b/i, /\b(Coursera|edX|Udemy|Khan Academy|Duolingo)\b/i, /\be.?learning\b/i, /\bremote learning\b/i, /\bcohort.based courses?\b/i, /\bself.paced\b/i],
+  },
+  skill_development: {
+    description: 'Skill development: deliberate practice, upskilling, expertise and career growth',
+    patterns: [/\bskills?\b/i, /\b(up|re)skill\w*/i, /\bdeliberate practice\b/i, /\bexpertise\b/i, /\bcareer (development|growth)\b/i, /\bprofessional development\b/i, /\bapprenticeships?\b/i],
+  },
+  learning_technology: {
+    description: 'Learning technology: edtech, learning platforms and apps, AI tutors and adaptive learning',
+    patterns: [/\bed.?tech\b/i, /\beducational technology\b/i, /\blearning (platforms?|apps?|management systems?|technology|tools)\b/i, /\bAI tutors?\b/i, /\b(adaptive|personali[sz]ed) learning\b/i, /\bLMS\b/],
+  },
+  critical_thinking: {
+    description: 'Critical thinking: reasoning, logical fallacies, skepticism, evidence and argument',
+    patterns: [/\bcritical thinking\b/i, /\blogical fallac(y|ies)\b/i, /\bs[ck]epticism\b/i, /\breasoning (skills|errors)\b/i, /\bevidence.based\b/i, /\bmedia literacy\b/i, /\bfact.check\w*/i, /\bargument(s|ation)?\b/i, /\bfirst principles\b/i],
+  },
+  memory_optimization: {
+    description: 'Memory improvement: mnemonics, memory palaces, memorization and retention',
+    patterns: [/\bmemory (palace|techniques?|improvement|retention|training|consolidation)\b/i, /\bmnemonic\w*/i, /\bforgetting curve\b/i, /\bmethod of loci\b/i, /\bspaced repetition\b/i, /\bmemori[sz](e|ation|ing)\b/i],
+  },
+
+  // Lifestyle & Travel
+  minimalism: {
+    description: 'Minimalism: decluttering, simple living, owning less and digital minimalism',
+    patterns: [/\bminimalis(m|ts?)\b/i, /\bdeclutter\w*/i, /\bsimple living\b/i, /\bsimplicity\b/i, /\bessentialism\b/i, /\bconsumerism\b/i, /\b(KonMari|Marie Kondo)\b/i],
+  },
+  relationships: {
+    description: 'Relationships: dating, marriage, couples, friendship and attachment',
+    patterns: [/\brelationships?\b/i, /\bmarriages?\b/i, /\bmarried\b/i, /\bdating\b/i, /\bromantic\b/i, /\bfriendships?\b/i, /\bcouples\b/i, /\bintimacy\b/i, /\battachment (styles?|theory)\b/i, /\bdivorce\b/i, /\bbreak.?ups?\b/i],
+  },
+  parenting: {
+    description: 'Parenting: raising children, toddlers and teenagers, child development',
+    patterns: [/\bparent(ing|s|hood)\b/i, /\bchildren\b/i, /\bkids\b/i, /\btoddlers?\b/i, /\bbab(y|ies)\b/i, /\b(mother|father)hood\b/i, /\bteenagers?\b/i, /\bchild (development|care|rearing)\b/i, /\bscreen time\b/i],
+  },
+  adventure_travel: {
+    description: 'Travel and adventure: trips, destinations, backpacking, expeditions and digital nomads',
+    patterns: [/\btravel(l?ing|l?ers?|s)?\b/i, /\bbackpack(ing|ers?)\b/i, /\bexpeditions?\b/i, /\btrips?\b/i, /\bdestinations?\b/i, /\badventures?\b/i, /\bdigital nomads?\b/i, /\bmountaineering\b/i, /\bitinerar(y|ies)\b/i],
+  },
+  outdoor_life: {
+    description: 'Outdoor life: hiking, camping, climbing, trails and time in nature',
+    patterns: [/\boutdoors?\b/i, /\bhik(e|es|ing|ers?)\b/i, /\bcamping\b/i, /\btrails?\b/i, /\bnature (walks?|time|exposure)\b/i, /\bforest bathing\b/i, /\bclimbing\b/i, /\b(kayak|canoe)\w*/i, /\bwilderness\b/i, /\bfishing\b/i],
+  },
+  work_life_balance: {
+    description: 'Work-life balance: burnout, remote work, four-day weeks and time off',
+    patterns: [/\bwork.life balance\b/i, /\bburn.?out\b/i, /\bremote work\b/i, /\bworking from home\b/i, /\bWFH\b/, /\b(four|4).day (work )?week\b/i, /\bovertime\b/i, /\bhustle culture\b/i, /\bquiet quitting\b/i, /\b(workplace|job) stress\b/i, /\bvacations?\b/i, /\bpaid time off\b/i, /\bsabbaticals?\b/i],
+  },
+  home_design: {
+    description: 'Home design: interior design, decor, renovation, furniture and architecture',
+    patterns: [/\bhome (design|decor|renovations?|improvement|office)\b/i, /\binterior design\w*/i, /\bdecor(ating)?\b/i, /\brenovat\w+/i, /\bfurniture\b/i, /\barchitect(ure|s|ural)\b/i, /\bremodel\w*/i, /\b(living rooms?|kitchens?|bedrooms?)\b/i, /\btiny houses?\b/i],
+  },
+  spirituality: {
+    description: 'Spirituality and religion: faith, prayer, Buddhism and other traditions, the sacred',
+    patterns: [/\bspiritual(ity)?\b/i, /\breligio(n|ns|us)\b/i, /\bfaith\b/i, /\bprayers?\b/i, /\bBuddhis(m|ts?)\b/i, /\b(Christian(ity)?|Islam|Judaism|Hindu\w*)\b/, /\bsacred\b/i, /\bsoul\b/i, /\bdivine\b/i, /\bmystic(al|ism)?\b/i, /\bZen\b/],
+  },
 };
 
-export function tagTopics(text: string): Topic[] {
-  const foundTopics = new Set<Topic>();
-  const lowerText = text.toLowerCase();
+export function compileTopicMatcher(topic: Topic, patterns: RegExp[]): TopicMatcher {
+  return {
+    topic,
+    patterns: patterns.map(pattern => ({
+      test: pattern,
+      all: new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`),
+    })),
+  };
+}
+
+// Whole-phrase, case-insensitive match for a label or synonym; inner whitespace and hyphens are interchangeable
+export function phrasePattern(phrase: string): RegExp {
+  const escaped = phrase
+    .trim()
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/[\s-]+/g, '[\\s-]+');
+  return new RegExp(`(?<![\\w-])${escaped}(?![\\w-])`, 'i');
+}
 
-  for (const [topic, patterns] of Object.entries(topicPatterns) as [Topic, RegExp[]][]) {
+export const builtinTopicMatchers: TopicMatcher[] = (Object.entries(topicDefinitions) as [Topic, TopicDefinition][])
+  .map(([topic, definition]) => compileTopicMatcher(topic, definition.patterns));
+
+export const builtinTopicDescriptions: TopicDescription[] = (Object.entries(topicDefinitions) as [Topic, TopicDefinition][])
+  .map(([topic, definition]) => ({ topic, text: definition.description }));
+
+/**
+ * Topics with their keyword confidence, strongest first; only topics at or
+ * above MIN_KEYWORD_CONFIDENCE are returned
+ */
+export function scoreTopics(title: string, body: string = '', matchers: TopicMatcher[] = builtinTopicMatchers): TopicScore[] {
+  const scores: TopicScore[] = [];
+
+  for (const { topic, patterns } of matchers) {
+    let points = 0;
     for (const pattern of patterns) {
-      if (pattern.test(lowerText)) {
-        foundTopics.add(topic);
-        break;
+      if (title && pattern.test.test(title)) points += TITLE_POINTS;
+      if (body) {
+        points += Math.min(body.match(pattern.all)?.length ?? 0, MAX_OCCURRENCES_PER_PATTERN);
       }
     }
-    if (foundTopics.size >= 5) break; // Max 5 tags
+
+    const confidence = Math.round((1 - Math.exp(-points / POINTS_SCALE)) * 100) / 100;
+    if (confidence >= MIN_KEYWORD_CONFIDENCE) {
+      scores.push({ topic, confidence });
+    }
   }
 
-  return Array.from(foundTopics).slice(0, 5);
+  return scores.sort((a, b) => b.confidence - a.confidence);
+}
+
+export function tagTopics(text: string, matchers: TopicMatcher[] = builtinTopicMatchers): Topic[] {
+  return scoreTopics('', text, matchers).slice(0, MAX_TOPICS).map(score => score.topic);
 }
@@ -2,9 +2,14 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { initializeScheduler } from "./scheduler";
-import { autoSeedFeedCatalog } from "./core/auto-seed";
+import { autoSeedFeedCatalog, autoSeedTopicTaxonomy } from "./core/auto-seed";
+import { refreshTopicTaxonomy } from "./services/taxonomy";
 import { migrateFeedTopics } from "./services/migrate-topics";
 import publicHealth from "./routes/publicHealth";
+import websub from "./routes/websub";
+import inboundEmail from "./routes/inbound-email";
+import { createLocalWebSubHub } from "./services/websub-local-hub";
+import { env } from "../config/env";
 
 const app = express();
 
@@ -13,6 +18,9 @@ declare module 'http' {
     rawBody: unknown
   }
 }
+// Inbound newsletter webhook reads its own (large) bodies
+app.use(inboundEmail);
+
 app.use(express.json({
   verify: (req, _res, buf) => {
     req.rawBody = buf;
@@ -23,6 +31,13 @@ app.use(express.urlencoded({ extended: false }));
 // Mount public health routes before auth
 app.use(publicHealth);
 
+// WebSub hub callbacks (and the local hub stand-in for development)
+app.use(websub);
+if (env.websubLocalHub) {
+  app.use(createLocalWebSubHub().router);
+  log('WebSub local hub mounted at /websub-hub');
+}
+
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
@@ -82,6 +97,10 @@ app.use((req, res, next) => {
 
   // Auto-seed feed catalog if empty (for production deployments)
   await autoSeedFeedCatalog();
+
+  // Built-in topics missing from the taxonomy table, then the snapshot topics resolve against
+  await autoSeedTopicTaxonomy();
+  await refreshTopicTaxonomy();
   
   // Auto-migrate feed topics on startup (fixes invalid topics from old catalog)
   try {
@@ -1,13 +1,13 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, isFeedVisibleTo } from "./storage";
 import { runIngestJob } from "./services/ingest";
 import { generateWeeklyDigest, generatePersonalizedDigest } from "./services/digest";
 import { exportDigestJSON, exportDigestMarkdown, exportDigestRSS } from "./services/exports";
 import { enrichContentBatch } from "./services/content-enrichment";
 import { enqueueDigest, getJobStatus, getUserJobs } from "./jobs/digest-queue";
 import { z } from "zod";
-import { topics, feedDomains, sourceTypes, insertFeedCatalogSchema, insertUserFeedSubmissionSchema, type InsertUserFeedSubmission } from "@shared/schema";
+import { feedDomains, sourceTypes, literatureQuerySchema, insertTaxonomyTopicSchema, updateTaxonomyTopicSchema, taxonomySlugSchema, insertCustomTopicSchema, updateCustomTopicSchema, isCustomTopicSlug, type Topic, type PaperSection, type ItemMedia, insertFeedCatalogSchema, insertUserFeedSubmissionSchema, type InsertUserFeedSubmission, digestSelectionOverridesSchema } from "@shared/schema";
 import { setupAuth, isAuthenticated } from "./replitAuth";
 import { isAdmin } from "./middleware/isAdmin";
 import { chatWithDigest } from "./services/chat";
@@ -16,7 +16,31 @@ import { discoverFeeds, verifyRssFeed } from "./services/feed-discovery/discover
 import { canSubscribeToFeed, canSendChatMessage } from "./tierChecks";
 import Stripe from "stripe";
 import marketingRouter from "./routes/marketing";
+import digestRouter from "./routes/digests";
 import { migrateFeedTopics } from "./services/migrate-topics";
+import { getItemRevisions, getRevisionsSinceSaved } from "./services/item-revisions";
+import { getRankingStrategy, listRankingStrategies } from "./core/ranking";
+import {
+  getTopicTree,
+  getTaxonomyAdminView,
+  createTaxonomyTopic,
+  updateTaxonomyTopic,
+  mergeTaxonomyTopic,
+  renameTaxonomyTopic,
+  retireTaxonomyTopic,
+  resolveTopics,
+  unknownTopics,
+  activeTopics,
+  refreshTopicTaxonomy,
+} from "./services/taxonomy";
+import {
+  listCustomTopics,
+  createCustomTopic,
+  updateCustomTopic,
+  deleteCustomTopic,
+  unknownCustomTopics,
+  getCustomTopicMatches,
+} from "./services/custom-topics";
 import { healingMonitor } from "./services/healing/monitoring";
 
 if (!process.env.STRIPE_SECRET_KEY) {
@@ -132,13 +156,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Topic taxonomy (public): categories with their topics
+  app.get('/api/topics', async (req, res) => {
+    try {
+      res.json(await getTopicTree());
+    } catch (error) {
+      console.error("Error fetching topic taxonomy:", error);
+      res.status(500).json({ message: "Failed to fetch topics" });
+    }
+  });
+
   // User preferences endpoints (protected)
   app.get('/api/preferences', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const prefs = await storage.getUserPreferences(userId);
       if (!prefs) {
-        return res.json({ userId, favoriteTopics: [], preferredSourceTypes: [], updatedAt: null });
+        return res.json({ userId, favoriteTopics: [], preferredSourceTypes: [], personalizedRanking: true, updatedAt: null });
       }
       res.json(prefs);
     } catch (error) {
@@ -150,7 +184,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.put('/api/preferences', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const { favoriteTopics, preferredSourceTypes } = req.body;
+      const { favoriteTopics, preferredSourceTypes, personalizedRanking } = req.body;
       console.log("[PUT /api/preferences] userId:", userId, "favoriteTopics:", favoriteTopics, "preferredSourceTypes:", preferredSourceTypes);
       
       // Validate favoriteTopics
@@ -159,8 +193,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "favoriteTopics must be an array" });
       }
       
-      const validTopics = new Set(topics);
-      const invalidTopics = favoriteTopics.filter((topic: any) => !validTopics.has(topic));
+      // Taxonomy slugs, plus "custom:<id>" for the user's own custom topics
+      const customTopicSlugs: string[] = favoriteTopics.filter((topic: any) => typeof topic === 'string' && isCustomTopicSlug(topic));
+      const taxonomyTopicSlugs = favoriteTopics.filter((topic: any) => !customTopicSlugs.includes(topic));
+
+      await refreshTopicTaxonomy();
+      const invalidTopics = [
+        ...unknownTopics(taxonomyTopicSlugs),
+        ...await unknownCustomTopics(userId, customTopicSlugs),
+      ];
       if (invalidTopics.length > 0) {
         console.error("[PUT /api/preferences] Invalid topic values:", invalidTopics);
         return res.status(400).json({ message: `Invalid topics: ${invalidTopics.join(', ')}` });
@@ -179,10 +220,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: `Invalid source types: ${invalidSourceTypes.join(', ')}` });
       }
       
+      // Optional so clients that only edit topics (onboarding) leave it alone
+      if (personalizedRanking !== undefined && typeof personalizedRanking !== 'boolean') {
+        return res.status(400).json({ message: "personalizedRanking must be a boolean" });
+      }
+      
       const prefs = await storage.upsertUserPreferences({
         userId,
-        favoriteTopics,
+        favoriteTopics: [
+          ...resolveTopics(taxonomyTopicSlugs), // Deprecated slugs from stale clients map to their replacements
+          ...customTopicSlugs as Topic[],
+        ],
         preferredSourceTypes,
+        personalizedRanking,
       });
       console.log("[PUT /api/preferences] Success:", prefs);
       res.json(prefs);
@@ -192,6 +242,84 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Custom topics endpoints (protected)
+  app.get('/api/custom-topics', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      res.json(await listCustomTopics(userId));
+    } catch (error) {
+      console.error("Error fetching custom topics:", error);
+      res.status(500).json({ message: "Failed to fetch custom topics" });
+    }
+  });
+
+  app.post('/api/custom-topics', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const parsed = insertCustomTopicSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid custom topic", details: parsed.error.errors });
+      }
+
+      const result = await createCustomTopic(userId, parsed.data);
+      if (!result.ok) {
+        return res.status(result.status).json({ message: result.reason });
+      }
+      res.status(201).json(result.value);
+    } catch (error) {
+      console.error("Error creating custom topic:", error);
+      res.status(500).json({ message: "Failed to create custom topic" });
+    }
+  });
+
+  app.patch('/api/custom-topics/:topicId', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const parsed = updateCustomTopicSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid custom topic", details: parsed.error.errors });
+      }
+
+      const result = await updateCustomTopic(userId, req.params.topicId, parsed.data);
+      if (!result.ok) {
+        return res.status(result.status).json({ message: result.reason });
+      }
+      res.json(result.value);
+    } catch (error) {
+      console.error("Error updating custom topic:", error);
+      res.status(500).json({ message: "Failed to update custom topic" });
+    }
+  });
+
+  app.delete('/api/custom-topics/:topicId', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      if (!await deleteCustomTopic(userId, req.params.topicId)) {
+        return res.status(404).json({ message: "Custom topic not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting custom topic:", error);
+      res.status(500).json({ message: "Failed to delete custom topic" });
+    }
+  });
+
+  // Custom topic slugs per item, for filtering items by custom topic on the client
+  app.post('/api/custom-topics/matches', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { itemIds } = req.body;
+      if (!Array.isArray(itemIds)) {
+        return res.status(400).json({ message: "itemIds must be an array" });
+      }
+      const matches = await getCustomTopicMatches(userId, itemIds);
+      res.json({ matches });
+    } catch (error) {
+      console.error("Error fetching custom topic matches:", error);
+      res.status(500).json({ message: "Failed to fetch custom topic matches" });
+    }
+  });
+
   // Saved items endpoints (protected)
   app.get('/api/saved-items', isAuthenticated, async (req: any, res) => {
     try {
@@ -204,6 +332,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Saved items whose feed published a changed version after they were saved
+  app.get('/api/saved-items/updates', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const updates = await getRevisionsSinceSaved(userId);
+      res.json(updates);
+    } catch (error) {
+      console.error("Error fetching saved item updates:", error);
+      res.status(500).json({ message: "Failed to fetch saved item updates" });
+    }
+  });
+
   app.post('/api/saved-items/:itemId', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
@@ -454,6 +594,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get('/api/items/:itemId/revisions', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { itemId } = req.params;
+      if (!(await storage.isItemVisibleToUser(itemId, userId))) {
+        return res.status(404).json({ message: "Item not found" });
+      }
+      const revisions = await getItemRevisions(itemId);
+      res.json(revisions);
+    } catch (error) {
+      console.error("Error fetching item revisions:", error);
+      res.status(500).json({ message: "Failed to fetch item revisions" });
+    }
+  });
+
   app.get('/api/folders/:folderId/items', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
@@ -511,18 +666,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
             requiredTier: 'premium'
           });
         }
-        
-        // Add userId to scope for filtering
-        if (scope.type === 'saved_items' || scope.type === 'folder') {
-          scope.userId = userId;
+        if (scope.type === 'topic' && tier === 'free') {
+          return res.status(403).json({ 
+            message: "Topic scope requires Premium or Pro tier",
+            upgradeRequired: true,
+            requiredTier: 'premium'
+          });
         }
+        
       }
       
       // Import chat service
       const { chatWithDigest } = await import('./services/chat');
       
-      // Process chat query
-      const response = await chatWithDigest(query, conversationHistory || [], scope);
+      // Process chat query; userId scopes user-owned sets and the caller's private newsletter items
+      const response = await chatWithDigest(query, conversationHistory || [], { ...(scope || { type: 'all_digests' }), userId });
       
       // Increment message count
       const today = new Date().toISOString().split('T')[0];
@@ -1064,7 +1222,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { id } = req.params;
       const feed = await storage.getFeedById(id);
       
-      if (!feed) {
+      if (!feed || !isFeedVisibleTo(feed, req.user.claims.sub)) {
         return res.status(404).json({ error: 'Feed not found' });
       }
       
@@ -1080,15 +1238,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { id } = req.params;
       const limit = parseInt(req.query.limit as string) || 5;
       
-      // First get the feed to get its URL
       const feed = await storage.getFeedById(id);
       
-      if (!feed) {
+      if (!feed || !isFeedVisibleTo(feed, req.user.claims.sub)) {
         return res.status(404).json({ error: 'Feed not found' });
       }
       
       // Get sample items from this feed
-      const items = await storage.getItemsByFeedUrl(feed.url, limit);
+      const items = await storage.getItemsByFeedId(feed.id, limit);
       
       res.json(items);
     } catch (error) {
@@ -1097,6 +1254,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get('/api/feeds/:id/stats', isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const feed = await storage.getFeedById(id);
+      
+      if (!feed || !isFeedVisibleTo(feed, req.user.claims.sub)) {
+        return res.status(404).json({ error: 'Feed not found' });
+      }
+      
+      const stats = await storage.getFeedItemStats(feed.id);
+      
+      res.json(stats);
+    } catch (error) {
+      console.error('Error fetching feed stats:', error);
+      res.status(500).json({ error: 'Failed to fetch feed stats' });
+    }
+  });
+
+  app.get('/api/feeds/:id/reputation', isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const feed = await storage.getFeedById(id);
+      
+      if (!feed || !isFeedVisibleTo(feed, req.user.claims.sub)) {
+        return res.status(404).json({ error: 'Feed not found' });
+      }
+      
+      const { getFeedReputationHistory } = await import('./services/source-reputation');
+      const history = await getFeedReputationHistory(feed.id);
+      
+      res.json(history);
+    } catch (error) {
+      console.error('Error fetching feed reputation:', error);
+      res.status(500).json({ error: 'Failed to fetch feed reputation' });
+    }
+  });
+
   // Feed Discovery endpoints (protected)
   app.get('/api/discover/feeds', isAuthenticated, async (req: any, res) => {
     try {
@@ -1187,6 +1381,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.user.claims.sub;
       const { feedId } = req.params;
+
+      // Other users' newsletter feeds don't exist as far as this user is concerned
+      const feed = await storage.getFeedById(feedId);
+      if (!feed || !isFeedVisibleTo(feed, userId)) {
+        return res.status(404).json({ message: "Feed not found" });
+      }
       
       // Check tier limits
       const tierCheck = await canSubscribeToFeed(storage, userId);
@@ -1208,6 +1408,101 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Saved literature searches (arXiv, bioRxiv/medRxiv, PubMed): the query becomes a feed,
+  // shared by everyone saving the same query, so subscribing works exactly like an RSS feed.
+  // Like other submissions it stays out of the catalog until an admin approves it.
+  app.post('/api/literature-queries', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+
+      const validationResult = literatureQuerySchema.safeParse(req.body?.query);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: "Invalid literature query",
+          details: validationResult.error.errors
+        });
+      }
+
+      const query = validationResult.data;
+      if (query.source !== 'pubmed' && query.meshTerms.length > 0) {
+        return res.status(400).json({ error: "MeSH terms are only supported for PubMed queries" });
+      }
+
+      const feedTopics = z.array(z.string()).max(5).safeParse(req.body?.topics ?? []);
+      if (!feedTopics.success) {
+        return res.status(400).json({ error: "Invalid topics", details: feedTopics.error.errors });
+      }
+      await refreshTopicTaxonomy();
+      const invalidFeedTopics = unknownTopics(feedTopics.data);
+      if (invalidFeedTopics.length > 0) {
+        return res.status(400).json({ error: "Invalid topics", details: invalidFeedTopics });
+      }
+
+      const tierCheck = await canSubscribeToFeed(storage, userId);
+      if (!tierCheck.allowed) {
+        return res.status(403).json({
+          message: "Feed subscription limit reached",
+          error: "FEED_LIMIT_EXCEEDED",
+          limit: tierCheck.limit,
+          currentUsage: tierCheck.currentUsage,
+          tier: tierCheck.tier
+        });
+      }
+
+      const { buildLiteratureQueryUrl, describeLiteratureQuery } = await import('./sources/literature');
+      const url = buildLiteratureQueryUrl(query);
+
+      let feed = await storage.getFeedByUrl(url);
+      if (!feed) {
+        feed = await storage.createFeed({
+          name: describeLiteratureQuery(query), // Shared by everyone saving this query, so not user-chosen
+          url,
+          domain: query.source === 'medrxiv' || query.source === 'pubmed' ? 'health' : 'science',
+          category: 'Literature Search',
+          description: describeLiteratureQuery(query),
+          sourceType: 'journal',
+          topics: resolveTopics(feedTopics.data),
+          isApproved: false,
+          isActive: true,
+          submittedBy: userId,
+          literatureQuery: query,
+        });
+      }
+
+      const subscription = await storage.subscribeFeed(userId, feed.id);
+      res.json({ feed, subscription });
+    } catch (error) {
+      console.error("Error saving literature query:", error);
+      res.status(500).json({ message: "Failed to save literature query" });
+    }
+  });
+
+  // Private inbound address for newsletters without RSS (u-<token>@<inbound domain>)
+  app.get('/api/inbound-email/address', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { getOrCreateInboundAddress } = await import('./services/newsletters');
+      const address = await getOrCreateInboundAddress(userId);
+      res.json({ address });
+    } catch (error) {
+      console.error("Error fetching inbound email address:", error);
+      res.status(500).json({ message: "Failed to fetch inbound email address" });
+    }
+  });
+
+  // New address for a leaked one; mail to the old address is ignored from now on
+  app.post('/api/inbound-email/address/rotate', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { getOrCreateInboundAddress } = await import('./services/newsletters');
+      const address = await getOrCreateInboundAddress(userId, true);
+      res.json({ address });
+    } catch (error) {
+      console.error("Error rotating inbound email address:", error);
+      res.status(500).json({ message: "Failed to rotate inbound email address" });
+    }
+  });
+
   app.delete('/api/subscriptions/feeds/:feedId', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
@@ -1273,43 +1568,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Digest endpoints (public)
-  app.get("/api/digest/latest", async (req, res) => {
-    try {
-      const digest = await storage.getLatestDigest();
-      if (!digest) {
-        return res.status(404).json({ error: "No digest available" });
-      }
-      res.json(digest);
-    } catch (error) {
-      console.error("Error fetching latest digest:", error);
-      res.status(500).json({ error: "Internal server error" });
-    }
-  });
-
-  app.get("/api/digest/archive", async (req, res) => {
-    try {
-      const digests = await storage.getAllDigests();
-      res.json(digests);
-    } catch (error) {
-      console.error("Error fetching digest archive:", error);
-      res.status(500).json({ error: "Internal server error" });
-    }
-  });
-
-  app.get("/api/digest/:slug", async (req, res) => {
-    try {
-      const { slug } = req.params;
-      const digest = await storage.getDigestBySlug(slug);
-      if (!digest) {
-        return res.status(404).json({ error: "Digest not found" });
-      }
-      res.json(digest);
-    } catch (error) {
-      console.error("Error fetching digest:", error);
-      res.status(500).json({ error: "Internal server error" });
-    }
-  });
+  // Digest endpoints (public, except personalized digests)
+  app.use(digestRouter);
 
   // Generate on-demand personalized digest for authenticated user
   app.post("/api/digest/generate", isAuthenticated, async (req: any, res) => {
@@ -1564,19 +1824,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/admin/run/ingest", isAuthenticated, isAdmin, async (req, res) => {
     try {
       // Validate request body with Zod
+      await refreshTopicTaxonomy();
       const ingestRequestSchema = z.object({
-        topics: z.array(z.enum(topics)).optional(),
+        topics: z.array(z.string()).optional(),
         useSubscribedFeeds: z.boolean().optional(),
         feedIds: z.array(z.string()).optional(),
       });
       
       const validationResult = ingestRequestSchema.safeParse(req.body || {});
+      const invalidRequestTopics = unknownTopics(validationResult.data?.topics ?? []);
       
-      if (!validationResult.success) {
+      if (!validationResult.success || invalidRequestTopics.length > 0) {
         return res.status(400).json({ 
           error: "Invalid request", 
-          details: validationResult.error.errors,
-          validTopics: topics 
+          details: validationResult.success ? `Unknown topics: ${invalidRequestTopics.join(', ')}` : validationResult.error.errors,
+          validTopics: activeTopics()
         });
       }
       
@@ -1584,7 +1846,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const options: any = { useSubscribedFeeds };
       
       if (requestTopics && requestTopics.length > 0) {
-        options.topics = requestTopics;
+        options.topics = resolveTopics(requestTopics);
       }
       if (feedIds && feedIds.length > 0) {
         options.feedIds = feedIds;
@@ -1606,11 +1868,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/admin/run/digest", isAuthenticated, isAdmin, async (req, res) => {
     try {
-      const { itemCounts, windowDays } = req.body;
+      const { itemCounts, windowDays, rankingStrategy, selection } = req.body;
+      if (rankingStrategy && !getRankingStrategy(rankingStrategy)) {
+        return res.status(400).json({ error: `Unknown ranking strategy "${rankingStrategy}"` });
+      }
+      const selectionResult = digestSelectionOverridesSchema.safeParse(selection ?? {});
+      if (!selectionResult.success) {
+        return res.status(400).json({ error: "Invalid selection config", details: selectionResult.error.errors });
+      }
       
       const options: any = {};
       if (itemCounts) options.itemCounts = itemCounts;
       if (windowDays) options.windowDays = windowDays;
+      if (rankingStrategy) options.rankingStrategy = rankingStrategy;
+      if (selection) options.selection = selectionResult.data;
       
       const result = await generateWeeklyDigest(options);
       res.json({
@@ -1654,9 +1925,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const enrichedItem = enriched[i];
         await storage.updateItem(originalItem.id, {
           fullText: enrichedItem.fullText,
+          paperSections: enrichedItem.paperSections as PaperSection[] | null,
+          media: enrichedItem.media as ItemMedia | null,
           pdfUrl: enrichedItem.pdfUrl,
           qualityMetrics: enrichedItem.qualityMetrics as any,
           scoreBreakdown: enrichedItem.scoreBreakdown as any,
+          score: enrichedItem.score,
+          rankingStrategy: enrichedItem.rankingStrategy,
+          rankingVersion: enrichedItem.rankingVersion,
         });
         updated++;
       }
@@ -2000,6 +2276,116 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Admin near-duplicate report - items folded into a canonical item by content fingerprint
+  app.get("/api/admin/near-duplicates", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const days = req.query.days ? parseInt(req.query.days as string) : 7;
+      const limit = req.query.limit ? Math.min(parseInt(req.query.limit as string), 500) : 100;
+
+      const { getNearDuplicateReport } = await import("./services/near-duplicates");
+      res.json(await getNearDuplicateReport(days, limit));
+    } catch (error) {
+      console.error("Error fetching near-duplicate report:", error);
+      res.status(500).json({ error: "Failed to fetch near-duplicate report" });
+    }
+  });
+
+  // Admin: topic taxonomy editing. Merges, renames and retirements remap items,
+  // catalog feeds and user preferences in the same transaction
+  app.get("/api/admin/topics", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      res.json(await getTaxonomyAdminView());
+    } catch (error) {
+      console.error("Error fetching topic taxonomy:", error);
+      res.status(500).json({ error: "Failed to fetch topic taxonomy" });
+    }
+  });
+
+  app.post("/api/admin/topics", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const parsed = insertTaxonomyTopicSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid topic", details: parsed.error.errors });
+      }
+
+      const result = await createTaxonomyTopic(parsed.data);
+      if (!result.ok) {
+        return res.status(result.status).json({ error: result.reason });
+      }
+      res.status(201).json(result.value);
+    } catch (error) {
+      console.error("Error creating topic:", error);
+      res.status(500).json({ error: "Failed to create topic" });
+    }
+  });
+
+  app.patch("/api/admin/topics/:slug", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const parsed = updateTaxonomyTopicSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid topic", details: parsed.error.errors });
+      }
+
+      const result = await updateTaxonomyTopic(req.params.slug, parsed.data);
+      if (!result.ok) {
+        return res.status(result.status).json({ error: result.reason });
+      }
+      res.json(result.value);
+    } catch (error) {
+      console.error("Error updating topic:", error);
+      res.status(500).json({ error: "Failed to update topic" });
+    }
+  });
+
+  app.post("/api/admin/topics/:slug/merge", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const into = taxonomySlugSchema.safeParse(req.body?.into);
+      if (!into.success) {
+        return res.status(400).json({ error: "into must be a topic slug" });
+      }
+
+      const result = await mergeTaxonomyTopic(req.params.slug, into.data, req.user.claims.sub);
+      if (!result.ok) {
+        return res.status(result.status).json({ error: result.reason });
+      }
+      res.json({ success: true, ...result.value });
+    } catch (error) {
+      console.error("Error merging topic:", error);
+      res.status(500).json({ error: "Failed to merge topic" });
+    }
+  });
+
+  app.post("/api/admin/topics/:slug/rename", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const newSlug = taxonomySlugSchema.safeParse(req.body?.slug);
+      if (!newSlug.success) {
+        return res.status(400).json({ error: "Invalid slug", details: newSlug.error.errors });
+      }
+
+      const result = await renameTaxonomyTopic(req.params.slug, newSlug.data, req.user.claims.sub);
+      if (!result.ok) {
+        return res.status(result.status).json({ error: result.reason });
+      }
+      res.json({ success: true, ...result.value });
+    } catch (error) {
+      console.error("Error renaming topic:", error);
+      res.status(500).json({ error: "Failed to rename topic" });
+    }
+  });
+
+  app.delete("/api/admin/topics/:slug", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const result = await retireTaxonomyTopic(req.params.slug, req.user.claims.sub);
+      if (!result.ok) {
+        return res.status(result.status).json({ error: result.reason });
+      }
+      res.json({ success: true, ...result.value });
+    } catch (error) {
+      console.error("Error retiring topic:", error);
+      res.status(500).json({ error: "Failed to retire topic" });
+    }
+  });
+
   // Admin feed health endpoint - monitor failing/degraded feeds
   app.get("/api/admin/feeds/health", isAuthenticated, isAdmin, async (req, res) => {
     try {
@@ -2115,9 +2501,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
               const enrichedItem = enriched[i];
               await storage.updateItem(originalItem.id, {
                 fullText: enrichedItem.fullText,
+                paperSections: enrichedItem.paperSections as PaperSection[] | null,
+                media: enrichedItem.media as ItemMedia | null,
                 pdfUrl: enrichedItem.pdfUrl,
                 qualityMetrics: enrichedItem.qualityMetrics as any,
                 scoreBreakdown: enrichedItem.scoreBreakdown as any,
+                score: enrichedItem.score,
+                rankingStrategy: enrichedItem.rankingStrategy,
+                rankingVersion: enrichedItem.rankingVersion,
               });
               totalEnriched++;
             }
@@ -2138,6 +2529,153 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Admin: Backfill feed provenance for items ingested before it was recorded
+  app.post("/admin/run/backfill-item-feeds", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      console.log("🔗 Starting item feed backfill...");
+      
+      const { backfillItemFeeds } = await import('./services/backfill-item-feeds');
+      const result = await backfillItemFeeds();
+      
+      res.json({
+        success: true,
+        message: `Linked ${result.itemsLinked} items across ${result.feedsScanned} feeds.`,
+        ...result,
+      });
+    } catch (error: any) {
+      console.error("Error during item feed backfill:", error);
+      res.status(500).json({ 
+        success: false,
+        error: "Backfill failed",
+        message: error.message 
+      });
+    }
+  });
+
+  app.post("/admin/run/retag-topics", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const useEmbeddings = req.body?.useEmbeddings === true;
+      const limit = req.body?.limit ? parseInt(req.body.limit) : undefined;
+      console.log(`🏷️ Re-tagging item topics${useEmbeddings ? ' (with embedding fallback)' : ''}...`);
+      
+      const { retagItemTopics } = await import('./services/retag-topics');
+      const result = await retagItemTopics({ useEmbeddings, limit });
+      
+      res.json({
+        success: true,
+        message: `Re-tagged ${result.updated} of ${result.scanned} items (${result.untagged} without a topic).`,
+        ...result,
+      });
+    } catch (error: any) {
+      console.error("Error during topic re-tag:", error);
+      res.status(500).json({ 
+        success: false,
+        error: "Re-tag failed",
+        message: error.message 
+      });
+    }
+  });
+
+  app.get("/admin/ranking-strategies", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      res.json(listRankingStrategies());
+    } catch (error) {
+      console.error("Error listing ranking strategies:", error);
+      res.status(500).json({ error: "Failed to list ranking strategies" });
+    }
+  });
+
+  app.post("/admin/run/reputation", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      console.log("🏅 Computing source reputations...");
+
+      const { computeSourceReputations } = await import('./services/source-reputation');
+      const result = await computeSourceReputations();
+
+      res.json({
+        success: true,
+        message: `Computed reputations for ${result.feeds} feeds and ${result.authors} authors.`,
+        ...result,
+      });
+    } catch (error: any) {
+      console.error("Error computing source reputations:", error);
+      res.status(500).json({
+        success: false,
+        error: "Source reputation computation failed",
+        message: error.message
+      });
+    }
+  });
+
+  app.post("/admin/run/train-ranking-models", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      console.log("🧠 Training per-user preference models...");
+
+      const { trainAllUserModels } = await import('./services/preference-model');
+      const result = await trainAllUserModels();
+
+      res.json({
+        success: true,
+        message: `Trained ${result.trained} preference models; ${result.coldStart} users still on the global ranking.`,
+        ...result,
+      });
+    } catch (error: any) {
+      console.error("Error training preference models:", error);
+      res.status(500).json({
+        success: false,
+        error: "Preference model training failed",
+        message: error.message
+      });
+    }
+  });
+
+  app.post("/admin/run/rescore", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const all = req.body?.all === true;
+      const limit = req.body?.limit ? parseInt(req.body.limit) : undefined;
+      console.log(`🔢 Rescoring ${all ? 'all' : 'outdated'} items...`);
+
+      const { rescoreArchive } = await import('./services/rescore');
+      const result = await rescoreArchive({ all, limit });
+
+      res.json({
+        success: true,
+        message: `Rescored ${result.rescored} items with ${result.strategy} v${result.version}.`,
+        ...result,
+      });
+    } catch (error: any) {
+      console.error("Error during rescore:", error);
+      res.status(500).json({
+        success: false,
+        error: "Rescore failed",
+        message: error.message
+      });
+    }
+  });
+
+  app.post("/admin/run/check-retractions", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const limit = req.body?.limit ? parseInt(req.body.limit) : undefined;
+      console.log("📛 Checking items for retractions and corrections...");
+      
+      const { checkRetractions } = await import('./services/retractions');
+      const result = await checkRetractions({ limit });
+      
+      res.json({
+        success: true,
+        message: `Checked ${result.crossref.checked} DOIs with Crossref; flagged ${result.crossref.flagged + result.retractionWatch.flagged} items.`,
+        ...result,
+      });
+    } catch (error: any) {
+      console.error("Error during retraction check:", error);
+      res.status(500).json({ 
+        success: false,
+        error: "Retraction check failed",
+        message: error.message 
+      });
+    }
+  });
+
   // Admin: Migrate feed topics from catalog to database
   app.post("/admin/run/migrate-topics", isAuthenticated, isAdmin, async (req, res) => {
     try {
@@ -0,0 +1,85 @@
+import express, { type RequestHandler } from 'express';
+import type { DigestSectionItem } from '@shared/schema';
+import { storage, isDigestVisibleTo } from '../storage';
+import { isAuthenticated } from '../replitAuth';
+import { withCurrentIntegrity } from '../services/retractions';
+
+const router = express.Router();
+
+// Reading a digest needs no account, except for personalized digests: their items
+// and inclusion traces reveal the owner's subscriptions, topics and newsletters.
+
+function sessionUserId(req: any): string | undefined {
+  return req.isAuthenticated?.() ? req.user?.claims?.sub : undefined;
+}
+
+// Personalized digests require sign-in; ownership is checked once the digest is loaded
+const signInForPersonalDigest: RequestHandler = (req, res, next) => {
+  if (!req.params.slug.startsWith('personal-')) return next();
+  return isAuthenticated(req, res, next);
+};
+
+router.get("/api/digest/latest", async (req, res) => {
+  try {
+    const digest = await storage.getLatestDigest(sessionUserId(req));
+    if (!digest) {
+      return res.status(404).json({ error: "No digest available" });
+    }
+    res.json(await withCurrentIntegrity(digest));
+  } catch (error) {
+    console.error("Error fetching latest digest:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.get("/api/digest/archive", async (req, res) => {
+  try {
+    const digests = await storage.getAllDigests();
+    res.json(digests);
+  } catch (error) {
+    console.error("Error fetching digest archive:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.get("/api/digest/:slug", signInForPersonalDigest, async (req, res) => {
+  try {
+    const { slug } = req.params;
+    const digest = await storage.getDigestBySlug(slug);
+    if (!digest || !isDigestVisibleTo(digest, sessionUserId(req))) {
+      return res.status(404).json({ error: "Digest not found" });
+    }
+    res.json(await withCurrentIntegrity(digest));
+  } catch (error) {
+    console.error("Error fetching digest:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// "Why am I seeing this?" - how an item made it into a digest
+router.get("/api/digest/:slug/items/:itemId/explain", signInForPersonalDigest, async (req, res) => {
+  try {
+    const { slug, itemId } = req.params;
+    const digest = await storage.getDigestBySlug(slug);
+    if (!digest || !isDigestVisibleTo(digest, sessionUserId(req))) {
+      return res.status(404).json({ error: "Digest not found" });
+    }
+
+    const sections = digest.sections as Record<string, unknown>;
+    for (const section of ['researchHighlights', 'communityTrends', 'expertCommentary'] as const) {
+      const item = (sections[section] as DigestSectionItem[] | undefined)?.find(entry => entry.itemId === itemId);
+      if (!item) continue;
+      if (!item.inclusion) {
+        return res.status(404).json({ error: "This digest was generated before inclusion traces were recorded" });
+      }
+      return res.json({ itemId, title: item.title, section, ...item.inclusion });
+    }
+
+    res.status(404).json({ error: "Item not found in this digest" });
+  } catch (error) {
+    console.error("Error explaining digest item:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+export default router;
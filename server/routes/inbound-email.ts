@@ -0,0 +1,39 @@
+import express from 'express';
+import { verifyInboundSecret, parseInboundPayload, ingestInboundEmail } from '../services/newsletters';
+
+const router = express.Router();
+
+// Mail providers post here without a session. Mounted before the global body
+// parsers: newsletters with inline images are well past express.json's 100kb limit.
+router.post('/inbound-email', express.raw({ type: () => true, limit: '25mb' }), (req, res) => {
+  const basicAuth = req.get('Authorization')?.match(/^Basic\s+(.+)$/i)?.[1];
+  const basicPassword = basicAuth ? Buffer.from(basicAuth, 'base64').toString('utf8').split(':').slice(1).join(':') : null;
+  const secret = (typeof req.query.secret === 'string' ? req.query.secret : null)
+    || req.get('X-Inbound-Secret')
+    || basicPassword;
+
+  if (!verifyInboundSecret(secret)) {
+    return res.status(401).send('Unauthorized');
+  }
+
+  const body = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+  const email = parseInboundPayload(body, req.get('Content-Type'));
+  if (!email) {
+    return res.status(400).send('Unreadable message');
+  }
+
+  // Acknowledge right away so the provider doesn't retry while enrichment runs
+  res.status(202).end();
+
+  ingestInboundEmail(email)
+    .then(result => {
+      if (result.status === 'ignored') {
+        console.log(`Ignoring inbound email "${email.subject}": ${result.reason}`);
+      }
+    })
+    .catch(error => {
+      console.error("Error processing inbound email:", error);
+    });
+});
+
+export default router;
@@ -0,0 +1,57 @@
+import express from 'express';
+import { verifyIntent, checkPushAccepted, verifySignature, handleContentDistribution } from '../services/websub';
+
+const router = express.Router();
+
+// Hubs call these without a session, so the router is mounted before auth.
+
+// Intent verification: echo hub.challenge for subscriptions we requested
+router.get('/websub/:feedId', async (req, res) => {
+  try {
+    const result = await verifyIntent(req.params.feedId, req.query as Record<string, unknown>);
+
+    if (!result.ok) {
+      return res.status(result.status).send(result.reason);
+    }
+
+    res.status(200).type('text/plain').send(result.challenge);
+  } catch (error) {
+    console.error("Error verifying WebSub intent:", error);
+    res.status(500).send('Verification failed');
+  }
+});
+
+// Content distribution: keep the exact bytes so the HMAC can be checked.
+// JSON bodies were already consumed by express.json, which stores them on req.rawBody.
+router.post('/websub/:feedId', express.raw({ type: () => true, limit: '5mb' }), async (req, res) => {
+  const rawBody = Buffer.isBuffer(req.body)
+    ? req.body
+    : Buffer.isBuffer(req.rawBody) ? req.rawBody : Buffer.alloc(0);
+
+  try {
+    // Pushes for feeds we hold no verified subscription to are refused outright
+    const accepted = await checkPushAccepted(req.params.feedId);
+    if (!accepted.ok) {
+      console.warn(`⚠️ Refusing WebSub push for feed ${req.params.feedId}: ${accepted.reason}`);
+      return res.status(accepted.status).send(accepted.reason);
+    }
+  } catch (error) {
+    console.error("Error checking WebSub push:", error);
+    return res.status(500).send('Push check failed');
+  }
+
+  if (!verifySignature(req.params.feedId, rawBody, req.get('X-Hub-Signature'))) {
+    // Spec: acknowledge with 2xx but ignore the content
+    console.warn(`⚠️ Ignoring WebSub push for feed ${req.params.feedId}: invalid signature`);
+    return res.status(202).end();
+  }
+
+  // Acknowledge right away; enrichment can take longer than the hub will wait
+  res.status(202).end();
+
+  handleContentDistribution(req.params.feedId, rawBody, req.get('Content-Type')).catch(error => {
+    console.error("Error processing WebSub push:", error);
+  });
+});
+
+export default router;
@@ -1,17 +1,33 @@
 import cron from "node-cron";
-import { runIngestJob } from "./services/ingest";
+import { scheduleDueFeeds, startFeedPollingWorker } from "./services/feed-scheduler";
 import { generateWeeklyDigest } from "./services/digest";
 import { processFeedRequests } from "./services/feedRequestProcessor";
 import { migrateFeedTopics } from "./services/migrate-topics";
 
 export function initializeScheduler() {
-  // Daily ingestion at midnight UTC
-  cron.schedule("0 0 * * *", async () => {
-    console.log("Running scheduled daily ingestion...");
+  // Adaptive per-feed polling
+  // Each subscribed feed carries its own nextFetchAt (learned from publish cadence,
+  // bounded by subscriber tier); due feeds are enqueued as individual fetch jobs
+  startFeedPollingWorker();
+  cron.schedule("*/5 * * * *", async () => {
     try {
-      await runIngestJob({ useSubscribedFeeds: true });
+      const { enqueued } = await scheduleDueFeeds();
+      if (enqueued > 0) {
+        console.log(`📡 Enqueued ${enqueued} feed fetch job(s)`);
+      }
+    } catch (error) {
+      console.error("Feed polling scheduler failed:", error);
+    }
+  });
+
+  // WebSub lease renewal - hourly
+  // Re-subscribes pushed feeds whose hub lease expires within a day
+  cron.schedule("15 * * * *", async () => {
+    try {
+      const { renewWebSubLeases } = await import("./services/websub");
+      await renewWebSubLeases();
     } catch (error) {
-      console.error("Scheduled ingestion failed:", error);
+      console.error("WebSub lease renewal failed:", error);
     }
   });
 
@@ -73,6 +89,45 @@ export function initializeScheduler() {
     }
   });
 
+  // Retraction check - daily at 5 AM UTC
+  // Flags retracted/corrected papers from Retraction Watch and Crossref update relations
+  cron.schedule("0 5 * * *", async () => {
+    try {
+      const { checkRetractions } = await import("./services/retractions");
+      const result = await checkRetractions();
+      const flagged = result.retractionWatch.flagged + result.crossref.flagged;
+      if (flagged > 0 || result.crossref.failed > 0) {
+        console.log(`📛 Retraction check: ${flagged} item(s) flagged, ${result.crossref.checked} DOIs checked, ${result.crossref.failed} failed`);
+      }
+    } catch (error) {
+      console.error("Scheduled retraction check failed:", error);
+    }
+  });
+
+  // Source reputation - daily at 5:15 AM UTC, after the retraction check
+  // Per feed and author/channel from content quality, ratings, saves, retractions and healing history
+  cron.schedule("15 5 * * *", async () => {
+    try {
+      const { computeSourceReputations } = await import("./services/source-reputation");
+      const result = await computeSourceReputations();
+      console.log(`🏅 Source reputations: ${result.feeds} feeds, ${result.authors} authors`);
+    } catch (error) {
+      console.error("Scheduled source reputation job failed:", error);
+    }
+  });
+
+  // Preference model retrain - daily at 5:30 AM UTC
+  // Per-user learning-to-rank from reads, saves, folder assignments and ratings
+  cron.schedule("30 5 * * *", async () => {
+    try {
+      const { trainAllUserModels } = await import("./services/preference-model");
+      const result = await trainAllUserModels();
+      console.log(`🧠 Preference models: ${result.trained} trained, ${result.coldStart} cold start, ${result.failed} failed`);
+    } catch (error) {
+      console.error("Scheduled preference model training failed:", error);
+    }
+  });
+
   // Notification cleanup - every 6 hours, delete notifications older than 48 hours
   cron.schedule("0 */6 * * *", async () => {
     try {
@@ -121,11 +176,14 @@ export function initializeScheduler() {
   });
 
   console.log("Scheduler initialized");
-  console.log("- Daily ingestion: Every day at midnight UTC");
+  console.log("- Feed polling: Due feeds checked every 5 minutes (per-feed adaptive intervals)");
   console.log("- Weekly digest: Every Monday at 06:00 CST (12:00 UTC)");
   console.log("- Feed request processing: Every day at 2 AM UTC");
   console.log("- Topic migration cleanup: Every day at 3 AM UTC");
   console.log("- Weekly feed health retry: Every Sunday at 4 AM UTC");
+  console.log("- Retraction check: Every day at 5 AM UTC (Crossref + Retraction Watch)");
+  console.log("- Source reputation: Every day at 5:15 AM UTC (feed/author track records)");
+  console.log("- Preference models: Every day at 5:30 AM UTC (per-user digest re-ranking)");
   console.log("- Notification cleanup: Every 6 hours (removes >48h old)");
   console.log("- Discovery processor: Running continuously (checks every 30s)");
   console.log("- Proactive crawler: Building catalog 24/7 (100 feeds/topic limit, 30min cycles)");
@@ -0,0 +1,123 @@
+#!/usr/bin/env -S tsx
+/**
+ * Measures the topic tagger against the hand-labeled items in
+ * fixtures/topic-tagger.json: micro precision/recall/F1 overall, then per
+ * topic, then the items it got wrong.
+ * Re-run after changing patterns in server/core/topics.ts.
+ *
+ * Usage: tsx server/scripts/evaluate-topic-tagger.ts [--embeddings] [--quiet]
+ *   --embeddings  also use the embedding fallback (needs OPENAI_API_KEY)
+ *   --quiet       skip the per-item mistakes
+ */
+
+import { readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { topics as VALID_TOPICS } from '../../shared/schema.js';
+import { classifyTopics } from '../services/topic-classifier.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+interface Fixture {
+  title: string;
+  text: string;
+  topics: string[];
+}
+
+interface Counts {
+  tp: number;
+  fp: number;
+  fn: number;
+}
+
+function ratio(numerator: number, denominator: number): number {
+  return denominator === 0 ? 0 : numerator / denominator;
+}
+
+function f1(counts: Counts) {
+  const precision = ratio(counts.tp, counts.tp + counts.fp);
+  const recall = ratio(counts.tp, counts.tp + counts.fn);
+  return { precision, recall, f1: ratio(2 * precision * recall, precision + recall) };
+}
+
+function pct(value: number): string {
+  return `${(value * 100).toFixed(1)}%`.padStart(6);
+}
+
+async function evaluate() {
+  const useEmbeddings = process.argv.includes('--embeddings');
+  const quiet = process.argv.includes('--quiet');
+
+  const fixturePath = join(__dirname, 'fixtures', 'topic-tagger.json');
+  const fixtures: Fixture[] = JSON.parse(readFileSync(fixturePath, 'utf8')).items;
+
+  const validTopicsSet = new Set<string>(VALID_TOPICS);
+  const invalid = fixtures.flatMap(fixture => fixture.topics.filter(topic => !validTopicsSet.has(topic)));
+  if (invalid.length > 0) {
+    console.error(`❌ Fixtures use unknown topics: ${Array.from(new Set(invalid)).join(', ')}`);
+    return false;
+  }
+
+  const total: Counts = { tp: 0, fp: 0, fn: 0 };
+  const perTopic = new Map<string, Counts>();
+  const mistakes: string[] = [];
+
+  for (const fixture of fixtures) {
+    const scores = await classifyTopics({ title: fixture.title, rawExcerpt: fixture.text }, [], { useEmbeddings });
+    const predicted = new Set<string>(scores.map(score => score.topic));
+    const expected = new Set(fixture.topics);
+
+    const missed = fixture.topics.filter(topic => !predicted.has(topic));
+    const extra = Array.from(predicted).filter(topic => !expected.has(topic));
+
+    for (const topic of Array.from(new Set([...Array.from(predicted), ...fixture.topics]))) {
+      const counts = perTopic.get(topic) ?? { tp: 0, fp: 0, fn: 0 };
+      if (predicted.has(topic) && expected.has(topic)) counts.tp++;
+      else if (predicted.has(topic)) counts.fp++;
+      else counts.fn++;
+      perTopic.set(topic, counts);
+    }
+
+    total.tp += fixture.topics.length - missed.length;
+    total.fn += missed.length;
+    total.fp += extra.length;
+
+    if (missed.length > 0 || extra.length > 0) {
+      const scored = scores.map(score => `${score.topic} ${score.confidence}`).join(', ') || 'none';
+      mistakes.push(
+        `   "${fixture.title}"\n` +
+        (missed.length > 0 ? `      missed: ${missed.join(', ')}\n` : '') +
+        (extra.length > 0 ? `      extra:  ${extra.join(', ')}\n` : '') +
+        `      scores: ${scored}`
+      );
+    }
+  }
+
+  const overall = f1(total);
+  console.log(`Topic tagger on ${fixtures.length} labeled items${useEmbeddings ? ' (with embedding fallback)' : ''}`);
+  console.log(`   precision ${pct(overall.precision)}   recall ${pct(overall.recall)}   F1 ${pct(overall.f1)}\n`);
+
+  console.log('   topic                         P       R      F1   (tp/fp/fn)');
+  const rows = Array.from(perTopic.entries()).sort((a, b) => f1(a[1]).f1 - f1(b[1]).f1 || a[0].localeCompare(b[0]));
+  for (const [topic, counts] of rows) {
+    const scores = f1(counts);
+    console.log(
+      `   ${topic.padEnd(26)} ${pct(scores.precision)}  ${pct(scores.recall)}  ${pct(scores.f1)}   (${counts.tp}/${counts.fp}/${counts.fn})`
+    );
+  }
+
+  if (!quiet && mistakes.length > 0) {
+    console.log(`\nItems with mistakes (${mistakes.length}):`);
+    console.log(mistakes.join('\n'));
+  }
+
+  return true;
+}
+
+evaluate()
+  .then(ok => process.exit(ok ? 0 : 1))
+  .catch(error => {
+    console.error('Evaluation failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,156 @@
+#!/usr/bin/env -S tsx
+/**
+ * Import the Retraction Watch database from its CSV export and flag matching items
+ * Keeps one entry per original DOI (the most severe notice)
+ *
+ * Usage: tsx server/scripts/import-retraction-watch.ts <retraction_watch.csv>
+ */
+
+import { db } from "../db.js";
+import { retractionWatchEntries, integrityStatuses } from "../../shared/schema.js";
+import { sql } from "drizzle-orm";
+import fs from "fs";
+import { applyRetractionWatch, noticeStatus, normalizeDoi } from "../services/retractions.js";
+
+const BATCH_SIZE = 500;
+
+// RFC 4180: quoted fields may contain commas, doubled quotes and newlines
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// "1/6/2023 0:00" -> "2023-01-06"
+function parseDate(value: string): string | null {
+  const match = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+  if (!match) return null;
+  const [, month, day, year] = match;
+  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+}
+
+// "+Concerns/Issues About Data;+Investigation by Journal/Publisher;" -> "Concerns/Issues About Data; Investigation by Journal/Publisher"
+function parseReason(value: string): string | null {
+  const reasons = value.split(';').map(reason => reason.replace(/^\+/, '').trim()).filter(Boolean);
+  return reasons.length > 0 ? reasons.join('; ') : null;
+}
+
+function isDoi(value: string): boolean {
+  return /^10\.\d{4,}\//.test(value);
+}
+
+async function importRetractionWatch(csvPath: string) {
+  try {
+    console.log(`📥 Importing Retraction Watch data from ${csvPath}...\n`);
+
+    const [header, ...rows] = parseCsv(fs.readFileSync(csvPath, "utf-8"));
+    const column = (name: string) => {
+      const index = header.findIndex(h => h.trim() === name);
+      if (index === -1) throw new Error(`Missing column "${name}" in ${csvPath}`);
+      return index;
+    };
+    const originalDoiCol = column('OriginalPaperDOI');
+    const noticeDoiCol = column('RetractionDOI');
+    const natureCol = column('RetractionNature');
+    const dateCol = column('RetractionDate');
+    const reasonCol = column('Reason');
+
+    const importedAt = new Date().toISOString();
+    const entries = new Map<string, typeof retractionWatchEntries.$inferInsert>();
+    let skipped = 0;
+
+    for (const row of rows) {
+      const originalDoi = normalizeDoi(row[originalDoiCol] || '');
+      const nature = (row[natureCol] || '').trim();
+      const status = noticeStatus(nature);
+      if (!isDoi(originalDoi) || !status) {
+        skipped++;
+        continue;
+      }
+
+      const existing = entries.get(originalDoi);
+      if (existing && integrityStatuses.indexOf(noticeStatus(existing.nature)!) <= integrityStatuses.indexOf(status)) {
+        continue;
+      }
+
+      const noticeDoi = normalizeDoi(row[noticeDoiCol] || '');
+      entries.set(originalDoi, {
+        originalDoi,
+        noticeDoi: isDoi(noticeDoi) ? noticeDoi : null,
+        nature,
+        noticeDate: parseDate(row[dateCol] || ''),
+        reason: parseReason(row[reasonCol] || ''),
+        importedAt,
+      });
+    }
+
+    console.log(`📂 Parsed ${rows.length} rows: ${entries.size} DOIs, ${skipped} rows without a DOI or known notice type`);
+
+    const values = Array.from(entries.values());
+    for (let i = 0; i < values.length; i += BATCH_SIZE) {
+      await db
+        .insert(retractionWatchEntries)
+        .values(values.slice(i, i + BATCH_SIZE))
+        .onConflictDoUpdate({
+          target: retractionWatchEntries.originalDoi,
+          set: {
+            noticeDoi: sql`excluded.notice_doi`,
+            nature: sql`excluded.nature`,
+            noticeDate: sql`excluded.notice_date`,
+            reason: sql`excluded.reason`,
+            importedAt: sql`excluded.imported_at`,
+          },
+        });
+    }
+    console.log(`✅ Stored ${values.length} Retraction Watch entries`);
+
+    const result = await applyRetractionWatch();
+    console.log(`📛 ${result.matched} held items match; ${result.flagged} newly flagged\n`);
+
+    process.exit(0);
+  } catch (error) {
+    console.error("❌ Retraction Watch import failed:", error);
+    process.exit(1);
+  }
+}
+
+const csvPath = process.argv[2];
+if (!csvPath) {
+  console.error("Usage: tsx server/scripts/import-retraction-watch.ts <retraction_watch.csv>");
+  process.exit(1);
+}
+
+importRetractionWatch(csvPath);
@@ -0,0 +1,84 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { extractArticle } from './extractor';
+import { isPathAllowed, parseRobotsTxt } from './robots';
+
+const fixturesDir = join(dirname(fileURLToPath(import.meta.url)), 'fixtures');
+
+function fixture(name: string): string {
+  return readFileSync(join(fixturesDir, name), 'utf8');
+}
+
+test('Substack post: body container without subscribe box, share bar or comments', () => {
+  const article = extractArticle(fixture('substack-post.html'), 'https://glucosediaries.substack.example.com/p/cgm-vs-lab')!;
+
+  assert.equal(article.title, 'Why your CGM disagrees with your lab draw');
+  assert.equal(article.byline, 'Jordan Alvarez');
+  assert.equal(article.siteName, 'Glucose Diaries');
+  assert.equal(article.leadImageUrl, 'https://substackcdn.example.com/image/fetch/cgm-hero.jpg?w=1200&h=600');
+
+  assert.match(article.text, /^Continuous glucose monitors don't measure blood glucose\./);
+  assert.match(article.text, /\n\nWhat the accuracy numbers mean\n\n/);
+  assert.match(article.text, /The first day after insertion is the least accurate\.$/);
+  assert.doesNotMatch(article.text, /reader-supported|Share this post|Great post|Archive|Privacy/);
+
+  assert.equal(article.wordCount, 143);
+  assert.equal(article.readingTimeMinutes, 1);
+});
+
+test('WordPress post: entry content, JSON-LD @graph image resolved against the page', () => {
+  const article = extractArticle(fixture('wordpress-post.html'), 'https://musclelab.example.com/2025/02/creatine-aging-brain/')!;
+
+  assert.equal(article.title, 'Creatine for the aging brain');
+  assert.equal(article.byline, 'Sam Okonkwo'); // rel="author" link
+  assert.equal(article.siteName, 'The Muscle Lab');
+  assert.equal(article.leadImageUrl, 'https://musclelab.example.com/wp-content/uploads/2025/02/creatine.jpg');
+
+  assert.match(article.text, /^Most of the creatine research is about muscle/);
+  assert.match(article.text, /effects at three grams\.$/);
+  assert.doesNotMatch(article.text, /Share this|Twitter|Posted in|thoughts on|Recent posts/);
+});
+
+test('page without article markup: substantial paragraphs only', () => {
+  const article = extractArticle(fixture('plain-page.html'), 'https://lindqvist.example.se/cold.html')!;
+
+  assert.equal(article.title, null);
+  assert.equal(article.byline, 'M. Lindqvist');
+  assert.equal(article.leadImageUrl, null);
+  assert.deepEqual(article.text.split('\n\n').map(paragraph => paragraph.slice(0, 30)), [
+    'Cold water immersion after str',
+    'After endurance sessions the p',
+  ]);
+});
+
+test('paywalled teaser is not an article', () => {
+  assert.equal(extractArticle(fixture('paywall-teaser.html'), 'https://metabolicweekly.example.com/p/fasting'), null);
+});
+
+test('robots.txt: our group wins over *, longest rule decides', () => {
+  const policy = parseRobotsTxt(fixture('robots.txt'));
+
+  assert.equal(policy.crawlDelaySeconds, 5);
+  assert.equal(isPathAllowed(policy, '/2025/03/cgm-vs-lab/'), true);
+  assert.equal(isPathAllowed(policy, '/wp-admin/options.php'), true); // Only the * group disallows it
+  assert.equal(isPathAllowed(policy, '/drafts/next-post'), false);
+  assert.equal(isPathAllowed(policy, '/drafts/public/preview'), true);
+  assert.equal(isPathAllowed(policy, '/files/study.pdf'), false);
+  assert.equal(isPathAllowed(policy, '/files/study.pdf?download=1'), true); // $ anchors the rule
+  assert.equal(isPathAllowed(policy, '/robots.txt'), true);
+});
+
+test('robots.txt: other agents fall back to the * group', () => {
+  const policy = parseRobotsTxt(fixture('robots.txt'), 'SomeOtherCrawler');
+
+  assert.equal(policy.crawlDelaySeconds, null);
+  assert.equal(isPathAllowed(policy, '/wp-admin/options.php'), false);
+  assert.equal(isPathAllowed(policy, '/wp-admin/admin-ajax.php'), true);
+  assert.equal(isPathAllowed(policy, '/2025/03/post/?replytocom=12'), false);
+  assert.equal(isPathAllowed(policy, '/drafts/next-post'), true);
+
+  assert.equal(isPathAllowed(parseRobotsTxt(fixture('robots.txt'), 'BadBot/2.0'), '/anything'), false);
+});
@@ -0,0 +1,211 @@
+import { htmlToText } from "../feed-ingestion/feed-parser";
+
+/**
+ * Readability-style main content extraction
+ *
+ * Candidates for the article body are, in order of trust: JSON-LD
+ * articleBody, <article> / itemprop="articleBody" elements, and elements whose
+ * class names blogging platforms use for post bodies (Substack, WordPress,
+ * Ghost, Medium). The candidate with the most paragraph text wins; when none
+ * has enough, the page's substantial paragraphs are used instead. Byline, site
+ * name and lead image come from meta tags and JSON-LD.
+ */
+
+export interface ExtractedArticle {
+  title: string | null;
+  text: string;
+  byline: string | null;
+  siteName: string | null;
+  leadImageUrl: string | null;
+  wordCount: number;
+  readingTimeMinutes: number;
+}
+
+const WORDS_PER_MINUTE = 230;
+const MIN_ARTICLE_LENGTH = 250; // Less than this is a teaser, paywall or error page
+const MIN_CANDIDATE_LENGTH = 500; // Below this the paragraph fallback is tried too
+const MIN_PARAGRAPH_LENGTH = 80; // Fallback: shorter <p>s are usually captions and UI text
+
+// Post body containers on common blogging platforms
+const CONTENT_CLASS_PATTERN = /\b(available-content|body markup|post-content|entry-content|article-content|article-body|post-body|story-body|gh-content|section-content|rich-text)\b/i;
+
+const CLASSED_BLOCK_TAG = /<(div|section|main|ul)\b[^>]*class\s*=\s*["'][^"']*["'][^>]*>/gi;
+
+// Page furniture removed from candidates before their text is measured
+const BOILERPLATE_TAGS = ['script', 'style', 'noscript', 'template', 'svg', 'nav', 'header', 'footer', 'aside', 'form', 'button', 'iframe'];
+const BOILERPLATE_CLASS_PATTERN = /\b(share|social|subscribe|subscription-widget|newsletter|related|comments?|footer|sidebar|promo|advert|ad-|paywall|cookie|byline)\b/i;
+
+export function extractArticle(html: string, pageUrl: string): ExtractedArticle | null {
+  const jsonLd = readJsonLd(html);
+
+  const candidates: string[] = [];
+  if (typeof jsonLd?.articleBody === 'string') {
+    candidates.push(`<p>${jsonLd.articleBody.replace(/\n+/g, '</p><p>')}</p>`);
+  }
+  candidates.push(...findElements(html, /<article\b[^>]*>/gi));
+  candidates.push(...findElements(html, /<(div|section|main)\b[^>]*itemprop\s*=\s*["']articleBody["'][^>]*>/gi));
+  candidates.push(...findElements(html, CLASSED_BLOCK_TAG, className => CONTENT_CLASS_PATTERN.test(className)));
+
+  let best = '';
+  for (const candidate of candidates) {
+    const text = contentText(stripBoilerplate(candidate));
+    if (text.length > best.length) best = text;
+  }
+
+  if (best.length < MIN_CANDIDATE_LENGTH) {
+    const paragraphs = paragraphText(stripBoilerplate(html));
+    if (paragraphs.length > best.length) best = paragraphs;
+  }
+
+  if (best.length < MIN_ARTICLE_LENGTH) return null;
+
+  const wordCount = best.split(/\s+/).filter(Boolean).length;
+
+  return {
+    title: metaContent(html, 'og:title') || jsonLdText(jsonLd?.headline) || null,
+    text: best,
+    byline: findByline(html, jsonLd),
+    siteName: metaContent(html, 'og:site_name') || jsonLdText(jsonLd?.publisher?.name) || null,
+    leadImageUrl: findLeadImage(html, jsonLd, pageUrl),
+    wordCount,
+    readingTimeMinutes: Math.max(1, Math.round(wordCount / WORDS_PER_MINUTE)),
+  };
+}
+
+/**
+ * Full elements (start tag to matching end tag) for each start tag the pattern
+ * finds, optionally only those whose class attribute passes the filter
+ */
+function findElements(html: string, startTag: RegExp, acceptClass?: (className: string) => boolean): string[] {
+  const elements: string[] = [];
+  let match: RegExpExecArray | null;
+
+  while ((match = startTag.exec(html)) !== null) {
+    if (acceptClass && !acceptClass(match[0].match(/\bclass\s*=\s*["']([^"']*)["']/i)?.[1] || '')) continue;
+
+    const tagName = match[0].match(/^<([a-z0-9]+)/i)![1].toLowerCase();
+    const end = findClosingTag(html, tagName, match.index + match[0].length);
+    if (end !== -1) {
+      elements.push(html.slice(match.index, end));
+    }
+  }
+
+  return elements;
+}
+
+function findClosingTag(html: string, tagName: string, from: number): number {
+  const tags = new RegExp(`<(/?)${tagName}\\b[^>]*>`, 'gi');
+  tags.lastIndex = from;
+  let depth = 1;
+  let match: RegExpExecArray | null;
+
+  while ((match = tags.exec(html)) !== null) {
+    if (match[0].endsWith('/>')) continue;
+    depth += match[1] ? -1 : 1;
+    if (depth === 0) return match.index + match[0].length;
+  }
+
+  return -1;
+}
+
+function stripBoilerplate(html: string): string {
+  let cleaned = html.replace(/<!--[\s\S]*?-->/g, '');
+
+  for (const tag of BOILERPLATE_TAGS) {
+    cleaned = cleaned.replace(new RegExp(`<${tag}\\b[^>]*>[\\s\\S]*?</${tag}>`, 'gi'), '');
+  }
+
+  // Share bars, subscribe boxes, comment sections
+  const furniture = findElements(
+    cleaned,
+    CLASSED_BLOCK_TAG,
+    className => BOILERPLATE_CLASS_PATTERN.test(className) && !CONTENT_CLASS_PATTERN.test(className)
+  );
+  for (const element of furniture) {
+    cleaned = cleaned.replace(element, '');
+  }
+
+  return cleaned;
+}
+
+function contentText(html: string): string {
+  return htmlToText(html.replace(/<\/(ul|ol|figure|figcaption|pre)>/gi, '</p>'));
+}
+
+function paragraphText(html: string): string {
+  const paragraphs = Array.from(html.matchAll(/<p\b[^>]*>([\s\S]*?)<\/p>/gi))
+    .map(([, inner]) => htmlToText(inner))
+    .filter(text => text.length >= MIN_PARAGRAPH_LENGTH);
+
+  return paragraphs.join('\n\n');
+}
+
+function metaContent(html: string, key: string): string | null {
+  for (const tag of Array.from(html.matchAll(/<meta\b[^>]*>/gi), match => match[0])) {
+    const name = tag.match(/\b(?:property|name)\s*=\s*["']([^"']+)["']/i)?.[1];
+    if (name?.toLowerCase() === key) {
+      const content = tag.match(/\bcontent\s*=\s*["']([^"']*)["']/i)?.[1];
+      if (content?.trim()) return htmlToText(content);
+    }
+  }
+  return null;
+}
+
+/**
+ * The first Article-like JSON-LD object on the page
+ */
+function readJsonLd(html: string): any {
+  const scripts = html.matchAll(/<script\b[^>]*type\s*=\s*["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi);
+
+  for (const [, json] of Array.from(scripts)) {
+    let data: any;
+    try {
+      data = JSON.parse(json.trim());
+    } catch {
+      continue;
+    }
+
+    const nodes: any[] = Array.isArray(data) ? data : Array.isArray(data?.['@graph']) ? data['@graph'] : [data];
+    const article = nodes.find(node => {
+      const types = ([] as string[]).concat(node?.['@type'] || []);
+      return types.some(type => /Article|BlogPosting|Report/.test(type));
+    });
+    if (article) return article;
+  }
+
+  return null;
+}
+
+function jsonLdText(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+function findByline(html: string, jsonLd: any): string | null {
+  const authors = ([] as any[]).concat(jsonLd?.author || [])
+    .map(author => typeof author === 'string' ? author : author?.name)
+    .filter((name): name is string => typeof name === 'string' && !!name.trim());
+  if (authors.length > 0) return authors.join(', ');
+
+  const meta = metaContent(html, 'author') || metaContent(html, 'article:author');
+  if (meta && !/^https?:\/\//.test(meta)) return meta;
+
+  const relAuthor = html.match(/<a\b[^>]*rel\s*=\s*["'][^"']*\bauthor\b[^"']*["'][^>]*>([\s\S]*?)<\/a>/i);
+  const name = relAuthor ? htmlToText(relAuthor[1]) : '';
+  return name && name.length <= 100 ? name : null;
+}
+
+function findLeadImage(html: string, jsonLd: any, pageUrl: string): string | null {
+  const jsonLdImage = ([] as any[]).concat(jsonLd?.image || [])
+    .map(image => typeof image === 'string' ? image : image?.url)
+    .find((url): url is string => typeof url === 'string');
+
+  const candidate = metaContent(html, 'og:image') || metaContent(html, 'twitter:image') || jsonLdImage
+    || html.match(/<img\b[^>]*\bsrc\s*=\s*["']([^"']+)["']/i)?.[1];
+  if (!candidate) return null;
+
+  try {
+    return new URL(candidate.replace(/&amp;/g, '&'), pageUrl).toString();
+  } catch {
+    return null;
+  }
+}
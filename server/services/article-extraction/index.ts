@@ -0,0 +1,154 @@
+/**
+ * Full-article fetcher for items whose feeds only ship a summary
+ *
+ * Fetches the item's page and extracts the article (see extractor.ts). Every
+ * request checks the host's robots.txt first and waits for the host's slot:
+ * requests to one host are spaced by ARTICLE_HOST_INTERVAL_MS, or by the
+ * robots.txt Crawl-delay when that is longer.
+ */
+
+import { env } from "../../../config/env";
+import { extractArticle, type ExtractedArticle } from "./extractor";
+import { parseRobotsTxt, isPathAllowed, ALLOW_ALL, DISALLOW_ALL, ROBOTS_USER_AGENT, type RobotsPolicy } from "./robots";
+import type { InsertItem } from "@shared/schema";
+
+export type { ExtractedArticle } from "./extractor";
+
+const USER_AGENT = `Mozilla/5.0 (compatible; ${ROBOTS_USER_AGENT}/1.0; +https://getlucidfeed.com)`;
+const FETCH_TIMEOUT = 10000;
+const MAX_PAGE_BYTES = 3 * 1024 * 1024;
+const ROBOTS_TTL_MS = 24 * 60 * 60 * 1000;
+const ROBOTS_ERROR_TTL_MS = 60 * 60 * 1000; // Retry sooner after a server error
+const MAX_CRAWL_DELAY_MS = 60 * 1000; // Hosts asking for more are not worth waiting on
+
+// Sources whose feeds commonly truncate posts; other sources have their own full-text path
+const ARTICLE_SOURCE_TYPES = new Set(['substack', 'newsletter', 'journal']);
+
+const robotsCache = new Map<string, { policy: RobotsPolicy; expiresAt: number }>();
+const nextRequestAt = new Map<string, number>();
+
+/**
+ * Whether enrichment should fetch the item's page for its full text
+ */
+export function shouldExtractArticle(item: InsertItem): boolean {
+  if (!env.articleExtractionEnabled || item.fullText) return false;
+  if (!ARTICLE_SOURCE_TYPES.has(item.sourceType)) return false;
+  // Papers go through Unpaywall; literature-database records carry their abstract
+  if (item.sourceType === 'journal' && (item.doi || item.publication)) return false;
+  return /^https?:\/\//i.test(item.url);
+}
+
+/**
+ * Fetch and extract the article at a URL; null when robots.txt disallows it,
+ * the page isn't HTML, or no article body could be found
+ */
+export async function fetchArticle(url: string): Promise<ExtractedArticle | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  const policy = await getRobotsPolicy(parsed.origin);
+  if (!isPathAllowed(policy, parsed.pathname + parsed.search)) {
+    console.log(`robots.txt disallows ${url}`);
+    return null;
+  }
+
+  const crawlDelayMs = Math.min((policy.crawlDelaySeconds ?? 0) * 1000, MAX_CRAWL_DELAY_MS);
+  await waitForHostSlot(parsed.host, Math.max(env.articleHostIntervalMs, crawlDelayMs));
+
+  const page = await fetchText(url, 'text/html,application/xhtml+xml', contentType => /html/i.test(contentType));
+  if (page.status < 200 || page.status >= 300) {
+    throw new Error(`Status code ${page.status}`);
+  }
+  if (page.text === null) {
+    return null;
+  }
+
+  return extractArticle(page.text, page.url);
+}
+
+async function getRobotsPolicy(origin: string): Promise<RobotsPolicy> {
+  const cached = robotsCache.get(origin);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.policy;
+  }
+
+  let policy: RobotsPolicy;
+  let ttl = ROBOTS_TTL_MS;
+
+  try {
+    await waitForHostSlot(new URL(origin).host, env.articleHostIntervalMs);
+    const response = await fetchText(`${origin}/robots.txt`, 'text/plain', () => true);
+
+    if (response.status >= 200 && response.status < 300) {
+      policy = parseRobotsTxt(response.text || '');
+    } else if (response.status >= 400 && response.status < 500) {
+      // No robots.txt (or not readable by anyone): no restrictions
+      policy = ALLOW_ALL;
+    } else {
+      policy = DISALLOW_ALL;
+      ttl = ROBOTS_ERROR_TTL_MS;
+    }
+  } catch (error) {
+    // Unreachable: assume disallowed until the next attempt
+    policy = DISALLOW_ALL;
+    ttl = ROBOTS_ERROR_TTL_MS;
+  }
+
+  robotsCache.set(origin, { policy, expiresAt: Date.now() + ttl });
+  return policy;
+}
+
+/**
+ * Reserve the host's next request slot and wait for it. Slots are reserved
+ * before waiting, so concurrent callers queue up instead of firing together.
+ */
+async function waitForHostSlot(host: string, intervalMs: number): Promise<void> {
+  const now = Date.now();
+  const slot = Math.max(now, nextRequestAt.get(host) ?? 0);
+  nextRequestAt.set(host, slot + intervalMs);
+
+  if (slot > now) {
+    await new Promise(resolve => setTimeout(resolve, slot - now));
+  }
+}
+
+/**
+ * GET with a timeout covering the body as well; text is null when the
+ * content type is unwanted or the body is too large
+ */
+async function fetchText(
+  url: string,
+  accept: string,
+  wantContentType: (contentType: string) => boolean
+): Promise<{ status: number; url: string; text: string | null }> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT);
+
+  try {
+    const response = await fetch(url, {
+      headers: { 'User-Agent': USER_AGENT, 'Accept': accept },
+      signal: controller.signal,
+    });
+
+    const finalUrl = response.url || url;
+    const tooLarge = Number(response.headers.get('content-length')) > MAX_PAGE_BYTES;
+    if (!response.ok || tooLarge || !wantContentType(response.headers.get('content-type') || '')) {
+      controller.abort(); // Don't download a body we won't read
+      return { status: response.status, url: finalUrl, text: null };
+    }
+
+    const text = await response.text();
+    return { status: response.status, url: finalUrl, text: text.slice(0, MAX_PAGE_BYTES) };
+  } catch (error: any) {
+    if (error?.name === 'AbortError') {
+      throw new Error('Request timed out');
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * robots.txt rules for the article fetcher (RFC 9309)
+ *
+ * The group naming our product token wins over `*`; within a group the longest
+ * matching rule decides, and Allow wins a tie. Crawl-delay is kept so the
+ * per-host rate limit can honour it.
+ */
+
+export const ROBOTS_USER_AGENT = 'LucidFeed';
+
+export interface RobotsRule {
+  allow: boolean;
+  pattern: string; // Path pattern with * and $ as in the file
+}
+
+export interface RobotsPolicy {
+  rules: RobotsRule[];
+  crawlDelaySeconds: number | null;
+}
+
+export const ALLOW_ALL: RobotsPolicy = { rules: [], crawlDelaySeconds: null };
+export const DISALLOW_ALL: RobotsPolicy = { rules: [{ allow: false, pattern: '/' }], crawlDelaySeconds: null };
+
+interface RobotsGroup {
+  agents: string[];
+  policy: RobotsPolicy;
+}
+
+export function parseRobotsTxt(text: string, userAgent: string = ROBOTS_USER_AGENT): RobotsPolicy {
+  const groups: RobotsGroup[] = [];
+  let current: RobotsGroup | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+
+    const field = line.slice(0, colon).trim().toLowerCase();
+    const value = line.slice(colon + 1).trim();
+
+    if (field === 'user-agent') {
+      // Consecutive user-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], policy: { rules: [], crawlDelaySeconds: null } };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (!current) continue;
+
+    if (field === 'allow' || field === 'disallow') {
+      // An empty Disallow allows everything, so it adds no rule
+      if (value) current.policy.rules.push({ allow: field === 'allow', pattern: value });
+    } else if (field === 'crawl-delay') {
+      const delay = Number(value);
+      if (delay >= 0 && Number.isFinite(delay)) current.policy.crawlDelaySeconds = delay;
+    }
+  }
+
+  const token = userAgent.toLowerCase();
+  const matching = groups.filter(group => group.agents.some(agent => agent !== '*' && token.includes(agent)));
+  const selected = matching.length > 0 ? matching : groups.filter(group => group.agents.includes('*'));
+  if (selected.length === 0) return ALLOW_ALL;
+
+  // Several groups for the same agent are merged
+  return {
+    rules: selected.flatMap(group => group.policy.rules),
+    crawlDelaySeconds: selected.map(group => group.policy.crawlDelaySeconds).find(delay => delay !== null) ?? null,
+  };
+}
+
+export function isPathAllowed(policy: RobotsPolicy, path: string): boolean {
+  // /robots.txt itself is always allowed
+  if (path === '/robots.txt') return true;
+
+  let decision: RobotsRule | null = null;
+  for (const rule of policy.rules) {
+    if (!ruleMatches(rule.pattern, path)) continue;
+    if (
+      !decision ||
+      rule.pattern.length > decision.pattern.length ||
+      (rule.pattern.length === decision.pattern.length && rule.allow)
+    ) {
+      decision = rule;
+    }
+  }
+
+  return decision ? decision.allow : true;
+}
+
+function ruleMatches(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith('$');
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const regex = body
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+
+  return new RegExp(`^${regex}${anchored ? '$' : ''}`).test(path);
+}
@@ -0,0 +1,106 @@
+import { db } from "../db";
+import { items, feedCatalog, itemFeeds } from "../../shared/schema";
+import type { FeedCatalog } from "../../shared/schema";
+import { and, eq, isNull, or, sql, type SQL } from "drizzle-orm";
+import { nanoid } from "nanoid";
+
+/**
+ * Backfills items.feedId (and item_feeds) for items ingested before feed
+ * provenance was recorded.
+ *
+ * Domain matching alone mixes up feeds that share a host (every subreddit,
+ * every YouTube channel), so each feed is matched on the most specific signal
+ * available and shared hosts are only used when a single feed owns them.
+ */
+export async function backfillItemFeeds(): Promise<{
+  feedsScanned: number;
+  itemsLinked: number;
+  details: string[];
+}> {
+  const details: string[] = [];
+  const feeds = await db.select().from(feedCatalog);
+  details.push(`💾 Found ${feeds.length} feeds in catalog`);
+
+  // Count feeds per host so ambiguous hosts are never used on their own
+  const hostCounts = new Map<string, number>();
+  for (const feed of feeds) {
+    const host = getHost(feed.url);
+    if (host) hostCounts.set(host, (hostCounts.get(host) || 0) + 1);
+  }
+
+  let itemsLinked = 0;
+
+  for (const feed of feeds) {
+    try {
+      const condition = buildMatchCondition(feed, hostCounts);
+      if (!condition) continue;
+
+      const linked = await db
+        .update(items)
+        .set({ feedId: feed.id })
+        .where(and(isNull(items.feedId), condition))
+        .returning({ id: items.id });
+
+      if (linked.length === 0) continue;
+
+      await db
+        .insert(itemFeeds)
+        .values(linked.map(({ id }) => ({ id: nanoid(), itemId: id, feedId: feed.id })))
+        .onConflictDoNothing();
+
+      itemsLinked += linked.length;
+      details.push(`✅ ${feed.name}: linked ${linked.length} items`);
+    } catch (error: any) {
+      details.push(`❌ ${feed.name}: ${error.message}`);
+    }
+  }
+
+  details.push(`🔗 Linked ${itemsLinked} items to their feeds`);
+  return { feedsScanned: feeds.length, itemsLinked, details };
+}
+
+function getHost(url: string): string | null {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '').toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build the most specific item filter we can for a feed.
+ */
+function buildMatchCondition(feed: FeedCatalog, hostCounts: Map<string, number>): SQL | undefined {
+  const conditions: SQL[] = [];
+
+  // Items fetched from the catalog default their author to the feed name,
+  // and journal items carry it as journalName
+  conditions.push(
+    and(
+      eq(items.sourceType, feed.sourceType),
+      sql`lower(${items.authorOrChannel}) = lower(${feed.name})`
+    )!
+  );
+  if (feed.sourceType === 'journal') {
+    conditions.push(eq(items.journalName, feed.name));
+  }
+
+  // Subreddit feeds: match the /r/<name>/ path segment
+  const subreddit = feed.url.match(/reddit\.com\/r\/([^/?#.]+)/i)?.[1];
+  if (subreddit) {
+    conditions.push(sql`${items.url} ILIKE ${`%/r/${subreddit}/%`}`);
+  }
+
+  // Host match only when this feed is the only one on its host
+  const host = getHost(feed.url);
+  if (host && hostCounts.get(host) === 1 && !subreddit) {
+    conditions.push(
+      or(
+        sql`${items.url} ILIKE ${`%://${host}/%`}`,
+        sql`${items.url} ILIKE ${`%://www.${host}/%`}`
+      )!
+    );
+  }
+
+  return conditions.length > 0 ? or(...conditions) : undefined;
+}
@@ -3,6 +3,8 @@ import { db } from '../db';
 import { items, summaries, savedItems, itemFolders, folders, digests } from '@shared/schema';
 import { eq, inArray, and } from 'drizzle-orm';
 import { semanticSearch, SearchScope } from './embeddings';
+import { getTopicItemIds } from './custom-topics';
+import { itemVisibleTo } from '../storage';
 
 const openai = new OpenAI({
   baseURL: process.env.AI_INTEGRATIONS_OPENAI_BASE_URL,
@@ -122,12 +124,14 @@ async function generateDigestOverview(
         );
       
       filteredItemIds = folderItemsList.map(fi => fi.itemId);
+    } else if (scope.type === 'topic' && scope.topic && scope.userId) {
+      filteredItemIds = await getTopicItemIds(scope.userId, scope.topic);
     }
     // For 'all_digests', filteredItemIds remains null (no filtering)
   }
   
   // Build and execute final query with optional filtering
-  let itemsQuery = db
+  const itemsQuery = db
     .select({
       id: items.id,
       title: items.title,
@@ -141,11 +145,11 @@ async function generateDigestOverview(
       publishedAt: items.publishedAt,
     })
     .from(items)
-    .innerJoin(summaries, eq(items.id, summaries.itemId));
-  
-  if (filteredItemIds && filteredItemIds.length > 0) {
-    itemsQuery = itemsQuery.where(inArray(items.id, filteredItemIds)) as any;
-  }
+    .innerJoin(summaries, eq(items.id, summaries.itemId))
+    .where(and(
+      itemVisibleTo(scope?.userId),
+      filteredItemIds && filteredItemIds.length > 0 ? inArray(items.id, filteredItemIds) : undefined
+    ));
   
   // Retrieve items with scope filtering applied
   const digestItemsResult = await itemsQuery
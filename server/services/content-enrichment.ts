@@ -10,17 +10,62 @@
  * Traditional metrics (citations, h-index) collected separately for journals
  */
 
-import type { InsertItem } from '@shared/schema';
+import type { InsertItem, ItemEngagement, ItemMedia, PaperSection } from '@shared/schema';
 import type { QualityMetrics, ScoreBreakdown } from '../core/quality-scoring';
 import { calculateQualityScore, calculateTraditionalCitationMetrics, inferJournalTier } from '../core/quality-scoring';
-import { analyzeContentQuality } from './content-quality-analyzer';
+import { hasEngagementSignal } from '../core/engagement';
+import { storedRanking } from '../core/ranking';
+import { analyzeContentQuality, QUALITY_ANALYSIS_MAX_CHARS } from './content-quality-analyzer';
 import { fetchOpenAccessPDF, extractPDFText } from './unpaywall';
+import { splitPaperSections, selectPaperSections, paperSectionText } from '../core/paper-sections';
 import { fetchCitationMetrics } from './crossref';
 import { fetchPaperMetrics, fetchAuthorMetrics } from './semantic-scholar';
 import { fetchYouTubeTranscript } from './youtube-transcript';
+import { mergeTranscriptCues } from '../core/key-moments';
+import { fetchPodcastTranscript, fetchPodcastChapters } from './podcast-transcripts';
+import { fetchArticle, shouldExtractArticle } from './article-extraction';
+import { getSourceReputation } from './source-reputation';
 
 export type EnrichedItem = InsertItem;
 
+// Named companies, company names ("... Pharmaceuticals Inc.") and sponsor phrasing. Whole words
+// only, so "Department of Pharmacology" or "Agricultural University" in an address doesn't match
+const INDUSTRY_FUNDER_PATTERN = /\b(pfizer|moderna|merck|bayer|monsanto|novartis|roche|astrazeneca|glaxosmithkline|sanofi|eli lilly|abbvie|novo nordisk)\b|\b(pharmaceuticals?|pharma|therapeutics|biosciences|agrosciences)\s+(inc|ltd|llc|gmbh|co|corp|corporation|plc|ag|s\.?a)\b|\b(pharmaceutical|biotech(nology)?|agrochemical|agribusiness|food|tobacco)\s+(company|companies|industry|manufacturers?|corporation)\b|\bindustry[- ](sponsored|funded|sponsors?)\b/i;
+
+// Wording of a competing-interests statement that declares a relationship, and of one that declares none
+const DECLARED_INTEREST_PATTERN = /\b(received|receives|honorari|consult|employee|employed by|shareholder|stock|equity|advisory board|speakers? bureau|royalt|patent|grants? from)/i;
+const NO_INTEREST_PATTERN = /\b(no|none|nothing)\b[^.]{0,40}\b(conflicts?|competing|disclose|declare)|\bnone declared\b|\bdeclare[sd]? (that )?(there (is|are) )?no\b/i;
+// A "none" statement that still names someone: "The other authors declare no competing interests"
+const EXCEPTION_PATTERN = /\b(except|other than|apart from|besides)\b|\b(other|remaining) authors?\b/i;
+// Sentences about how the study itself was funded, which journals often print in the same section
+const FUNDING_SENTENCE_PATTERN = /\b(this|the|our) (study|work|research|trial|project|analysis)\b[^.;]{0,60}\b(fund|support|financ)|\bfunded by\b|\bno (specific |external |dedicated )?(funding|financial support)\b/i;
+
+/**
+ * Bias flags from the funding and conflict-of-interest sections of the paper
+ */
+function detectDeclaredConflicts(sections: PaperSection[] | null | undefined): string[] {
+  const flags: string[] = [];
+
+  const funding = paperSectionText(sections, ['funding']);
+  const industrySponsor = funding.match(INDUSTRY_FUNDER_PATTERN);
+  if (industrySponsor) {
+    flags.push(`Funding statement mentions ${industrySponsor[0]}`);
+  }
+
+  // Funding sentences aren't interest declarations ("This study received no external funding"),
+  // and a section that declares none only counts as a declaration when it makes an exception
+  const statements = paperSectionText(sections, ['conflicts'])
+    .split(/[.;]\s+/)
+    .filter(sentence => !FUNDING_SENTENCE_PATTERN.test(sentence));
+  const statement = statements.join('. ');
+  const declaring = statements.some(sentence => DECLARED_INTEREST_PATTERN.test(sentence) && !NO_INTEREST_PATTERN.test(sentence));
+  if (declaring && (!NO_INTEREST_PATTERN.test(statement) || EXCEPTION_PATTERN.test(statement))) {
+    flags.push('Authors declare competing interests');
+  }
+
+  return flags;
+}
+
 /**
  * Enrich ANY item with unified quality score
  */
@@ -44,6 +89,14 @@ export async function enrichItem(item: InsertItem): Promise<EnrichedItem> {
           enriched.fullText = fullText;
           contentForAnalysis = fullText;
           console.log(`✓ Extracted ${fullText.length} chars from PDF`);
+
+          // Methods, results and limitations say more about quality than the opening pages
+          const sections = splitPaperSections(fullText);
+          if (sections.length > 0) {
+            enriched.paperSections = sections;
+            contentForAnalysis = selectPaperSections(sections, 'quality', QUALITY_ANALYSIS_MAX_CHARS);
+            console.log(`✓ Found ${sections.length} sections: ${sections.map(section => section.kind).join(', ')}`);
+          }
         }
       }
     } catch (error) {
@@ -54,15 +107,69 @@ export async function enrichItem(item: InsertItem): Promise<EnrichedItem> {
     try {
       const transcript = await fetchYouTubeTranscript(item.url);
       if (transcript) {
-        enriched.fullText = transcript;
-        contentForAnalysis = transcript;
-        console.log(`✓ Extracted ${transcript.length} char transcript`);
+        enriched.fullText = transcript.text;
+        contentForAnalysis = transcript.text;
+        const cues = mergeTranscriptCues(transcript.segments.map(segment => ({ startSeconds: segment.offset, text: segment.text })));
+        if (cues.length > 0) {
+          enriched.media = { ...(item.media as ItemMedia | null), transcript: cues };
+        }
+        console.log(`✓ Extracted ${transcript.text.length} char transcript (${cues.length} timed cues)`);
       }
     } catch (error) {
       console.log(`Could not fetch transcript for ${item.url}`);
     }
+  } else if (item.sourceType === 'podcast' && item.media) {
+    // Podcasting 2.0 transcript and chapters linked from the feed
+    const media: ItemMedia = { ...(item.media as ItemMedia) };
+
+    if (media.transcriptUrl) {
+      const transcript = await fetchPodcastTranscript(media.transcriptUrl, media.transcriptType);
+      if (transcript) {
+        enriched.fullText = transcript.text;
+        contentForAnalysis = transcript.text;
+        const cues = mergeTranscriptCues(transcript.segments);
+        if (cues.length > 0) {
+          media.transcript = cues;
+        }
+        console.log(`✓ Extracted ${transcript.text.length} char podcast transcript`);
+      }
+    }
+
+    if (media.chaptersUrl) {
+      const chapters = await fetchPodcastChapters(media.chaptersUrl);
+      if (chapters.length > 0) {
+        media.chapters = chapters;
+        console.log(`✓ Loaded ${chapters.length} podcast chapters`);
+      }
+    }
+
+    enriched.media = media;
+  } else if (item.sourceType === 'newsletter' && item.fullText) {
+    // The whole issue arrived with the email
+    contentForAnalysis = item.fullText;
+  }
+
+  // Feeds that ship a summary (Substack, blogs, hosted newsletter copies): read the page itself
+  if (shouldExtractArticle(enriched)) {
+    try {
+      const article = await fetchArticle(item.url);
+      if (article) {
+        enriched.fullText = article.text;
+        enriched.article = {
+          byline: article.byline || undefined,
+          siteName: article.siteName || undefined,
+          leadImageUrl: article.leadImageUrl || undefined,
+          wordCount: article.wordCount,
+          readingTimeMinutes: article.readingTimeMinutes,
+          extractedAt: new Date().toISOString(),
+        };
+        contentForAnalysis = article.text;
+        console.log(`✓ Extracted ${article.wordCount}-word article (${article.readingTimeMinutes} min read)`);
+      }
+    } catch (error) {
+      console.log(`Could not extract article from ${item.url}`);
+    }
   }
-  // For Reddit/Substack, rawExcerpt is usually the full content
 
   // Step 2: AI Content Quality Analysis (40% of score)
   try {
@@ -82,21 +189,28 @@ export async function enrichItem(item: InsertItem): Promise<EnrichedItem> {
   }
 
   // Step 3: Collect Engagement Metrics (20% of score)
-  metrics.upvotes = item.engagement?.upvotes || 0;
-  metrics.comments = item.engagement?.comments || 0;
-  metrics.views = item.engagement?.views || 0;
+  // Left unset when the source reports none, so scoring uses a neutral baseline
+  if (hasEngagementSignal(item.engagement as ItemEngagement)) {
+    metrics.upvotes = item.engagement?.upvotes || 0;
+    metrics.comments = item.engagement?.comments || 0;
+    metrics.views = item.engagement?.views || 0;
+  }
 
   // Step 4: Source Credibility (20% of score)
-  // Infer from existing data
   if (item.sourceType === 'journal') {
     // Journal tier will be inferred from journal name in scoring
     metrics.journalTier = inferJournalTier(item.journalName);
-  } else if (item.sourceType === 'reddit') {
-    // Could track subreddit quality - for now use engagement as proxy
-    metrics.subredditQuality = 5; // Baseline
-  } else if (item.sourceType === 'youtube') {
-    // Could extract from channel - for now use engagement as proxy
-    metrics.channelSubscribers = 0;
+  }
+
+  // Track record of the feed (or author/channel) from the nightly reputation job
+  try {
+    const reputation = await getSourceReputation(item.feedId, item.authorOrChannel);
+    if (reputation !== null) {
+      metrics.sourceReputation = reputation;
+      console.log(`✓ Source reputation: ${reputation}/100`);
+    }
+  } catch (error) {
+    console.error('Error loading source reputation:', error);
   }
 
   // Step 5: Collect Traditional Metrics (journals only - shown separately)
@@ -109,7 +223,7 @@ export async function enrichItem(item: InsertItem): Promise<EnrichedItem> {
       
       // Detect conflicts of interest
       const suspiciousFunders = crossrefData.fundingSources.filter((funder) =>
-        /pharmaceutical|pharma|pfizer|moderna|merck|bayer|monsanto|agriculture|agri/i.test(funder)
+        INDUSTRY_FUNDER_PATTERN.test(funder)
       );
       
       if (suspiciousFunders.length > 0) {
@@ -122,6 +236,14 @@ export async function enrichItem(item: InsertItem): Promise<EnrichedItem> {
       console.log(`Could not fetch Crossref data for ${item.doi}`);
     }
 
+    // The paper's own funding and competing-interest statements
+    const sectionFlags = detectDeclaredConflicts(enriched.paperSections as PaperSection[] | null | undefined);
+    if (sectionFlags.length > 0) {
+      metrics.conflictOfInterest = true;
+      metrics.biasFlags = [...(metrics.biasFlags || []), ...sectionFlags];
+      console.log(`✓ Declared conflicts: ${sectionFlags.join('; ')}`);
+    }
+
     // Semantic Scholar advanced metrics
     try {
       const paperData = await fetchPaperMetrics(item.doi);
@@ -148,13 +270,14 @@ export async function enrichItem(item: InsertItem): Promise<EnrichedItem> {
   // Step 6: Calculate Unified Quality Score
   enriched.qualityMetrics = metrics;
   enriched.scoreBreakdown = calculateQualityScore(item as any, metrics);
-  enriched.score = Math.round(enriched.scoreBreakdown.totalScore);
+  Object.assign(enriched, storedRanking(enriched as any));
 
   console.log(
-    `✓ Unified Score: ${enriched.score}/100 ` +
+    `✓ Unified Score: ${enriched.scoreBreakdown.totalScore}/100 ` +
     `(Content: ${enriched.scoreBreakdown.contentQuality}, ` +
     `Engagement: ${enriched.scoreBreakdown.engagementSignals}, ` +
-    `Credibility: ${enriched.scoreBreakdown.sourceCredibility})`
+    `Credibility: ${enriched.scoreBreakdown.sourceCredibility}); ` +
+    `ranking score ${enriched.score} (${enriched.rankingStrategy} v${enriched.rankingVersion})`
   );
 
   return enriched;
@@ -16,6 +16,9 @@ const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY,
 });
 
+// Longer content is cut off; callers with sectioned papers pick what fits (server/core/paper-sections.ts)
+export const QUALITY_ANALYSIS_MAX_CHARS = 5000;
+
 export interface ContentQualityAssessment {
   score: number; // 0-40
   evidenceQuality: number; // 0-10
@@ -33,7 +36,7 @@ export async function analyzeContentQuality(
   sourceType: string,
   retries: number = 2
 ): Promise<ContentQualityAssessment> {
-  const truncatedContent = content.substring(0, 5000);
+  const truncatedContent = content.substring(0, QUALITY_ANALYSIS_MAX_CHARS);
   
   const prompt = `You are a functional medicine research quality analyst. Assess this ${sourceType} content on 4 dimensions (0-10 each):
 
@@ -128,6 +131,7 @@ Respond ONLY with valid JSON in this format:
       const baselineScores = {
         journal: 25,
         substack: 22,
+        newsletter: 22,
         youtube: 20,
         reddit: 18,
       };
@@ -6,6 +6,7 @@
 
 const CROSSREF_BASE_URL = 'https://api.crossref.org';
 const CROSSREF_EMAIL = process.env.ADMIN_EMAIL || 'admin@example.com';
+const UPDATE_RELATIONS_TIMEOUT_MS = 15000; // The nightly check runs DOIs one after another
 
 export interface CrossrefWork {
   DOI: string;
@@ -24,6 +25,18 @@ export interface CrossrefWork {
     doi?: string;
     award?: string[];
   }>;
+  'update-to'?: CrossrefUpdate[]; // Set on notices: the works this one retracts/corrects
+  'updated-by'?: CrossrefUpdate[]; // Set on the affected work: notices issued against it
+}
+
+export interface CrossrefUpdate {
+  DOI: string;
+  type: string; // retraction, correction, expression_of_concern, erratum, ...
+  label?: string;
+  source?: string; // publisher, retraction-watch
+  updated?: {
+    'date-parts': number[][];
+  };
 }
 
 /**
@@ -64,3 +77,53 @@ export async function fetchCitationMetrics(doi: string): Promise<{
     return { citationCount: 0, fundingSources: [] };
   }
 }
+
+/**
+ * Fetch the update relations of a DOI (retractions, corrections, expressions
+ * of concern). Returns null when Crossref could not be reached or took longer
+ * than UPDATE_RELATIONS_TIMEOUT_MS, so the caller can retry later; an unknown
+ * DOI has no relations.
+ */
+export async function fetchUpdateRelations(doi: string): Promise<{
+  updatedBy: CrossrefUpdate[];
+  updateTo: CrossrefUpdate[];
+} | null> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), UPDATE_RELATIONS_TIMEOUT_MS);
+
+  try {
+    const url = `${CROSSREF_BASE_URL}/works/${encodeURIComponent(doi)}`;
+
+    const response = await fetch(url, {
+      headers: {
+        'User-Agent': `FunctionalMedicineIntelligence/1.0 (mailto:${CROSSREF_EMAIL})`,
+      },
+      signal: controller.signal,
+    });
+
+    if (response.status === 404) {
+      return { updatedBy: [], updateTo: [] };
+    }
+    if (!response.ok) {
+      console.warn(`Crossref API error for DOI ${doi}: ${response.status}`);
+      return null;
+    }
+
+    const data = await response.json();
+    const work: CrossrefWork = data.message;
+
+    return {
+      updatedBy: work['updated-by'] || [],
+      updateTo: work['update-to'] || [],
+    };
+  } catch (error: any) {
+    if (error?.name === 'AbortError') {
+      console.warn(`Crossref timed out for DOI ${doi}`);
+    } else {
+      console.error(`Error fetching update relations from Crossref for DOI ${doi}:`, error);
+    }
+    return null;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
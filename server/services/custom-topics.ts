@@ -0,0 +1,353 @@
+import { db } from "../db";
+import { nanoid } from "nanoid";
+import { and, asc, desc, eq, gte, inArray, sql } from "drizzle-orm";
+import { itemVisibleTo } from "../storage";
+import {
+  customTopics,
+  itemCustomTopics,
+  itemEmbeddings,
+  items,
+  feedCatalog,
+  userPreferences,
+  customTopicSlug,
+  isCustomTopicSlug,
+  CUSTOM_TOPIC_PREFIX,
+} from "../../shared/schema";
+import type { CustomTopic, InsertCustomTopic, UpdateCustomTopic, Item } from "../../shared/schema";
+
+/**
+ * User-defined custom topics
+ *
+ * A custom topic matches an item when one of its include keywords appears in
+ * the item's title or text, or when the item's embedding is close enough to
+ * the centroid of the topic's seed items. Any exclude keyword vetoes the
+ * match. Matches are stored per user in item_custom_topics: new items are
+ * tagged at ingest, candidates again when a personalized digest is built
+ * (items embedded since ingest can now match on similarity), and recent
+ * items whenever a topic's rules change. Newsletter items only ever match the
+ * topics of the user whose inbox received them.
+ */
+
+const MAX_TOPICS_PER_USER = 50;
+const BACKFILL_DAYS = 30;
+const BATCH_SIZE = 200;
+const FULL_TEXT_CHARS = 4000; // Same opening as the taxonomy classifier reads
+const TITLE_KEYWORD_CONFIDENCE = 90;
+const TEXT_KEYWORD_CONFIDENCE = 70;
+
+export type CustomTopicResult<T> = { ok: true; value: T } | { ok: false; status: number; reason: string };
+
+type TaggableItem = Pick<Item, 'id' | 'title' | 'rawExcerpt' | 'fullText' | 'sourceType' | 'feedId'>;
+
+interface CompiledTopic {
+  topic: CustomTopic;
+  include: RegExp[];
+  exclude: RegExp[];
+  centroid: number[] | null;
+}
+
+export async function listCustomTopics(userId: string): Promise<CustomTopic[]> {
+  return await db
+    .select()
+    .from(customTopics)
+    .where(eq(customTopics.userId, userId))
+    .orderBy(asc(customTopics.label));
+}
+
+export async function createCustomTopic(userId: string, input: InsertCustomTopic): Promise<CustomTopicResult<CustomTopic>> {
+  const existing = await listCustomTopics(userId);
+  if (existing.length >= MAX_TOPICS_PER_USER) {
+    return { ok: false, status: 400, reason: `You can have at most ${MAX_TOPICS_PER_USER} custom topics` };
+  }
+
+  const seeded = await seedEmbedding(userId, input.seedItemIds ?? []);
+  if (!seeded.ok) return seeded;
+  if (!input.includeKeywords?.length && !seeded.value) {
+    return { ok: false, status: 400, reason: "Add at least one include keyword or seed item" };
+  }
+
+  const [created] = await db
+    .insert(customTopics)
+    .values({ ...input, id: nanoid(), userId, seedEmbedding: seeded.value })
+    .returning();
+
+  await backfillCustomTopic(created);
+  return { ok: true, value: created };
+}
+
+export async function updateCustomTopic(
+  userId: string,
+  id: string,
+  patch: UpdateCustomTopic
+): Promise<CustomTopicResult<CustomTopic>> {
+  const [existing] = await db
+    .select()
+    .from(customTopics)
+    .where(and(eq(customTopics.id, id), eq(customTopics.userId, userId)));
+  if (!existing) {
+    return { ok: false, status: 404, reason: "Custom topic not found" };
+  }
+
+  let embedding = existing.seedEmbedding;
+  if (patch.seedItemIds) {
+    const seeded = await seedEmbedding(userId, patch.seedItemIds);
+    if (!seeded.ok) return seeded;
+    embedding = seeded.value;
+  }
+  if (!(patch.includeKeywords ?? existing.includeKeywords).length && !embedding) {
+    return { ok: false, status: 400, reason: "Add at least one include keyword or seed item" };
+  }
+
+  const [updated] = await db
+    .update(customTopics)
+    .set({ ...patch, seedEmbedding: embedding, updatedAt: new Date() })
+    .where(eq(customTopics.id, id))
+    .returning();
+
+  // Rules changed, so earlier matches may no longer hold
+  await db.delete(itemCustomTopics).where(eq(itemCustomTopics.customTopicId, id));
+  await backfillCustomTopic(updated);
+  return { ok: true, value: updated };
+}
+
+/**
+ * Delete a custom topic and its matches, and drop it from the user's favorite topics
+ */
+export async function deleteCustomTopic(userId: string, id: string): Promise<boolean> {
+  const deleted = await db
+    .delete(customTopics)
+    .where(and(eq(customTopics.id, id), eq(customTopics.userId, userId)))
+    .returning({ id: customTopics.id });
+  if (deleted.length === 0) return false;
+
+  const [preferences] = await db.select().from(userPreferences).where(eq(userPreferences.userId, userId));
+  const slug = customTopicSlug(id);
+  if (preferences?.favoriteTopics.some(topic => topic === slug)) {
+    await db
+      .update(userPreferences)
+      .set({ favoriteTopics: preferences.favoriteTopics.filter(topic => topic !== slug), updatedAt: new Date() })
+      .where(eq(userPreferences.userId, userId));
+  }
+  return true;
+}
+
+/**
+ * Custom topic slugs among `values` that aren't one of the user's topics
+ */
+export async function unknownCustomTopics(userId: string, values: string[]): Promise<string[]> {
+  const custom = values.filter(isCustomTopicSlug);
+  if (custom.length === 0) return [];
+
+  const owned = new Set((await listCustomTopics(userId)).map(topic => customTopicSlug(topic.id)));
+  return custom.filter(slug => !owned.has(slug));
+}
+
+/**
+ * Match items against custom topics (every user's, or one user's) and store
+ * new matches. Returns the number of matches added.
+ */
+export async function tagItemsWithCustomTopics(
+  taggable: TaggableItem[],
+  options: { userId?: string; topics?: CustomTopic[] } = {}
+): Promise<number> {
+  if (taggable.length === 0) return 0;
+
+  const topicRows = options.topics ?? await db
+    .select()
+    .from(customTopics)
+    .where(options.userId ? eq(customTopics.userId, options.userId) : undefined);
+  if (topicRows.length === 0) return 0;
+
+  const compiled = topicRows.map(compileTopic);
+  const newsletterOwners = await loadNewsletterOwners(taggable);
+  const usesSeeds = compiled.some(topic => topic.centroid);
+  const embeddings = usesSeeds
+    ? await loadItemEmbeddings(taggable.map(item => item.id))
+    : new Map<string, number[]>();
+  // Imported only when needed, since embeddings.ts creates its OpenAI client on import
+  const cosineSimilarity = usesSeeds ? (await import("./embeddings")).cosineSimilarity : null;
+
+  const matches: Array<typeof itemCustomTopics.$inferInsert> = [];
+  for (const item of taggable) {
+    const body = [item.rawExcerpt, item.fullText?.slice(0, FULL_TEXT_CHARS)].filter(Boolean).join('\n');
+    const embedding = embeddings.get(item.id);
+    const owner = item.sourceType === 'newsletter' ? newsletterOwners.get(item.feedId ?? '') ?? null : undefined;
+
+    for (const { topic, include, exclude, centroid } of compiled) {
+      if (owner !== undefined && owner !== topic.userId) continue;
+      if (exclude.some(pattern => pattern.test(item.title) || pattern.test(body))) continue;
+
+      let match: { method: string; confidence: number } | null = null;
+      if (include.some(pattern => pattern.test(item.title))) {
+        match = { method: 'keyword', confidence: TITLE_KEYWORD_CONFIDENCE };
+      } else if (include.some(pattern => pattern.test(body))) {
+        match = { method: 'keyword', confidence: TEXT_KEYWORD_CONFIDENCE };
+      } else if (centroid && embedding && cosineSimilarity) {
+        const similarity = Math.round(cosineSimilarity(embedding, centroid) * 100);
+        if (similarity >= topic.minSimilarity) {
+          match = { method: 'embedding', confidence: similarity };
+        }
+      }
+
+      if (match) {
+        matches.push({ id: nanoid(), userId: topic.userId, customTopicId: topic.id, itemId: item.id, ...match });
+      }
+    }
+  }
+
+  let added = 0;
+  for (let i = 0; i < matches.length; i += BATCH_SIZE) {
+    const inserted = await db
+      .insert(itemCustomTopics)
+      .values(matches.slice(i, i + BATCH_SIZE))
+      .onConflictDoNothing()
+      .returning({ id: itemCustomTopics.id });
+    added += inserted.length;
+  }
+  return added;
+}
+
+/**
+ * The user's custom topic slugs for each of the given items that has any
+ */
+export async function getCustomTopicMatches(userId: string, itemIds: string[]): Promise<Record<string, string[]>> {
+  const matches: Record<string, string[]> = {};
+  if (itemIds.length === 0) return matches;
+
+  const rows = await db
+    .select({ itemId: itemCustomTopics.itemId, customTopicId: itemCustomTopics.customTopicId })
+    .from(itemCustomTopics)
+    .where(and(eq(itemCustomTopics.userId, userId), inArray(itemCustomTopics.itemId, itemIds)));
+
+  for (const row of rows) {
+    matches[row.itemId] = [...(matches[row.itemId] || []), customTopicSlug(row.customTopicId)];
+  }
+  return matches;
+}
+
+/**
+ * Items tagged with a topic: a taxonomy slug, or one of the user's custom topics
+ */
+export async function getTopicItemIds(userId: string, topic: string): Promise<string[]> {
+  if (isCustomTopicSlug(topic)) {
+    const rows = await db
+      .select({ itemId: itemCustomTopics.itemId })
+      .from(itemCustomTopics)
+      .innerJoin(items, eq(itemCustomTopics.itemId, items.id))
+      .where(and(
+        eq(itemCustomTopics.userId, userId),
+        eq(itemCustomTopics.customTopicId, topic.slice(CUSTOM_TOPIC_PREFIX.length)),
+        itemVisibleTo(userId)
+      ));
+    return rows.map(row => row.itemId);
+  }
+
+  const rows = await db
+    .select({ id: items.id })
+    .from(items)
+    .where(and(
+      sql`${items.topics}::jsonb @> ${JSON.stringify([topic])}::jsonb`,
+      itemVisibleTo(userId)
+    ));
+  return rows.map(row => row.id);
+}
+
+// Tag items the topic's owner can see ingested in the last BACKFILL_DAYS, newest first
+async function backfillCustomTopic(topic: CustomTopic): Promise<void> {
+  const since = new Date(Date.now() - BACKFILL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  let added = 0;
+
+  for (let offset = 0; ; offset += BATCH_SIZE) {
+    const batch = await db
+      .select({
+        id: items.id,
+        title: items.title,
+        rawExcerpt: items.rawExcerpt,
+        fullText: items.fullText,
+        sourceType: items.sourceType,
+        feedId: items.feedId,
+      })
+      .from(items)
+      .where(and(gte(items.ingestedAt, since), itemVisibleTo(topic.userId)))
+      .orderBy(desc(items.ingestedAt), asc(items.id))
+      .limit(BATCH_SIZE)
+      .offset(offset);
+    if (batch.length === 0) break;
+
+    added += await tagItemsWithCustomTopics(batch, { topics: [topic] });
+    if (batch.length < BATCH_SIZE) break;
+  }
+
+  console.log(`Custom topic "${topic.label}": tagged ${added} items from the last ${BACKFILL_DAYS} days`);
+}
+
+/**
+ * Centroid of the seed items' embeddings, as stored in custom_topics.seed_embedding.
+ * Seeds without a stored embedding (no summary yet) are embedded from their title and excerpt.
+ */
+async function seedEmbedding(userId: string, seedItemIds: string[]): Promise<CustomTopicResult<string | null>> {
+  if (seedItemIds.length === 0) return { ok: true, value: null };
+
+  const seeds = await db
+    .select({ id: items.id, title: items.title, rawExcerpt: items.rawExcerpt })
+    .from(items)
+    .where(and(inArray(items.id, seedItemIds), itemVisibleTo(userId)));
+  if (seeds.length !== new Set(seedItemIds).size) {
+    return { ok: false, status: 400, reason: "Some seed items don't exist" };
+  }
+
+  try {
+    const stored = await loadItemEmbeddings(seedItemIds);
+    const missing = seeds.filter(seed => !stored.has(seed.id));
+    const generated = missing.length > 0
+      ? await (await import("./embeddings")).generateEmbeddings(missing.map(seed => `${seed.title}\n\n${seed.rawExcerpt}`))
+      : [];
+
+    const vectors = [...Array.from(stored.values()), ...generated];
+    const centroid = vectors[0].map((_, i) => vectors.reduce((sum, vector) => sum + vector[i], 0) / vectors.length);
+    return { ok: true, value: JSON.stringify(centroid) };
+  } catch (error) {
+    console.error("Error embedding custom topic seed items:", error);
+    return { ok: false, status: 502, reason: "Couldn't embed the seed items, try again later" };
+  }
+}
+
+// Owner (feed submitter) of each newsletter feed among the items
+async function loadNewsletterOwners(taggable: TaggableItem[]): Promise<Map<string, string | null>> {
+  const feedIds = Array.from(new Set(
+    taggable.filter(item => item.sourceType === 'newsletter' && item.feedId).map(item => item.feedId!)
+  ));
+  if (feedIds.length === 0) return new Map();
+
+  const rows = await db
+    .select({ id: feedCatalog.id, submittedBy: feedCatalog.submittedBy })
+    .from(feedCatalog)
+    .where(inArray(feedCatalog.id, feedIds));
+  return new Map(rows.map(row => [row.id, row.submittedBy]));
+}
+
+async function loadItemEmbeddings(itemIds: string[]): Promise<Map<string, number[]>> {
+  const rows = await db
+    .select({ itemId: itemEmbeddings.itemId, embedding: itemEmbeddings.embedding })
+    .from(itemEmbeddings)
+    .where(inArray(itemEmbeddings.itemId, itemIds));
+  return new Map(rows.map(row => [row.itemId, JSON.parse(row.embedding) as number[]]));
+}
+
+function compileTopic(topic: CustomTopic): CompiledTopic {
+  return {
+    topic,
+    include: topic.includeKeywords.map(keywordPattern),
+    exclude: topic.excludeKeywords.map(keywordPattern),
+    centroid: topic.seedEmbedding ? JSON.parse(topic.seedEmbedding) as number[] : null,
+  };
+}
+
+// Whole-word, case-insensitive phrase match; inner whitespace matches any run of whitespace
+function keywordPattern(keyword: string): RegExp {
+  const escaped = keyword
+    .trim()
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/\s+/g, '\\s+');
+  return new RegExp(`(^|\\W)${escaped}(?=\\W|$)`, 'i');
+}
@@ -1,18 +1,24 @@
 import { nanoid } from "nanoid";
 import { format, subDays } from "date-fns";
-import { storage } from "../storage";
-import { rankItems } from "../core/ranking";
+import { storage, isFeedVisibleTo } from "../storage";
+import { rankItemsWithSignals, getRankingStrategy, type ItemRanking, type RankingStrategy } from "../core/ranking";
+import { selectDiverse, selectionConfigFor, MAX_SELECTION_CANDIDATES } from "../core/diversity";
 import { generateBatchSummaries, generateCategorySummary } from "./summary";
 import { enrichContentBatch } from "./content-enrichment";
 import { fetchJournalFeeds } from "../sources/journals";
 import { fetchRedditFeeds } from "../sources/reddit";
+import { isDiscussionSource, discussionCommunity } from "../sources/community";
 import { fetchSubstackFeeds } from "../sources/substack";
 import { fetchYouTubeFeeds } from "../sources/youtube";
 import { fetchPodcastFeeds } from "../sources/podcasts";
 import { HealingOrchestrator } from "./healing/healing-orchestrator";
 import { FeedHealthNotifier } from "./notifications/feed-health-notifier";
-import type { InsertDigest, DigestSectionItem, Item, Summary, CategorySummary, InsertItem, Topic, FeedCatalog } from "@shared/schema";
-import { topics } from "@shared/schema";
+import { refreshTopicTaxonomy, resolveTopics, unknownTopics } from "./taxonomy";
+import { tagItemsWithCustomTopics, getCustomTopicMatches } from "./custom-topics";
+import { summarizeIntegrity } from "./retractions";
+import { personalizeRanking } from "./preference-model";
+import { isCustomTopicSlug } from "@shared/schema";
+import type { InsertDigest, DigestSectionItem, Item, Summary, CategorySummary, InsertItem, Topic, FeedCatalog, ItemArticle, RelatedRef, DigestSectionKey, DigestSelectionOverrides, DigestSectionSelection, InclusionTrace, InclusionOrigin } from "@shared/schema";
 import type { IStorage } from "../storage";
 
 interface DigestGenerationOptions {
@@ -22,6 +28,8 @@ interface DigestGenerationOptions {
     expert?: number;
   };
   windowDays?: number;
+  rankingStrategy?: string; // Ranking strategy name (server/core/ranking.ts); defaults to the stored-score strategy
+  selection?: DigestSelectionOverrides; // Overrides of DEFAULT_SELECTION_CONFIG (server/core/diversity.ts)
   onProgress?: (done: number, total: number) => Promise<void>;
 }
 
@@ -39,6 +47,49 @@ interface DigestMetadata {
   fallbackReason?: string;
 }
 
+/**
+ * Pick each section's items from its ranked candidates with diversity-aware
+ * selection, loading embeddings once for all sections. Candidates stored
+ * without an embedding (before ingest embedded new items, or when that
+ * failed) are embedded from their title and excerpt first.
+ */
+async function selectSectionItems(
+  candidates: Record<DigestSectionKey, Item[]>,
+  itemCounts: Record<DigestSectionKey, number>,
+  overrides: DigestGenerationOptions['selection']
+): Promise<{ sections: Record<DigestSectionKey, Item[]>; selection: Record<DigestSectionKey, DigestSectionSelection> }> {
+  const sectionKeys = Object.keys(candidates) as DigestSectionKey[];
+  const considered = sectionKeys.flatMap(section => candidates[section].slice(0, MAX_SELECTION_CANDIDATES));
+
+  try {
+    const { embedItemExcerpts } = await import('./embeddings');
+    const embedded = await embedItemExcerpts(considered);
+    if (embedded > 0) {
+      console.log(`Selection: embedded ${embedded} candidates that had no embedding`);
+    }
+  } catch (error) {
+    console.error("Error embedding selection candidates:", error);
+  }
+
+  const embeddings = await storage.getItemEmbeddings(considered.map(item => item.id));
+
+  const sections = {} as Record<DigestSectionKey, Item[]>;
+  const selection = {} as Record<DigestSectionKey, DigestSectionSelection>;
+  for (const section of sectionKeys) {
+    const result = selectDiverse(candidates[section], itemCounts[section], selectionConfigFor(section, overrides), embeddings);
+    sections[section] = result.items;
+    selection[section] = result.selection;
+    if (result.selection.withoutEmbedding) {
+      console.log(`Selection (${section}): ${result.selection.withoutEmbedding} candidates without an embedding weren't compared for similarity`);
+    }
+    if (result.selection.skippedForCaps > 0) {
+      console.log(`Selection (${section}): ${result.selection.skippedForCaps} higher-scoring candidates skipped for source/topic caps`);
+    }
+  }
+
+  return { sections, selection };
+}
+
 /**
  * Helper function to fetch feed content with healing capability
  * Attempts to heal failing feeds and falls back to cached content when necessary
@@ -71,7 +122,7 @@ async function fetchFeedContentWithHealing(
         console.log(`✅ Feed "${feed.name}" healed successfully`);
         
         // After healing, try to fetch fresh content
-        const freshItems = await storage.getItemsByFeedUrl(feed.url, 20);
+        const freshItems = await storage.getItemsByFeedId(feed.id, 20);
         
         // Filter by date window
         result.items = freshItems.filter(item => {
@@ -83,21 +134,21 @@ async function fetchFeedContentWithHealing(
           // No recent items even after healing, use fallback
           result.usedFallback = true;
           console.log(`⚠️ No recent items for healed feed "${feed.name}", using cached content`);
-          const cachedItems = await storage.getItemsByFeedUrl(feed.url, 10);
+          const cachedItems = await storage.getItemsByFeedId(feed.id, 10);
           result.items = cachedItems;
         }
       } else {
         // Healing failed, use cached content
         result.usedFallback = true;
         console.log(`❌ Healing failed for feed "${feed.name}", using cached content`);
-        const cachedItems = await storage.getItemsByFeedUrl(feed.url, 10);
+        const cachedItems = await storage.getItemsByFeedId(feed.id, 10);
         result.items = cachedItems;
       }
     } catch (error) {
       // Healing error, use cached content
       result.usedFallback = true;
       console.error(`💥 Healing error for feed "${feed.name}":`, error);
-      const cachedItems = await storage.getItemsByFeedUrl(feed.url, 10);
+      const cachedItems = await storage.getItemsByFeedId(feed.id, 10);
       result.items = cachedItems;
     }
   }
@@ -107,6 +158,7 @@ async function fetchFeedContentWithHealing(
 
 export async function generateWeeklyDigest(options: DigestGenerationOptions = {}): Promise<{ id: string; slug: string }> {
   console.log("Starting weekly digest generation...");
+  await refreshTopicTaxonomy();
 
   // Default item counts (configurable)
   const itemCounts = {
@@ -142,7 +194,12 @@ export async function generateWeeklyDigest(options: DigestGenerationOptions = {}
   console.log(`Found ${items.length} items in window`);
 
   // Rank all items
-  const rankedItems = rankItems(items);
+  const ranking = getRankingStrategy(options.rankingStrategy);
+  if (!ranking) {
+    throw new Error(`Unknown ranking strategy "${options.rankingStrategy}"`);
+  }
+  const rankedWithSignals = rankItemsWithSignals(items, ranking.name);
+  const rankedItems = rankedWithSignals.map(({ item }) => item);
 
   // Filter out items with insufficient content
   // Items with contentQuality < 10 typically have:
@@ -153,7 +210,7 @@ export async function generateWeeklyDigest(options: DigestGenerationOptions = {}
     if (!item.scoreBreakdown) return true; // Keep unenriched items for now
     
     const contentQuality = item.scoreBreakdown.contentQuality || 0;
-    if (contentQuality < 10) {
+    if (contentQuality < MIN_CONTENT_QUALITY) {
       console.log(`Filtered out low-content item: "${item.title}" (content quality: ${contentQuality})`);
       return false;
     }
@@ -165,14 +222,23 @@ export async function generateWeeklyDigest(options: DigestGenerationOptions = {}
 
   // Separate by source type
   const journalItems = qualityFilteredItems.filter(i => i.sourceType === 'journal');
-  const redditItems = qualityFilteredItems.filter(i => i.sourceType === 'reddit');
+  const discussionItems = qualityFilteredItems.filter(i => isDiscussionSource(i.sourceType));
   const substackItems = qualityFilteredItems.filter(i => i.sourceType === 'substack');
   const youtubeItems = qualityFilteredItems.filter(i => i.sourceType === 'youtube');
 
-  // Select top items for each section (using configurable counts)
-  const topJournals = journalItems.slice(0, itemCounts.research);
-  const topCommunity = [...redditItems, ...substackItems].slice(0, itemCounts.community);
-  const topExperts = youtubeItems.slice(0, itemCounts.expert);
+  // Select items for each section (using configurable counts), spreading them across sources and topics
+  const { sections: selected, selection } = await selectSectionItems(
+    {
+      research: journalItems,
+      community: [...discussionItems, ...substackItems],
+      expert: youtubeItems,
+    },
+    itemCounts,
+    options.selection
+  );
+  const topJournals = selected.research;
+  const topCommunity = selected.community;
+  const topExperts = selected.expert;
 
   // Generate AI summaries for all top items
   const allTopItems = [...topJournals, ...topCommunity, ...topExperts];
@@ -190,23 +256,40 @@ export async function generateWeeklyDigest(options: DigestGenerationOptions = {}
   if (itemsNeedingSummaries.length > 0) {
     console.log(`Generating ${itemsNeedingSummaries.length} new summaries...`);
     const newSummaries = await generateBatchSummaries(itemsNeedingSummaries, 5);
-    await storage.createBatchSummaries(newSummaries);
+    const createdSummaries = await storage.createBatchSummaries(newSummaries);
     
     // Add new summaries to the map
-    newSummaries.forEach(s => existingSummaryMap.set(s.itemId, s));
+    createdSummaries.forEach(s => existingSummaryMap.set(s.itemId, s));
   }
 
+  const discussionMap = await getDiscussionsByItem(allItemIds);
+
+  // Feed names for the inclusion traces
+  const feedNames = new Map<string, string>();
+  for (const feedId of Array.from(new Set(allTopItems.map(item => item.feedId).filter((id): id is string => !!id)))) {
+    const feed = await storage.getFeedById(feedId);
+    if (feed) feedNames.set(feedId, feed.name);
+  }
+  const inclusion: InclusionContext = {
+    strategy: ranking,
+    rankings: new Map(rankedWithSignals.map(({ item, ranking: itemRanking }) => [item.id, itemRanking])),
+    rankedPositions: new Map(rankedItems.map((item, index) => [item.id, index + 1])),
+    selection,
+    windowDays: options.windowDays ?? 7,
+    origin: item => ({ path: 'window', feedId: item.feedId ?? null, feedName: item.feedId ? feedNames.get(item.feedId) ?? null : null }),
+  };
+
   // Build digest sections with summaries
-  const researchHighlights: DigestSectionItem[] = topJournals.map(item => 
-    buildDigestItem(item, existingSummaryMap.get(item.id))
+  const researchHighlights: DigestSectionItem[] = topJournals.map((item, index) => 
+    buildDigestItem(item, existingSummaryMap.get(item.id), discussionMap.get(item.id), buildInclusionTrace(item, 'research', index + 1, inclusion))
   );
 
-  const communityTrends: DigestSectionItem[] = topCommunity.map(item => 
-    buildDigestItem(item, existingSummaryMap.get(item.id))
+  const communityTrends: DigestSectionItem[] = topCommunity.map((item, index) => 
+    buildDigestItem(item, existingSummaryMap.get(item.id), discussionMap.get(item.id), buildInclusionTrace(item, 'community', index + 1, inclusion))
   );
 
-  const expertCommentary: DigestSectionItem[] = topExperts.map(item => 
-    buildDigestItem(item, existingSummaryMap.get(item.id))
+  const expertCommentary: DigestSectionItem[] = topExperts.map((item, index) => 
+    buildDigestItem(item, existingSummaryMap.get(item.id), discussionMap.get(item.id), buildInclusionTrace(item, 'expert', index + 1, inclusion))
   );
 
   // Generate category summaries for each section
@@ -271,6 +354,8 @@ export async function generateWeeklyDigest(options: DigestGenerationOptions = {}
         researchHighlightsSummary,
         communityTrendsSummary,
         expertCommentarySummary,
+        ranking: { strategy: ranking.name, version: ranking.version },
+        selection,
       } as any,
     };
 
@@ -313,6 +398,7 @@ export async function generateWeeklyDigest(options: DigestGenerationOptions = {}
  */
 export async function generatePersonalizedDigest(userId: string, options: DigestGenerationOptions = {}): Promise<{ id: string; slug: string; metadata?: DigestMetadata }> {
   console.log(`Starting personalized digest generation for user ${userId}...`);
+  await refreshTopicTaxonomy();
 
   // Progress callback helper
   const reportProgress = async (done: number, total = 100) => {
@@ -343,8 +429,9 @@ export async function generatePersonalizedDigest(userId: string, options: Digest
     
     // Get user's topic preferences for filtering
     const userPreferences = await storage.getUserPreferences(userId);
-    const favoriteTopics = userPreferences?.favoriteTopics || [];
-    console.log(`User has ${favoriteTopics.length} favorite topics:`, favoriteTopics);
+    const favoriteTopics = resolveTopics(userPreferences?.favoriteTopics || []);
+    const favoriteCustomTopics = (userPreferences?.favoriteTopics || []).filter(isCustomTopicSlug);
+    console.log(`User has ${favoriteTopics.length} favorite topics:`, favoriteTopics, `and ${favoriteCustomTopics.length} favorite custom topics`);
     
     await reportProgress(10);
 
@@ -377,6 +464,9 @@ export async function generatePersonalizedDigest(userId: string, options: Digest
       userFeeds = userFeedSubscriptions.map(sub => sub.feed);
     }
 
+    // Where this run's items come from, for the inclusion traces; the fallbacks below override it
+    let originPath: InclusionOrigin = usingStarterFeeds ? 'starter' : 'subscription';
+
     // Fetch fresh items from RSS for user's feeds (last 7 days)
     const windowDays = options.windowDays ?? 7;
     const windowEnd = new Date();
@@ -470,15 +560,16 @@ export async function generatePersonalizedDigest(userId: string, options: Digest
     const userFeedsByUrl = new Map(userFeeds.map(f => [f.url, f]));
     const userFeedsByName = new Map(userFeeds.map(f => [f.name.toLowerCase(), f]));
     
-    allFreshItems = allFreshItems.filter(item => {
+    const matchedFeeds = new Map<string, FeedCatalog>(); // By hashDedupe
+    const matchUserFeed = (item: InsertItem): FeedCatalog | undefined => {
       // Match by sourceType first
       const feedsOfType = userFeeds.filter(f => f.sourceType === item.sourceType);
-      if (feedsOfType.length === 0) return false;
+      if (feedsOfType.length === 0) return undefined;
       
       // More flexible matching for each source type
       if (item.sourceType === 'journal' && item.journalName) {
         // For journals: check if any subscribed feed name matches the journal name (case-insensitive, partial match)
-        return feedsOfType.some(feed => {
+        return feedsOfType.find(feed => {
           const feedName = feed.name.toLowerCase();
           const journalName = item.journalName!.toLowerCase();
           return feedName.includes(journalName) || 
@@ -490,7 +581,7 @@ export async function generatePersonalizedDigest(userId: string, options: Digest
       
       if (item.sourceType === 'reddit' && item.authorOrChannel) {
         // For Reddit: match subreddit names more flexibly
-        return feedsOfType.some(feed => {
+        return feedsOfType.find(feed => {
           const feedName = feed.name.toLowerCase().replace('r/', '');
           const subreddit = item.authorOrChannel!.toLowerCase().replace('r/', '');
           return feedName === subreddit || feed.name.toLowerCase() === item.authorOrChannel!.toLowerCase();
@@ -499,7 +590,7 @@ export async function generatePersonalizedDigest(userId: string, options: Digest
       
       if ((item.sourceType === 'youtube' || item.sourceType === 'podcast' || item.sourceType === 'substack') && item.authorOrChannel) {
         // For YouTube/Podcast/Substack: match channel/author names
-        return feedsOfType.some(feed => {
+        return feedsOfType.find(feed => {
           const feedName = feed.name.toLowerCase();
           const channel = item.authorOrChannel!.toLowerCase();
           // More flexible matching - handle variations
@@ -511,7 +602,13 @@ export async function generatePersonalizedDigest(userId: string, options: Digest
         });
       }
       
-      return false;
+      return undefined;
+    };
+
+    allFreshItems = allFreshItems.filter(item => {
+      const feed = matchUserFeed(item);
+      if (feed) matchedFeeds.set(item.hashDedupe, feed);
+      return feed !== undefined;
     });
 
     // Filter by date window
@@ -536,6 +633,7 @@ export async function generatePersonalizedDigest(userId: string, options: Digest
           if (recentCachedItems.length > 0) {
             console.log(`Using ${recentCachedItems.length} cached items for digest`);
             savedItems.push(...recentCachedItems);
+            originPath = 'cached';
             metadata.usedFallback = true;
             metadata.fallbackReason = 'Using cached content due to feed availability issues';
             metadata.healingMessages!.push('Using previously fetched content for your digest');
@@ -570,6 +668,7 @@ export async function generatePersonalizedDigest(userId: string, options: Digest
           const recentCachedItems = await storage.getRecentItems(30);
           if (recentCachedItems.length > 0) {
             savedItems.push(...recentCachedItems);
+            originPath = 'cached';
             metadata.usedFallback = true;
             metadata.fallbackReason = 'Using cached content due to no recent feed updates';
             metadata.healingMessages!.push('Using previously fetched content for your digest');
@@ -577,6 +676,7 @@ export async function generatePersonalizedDigest(userId: string, options: Digest
             throw new Error('Unable to generate digest. Please check your internet connection and try again.');
           }
         } else {
+          originPath = 'featured-fallback';
           metadata.usedFallback = true;
           metadata.fallbackReason = 'No items matched from subscribed feeds';
         }
@@ -596,56 +696,103 @@ export async function generatePersonalizedDigest(userId: string, options: Digest
         if (!existing) {
           const saved = await storage.createItem(item);
           savedItems.push(saved);
-        } else {
+        } else if (existing.sourceType !== 'newsletter' || await storage.isItemVisibleToUser(existing.id, userId)) {
           savedItems.push(existing);
         }
       }
     }
 
+    // Newsletters come in through the inbound email webhook, so they're already stored
+    const newsletterItemIds = new Set<string>();
+    const newsletterFeedIds = userFeeds
+      .filter(feed => feed.sourceType === 'newsletter' && isFeedVisibleTo(feed, userId))
+      .map(feed => feed.id);
+    if (newsletterFeedIds.length > 0) {
+      const newsletterItems = await storage.getFeedItemsInWindow(
+        newsletterFeedIds,
+        windowStart.toISOString(),
+        windowEnd.toISOString(),
+        userId
+      );
+      const savedIds = new Set(savedItems.map(item => item.id));
+      savedItems.push(...newsletterItems.filter(item => !savedIds.has(item.id)));
+      newsletterItems.forEach(item => newsletterItemIds.add(item.id));
+      console.log(`Added ${newsletterItems.length} newsletter items from ${newsletterFeedIds.length} senders`);
+    }
+
     console.log(`Saved/retrieved ${savedItems.length} enriched items`);
     
     // Stage 3: Enrichment complete (30-50%)
     await reportProgress(50);
 
     // Rank items
-    const rankedItems = rankItems(savedItems);
+    const ranking = getRankingStrategy(options.rankingStrategy);
+    if (!ranking) {
+      throw new Error(`Unknown ranking strategy "${options.rankingStrategy}"`);
+    }
+    const rankedWithSignals = rankItemsWithSignals(savedItems, ranking.name);
+    const globallyRankedItems = rankedWithSignals.map(({ item }) => item);
+
+    // The user's preference model, unless they turned it off or it hasn't been trained yet
+    let personalized: Awaited<ReturnType<typeof personalizeRanking>> = null;
+    try {
+      personalized = await personalizeRanking(userId, globallyRankedItems);
+    } catch (error) {
+      console.error('Error applying preference model:', error);
+    }
+    const rankedItems = personalized?.items ?? globallyRankedItems;
+    console.log(personalized ? 'Re-ranked with the user\'s preference model' : 'Using global ranking (personalization off or not trained yet)');
 
     // Filter by quality
     const qualityFilteredItems = rankedItems.filter(item => {
       if (!item.scoreBreakdown) return true;
       const contentQuality = item.scoreBreakdown.contentQuality || 0;
-      return contentQuality >= 10;
+      return contentQuality >= MIN_CONTENT_QUALITY;
     });
 
     console.log(`Quality filtered: ${qualityFilteredItems.length} items (from ${rankedItems.length})`);
 
     // Separate by source type FIRST (before topic filtering)
     const allJournalItems = qualityFilteredItems.filter(i => i.sourceType === 'journal');
-    const allRedditItems = qualityFilteredItems.filter(i => i.sourceType === 'reddit');
+    const allDiscussionItems = qualityFilteredItems.filter(i => isDiscussionSource(i.sourceType));
     const allSubstackItems = qualityFilteredItems.filter(i => i.sourceType === 'substack');
     const allYoutubeItems = qualityFilteredItems.filter(i => i.sourceType === 'youtube');
     const allPodcastItems = qualityFilteredItems.filter(i => i.sourceType === 'podcast');
+    const allNewsletterItems = qualityFilteredItems.filter(i => i.sourceType === 'newsletter');
 
     // TOPIC-BASED FILTERING: Apply per-section with intelligent fallbacks
     let journalItems = allJournalItems;
     let youtubeItems = allYoutubeItems;
-    let communityItems = [...allRedditItems, ...allSubstackItems, ...allPodcastItems];
+    let communityItems = [...allDiscussionItems, ...allSubstackItems, ...allNewsletterItems, ...allPodcastItems];
+
+    // The user's custom topics, matched again now: items fetched above skip ingest tagging,
+    // and items embedded since they were ingested can match seed items
+    let customTopicMatches: Record<string, string[]> = {};
+    try {
+      await tagItemsWithCustomTopics(qualityFilteredItems, { userId });
+      customTopicMatches = await getCustomTopicMatches(userId, qualityFilteredItems.map(item => item.id));
+    } catch (error) {
+      console.error('Error matching custom topics:', error);
+    }
+
+    const favoriteTopicsSet = new Set<string>([...favoriteTopics, ...favoriteCustomTopics]);
+    const matchedTopics = (item: Item): string[] =>
+      [...(Array.isArray(item.topics) ? item.topics : []), ...(customTopicMatches[item.id] || [])]
+        .filter(topic => favoriteTopicsSet.has(topic));
+    const topicFilter: Record<DigestSectionKey, 'matched' | 'relaxed' | 'none'> = { research: 'none', community: 'none', expert: 'none' };
+
+    if (favoriteTopicsSet.size > 0) {
+      topicFilter.research = topicFilter.community = topicFilter.expert = 'relaxed';
 
-    if (favoriteTopics.length > 0) {
-      const favoriteTopicsSet = new Set(favoriteTopics);
-      
       // Helper: filter items by topic match
       const filterByTopics = (items: typeof qualityFilteredItems) => {
-        return items.filter(item => {
-          const itemTopics = Array.isArray(item.topics) ? item.topics : [];
-          return itemTopics.some(topic => favoriteTopicsSet.has(topic));
-        });
+        return items.filter(item => matchedTopics(item).length > 0);
       };
 
       // Filter each category independently
       const topicMatchedJournals = filterByTopics(allJournalItems);
       const topicMatchedYoutube = filterByTopics(allYoutubeItems);
-      const topicMatchedCommunity = filterByTopics([...allRedditItems, ...allSubstackItems, ...allPodcastItems]);
+      const topicMatchedCommunity = filterByTopics([...allDiscussionItems, ...allSubstackItems, ...allNewsletterItems, ...allPodcastItems]);
 
       console.log(`Topic matches - Journals: ${topicMatchedJournals.length}/${allJournalItems.length}, YouTube: ${topicMatchedYoutube.length}/${allYoutubeItems.length}, Community: ${topicMatchedCommunity.length}/${communityItems.length}`);
 
@@ -657,6 +804,7 @@ export async function generatePersonalizedDigest(userId: string, options: Digest
 
       if (topicMatchedJournals.length >= minJournalThreshold) {
         journalItems = topicMatchedJournals;
+        topicFilter.research = 'matched';
         console.log(`✓ Using topic-filtered journals (${topicMatchedJournals.length} items)`);
       } else {
         console.log(`⚠ Too few journal matches (${topicMatchedJournals.length}), using all quality journals`);
@@ -664,6 +812,7 @@ export async function generatePersonalizedDigest(userId: string, options: Digest
 
       if (topicMatchedYoutube.length >= minYoutubeThreshold) {
         youtubeItems = topicMatchedYoutube;
+        topicFilter.expert = 'matched';
         console.log(`✓ Using topic-filtered YouTube (${topicMatchedYoutube.length} items)`);
       } else {
         console.log(`⚠ Too few YouTube matches (${topicMatchedYoutube.length}), using all quality videos`);
@@ -671,6 +820,7 @@ export async function generatePersonalizedDigest(userId: string, options: Digest
 
       if (topicMatchedCommunity.length >= minCommunityThreshold) {
         communityItems = topicMatchedCommunity;
+        topicFilter.community = 'matched';
         console.log(`✓ Using topic-filtered community (${topicMatchedCommunity.length} items)`);
       } else {
         console.log(`⚠ Too few community matches (${topicMatchedCommunity.length}), using all quality community posts`);
@@ -681,10 +831,15 @@ export async function generatePersonalizedDigest(userId: string, options: Digest
 
     console.log(`Final source breakdown: ${journalItems.length} journals, ${youtubeItems.length} youtube, ${communityItems.length} community`);
 
-    // Select top items for each section
-    const topJournals = journalItems.slice(0, itemCounts.research);
-    const topCommunity = communityItems.slice(0, itemCounts.community);
-    const topExperts = youtubeItems.slice(0, itemCounts.expert);
+    // Select items for each section, spreading them across sources and topics
+    const { sections: selected, selection } = await selectSectionItems(
+      { research: journalItems, community: communityItems, expert: youtubeItems },
+      itemCounts,
+      options.selection
+    );
+    const topJournals = selected.research;
+    const topCommunity = selected.community;
+    const topExperts = selected.expert;
 
     const allTopItems = [...topJournals, ...topCommunity, ...topExperts];
 
@@ -706,24 +861,45 @@ export async function generatePersonalizedDigest(userId: string, options: Digest
 
     if (itemsNeedingSummaries.length > 0) {
       const newSummaries = await generateBatchSummaries(itemsNeedingSummaries, 5);
-      await storage.createBatchSummaries(newSummaries);
-      newSummaries.forEach(s => existingSummaryMap.set(s.itemId, s));
+      const createdSummaries = await storage.createBatchSummaries(newSummaries);
+      createdSummaries.forEach(s => existingSummaryMap.set(s.itemId, s));
     }
     
     // Stage 5: Summaries complete (60-80%)
     await reportProgress(80);
 
+    const discussionMap = await getDiscussionsByItem(allItemIds);
+
+    const userFeedsById = new Map<string, FeedCatalog>(userFeeds.map(feed => [feed.id, feed]));
+    const inclusion: InclusionContext = {
+      strategy: ranking,
+      rankings: new Map(rankedWithSignals.map(({ item, ranking: itemRanking }) => [item.id, itemRanking])),
+      rankedPositions: new Map(rankedItems.map((item, index) => [item.id, index + 1])),
+      selection,
+      windowDays,
+      origin: item => {
+        const feed = matchedFeeds.get(item.hashDedupe) ?? (item.feedId ? userFeedsById.get(item.feedId) : undefined);
+        return {
+          path: newsletterItemIds.has(item.id) ? 'newsletter' : originPath,
+          feedId: feed?.id ?? item.feedId ?? null,
+          feedName: feed?.name ?? null,
+        };
+      },
+      preference: personalized ? { weight: personalized.weight, probabilities: personalized.preferences } : undefined,
+      topics: { matched: matchedTopics, filter: topicFilter },
+    };
+
     // Build digest sections
-    const researchHighlights: DigestSectionItem[] = topJournals.map(item =>
-      buildDigestItem(item, existingSummaryMap.get(item.id))
+    const researchHighlights: DigestSectionItem[] = topJournals.map((item, index) =>
+      buildDigestItem(item, existingSummaryMap.get(item.id), discussionMap.get(item.id), buildInclusionTrace(item, 'research', index + 1, inclusion))
     );
 
-    const communityTrends: DigestSectionItem[] = topCommunity.map(item =>
-      buildDigestItem(item, existingSummaryMap.get(item.id))
+    const communityTrends: DigestSectionItem[] = topCommunity.map((item, index) =>
+      buildDigestItem(item, existingSummaryMap.get(item.id), discussionMap.get(item.id), buildInclusionTrace(item, 'community', index + 1, inclusion))
     );
 
-    const expertCommentary: DigestSectionItem[] = topExperts.map(item =>
-      buildDigestItem(item, existingSummaryMap.get(item.id))
+    const expertCommentary: DigestSectionItem[] = topExperts.map((item, index) =>
+      buildDigestItem(item, existingSummaryMap.get(item.id), discussionMap.get(item.id), buildInclusionTrace(item, 'expert', index + 1, inclusion))
     );
 
     // Generate category summaries
@@ -759,6 +935,7 @@ export async function generatePersonalizedDigest(userId: string, options: Digest
 
     const digest: InsertDigest = {
       slug,
+      userId,
       windowStart: windowStart.toISOString(),
       windowEnd: windowEnd.toISOString(),
       sections: {
@@ -768,6 +945,8 @@ export async function generatePersonalizedDigest(userId: string, options: Digest
         researchHighlightsSummary: resSummary,
         communityTrendsSummary: commSummary,
         expertCommentarySummary: expSummary,
+        ranking: { strategy: ranking.name, version: ranking.version, personalized: personalized !== null },
+        selection,
       } as any,
     };
 
@@ -788,23 +967,117 @@ export async function generatePersonalizedDigest(userId: string, options: Digest
   }
 }
 
-// Create a Set of valid topics for fast lookup and normalization
-const validTopicsSet = new Set<string>(topics);
+const MAX_DIGEST_DISCUSSIONS = 5;
+
+// Items below this content quality (0-40) are left out of digests
+const MIN_CONTENT_QUALITY = 10;
+
+const SECTION_ITEM_LABELS: Record<DigestSectionKey, string> = {
+  research: 'research items',
+  community: 'community posts',
+  expert: 'videos',
+};
+
+interface InclusionContext {
+  strategy: RankingStrategy;
+  rankings: Map<string, ItemRanking>;
+  rankedPositions: Map<string, number>; // 1-based, after ranking (and personalization)
+  selection: Record<DigestSectionKey, DigestSectionSelection>;
+  windowDays: number;
+  origin: (item: Item) => InclusionTrace['origin'];
+  preference?: { weight: number; probabilities: Map<string, number> };
+  // Personalized digests only; 'relaxed' sections had too few topic matches to filter on
+  topics?: { matched: (item: Item) => string[]; filter: Record<DigestSectionKey, 'matched' | 'relaxed' | 'none'> };
+}
 
-function buildDigestItem(item: Item, summary?: Summary): DigestSectionItem {
-  // Normalize topics: filter out any invalid values that don't match the Topic enum
-  // This ensures frontend filtering works correctly with exact string matching
-  const normalizedTopics: Topic[] = (Array.isArray(item.topics) ? item.topics : [])
-    .filter((topic): topic is Topic => {
-      if (typeof topic === 'string' && validTopicsSet.has(topic)) {
-        return true;
-      }
-      // Log invalid topics for debugging
-      if (topic) {
-        console.warn(`Filtering out invalid topic "${topic}" from item ${item.id}`);
-      }
-      return false;
+/**
+ * Inclusion trace of an item in the given section at `position` (1-based),
+ * shown to readers as "Why am I seeing this?"
+ */
+function buildInclusionTrace(item: Item, section: DigestSectionKey, position: number, context: InclusionContext): InclusionTrace {
+  const ranking = context.rankings.get(item.id);
+  const pick = context.selection[section].picks[item.id];
+  const origin = context.origin(item);
+  const matchedTopics = context.topics ? context.topics.matched(item) : [];
+  const filters: InclusionTrace['filters'] = [];
+
+  filters.push({
+    name: 'window',
+    detail: origin.path === 'cached'
+      ? 'Taken from recently stored items, so the date window was not applied'
+      : `Published ${format(new Date(item.publishedAt), 'MMM d, yyyy')}, within the ${context.windowDays}-day window`,
+  });
+
+  const contentQuality = item.scoreBreakdown?.contentQuality;
+  filters.push({
+    name: 'quality',
+    detail: contentQuality === undefined
+      ? 'Not scored yet, so kept without a content quality check'
+      : `Content quality ${contentQuality}/40 (minimum ${MIN_CONTENT_QUALITY})`,
+  });
+
+  if (context.topics) {
+    const outcome = context.topics.filter[section];
+    filters.push({
+      name: 'topics',
+      detail: outcome === 'none'
+        ? 'No favorite topics set, so not filtered by topic'
+        : outcome === 'relaxed'
+          ? `Too few ${SECTION_ITEM_LABELS[section]} matched your topics, so this section wasn't filtered by topic`
+          : `Matches your topics: ${matchedTopics.join(', ')}`,
     });
+  }
+
+  if (pick) {
+    filters.push({ name: 'selection', detail: pick.reason });
+  }
+
+  const probability = context.preference?.probabilities.get(item.id);
+  return {
+    origin,
+    matchedTopics,
+    ranking: {
+      strategy: context.strategy.name,
+      version: context.strategy.version,
+      score: ranking?.score ?? item.score ?? 0,
+      components: Object.entries(ranking?.signals ?? {}).map(([signal, points]) => ({
+        signal,
+        weight: context.strategy.signals[signal]?.weight ?? 0,
+        points,
+      })),
+      preference: context.preference && probability !== undefined
+        ? { weight: context.preference.weight, probability: Math.round(probability * 1000) / 1000 }
+        : undefined,
+    },
+    positions: {
+      ranked: context.rankedPositions.get(item.id) ?? 0,
+      sectionCandidate: pick?.candidateRank ?? position,
+      final: position,
+    },
+    filters,
+  };
+}
+
+/**
+ * Community discussions (related_refs) of the digest's items, by item
+ */
+async function getDiscussionsByItem(itemIds: string[]): Promise<Map<string, RelatedRef[]>> {
+  const refs = await storage.getRelatedRefsByItemIds(itemIds);
+  const byItem = new Map<string, RelatedRef[]>();
+  for (const ref of refs) {
+    byItem.set(ref.itemId, [...(byItem.get(ref.itemId) || []), ref]);
+  }
+  return byItem;
+}
+
+function buildDigestItem(item: Item, summary?: Summary, discussions: RelatedRef[] = [], inclusion?: InclusionTrace): DigestSectionItem {
+  // Normalize topics against the taxonomy: merged or renamed topics map to their replacements,
+  // unknown values are dropped. This ensures frontend filtering works correctly with exact string matching
+  const rawTopics: unknown[] = Array.isArray(item.topics) ? item.topics : [];
+  const normalizedTopics = resolveTopics(rawTopics);
+  if (normalizedTopics.length < rawTopics.length) {
+    console.warn(`Filtering out invalid topics from item ${item.id}: ${unknownTopics(rawTopics).join(', ')}`);
+  }
 
   const base = {
     itemId: item.id,
@@ -815,8 +1088,21 @@ function buildDigestItem(item: Item, summary?: Summary): DigestSectionItem {
     topics: normalizedTopics,
     authorOrChannel: item.authorOrChannel,
     pdfUrl: item.pdfUrl, // Include Unpaywall PDF URL for open access papers
+    readingTimeMinutes: (item.article as ItemArticle | null)?.readingTimeMinutes,
+    // Busiest threads first
+    discussions: discussions.length > 0
+      ? [...discussions]
+          .sort((a, b) => ((b.counts.comments || 0) + (b.counts.upvotes || 0)) - ((a.counts.comments || 0) + (a.counts.upvotes || 0)))
+          .slice(0, MAX_DIGEST_DISCUSSIONS)
+          .map(ref => ({ platform: ref.platform, label: ref.label, url: ref.url, counts: ref.counts }))
+      : undefined,
+    discussionCommunities: discussions.length > 0
+      ? new Set(discussions.map(ref => discussionCommunity(ref.platform, ref.url))).size
+      : undefined,
     engagement: item.engagement,
     scoreBreakdown: item.scoreBreakdown as any,
+    integrity: summarizeIntegrity(item.integrity),
+    inclusion,
   };
 
   if (summary) {
@@ -826,6 +1112,7 @@ function buildDigestItem(item: Item, summary?: Summary): DigestSectionItem {
       clinicalTakeaway: summary.clinicalTakeaway,
       methodology: summary.methodology as any,
       levelOfEvidence: summary.levelOfEvidence as any,
+      keyMoments: summary.keyMoments || undefined,
       journalName: item.journalName,
     };
   }
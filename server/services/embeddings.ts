@@ -1,7 +1,9 @@
 import OpenAI from 'openai';
 import { db } from '../db';
-import { itemEmbeddings, items, summaries } from '@shared/schema';
-import { eq, isNull } from 'drizzle-orm';
+import { itemEmbeddings, items, summaries, feedCatalog } from '@shared/schema';
+import type { Item } from '@shared/schema';
+import { and, eq, inArray, isNotNull, isNull, ne, or } from 'drizzle-orm';
+import { itemVisibleTo } from '../storage';
 
 // Use direct OpenAI API for embeddings (Replit AI Integration doesn't support embeddings)
 const openai = new OpenAI({
@@ -10,6 +12,8 @@ const openai = new OpenAI({
 
 const EMBEDDING_MODEL = 'text-embedding-3-small';
 const EMBEDDING_DIMENSIONS = 1536; // Default for text-embedding-3-small
+const EXCERPT_BATCH_SIZE = 100;
+const EXCERPT_MAX_CHARS = 2000;
 
 /**
  * Generates embedding for a single text string
@@ -28,6 +32,25 @@ export async function generateEmbedding(text: string): Promise<number[]> {
   }
 }
 
+/**
+ * Generates embeddings for several texts in one request, in input order
+ */
+export async function generateEmbeddings(texts: string[]): Promise<number[][]> {
+  try {
+    const response = await openai.embeddings.create({
+      model: EMBEDDING_MODEL,
+      input: texts,
+    });
+    
+    return response.data
+      .sort((a, b) => a.index - b.index)
+      .map(entry => entry.embedding);
+  } catch (error) {
+    console.error('Error generating embeddings:', error);
+    throw error;
+  }
+}
+
 /**
  * Generates embeddings for item summary (combines key insights + clinical takeaway)
  */
@@ -61,12 +84,14 @@ export async function generateItemEmbedding(itemId: string): Promise<void> {
         itemId,
         embedding: embeddingJson,
         model: EMBEDDING_MODEL,
+        source: 'summary',
       })
       .onConflictDoUpdate({
         target: itemEmbeddings.itemId,
         set: {
           embedding: embeddingJson,
           model: EMBEDDING_MODEL,
+          source: 'summary',
         },
       });
     
@@ -78,17 +103,55 @@ export async function generateItemEmbedding(itemId: string): Promise<void> {
 }
 
 /**
- * Generates embeddings for all items that have summaries but no embeddings
+ * Embeds items that have no embedding yet from their title and excerpt, so
+ * new items can be compared (digest selection) before they are summarized.
+ * The summary embedding replaces this one once the item has a summary.
+ */
+export async function embedItemExcerpts(toEmbed: Array<Pick<Item, 'id' | 'title' | 'rawExcerpt'>>): Promise<number> {
+  if (toEmbed.length === 0) return 0;
+
+  const existing = await db
+    .select({ itemId: itemEmbeddings.itemId })
+    .from(itemEmbeddings)
+    .where(inArray(itemEmbeddings.itemId, toEmbed.map(item => item.id)));
+  const embedded = new Set(existing.map(row => row.itemId));
+  const missing = toEmbed.filter(item => !embedded.has(item.id));
+
+  for (let i = 0; i < missing.length; i += EXCERPT_BATCH_SIZE) {
+    const batch = missing.slice(i, i + EXCERPT_BATCH_SIZE);
+    const vectors = await generateEmbeddings(batch.map(item => `${item.title}\n\n${item.rawExcerpt.slice(0, EXCERPT_MAX_CHARS)}`));
+    await db
+      .insert(itemEmbeddings)
+      .values(batch.map((item, index) => ({
+        itemId: item.id,
+        embedding: JSON.stringify(vectors[index]),
+        model: EMBEDDING_MODEL,
+        source: 'excerpt',
+      })))
+      .onConflictDoNothing();
+  }
+
+  return missing.length;
+}
+
+/**
+ * Generates embeddings for all items that have summaries but no summary embedding
  */
 export async function generateMissingEmbeddings(): Promise<number> {
   console.log('Checking for items missing embeddings...');
   
-  // Find items with summaries but no embeddings
+  // Find items with summaries but no summary embedding. Newsletter items are only
+  // searchable by their feed's owner, so ones whose owner is gone are left out
+  const ownedFeedIds = db.select({ id: feedCatalog.id }).from(feedCatalog).where(isNotNull(feedCatalog.submittedBy));
   const itemsWithSummaries = await db
     .select({ itemId: summaries.itemId })
     .from(summaries)
+    .innerJoin(items, eq(summaries.itemId, items.id))
     .leftJoin(itemEmbeddings, eq(summaries.itemId, itemEmbeddings.itemId))
-    .where(isNull(itemEmbeddings.itemId));
+    .where(and(
+      or(isNull(itemEmbeddings.itemId), eq(itemEmbeddings.source, 'excerpt')),
+      or(ne(items.sourceType, 'newsletter'), inArray(items.feedId, ownedFeedIds))
+    ));
   
   console.log(`Found ${itemsWithSummaries.length} items missing embeddings`);
   
@@ -144,10 +207,11 @@ export function cosineSimilarity(a: number[], b: number[]): number {
 }
 
 export interface SearchScope {
-  type: 'current_digest' | 'all_digests' | 'saved_items' | 'folder';
+  type: 'current_digest' | 'all_digests' | 'saved_items' | 'folder' | 'topic';
   digestId?: string; // For current_digest scope
-  userId?: string; // For saved_items and folder scopes
+  userId?: string; // Caller; also selects the saved_items, folder and topic scopes
   folderId?: string; // For folder scope
+  topic?: string; // For topic scope: a taxonomy slug or "custom:<id>"
 }
 
 /**
@@ -164,8 +228,12 @@ export async function semanticSearch(
   // Generate embedding for query
   const queryEmbedding = await generateEmbedding(queryText);
   
-  // Get all embeddings from database
-  let allEmbeddings = await db.select().from(itemEmbeddings);
+  // Get all embeddings the caller may see (other users' newsletter items are private)
+  let allEmbeddings = await db
+    .select({ itemId: itemEmbeddings.itemId, embedding: itemEmbeddings.embedding })
+    .from(itemEmbeddings)
+    .innerJoin(items, eq(itemEmbeddings.itemId, items.id))
+    .where(itemVisibleTo(scope?.userId));
   
   // Apply scope filtering
   if (scope) {
@@ -216,6 +284,13 @@ export async function semanticSearch(
       const folderItemIds = new Set(folderItems.map(fi => fi.itemId));
       allEmbeddings = allEmbeddings.filter(emb => folderItemIds.has(emb.itemId));
       console.log(`Filtered to ${allEmbeddings.length} items from folder ${scope.folderId}`);
+    } else if (scope.type === 'topic' && scope.topic && scope.userId) {
+      // Filter to items tagged with a topic (custom topics are the user's own)
+      const { getTopicItemIds } = await import('./custom-topics');
+      
+      const topicItemIds = new Set(await getTopicItemIds(scope.userId, scope.topic));
+      allEmbeddings = allEmbeddings.filter(emb => topicItemIds.has(emb.itemId));
+      console.log(`Filtered to ${allEmbeddings.length} items tagged ${scope.topic}`);
     }
   }
   
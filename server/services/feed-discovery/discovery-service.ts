@@ -7,7 +7,7 @@ export interface FeedSearchResult {
   title: string;
   url: string;
   description: string;
-  sourceType: 'youtube' | 'podcast' | 'reddit' | 'substack' | 'journal';
+  sourceType: 'youtube' | 'podcast' | 'reddit' | 'substack' | 'journal' | 'hackernews' | 'mastodon' | 'bluesky';
   category?: string;
   subscriberCount?: number;
   itemCount?: number;
@@ -1,25 +1,21 @@
-import Parser from "rss-parser";
+import { createHash } from "crypto";
 import type { InsertItem, FeedCatalog, Topic } from "@shared/schema";
-import { topics } from "@shared/schema";
 import { tagTopics } from "../core/topics";
-import { generateHashDedupe, extractDOI } from "../core/dedupe";
+import { refreshTopicTaxonomy, resolveTopic, topicMatchers } from "./taxonomy";
+import { generateHashDedupe, scopeHashDedupe, generateContentHash, extractDOI } from "../core/dedupe";
+import { unknownEngagement } from "../core/engagement";
+import { buildPodcastMedia } from "./podcast-transcripts";
+import { getCommunityFetcher, getLinkedUrl, type CommunityPost } from "../sources/community";
+import { fetchLiteratureRecords, type LiteratureRecord } from "../sources/literature";
 import { storage } from "../storage";
 import { FeedHealthNotifier } from "./notifications/feed-health-notifier";
-
-const parser = new Parser({
-  customFields: {
-    item: [['dc:identifier', 'doi']],
-  },
-  timeout: 30000, // 30 second timeout
-});
+import { parseFeed, FEED_REQUEST_HEADERS, type FeedEntry, type FeedLink } from "./feed-ingestion/feed-parser";
 
 const BATCH_SIZE = 10; // Process feeds in batches to avoid overload
+const FETCH_TIMEOUT = 30000; // 30 second timeout for the feed download
 const MAX_RETRIES = 3;
 const RETRY_DELAYS = [2000, 4000, 8000]; // 2s, 4s, 8s in milliseconds
 
-// Create a Set of valid topics for fast lookup and validation
-const validTopicsSet = new Set<string>(topics);
-
 // Error types for categorization
 enum ErrorType {
   PERMANENT = 'permanent_error',
@@ -37,6 +33,29 @@ interface FeedError {
   wasDeactivated?: boolean;
 }
 
+export interface FetchFeedOptions {
+  conditional?: boolean; // Send stored ETag/Last-Modified and skip unchanged feeds (default: true)
+}
+
+export interface FeedFetchValidators {
+  etag: string | null;
+  lastModified: string | null;
+  contentHash: string;
+}
+
+export interface FetchFeedResult {
+  items: InsertItem[];
+  unchangedFeeds: number; // Feeds skipped because nothing changed since the last fetch
+  // New validators per feed, to be saved once the items have been stored (conditional runs only)
+  validators: Array<{ feedId: string; validators: FeedFetchValidators }>;
+}
+
+interface SingleFeedResult {
+  items: InsertItem[];
+  unchanged: boolean;
+  validators?: FeedFetchValidators;
+}
+
 /**
  * Validate feed URL before attempting fetch
  * @param url - The URL to validate
@@ -178,14 +197,20 @@ async function retryWithBackoff<T>(
  * Fetches items from RSS feeds and normalizes them to InsertItem format.
  * 
  * @param feeds - Array of FeedCatalog entries to fetch from
- * @returns Array of normalized InsertItem objects
+ * @param options - Fetch options (conditional requests are on by default)
+ * @returns Normalized InsertItem objects and the number of unchanged feeds skipped
  */
-export async function fetchFeedItems(feeds: FeedCatalog[]): Promise<InsertItem[]> {
+export async function fetchFeedItems(feeds: FeedCatalog[], options: FetchFeedOptions = {}): Promise<FetchFeedResult> {
+  const { conditional = true } = options;
   const allItems: InsertItem[] = [];
+  let unchangedFeeds = 0;
+  const pendingValidators: FetchFeedResult['validators'] = [];
   const totalFeeds = feeds.length;
   const failedFeeds: FeedError[] = [];
   const healthySummary: { feedId: string; name: string; status: string }[] = [];
 
+  await refreshTopicTaxonomy();
+
   // Process feeds in batches to avoid overwhelming the system
   for (let i = 0; i < feeds.length; i += BATCH_SIZE) {
     const batch = feeds.slice(i, i + BATCH_SIZE);
@@ -197,7 +222,12 @@ export async function fetchFeedItems(feeds: FeedCatalog[]): Promise<InsertItem[]
         console.log(`Processing feed ${feedIndex} of ${totalFeeds}: ${feed.name}`);
         
         try {
-          const items = await fetchSingleFeed(feed);
+          const { items, unchanged, validators } = await fetchSingleFeed(feed, conditional);
+          // Only remember validators on conditional runs, so one-off fetches (e.g. health
+          // retries that discard items) don't cause the next ingest to skip new entries
+          if (conditional && validators) {
+            pendingValidators.push({ feedId: feed.id, validators });
+          }
           
           // Success: update feed health
           await storage.updateFeedHealth(feed.id, {
@@ -212,7 +242,12 @@ export async function fetchFeedItems(feeds: FeedCatalog[]): Promise<InsertItem[]
             status: 'healthy',
           });
           
-          console.log(`✓ Successfully fetched ${items.length} items from ${feed.name}`);
+          if (unchanged) {
+            unchangedFeeds++;
+            console.log(`↺ ${feed.name} unchanged since last fetch, skipping`);
+          } else {
+            console.log(`✓ Successfully fetched ${items.length} items from ${feed.name}`);
+          }
           return items;
         } catch (error: any) {
           const errorMsg = error?.message || String(error);
@@ -269,6 +304,9 @@ export async function fetchFeedItems(feeds: FeedCatalog[]): Promise<InsertItem[]
   }
 
   console.log(`\nTotal items fetched from ${totalFeeds} feeds: ${allItems.length}`);
+  if (unchangedFeeds > 0) {
+    console.log(`↺ ${unchangedFeeds} feed(s) unchanged since last fetch`);
+  }
   
   // Feed health summary
   console.log('\n📊 Feed Health Summary:');
@@ -338,34 +376,113 @@ export async function fetchFeedItems(feeds: FeedCatalog[]): Promise<InsertItem[]
     }
   }
   
-  return allItems;
+  return { items: allItems, unchangedFeeds, validators: pendingValidators };
+}
+
+/**
+ * Save the validators returned by fetchFeedItems. Call this only after the
+ * fetched items are stored: a saved ETag or content hash makes the next run
+ * skip the feed, so saving it earlier would lose entries if storing failed.
+ */
+export async function saveFeedFetchValidators(pending: FetchFeedResult['validators']): Promise<void> {
+  for (const { feedId, validators } of pending) {
+    await storage.updateFeedFetchValidators(feedId, validators);
+  }
 }
 
 /**
  * Fetch and normalize items from a single feed with retry logic and timeout handling.
+ * 
+ * When conditional is true, the stored ETag/Last-Modified are sent so the server
+ * can answer 304, and the body hash is compared against the last fetch so feeds
+ * that ignore validators are still skipped when nothing changed. New validators
+ * are returned rather than saved; see saveFeedFetchValidators.
  */
-async function fetchSingleFeed(feed: FeedCatalog): Promise<InsertItem[]> {
+async function fetchSingleFeed(feed: FeedCatalog, conditional: boolean): Promise<SingleFeedResult> {
   const items: InsertItem[] = [];
 
+  // Newsletters arrive through the inbound email webhook; there is nothing to download
+  if (feed.sourceType === 'newsletter') {
+    return { items, unchanged: true };
+  }
+
+  // Saved literature searches query the database APIs instead of downloading feed.url
+  if (feed.literatureQuery) {
+    return fetchLiteratureFeed(feed, conditional);
+  }
+
   // Validate URL before attempting fetch
   const validation = validateFeedURL(feed.url);
   if (!validation.valid) {
     throw new Error(`URL validation failed: ${validation.error}`);
   }
 
-  // Quick HEAD request to check if feed exists (5 second timeout) - Skip 404s early
-  try {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 5000);
-    
-    const headResponse = await fetch(feed.url, { 
-      method: 'HEAD',
-      signal: controller.signal
-    }).catch((err: any) => ({ ok: false, status: err.name === 'AbortError' ? 408 : 500 } as any));
-    
-    clearTimeout(timeoutId);
-    
-    if ((headResponse as any).status === 404) {
+  // Community platforms (Reddit, Hacker News, Mastodon, Bluesky): their APIs carry
+  // real engagement, RSS remains the fallback
+  const fetchCommunityPosts = getCommunityFetcher(feed);
+  if (fetchCommunityPosts) {
+    try {
+      const posts = await retryWithBackoff(() => fetchCommunityPosts(10), 1, RETRY_DELAYS);
+      return { items: normalizeCommunityPosts(posts, feed), unchanged: false };
+    } catch (error: any) {
+      console.warn(`⚠️ ${feed.sourceType} API unavailable for "${feed.name}" (${error?.message}), falling back to RSS`);
+    }
+  }
+
+  const headers: Record<string, string> = { ...FEED_REQUEST_HEADERS };
+  if (conditional && feed.etag) {
+    headers['If-None-Match'] = feed.etag;
+  }
+  if (conditional && feed.lastModified) {
+    headers['If-Modified-Since'] = feed.lastModified;
+  }
+
+  // Wrap the download with retry logic and timeout
+  const response = await retryWithBackoff(
+    async () => {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT);
+      
+      try {
+        const res = await fetch(feed.url, { headers, signal: controller.signal });
+        
+        if (res.status !== 304 && !res.ok) {
+          const statusError: any = new Error(`Status code ${res.status}`);
+          statusError.statusCode = res.status;
+          throw statusError;
+        }
+        
+        return {
+          status: res.status,
+          body: res.status === 304 ? '' : await res.text(),
+          contentType: res.headers.get('content-type'),
+          etag: res.headers.get('etag'),
+          lastModified: res.headers.get('last-modified'),
+          linkHeader: res.headers.get('link'),
+        };
+      } catch (error: any) {
+        // Enhance error message for better debugging
+        const enhancedError = new Error(
+          `Failed to fetch RSS feed: ${error?.name === 'AbortError' ? 'Request timed out' : error?.message || String(error)}`
+        );
+        
+        // Preserve status code and error code if available
+        if (error?.statusCode) {
+          (enhancedError as any).statusCode = error.statusCode;
+        }
+        if (error?.code || error?.cause?.code) {
+          (enhancedError as any).code = error.code || error.cause.code;
+        }
+        
+        throw enhancedError;
+      } finally {
+        clearTimeout(timeoutId);
+      }
+    },
+    MAX_RETRIES,
+    RETRY_DELAYS
+  ).catch(async (error: any) => {
+    if (error.statusCode === 404) {
       console.log(`⚠️ Feed "${feed.name}" returned 404, marking as inactive and skipping`);
       
       // Mark feed as permanently failed in database
@@ -377,105 +494,210 @@ async function fetchSingleFeed(feed: FeedCatalog): Promise<InsertItem[]> {
       
       // Deactivate feed immediately for 404s
       await storage.deactivateFeed(feed.id);
-      
-      // Throw 404 error so caller knows it's permanent
-      const error: any = new Error('404 Not Found');
-      error.statusCode = 404;
-      throw error;
     }
+    throw error;
+  });
+
+  // Server confirmed nothing changed since our stored validators
+  if (response.status === 304) {
+    return { items, unchanged: true };
+  }
+
+  const contentHash = createHash('sha256').update(response.body).digest('hex');
+  const validators: FeedFetchValidators = {
+    etag: response.etag,
+    lastModified: response.lastModified,
+    contentHash,
+  };
+  
+  // Identical body (server ignores validators) - just refresh the validators
+  if (conditional && feed.contentHash === contentHash) {
+    const changed = validators.etag !== feed.etag || validators.lastModified !== feed.lastModified;
+    return { items, unchanged: true, validators: changed ? validators : undefined };
+  }
+  
+  const parsedFeed = await parseFeedBody(response.body, response.contentType);
+  items.push(...normalizeFeedEntries(parsedFeed.items, feed));
+
+  // Feeds that advertise a WebSub hub get a push subscription (polling stays as a fallback)
+  subscribeIfHubAdvertised(feed, parsedFeed.links, response.linkHeader);
+
+  return { items, unchanged: false, validators };
+}
+
+/**
+ * Run a saved literature query. The APIs send no validators, so unchanged
+ * results are detected by hashing the returned record ids and versions.
+ */
+async function fetchLiteratureFeed(feed: FeedCatalog, conditional: boolean): Promise<SingleFeedResult> {
+  const query = feed.literatureQuery!;
+  const records = await retryWithBackoff(() => fetchLiteratureRecords(query), MAX_RETRIES, RETRY_DELAYS);
+
+  const contentHash = createHash('sha256')
+    .update(records.map(record => `${record.externalId}@${record.version || ''}`).join('\n'))
+    .digest('hex');
+
+  if (conditional && feed.contentHash === contentHash) {
+    return { items: [], unchanged: true };
+  }
+
+  const items = normalizeLiteratureRecords(records, feed);
+
+  return { items, unchanged: false, validators: { etag: null, lastModified: null, contentHash } };
+}
+
+/**
+ * Parse a downloaded feed body (RSS, Atom or JSON Feed), tagging failures as parse errors (permanent).
+ */
+async function parseFeedBody(body: string, contentType: string | null) {
+  try {
+    return await parseFeed(body, contentType);
   } catch (error: any) {
-    // If it's a 404, rethrow it
-    if (error.statusCode === 404 || error.message === '404 Not Found') {
-      throw error;
+    throw new Error(`Failed to fetch RSS feed: parse error - ${error?.message || String(error)}`);
+  }
+}
+
+/**
+ * Kick off a WebSub subscription in the background; failures never affect the fetch.
+ */
+function subscribeIfHubAdvertised(feed: FeedCatalog, links: FeedLink[], linkHeader: string | null): void {
+  import('./websub')
+    .then(({ discoverWebSub, ensureWebSubSubscription }) =>
+      ensureWebSubSubscription(feed, discoverWebSub(feed.url, links, linkHeader))
+    )
+    .catch(error => console.error(`WebSub subscription check failed for "${feed.name}":`, error));
+}
+
+/**
+ * Normalize the most recent entries of a parsed feed, skipping malformed ones.
+ */
+export function normalizeFeedEntries(entries: FeedEntry[], feed: FeedCatalog): InsertItem[] {
+  const items: InsertItem[] = [];
+  
+  // Limit items per feed to avoid overload (take most recent 10)
+  for (const entry of entries.slice(0, 10)) {
+    try {
+      items.push(normalizeFeedEntry(entry, feed));
+    } catch (error: any) {
+      // Skip malformed entries silently to avoid log spam
+      continue;
     }
-    // For other HEAD request errors, continue to full fetch (might still work)
-    console.log(`⚠️ HEAD request failed for "${feed.name}", continuing to full fetch...`);
   }
+  
+  return items;
+}
 
-  try {
-    // Wrap the RSS parser call with retry logic and timeout
-    const rssFeed = await retryWithBackoff(
-      async () => {
-        try {
-          return await parser.parseURL(feed.url);
-        } catch (error: any) {
-          // Enhance error message for better debugging
-          const enhancedError = new Error(
-            `Failed to fetch RSS feed: ${error?.message || String(error)}`
-          );
-          
-          // Preserve status code and error code if available
-          if (error?.response?.status) {
-            (enhancedError as any).statusCode = error.response.status;
-          }
-          if (error?.code) {
-            (enhancedError as any).code = error.code;
-          }
-          
-          throw enhancedError;
-        }
-      },
-      MAX_RETRIES,
-      RETRY_DELAYS
-    );
+/**
+ * Normalize community posts, keeping the engagement the platform reported and
+ * the article the post links to. Timelines change on every request, so there
+ * are no validators to store.
+ */
+function normalizeCommunityPosts(posts: CommunityPost[], feed: FeedCatalog): InsertItem[] {
+  const items: InsertItem[] = [];
 
-    // Limit items per feed to avoid overload (take most recent 10)
-    for (const entry of rssFeed.items.slice(0, 10)) {
-      try {
-        const item = normalizeFeedEntry(entry, feed);
-        items.push(item);
-      } catch (error: any) {
-        // Skip malformed entries silently to avoid log spam
-        continue;
-      }
+  for (const { entry, engagement } of posts.slice(0, 10)) {
+    try {
+      items.push({ ...normalizeFeedEntry(entry, feed), engagement, linkedUrl: getLinkedUrl(entry) });
+    } catch (error: any) {
+      continue;
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Normalize literature search results, keeping the full abstract and the
+ * publication metadata (authors, version links) the APIs provide.
+ */
+function normalizeLiteratureRecords(records: LiteratureRecord[], feed: FeedCatalog): InsertItem[] {
+  const items: InsertItem[] = [];
+
+  for (const record of records) {
+    const entry: FeedEntry = {
+      id: record.externalId,
+      title: record.title,
+      url: record.url,
+      links: record.links.map(link => ({ href: link.url, rel: link.rel })),
+      publishedAt: record.publishedAt,
+      updatedAt: record.updatedAt,
+      author: record.authors.length > 3 ? `${record.authors.slice(0, 3).join(', ')} et al.` : record.authors.join(', ') || null,
+      contentHtml: null,
+      contentText: record.abstract || null,
+      summary: record.abstract || null,
+      categories: record.categories,
+      enclosures: [],
+      imageUrl: null,
+      identifier: record.doi,
+      transcripts: [],
+      chaptersUrl: null,
+      persons: [],
+      raw: record,
+    };
+
+    try {
+      items.push({
+        ...normalizeFeedEntry(entry, feed),
+        doi: record.doi,
+        sourceId: record.doi || record.url,
+        rawExcerpt: record.abstract,
+        isPreprint: record.isPreprint,
+        journalName: record.journalName,
+        publication: {
+          source: record.source,
+          externalId: record.externalId,
+          authors: record.authors,
+          version: record.version || undefined,
+          categories: record.categories.length > 0 ? record.categories : undefined,
+          links: record.links,
+        },
+      });
+    } catch (error: any) {
+      continue;
     }
-  } catch (error: any) {
-    // Re-throw with clean error message (categorization happens in caller)
-    throw error;
   }
 
   return items;
 }
 
 /**
- * Normalize a single RSS entry to InsertItem format.
+ * Normalize a single parsed feed entry to InsertItem format.
  */
-function normalizeFeedEntry(entry: any, feed: FeedCatalog): InsertItem {
+function normalizeFeedEntry(entry: FeedEntry, feed: FeedCatalog): InsertItem {
   const title = entry.title || "Untitled";
-  const url = entry.link || "";
-  const publishedAt = entry.pubDate ? new Date(entry.pubDate).toISOString() : new Date().toISOString();
-  const rawExcerpt = entry.contentSnippet || entry.content || entry.summary || "";
+  const url = entry.url || "";
+  const publishedAt = entry.publishedAt || entry.updatedAt || new Date().toISOString();
+  const rawExcerpt = entry.contentText || entry.summary || "";
   
-  // Extract DOI if available
-  const doi = extractDOI(entry.link || "") || extractDOI(rawExcerpt) || null;
+  // Extract DOI if available (dc:identifier on many journal feeds)
+  const doi = extractDOI(entry.identifier || "") || extractDOI(url) || extractDOI(rawExcerpt) || null;
   
   // Tag topics: combine feed's predefined topics with auto-detected topics
   const searchText = `${title} ${rawExcerpt}`;
-  const autoDetectedTopics = tagTopics(searchText);
+  const autoDetectedTopics = tagTopics(searchText, topicMatchers());
   
-  // Validate feed topics - only include valid Topic enum values
+  // Validate feed topics against the taxonomy; merged or renamed topics map to their replacements
   const validatedFeedTopics = (feed.topics || [])
-    .filter((topic): topic is Topic => {
-      if (typeof topic === 'string' && validTopicsSet.has(topic)) {
-        return true;
-      }
+    .map(topic => {
+      const resolved = typeof topic === 'string' ? resolveTopic(topic) : null;
       // Log invalid topics from feed catalog for debugging
-      if (topic) {
+      if (!resolved && topic) {
         console.warn(`Feed "${feed.name}" has invalid topic "${topic}" - filtering out`);
       }
-      return false;
-    });
+      return resolved;
+    })
+    .filter((topic): topic is Topic => topic !== null);
   
   // Merge topics, preferring feed's validated topics, then auto-detected
   const combinedTopics = Array.from(new Set([...validatedFeedTopics, ...autoDetectedTopics])).slice(0, 5) as Topic[];
   
-  const hashDedupe = generateHashDedupe(url, title);
+  // Newsletter issues are private to the recipient's feed, so their hash is too
+  const hashDedupe = feed.sourceType === 'newsletter'
+    ? scopeHashDedupe(generateHashDedupe(url, title), feed.id)
+    : generateHashDedupe(url, title);
 
   // Extract author/channel name
-  let authorOrChannel = entry.creator || entry.author || feed.name;
-  if (typeof authorOrChannel === 'object' && authorOrChannel.name) {
-    authorOrChannel = authorOrChannel.name;
-  }
+  const authorOrChannel = entry.author || feed.name;
 
   // Build base item
   const item: InsertItem = {
@@ -488,15 +710,15 @@ function normalizeFeedEntry(entry: any, feed: FeedCatalog): InsertItem {
     publishedAt,
     ingestedAt: new Date().toISOString(),
     rawExcerpt: rawExcerpt.substring(0, 500),
-    engagement: {
-      comments: 0,
-      upvotes: 0,
-      views: 0,
-    },
+    engagement: unknownEngagement(),
     topics: combinedTopics,
     isPreprint: title.toLowerCase().includes("preprint") || rawExcerpt.toLowerCase().includes("preprint"),
     journalName: feed.sourceType === 'journal' ? feed.name : null,
     hashDedupe,
+    feedId: feed.id,
+    guid: entry.id,
+    contentHash: generateContentHash(title, rawExcerpt),
+    media: buildPodcastMedia(entry),
   };
 
   return item;
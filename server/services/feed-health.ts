@@ -31,8 +31,9 @@ export async function retryDegradedFeeds(): Promise<{
   console.log(`🔄 Retrying ${degradedFeeds.length} degraded feed(s)...`);
   
   // Attempt to fetch from degraded feeds
-  // The feed-fetcher will handle retries and update failure counts
-  const items = await fetchFeedItems(degradedFeeds);
+  // The feed-fetcher will handle retries and update failure counts.
+  // Unconditional so the retry doesn't store validators for items it discards.
+  const { items } = await fetchFeedItems(degradedFeeds, { conditional: false });
   
   // Check how many recovered after the retry
   const updatedFeeds = await storage.getFeedCatalog({});
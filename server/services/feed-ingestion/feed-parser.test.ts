@@ -0,0 +1,133 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { detectFeedFormat, parseFeed } from './feed-parser';
+
+const fixturesDir = join(dirname(fileURLToPath(import.meta.url)), 'fixtures');
+
+function fixture(name: string): string {
+  return readFileSync(join(fixturesDir, name), 'utf8');
+}
+
+test('detects each format from the document root', () => {
+  assert.equal(detectFeedFormat(fixture('rss2.xml')), 'rss2');
+  assert.equal(detectFeedFormat(fixture('rss1.rdf')), 'rss1');
+  assert.equal(detectFeedFormat(fixture('atom.xml')), 'atom');
+  assert.equal(detectFeedFormat(fixture('jsonfeed.json')), 'jsonfeed');
+  assert.equal(detectFeedFormat('{"items": []}', 'application/json'), null);
+  assert.equal(detectFeedFormat('<html><body>Not a feed</body></html>'), null);
+});
+
+test('RSS 2.0: content:encoded is the body, description the summary', async () => {
+  const feed = await parseFeed(fixture('rss2.xml'));
+
+  assert.equal(feed.format, 'rss2');
+  assert.equal(feed.title, 'Metabolic Notes');
+  assert.equal(feed.link, 'https://metabolic.example.com/');
+  assert.equal(feed.updatedAt, '2025-03-04T09:00:00.000Z');
+  assert.deepEqual(feed.links.find(link => link.rel === 'hub')?.href, 'https://pubsubhubbub.appspot.com/');
+  assert.equal(feed.items.length, 2);
+
+  const [episode, note] = feed.items;
+  assert.equal(episode.id, 'metabolic-2025-03-04');
+  assert.equal(episode.url, 'https://metabolic.example.com/posts/fasting-insulin');
+  assert.equal(episode.publishedAt, '2025-03-04T09:00:00.000Z');
+  assert.equal(episode.author, 'Dana Reyes');
+  assert.equal(episode.contentText, 'Fasting glucose stays normal for years.\nInsulin & HOMA-IR move first.');
+  assert.equal(episode.summary, 'Why fasting insulin catches early resistance.');
+  assert.deepEqual(episode.categories, ['insulin', 'lab tests']);
+  assert.equal(episode.identifier, 'doi:10.1234/Metab.2025.001');
+  assert.deepEqual(episode.enclosures, [{ url: 'https://cdn.example.com/episodes/42.mp3', type: 'audio/mpeg', length: 31415926 }]);
+  assert.deepEqual(episode.transcripts, [{ url: 'https://cdn.example.com/episodes/42.vtt', type: 'text/vtt', language: 'en', rel: undefined }]);
+  assert.equal(episode.chaptersUrl, 'https://cdn.example.com/episodes/42.json');
+  assert.deepEqual(episode.persons.map(person => [person.name, person.role]), [['Dr. Lee Ng', 'guest']]);
+
+  // No guid or people of its own: falls back to the channel's host
+  assert.equal(note.id, null);
+  assert.equal(note.contentText, 'Plain-text description only.');
+  assert.deepEqual(note.persons.map(person => [person.name, person.role]), [['Dana Reyes', 'host']]);
+});
+
+test('RSS 1.0: items outside the channel, rdf:about as id, dc:date', async () => {
+  const feed = await parseFeed(fixture('rss1.rdf'));
+
+  assert.equal(feed.format, 'rss1');
+  assert.equal(feed.title, 'Journal of Example Physiology');
+  assert.equal(feed.items.length, 1);
+
+  const [article] = feed.items;
+  assert.equal(article.id, 'https://journal.example.org/article/10.5555/jep.2025.17');
+  assert.equal(article.url, 'https://journal.example.org/article/10.5555/jep.2025.17');
+  assert.equal(article.publishedAt, '2025-02-28T00:00:00.000Z');
+  assert.equal(article.author, 'Okafor, C.');
+  assert.equal(article.identifier, 'doi:10.5555/jep.2025.17');
+  assert.equal(article.contentText, 'A randomized trial in 48 sedentary adults.');
+});
+
+test('Atom: keeps every link, published vs updated, and xhtml content in order', async () => {
+  const feed = await parseFeed(fixture('atom.xml'));
+
+  assert.equal(feed.format, 'atom');
+  assert.equal(feed.description, 'Research notes from the sleep lab');
+  assert.equal(feed.link, 'https://sleeplab.example.net/');
+  assert.equal(feed.author, 'Sleep Lab');
+  assert.equal(feed.imageUrl, 'https://sleeplab.example.net/logo.png');
+  assert.deepEqual(feed.links.map(link => link.rel), ['alternate', 'self']);
+
+  const [post, news] = feed.items;
+  assert.equal(post.id, 'tag:sleeplab.example.net,2025:light-at-night');
+  assert.equal(post.url, 'https://sleeplab.example.net/2025/light-at-night');
+  assert.deepEqual(post.links.map(link => link.rel), ['alternate', 'related', 'enclosure']);
+  assert.equal(post.publishedAt, '2025-03-01T08:00:00.000Z');
+  assert.equal(post.updatedAt, '2025-03-02T18:30:02.000Z');
+  assert.equal(post.author, 'Priya Shah');
+  assert.equal(post.contentHtml, '<p>Participants slept with a <em>dim</em> lamp on.</p>');
+  assert.equal(post.contentText, 'Participants slept with a dim lamp on.');
+  assert.equal(post.summary, 'One night of dim light raised morning glucose.');
+  assert.deepEqual(post.categories, ['circadian', 'glucose']);
+  assert.deepEqual(post.enclosures, [{ url: 'https://sleeplab.example.net/audio/light.mp3', type: 'audio/mpeg', title: 'Audio version' }]);
+
+  // Never published: updated stands in, and the html summary is the text
+  assert.equal(news.publishedAt, '2025-02-20T10:00:00.000Z');
+  assert.equal(news.contentHtml, null);
+  assert.equal(news.contentText, 'We moved buildings.');
+});
+
+test('JSON Feed 1.1: authors, attachments and external links', async () => {
+  const feed = await parseFeed(fixture('jsonfeed.json'), 'application/feed+json');
+
+  assert.equal(feed.format, 'jsonfeed');
+  assert.equal(feed.title, 'Gut Feelings');
+  assert.equal(feed.author, 'Marta Silva');
+  assert.equal(feed.imageUrl, 'https://gutfeelings.example.com/icon.png');
+  assert.deepEqual(feed.links.map(link => link.rel), ['alternate', 'self', 'hub']);
+
+  const [post, note] = feed.items;
+  assert.equal(post.id, '2025031');
+  assert.equal(post.url, 'https://gutfeelings.example.com/fiber-and-butyrate');
+  assert.deepEqual(post.links.map(link => link.rel), ['alternate', 'related']);
+  assert.equal(post.publishedAt, '2025-03-01T12:00:00.000Z');
+  assert.equal(post.updatedAt, '2025-03-01T14:15:00.000Z');
+  assert.equal(post.author, 'Marta Silva');
+  assert.equal(post.contentText, 'Fermentable fiber feeds butyrate producers.');
+  assert.equal(post.imageUrl, 'https://gutfeelings.example.com/img/fiber.jpg');
+  assert.deepEqual(post.categories, ['fiber', 'microbiome']);
+  assert.deepEqual(post.enclosures, [{
+    url: 'https://gutfeelings.example.com/audio/fiber.m4a',
+    type: 'audio/x-m4a',
+    length: 8808038,
+    title: undefined,
+    durationSeconds: 1320,
+  }]);
+
+  assert.equal(note.title, '');
+  assert.equal(note.author, 'Guest Editor');
+  assert.equal(note.contentText, 'Quick note: the next issue is delayed a week.');
+});
+
+test('rejects documents that are not feeds', async () => {
+  await assert.rejects(parseFeed('<html><body>Not a feed</body></html>'), /unrecognized format/);
+  await assert.rejects(parseFeed('{"version": "https://jsonfeed.org/version/1.1"}'), /no items array/);
+});
@@ -0,0 +1,479 @@
+/**
+ * Format-detecting Feed Parser
+ * Normalizes RSS 2.0, RSS 1.0 (RDF), Atom 1.0 and JSON Feed 1.x into one entry model
+ *
+ * XML formats go through rss-parser with extra custom fields so Atom-specific data
+ * (multiple links, published vs updated, xhtml content, categories) isn't flattened.
+ * xml2js loses the order of mixed content, so Atom xhtml content is escaped into
+ * html content before parsing. JSON Feed is mapped directly.
+ */
+
+import RSSParser from 'rss-parser';
+import type { MediaPerson } from '@shared/schema';
+
+export type FeedFormat = 'rss2' | 'rss1' | 'atom' | 'jsonfeed';
+
+export interface FeedLink {
+  href: string;
+  rel: string; // alternate, self, hub, related, enclosure, ...
+  type?: string;
+  title?: string;
+}
+
+export interface FeedEnclosure {
+  url: string;
+  type?: string;
+  length?: number;
+  title?: string;
+  durationSeconds?: number;
+}
+
+// Podcasting 2.0 <podcast:transcript>
+export interface FeedTranscript {
+  url: string;
+  type: string; // MIME type: text/vtt, application/srt, application/json, text/html, text/plain
+  language?: string;
+  rel?: string; // "captions" when the file doubles as closed captions
+}
+
+export interface FeedEntry {
+  id: string | null; // guid / atom:id / JSON Feed id
+  title: string;
+  url: string; // Preferred alternate link
+  links: FeedLink[];
+  publishedAt: string | null; // ISO 8601
+  updatedAt: string | null; // ISO 8601
+  author: string | null;
+  contentHtml: string | null;
+  contentText: string | null; // Plain text version of the content (or summary)
+  summary: string | null; // Plain text summary/description
+  categories: string[];
+  enclosures: FeedEnclosure[];
+  imageUrl: string | null;
+  identifier: string | null; // dc:identifier (often a DOI on journal feeds)
+  transcripts: FeedTranscript[]; // podcast:transcript
+  chaptersUrl: string | null; // podcast:chapters (JSON chapters file)
+  persons: MediaPerson[]; // podcast:person (falls back to the channel's people)
+  raw: any; // Format-specific source object (e.g. itunes fields)
+}
+
+export interface ParsedFeed {
+  format: FeedFormat;
+  title: string | null;
+  description: string | null;
+  link: string | null; // Site URL
+  links: FeedLink[];
+  language: string | null;
+  imageUrl: string | null;
+  author: string | null;
+  categories: string[];
+  updatedAt: string | null;
+  items: FeedEntry[];
+  raw: any;
+}
+
+const xmlParser = new RSSParser<any, any>({
+  customFields: {
+    feed: [
+      ['link', 'rawLinks', { keepArray: true }],
+      ['atom:link', 'atomLinks', { keepArray: true }],
+      ['author', 'rawAuthor'],
+      ['podcast:person', 'podcastPersons', { keepArray: true }],
+      'subtitle',
+      'icon',
+      'logo',
+      'updated',
+    ] as any[], // Typings only allow plain keys for feed fields, runtime supports [from, to, options]
+    item: [
+      ['link', 'rawLinks', { keepArray: true }],
+      ['atom:link', 'atomLinks', { keepArray: true }],
+      ['enclosure', 'rawEnclosures', { keepArray: true }],
+      ['category', 'rawCategories', { keepArray: true }],
+      ['dc:identifier', 'identifier'],
+      ['content:encoded', 'contentEncoded'],
+      ['podcast:transcript', 'podcastTranscripts', { keepArray: true }],
+      ['podcast:chapters', 'podcastChapters'],
+      ['podcast:person', 'podcastPersons', { keepArray: true }],
+      'published',
+      'updated',
+    ],
+  },
+});
+
+export const FEED_REQUEST_HEADERS: Record<string, string> = {
+  'User-Agent': 'Mozilla/5.0 (compatible; LucidFeed/1.0; +https://getlucidfeed.com)',
+  'Accept': 'application/rss+xml, application/atom+xml, application/feed+json, application/json, application/xml, text/xml, */*',
+};
+
+/**
+ * Detect the format of a feed document from its body (and content type hint)
+ */
+export function detectFeedFormat(body: string, contentType?: string | null): FeedFormat | null {
+  const text = body.replace(/^\uFEFF/, '').trimStart();
+
+  if (text.startsWith('{') || contentType?.includes('json')) {
+    try {
+      const json = JSON.parse(text);
+      if (typeof json?.version === 'string' && json.version.startsWith('https://jsonfeed.org/version/1')) {
+        return 'jsonfeed';
+      }
+    } catch {
+      // Not JSON - fall through to XML sniffing
+    }
+    if (text.startsWith('{')) return null;
+  }
+
+  // First element after the XML declaration, comments and doctype
+  const root = text
+    .replace(/<\?[\s\S]*?\?>/g, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<!DOCTYPE[^>]*>/gi, '')
+    .match(/<([A-Za-z_][\w:.-]*)/)?.[1];
+
+  if (!root) return null;
+  if (root === 'rss') return 'rss2'; // RSS 0.9x is close enough to share the RSS 2.0 path
+  if (root === 'rdf:RDF' || root.endsWith(':RDF')) return 'rss1';
+  if (root === 'feed') return 'atom';
+
+  return null;
+}
+
+/**
+ * Parse a feed document of any supported format
+ */
+export async function parseFeed(body: string, contentType?: string | null): Promise<ParsedFeed> {
+  const format = detectFeedFormat(body, contentType);
+
+  if (!format) {
+    throw new Error('Invalid feed: unrecognized format (expected RSS, Atom or JSON Feed)');
+  }
+
+  if (format === 'jsonfeed') {
+    return parseJsonFeed(JSON.parse(body.replace(/^\uFEFF/, '')));
+  }
+
+  const raw = await xmlParser.parseString(format === 'atom' ? escapeXhtmlContent(body) : body);
+  return normalizeXmlFeed(raw, format);
+}
+
+/**
+ * Rewrite Atom <content type="xhtml"> and <summary type="xhtml"> as type="html",
+ * with the markup inside the wrapper div escaped, so it reaches us as a string
+ */
+function escapeXhtmlContent(body: string): string {
+  return body.replace(
+    /<(content|summary)(\s[^>]*?)type=(["'])xhtml\3([^>]*)>([\s\S]*?)<\/\1>/g,
+    (_, tag: string, before: string, quote: string, after: string, inner: string) => {
+      const markup = inner.trim().replace(/^<div\b[^>]*>([\s\S]*)<\/div>$/, '$1');
+      const escaped = markup.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+      return `<${tag}${before}type=${quote}html${quote}${after}>${escaped}</${tag}>`;
+    }
+  );
+}
+
+/**
+ * Download and parse a feed (used for validation and catalog ingestion)
+ */
+export async function fetchAndParseFeed(url: string, timeout: number = 10000): Promise<ParsedFeed> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+  try {
+    const response = await fetch(url, { headers: FEED_REQUEST_HEADERS, signal: controller.signal });
+
+    if (!response.ok) {
+      throw new Error(`Status code ${response.status}`);
+    }
+
+    const body = await response.text();
+    return await parseFeed(body, response.headers.get('content-type'));
+  } catch (error: any) {
+    if (error?.name === 'AbortError') {
+      throw new Error('Request timed out');
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Convert an HTML fragment to plain text
+ */
+export function htmlToText(html: string | null | undefined): string {
+  if (!html) return '';
+
+  return html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|h[1-6]|blockquote)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&amp;/g, '&')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ ?\n ?/g, '\n') // Source indentation around block breaks
+    .replace(/\n\s*\n+/g, '\n\n')
+    .trim();
+}
+
+function toIso(value: unknown): string | null {
+  if (!value || typeof value !== 'string') return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function textValue(value: any): string | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'string') return value.trim() || null;
+  if (typeof value._ === 'string') return value._.trim() || null;
+  return null;
+}
+
+// RSS authors are plain text, Atom authors are <author><name>...</name></author>
+function personName(value: any): string | null {
+  if (Array.isArray(value?.name)) return textValue(value.name[0]);
+  return textValue(value);
+}
+
+/**
+ * Normalize xml2js link nodes (Atom <link href rel>) and plain RSS <link> text
+ */
+function toLinks(values: any[] | undefined): FeedLink[] {
+  if (!Array.isArray(values)) return [];
+
+  const links: FeedLink[] = [];
+  for (const value of values) {
+    if (typeof value === 'string' && value.trim()) {
+      links.push({ href: value.trim(), rel: 'alternate' });
+    } else if (value?.$?.href) {
+      links.push({
+        href: value.$.href,
+        rel: value.$.rel || 'alternate',
+        type: value.$.type,
+        title: value.$.title,
+      });
+    }
+  }
+  return links;
+}
+
+function uniqueLinks(links: FeedLink[]): FeedLink[] {
+  const seen = new Set<string>();
+  return links.filter(link => {
+    const key = `${link.rel}|${link.href}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function toCategories(values: any[] | undefined): string[] {
+  if (!Array.isArray(values)) return [];
+
+  return values
+    .map(value => {
+      if (typeof value === 'string') return value;
+      if (typeof value?._ === 'string') return value._;
+      return value?.$?.term || value?.$?.label || null; // Atom <category term="...">
+    })
+    .filter((category): category is string => !!category && !!category.trim())
+    .map(category => category.trim());
+}
+
+function normalizeXmlFeed(raw: any, format: FeedFormat): ParsedFeed {
+  const channelPersons = toPersons(raw.podcastPersons);
+  const links = uniqueLinks([...toLinks(raw.rawLinks), ...toLinks(raw.atomLinks)]);
+  const alternate = links.find(link => link.rel === 'alternate')?.href || null;
+
+  return {
+    format,
+    title: textValue(raw.title),
+    description: textValue(raw.description) || textValue(raw.subtitle),
+    link: raw.link || alternate,
+    links,
+    language: raw.language || null,
+    imageUrl: raw.image?.url || raw.itunes?.image || textValue(raw.logo) || textValue(raw.icon),
+    author: personName(raw.creator) || textValue(raw.itunes?.author) || personName(raw.rawAuthor),
+    categories: toCategories(raw.categories),
+    updatedAt: toIso(raw.updated) || toIso(raw.lastBuildDate),
+    items: (raw.items || []).map((item: any) => {
+      const entry = normalizeXmlEntry(item, format);
+      // Channel-level people (usually hosts) apply to episodes that don't list their own
+      return entry.persons.length > 0 ? entry : { ...entry, persons: channelPersons };
+    }),
+    raw,
+  };
+}
+
+function normalizeXmlEntry(item: any, format: FeedFormat): FeedEntry {
+  const links = uniqueLinks([...toLinks(item.rawLinks), ...toLinks(item.atomLinks)]);
+  const guid = textValue(item.guid) || textValue(item.id) || item['rdf:about'] || null;
+
+  const enclosures: FeedEnclosure[] = (item.rawEnclosures || [])
+    .map((enclosure: any) => enclosure?.$)
+    .filter((attrs: any) => attrs?.url)
+    .map((attrs: any) => ({
+      url: attrs.url,
+      type: attrs.type,
+      length: attrs.length ? Number(attrs.length) || undefined : undefined,
+    }));
+  for (const link of links.filter(l => l.rel === 'enclosure')) {
+    enclosures.push({ url: link.href, type: link.type, title: link.title });
+  }
+
+  // RSS: content:encoded is the body and description the summary.
+  // Atom: <content> is the body (xhtml already serialized by rss-parser) and <summary> the summary.
+  let contentHtml: string | null;
+  let summaryHtml: string | null;
+  if (format === 'atom') {
+    // xhtml content arrives as html (see escapeXhtmlContent)
+    contentHtml = typeof item.content === 'string' ? item.content : null;
+    summaryHtml = item.summary || null;
+  } else {
+    contentHtml = item.contentEncoded || item.content || null;
+    summaryHtml = item.contentEncoded ? item.content || null : null;
+  }
+
+  const summary = htmlToText(summaryHtml) || null;
+  const url = item.link
+    || links.find(link => link.rel === 'alternate')?.href
+    || (guid && /^https?:\/\//.test(guid) ? guid : '');
+
+  return {
+    id: guid,
+    title: textValue(item.title) || '',
+    url,
+    links,
+    publishedAt: format === 'atom'
+      ? toIso(item.published) || toIso(item.updated)
+      : toIso(item.isoDate) || toIso(item.pubDate) || toIso(item.date),
+    updatedAt: toIso(item.updated),
+    author: personName(item.creator) || personName(item.author),
+    contentHtml,
+    contentText: htmlToText(contentHtml) || summary,
+    summary,
+    categories: toCategories(item.categories || item.rawCategories),
+    enclosures,
+    imageUrl: item.itunes?.image || null,
+    identifier: textValue(item.identifier),
+    transcripts: toTranscripts(item.podcastTranscripts),
+    chaptersUrl: item.podcastChapters?.$?.url || null,
+    persons: toPersons(item.podcastPersons),
+    raw: item,
+  };
+}
+
+function toTranscripts(values: any[] | undefined): FeedTranscript[] {
+  if (!Array.isArray(values)) return [];
+
+  return values
+    .map(value => value?.$)
+    .filter((attrs: any) => attrs?.url)
+    .map((attrs: any) => ({
+      url: attrs.url,
+      type: (attrs.type || '').toLowerCase(),
+      language: attrs.language,
+      rel: attrs.rel,
+    }));
+}
+
+// <podcast:person role="guest" group="cast" href="..." img="...">Name</podcast:person>
+function toPersons(values: any[] | undefined): MediaPerson[] {
+  if (!Array.isArray(values)) return [];
+
+  return values
+    .map((value): MediaPerson | null => {
+      const name = textValue(value);
+      if (!name) return null;
+      const attrs = value?.$ || {};
+      return {
+        name,
+        role: (attrs.role || 'host').toLowerCase(), // Spec defaults: role "host", group "cast"
+        group: (attrs.group || 'cast').toLowerCase(),
+        href: attrs.href || undefined,
+        imageUrl: attrs.img || undefined,
+      };
+    })
+    .filter((person): person is MediaPerson => person !== null);
+}
+
+function jsonFeedAuthor(source: any): string | null {
+  const authors = Array.isArray(source?.authors) ? source.authors : source?.author ? [source.author] : [];
+  return authors.find((author: any) => author?.name)?.name || null;
+}
+
+function parseJsonFeed(json: any): ParsedFeed {
+  if (!json || typeof json !== 'object' || !Array.isArray(json.items)) {
+    throw new Error('Invalid feed: JSON Feed has no items array');
+  }
+
+  const links: FeedLink[] = [];
+  if (json.home_page_url) links.push({ href: json.home_page_url, rel: 'alternate' });
+  if (json.feed_url) links.push({ href: json.feed_url, rel: 'self' });
+  for (const hub of json.hubs || []) {
+    if (hub?.url) links.push({ href: hub.url, rel: 'hub', type: hub.type });
+  }
+
+  const feedAuthor = jsonFeedAuthor(json);
+
+  const items: FeedEntry[] = json.items.map((item: any) => {
+    const itemLinks: FeedLink[] = [];
+    if (item.url) itemLinks.push({ href: item.url, rel: 'alternate' });
+    if (item.external_url) itemLinks.push({ href: item.external_url, rel: 'related' });
+
+    const enclosures: FeedEnclosure[] = (item.attachments || [])
+      .filter((attachment: any) => attachment?.url)
+      .map((attachment: any) => ({
+        url: attachment.url,
+        type: attachment.mime_type,
+        length: attachment.size_in_bytes,
+        title: attachment.title,
+        durationSeconds: attachment.duration_in_seconds,
+      }));
+
+    const contentHtml = item.content_html || null;
+    const summary = item.summary ? htmlToText(item.summary) : null;
+
+    return {
+      id: item.id !== undefined && item.id !== null ? String(item.id) : null,
+      title: item.title || '',
+      url: item.url || item.external_url || '',
+      links: itemLinks,
+      publishedAt: toIso(item.date_published) || toIso(item.date_modified),
+      updatedAt: toIso(item.date_modified),
+      author: jsonFeedAuthor(item) || feedAuthor,
+      contentHtml,
+      contentText: item.content_text || htmlToText(contentHtml) || summary,
+      summary,
+      categories: Array.isArray(item.tags) ? item.tags.filter((tag: any) => typeof tag === 'string') : [],
+      enclosures,
+      imageUrl: item.image || item.banner_image || null,
+      identifier: null,
+      transcripts: [],
+      chaptersUrl: null,
+      persons: [],
+      raw: item,
+    };
+  });
+
+  return {
+    format: 'jsonfeed',
+    title: json.title || null,
+    description: json.description || null,
+    link: json.home_page_url || null,
+    links,
+    language: json.language || null,
+    imageUrl: json.icon || json.favicon || null,
+    author: feedAuthor,
+    categories: [],
+    updatedAt: null,
+    items,
+    raw: json,
+  };
+}
@@ -3,24 +3,17 @@
  * Handles all feed sources: manual, discovered, imported
  */
 
-import RSSParser from 'rss-parser';
 import { storage } from '../../storage';
 import type { InsertFeedCatalog, FeedCatalog } from '@shared/schema';
 import { fetchYouTubeTranscript } from '../youtube-transcript';
 import { fetchOpenAccessPDF, extractPDFText } from '../unpaywall';
 import { extractDOI } from '../../utils/doi';
-
-const parser = new RSSParser({
-  timeout: 10000,
-  headers: {
-    'User-Agent': 'Mozilla/5.0 (compatible; LucidFeed/1.0; +https://getlucidfeed.com)',
-    'Accept': 'application/rss+xml, application/xml, text/xml, */*'
-  }
-});
+import { fetchAndParseFeed, type FeedFormat, type ParsedFeed } from './feed-parser';
 
 export interface FeedValidationResult {
   valid: boolean;
   feedType?: 'youtube' | 'reddit' | 'substack' | 'podcast' | 'journal' | 'blog' | 'unknown';
+  format?: FeedFormat;
   title?: string;
   description?: string;
   url?: string;
@@ -48,7 +41,7 @@ export interface FeedIngestionResult {
 }
 
 /**
- * Validate an RSS feed URL
+ * Validate a feed URL (RSS 2.0, RSS 1.0/RDF, Atom 1.0 or JSON Feed)
  */
 export async function validateFeed(url: string): Promise<FeedValidationResult> {
   try {
@@ -59,9 +52,9 @@ export async function validateFeed(url: string): Promise<FeedValidationResult> {
     }
 
     // Fetch and parse feed
-    const feed = await parser.parseURL(url);
+    const feed = await fetchAndParseFeed(url);
     
-    if (!feed || !feed.items || feed.items.length === 0) {
+    if (feed.items.length === 0) {
       return {
         valid: false,
         error: 'Feed is empty or has no items'
@@ -72,23 +65,24 @@ export async function validateFeed(url: string): Promise<FeedValidationResult> {
     const feedType = detectFeedType(url, feed);
     
     // Get latest item date
-    const lastPublished = feed.items[0]?.pubDate 
-      ? new Date(feed.items[0].pubDate)
+    const lastPublished = feed.items[0]?.publishedAt 
+      ? new Date(feed.items[0].publishedAt)
       : undefined;
 
     // Extract metadata
     const metadata = {
-      author: feed.creator || feed.author || extractAuthor(feed),
+      author: extractAuthor(feed),
       categories: extractCategories(feed),
-      language: feed.language,
-      imageUrl: feed.image?.url || feed.itunes?.image
+      language: feed.language || undefined,
+      imageUrl: feed.imageUrl || undefined
     };
 
     return {
       valid: true,
       feedType,
+      format: feed.format,
       title: feed.title || 'Untitled Feed',
-      description: feed.description,
+      description: feed.description || undefined,
       url,
       itemCount: feed.items.length,
       lastPublished,
@@ -105,7 +99,7 @@ export async function validateFeed(url: string): Promise<FeedValidationResult> {
 /**
  * Detect the type of feed based on URL and content
  */
-function detectFeedType(url: string, feed: any): FeedValidationResult['feedType'] {
+function detectFeedType(url: string, feed: ParsedFeed): FeedValidationResult['feedType'] {
   const lowerUrl = url.toLowerCase();
   
   // YouTube
@@ -124,16 +118,16 @@ function detectFeedType(url: string, feed: any): FeedValidationResult['feedType'
   }
   
   // Podcast (check iTunes namespace or audio enclosures)
-  if (feed.itunes || feed.items?.some((item: any) => 
-    item.enclosure?.type?.includes('audio'))) {
+  if (feed.raw?.itunes || feed.items.some(item => 
+    item.enclosures.some(enclosure => enclosure.type?.includes('audio')))) {
     return 'podcast';
   }
   
   // Journal (check for DOIs or academic publishers)
-  const hasDoIs = feed.items?.some((item: any) => 
-    item.link?.includes('doi.org') || 
-    item.content?.includes('doi.org') ||
-    item.description?.includes('doi.org')
+  const hasDoIs = feed.items.some(item => 
+    item.url.includes('doi.org') || 
+    item.contentHtml?.includes('doi.org') ||
+    item.summary?.includes('doi.org')
   );
   
   const academicDomains = ['nature.com', 'science.org', 'cell.com', 'nejm.org', 
@@ -144,7 +138,7 @@ function detectFeedType(url: string, feed: any): FeedValidationResult['feedType'
   }
   
   // Blog (generic)
-  if (feed.items?.some((item: any) => item.content || item['content:encoded'])) {
+  if (feed.items.some(item => item.contentHtml)) {
     return 'blog';
   }
   
@@ -154,26 +148,25 @@ function detectFeedType(url: string, feed: any): FeedValidationResult['feedType'
 /**
  * Extract author from feed
  */
-function extractAuthor(feed: any): string | undefined {
+function extractAuthor(feed: ParsedFeed): string | undefined {
   // Try various author fields
-  if (feed.creator) return feed.creator;
   if (feed.author) return feed.author;
-  if (feed.managingEditor) return feed.managingEditor;
-  if (feed.webMaster) return feed.webMaster;
+  if (feed.raw?.managingEditor) return feed.raw.managingEditor;
+  if (feed.raw?.webMaster) return feed.raw.webMaster;
   
   // Check items for consistent author
-  const authors = feed.items?.map((item: any) => 
-    item.creator || item.author || item['dc:creator']
-  ).filter(Boolean);
+  const authors = feed.items
+    .map(item => item.author)
+    .filter((author): author is string => !!author);
   
-  if (authors?.length > 0) {
+  if (authors.length > 0) {
     // Return most common author
     const authorCounts = new Map<string, number>();
-    authors.forEach((author: string) => {
+    authors.forEach(author => {
       authorCounts.set(author, (authorCounts.get(author) || 0) + 1);
     });
     
-    const sortedAuthors = [...authorCounts.entries()]
+    const sortedAuthors = Array.from(authorCounts.entries())
       .sort((a, b) => b[1] - a[1]);
     
     return sortedAuthors[0]?.[0];
@@ -185,32 +178,23 @@ function extractAuthor(feed: any): string | undefined {
 /**
  * Extract categories from feed
  */
-function extractCategories(feed: any): string[] {
+function extractCategories(feed: ParsedFeed): string[] {
   const categories = new Set<string>();
   
   // Feed-level categories
-  if (feed.categories) {
-    feed.categories.forEach((cat: any) => {
-      if (typeof cat === 'string') categories.add(cat);
-      else if (cat.term) categories.add(cat.term);
-    });
-  }
+  feed.categories.forEach(cat => categories.add(cat));
   
   // iTunes categories (for podcasts)
-  if (feed.itunes?.categories) {
-    feed.itunes.categories.forEach((cat: any) => {
+  if (feed.raw?.itunes?.categories) {
+    feed.raw.itunes.categories.forEach((cat: any) => {
       if (typeof cat === 'string') categories.add(cat);
       else if (cat.text) categories.add(cat.text);
     });
   }
   
   // Item-level categories (sample first 10)
-  feed.items?.slice(0, 10).forEach((item: any) => {
-    if (item.categories) {
-      item.categories.forEach((cat: any) => {
-        if (typeof cat === 'string') categories.add(cat);
-      });
-    }
+  feed.items.slice(0, 10).forEach(item => {
+    item.categories.forEach(cat => categories.add(cat));
   });
   
   return Array.from(categories);
@@ -221,7 +205,7 @@ function extractCategories(feed: any): string[] {
  */
 async function checkEnrichmentCapabilities(
   feedType: FeedValidationResult['feedType'],
-  feed: any
+  feed: ParsedFeed
 ): Promise<FeedIngestionResult['enrichment']> {
   const enrichment: FeedIngestionResult['enrichment'] = {
     transcriptsAvailable: false,
@@ -232,9 +216,9 @@ async function checkEnrichmentCapabilities(
   switch (feedType) {
     case 'youtube':
       // Check if transcripts are available (sample first item)
-      if (feed.items?.[0]?.link) {
+      if (feed.items[0]?.url) {
         try {
-          const transcript = await fetchYouTubeTranscript(feed.items[0].link);
+          const transcript = await fetchYouTubeTranscript(feed.items[0].url);
           enrichment.transcriptsAvailable = !!transcript;
         } catch {
           // Transcripts not available
@@ -244,7 +228,7 @@ async function checkEnrichmentCapabilities(
       
     case 'journal':
       // Check if PDFs are available via Unpaywall
-      const doi = extractDOI(feed.items?.[0]?.link || '');
+      const doi = extractDOI(feed.items[0]?.identifier || feed.items[0]?.url || '');
       if (doi) {
         try {
           const { isOpenAccess } = await fetchOpenAccessPDF(doi);
@@ -259,9 +243,7 @@ async function checkEnrichmentCapabilities(
     case 'substack':
     case 'blog':
       // These usually have full content in the feed
-      enrichment.fullContentAvailable = feed.items?.some((item: any) => 
-        item.content || item['content:encoded']
-      );
+      enrichment.fullContentAvailable = feed.items.some(item => !!item.contentHtml);
       break;
   }
 
@@ -305,7 +287,7 @@ export async function ingestFeed(
     }
 
     // Step 3: Parse full feed for enrichment check
-    const feed = await parser.parseURL(url);
+    const feed = await fetchAndParseFeed(url);
     
     // Step 4: Check enrichment capabilities
     const enrichment = await checkEnrichmentCapabilities(validation.feedType, feed);
@@ -363,7 +345,7 @@ export async function ingestFeed(
 /**
  * Auto-categorize feed based on content
  */
-async function autoCategorizeFeed(validation: FeedValidationResult, feed: any): Promise<string[]> {
+async function autoCategorizeFeed(validation: FeedValidationResult, feed: ParsedFeed): Promise<string[]> {
   const topics = new Set<string>();
   
   // Map feed type to default topics
@@ -396,7 +378,7 @@ async function autoCategorizeFeed(validation: FeedValidationResult, feed: any):
   const textToAnalyze = [
     validation.title,
     validation.description,
-    ...feed.items?.slice(0, 5).map((item: any) => item.title + ' ' + item.description)
+    ...feed.items.slice(0, 5).map(item => item.title + ' ' + (item.summary || item.contentText || ''))
   ].join(' ').toLowerCase();
   
   for (const [topic, keywords] of Object.entries(healthKeywords)) {
@@ -0,0 +1,203 @@
+/**
+ * Adaptive Feed Polling Scheduler
+ *
+ * Replaces the single midnight ingest with per-feed polling:
+ * - Learns each feed's publish cadence from the items it has produced
+ * - Stores the next fetch time on the catalog row (nextFetchAt)
+ * - Enqueues one fetch job per due feed through the JobWorker queue
+ * - Clamps intervals to the bounds of the highest tier subscribed to the feed
+ * - Feeds with a live WebSub subscription only poll at the tier maximum (safety net)
+ */
+
+import { storage } from '../storage';
+import { JobWorker, enqueueJob } from '../workers/job-worker';
+import { runIngestJob } from './ingest';
+import { getTierLimits } from '../../config/tier-limits';
+import { subscriptionTiers, type SubscriptionTier, type FeedCatalog } from '@shared/schema';
+
+export const FEED_FETCH_JOB = 'rssFetch';
+
+export interface FeedFetchJobPayload {
+  feedId: string;
+}
+
+export interface PollingBounds {
+  minMinutes: number;
+  maxMinutes: number;
+}
+
+const DEFAULT_INTERVAL_MINUTES = 360; // Feeds without enough history start at 6 hours
+const MIN_HISTORY_ITEMS = 3; // Need at least this many items to learn a cadence
+const DORMANT_FACTOR = 4; // Back off once a feed has been quiet for 4x its usual gap
+
+// Higher tiers get their fetches picked up first (lower = higher priority)
+const TIER_PRIORITY: Record<SubscriptionTier, number> = {
+  free: 7,
+  premium: 5,
+  pro: 3,
+};
+
+let worker: JobWorker | null = null;
+
+function clampInterval(minutes: number, bounds: PollingBounds): number {
+  return Math.round(Math.min(bounds.maxMinutes, Math.max(bounds.minMinutes, minutes)));
+}
+
+export function getPollingBounds(tier: SubscriptionTier): PollingBounds {
+  const limits = getTierLimits(tier);
+  return { minMinutes: limits.minPollMinutes, maxMinutes: limits.maxPollMinutes };
+}
+
+/**
+ * Learn a polling interval (minutes) from a feed's publish history.
+ *
+ * Polls twice per typical publish gap (median of recent gaps), so a new item
+ * waits at most half a cadence. Feeds that have gone quiet are backed off in
+ * proportion to how long they have been silent.
+ */
+export function computeFetchInterval(
+  publishDates: string[],
+  bounds: PollingBounds,
+  now: Date = new Date()
+): number {
+  const times = publishDates
+    .map(date => new Date(date).getTime())
+    .filter(time => Number.isFinite(time) && time <= now.getTime())
+    .sort((a, b) => b - a);
+
+  if (times.length < MIN_HISTORY_ITEMS) {
+    return clampInterval(DEFAULT_INTERVAL_MINUTES, bounds);
+  }
+
+  const gaps: number[] = [];
+  for (let i = 1; i < times.length; i++) {
+    const gapMinutes = (times[i - 1] - times[i]) / 60000;
+    if (gapMinutes > 0) gaps.push(gapMinutes);
+  }
+
+  if (gaps.length === 0) {
+    return clampInterval(DEFAULT_INTERVAL_MINUTES, bounds);
+  }
+
+  gaps.sort((a, b) => a - b);
+  const medianGap = gaps[Math.floor(gaps.length / 2)];
+  let interval = medianGap / 2;
+
+  // Dormant feed: don't keep polling at its old cadence
+  const minutesSinceLast = (now.getTime() - times[0]) / 60000;
+  if (minutesSinceLast > medianGap * DORMANT_FACTOR) {
+    interval = Math.max(interval, minutesSinceLast / 2);
+  }
+
+  return clampInterval(interval, bounds);
+}
+
+function isPushActive(feed: FeedCatalog): boolean {
+  return feed.websubStatus === 'subscribed'
+    && !!feed.websubLeaseExpiresAt
+    && feed.websubLeaseExpiresAt.getTime() > Date.now();
+}
+
+/**
+ * Resolve the highest subscription tier among each feed's subscribers.
+ */
+async function resolveFeedTiers(feedIds: string[]): Promise<Map<string, SubscriptionTier>> {
+  const rows = await storage.getSubscriberTiersForFeeds(feedIds);
+  const feedTiers = new Map<string, SubscriptionTier>();
+
+  for (const row of rows) {
+    const tier = (subscriptionTiers as readonly string[]).includes(row.tier || '')
+      ? row.tier as SubscriptionTier
+      : 'free';
+    const current = feedTiers.get(row.feedId);
+    if (!current || subscriptionTiers.indexOf(tier) > subscriptionTiers.indexOf(current)) {
+      feedTiers.set(row.feedId, tier);
+    }
+  }
+
+  return feedTiers;
+}
+
+/**
+ * Enqueue a fetch job for every subscribed feed whose nextFetchAt has passed.
+ */
+export async function scheduleDueFeeds(): Promise<{ enqueued: number }> {
+  const now = new Date();
+  const dueFeeds = await storage.getFeedsDueForFetch(now);
+
+  if (dueFeeds.length === 0) {
+    return { enqueued: 0 };
+  }
+
+  const feedTiers = await resolveFeedTiers(dueFeeds.map(feed => feed.id));
+  let enqueued = 0;
+
+  for (const feed of dueFeeds) {
+    try {
+      const tier = feedTiers.get(feed.id) || 'free';
+      const bounds = getPollingBounds(tier);
+
+      // Claim the slot before enqueueing so the next tick doesn't enqueue it again.
+      // The job handler replaces this with the freshly learned interval.
+      const provisional = clampInterval(feed.fetchIntervalMinutes ?? DEFAULT_INTERVAL_MINUTES, bounds);
+      await storage.updateFeedSchedule(feed.id, {
+        nextFetchAt: new Date(now.getTime() + provisional * 60000),
+      });
+
+      const payload: FeedFetchJobPayload = { feedId: feed.id };
+      await enqueueJob(FEED_FETCH_JOB, payload, {
+        priority: TIER_PRIORITY[tier],
+        maxRetries: 3,
+      });
+      enqueued++;
+    } catch (error) {
+      console.error(`[FeedScheduler] Failed to schedule feed ${feed.name}:`, error);
+    }
+  }
+
+  return { enqueued };
+}
+
+/**
+ * Job handler: fetch one feed, then re-learn its cadence and set nextFetchAt.
+ */
+export async function handleFeedFetchJob(payload: FeedFetchJobPayload): Promise<void> {
+  const feed = await storage.getFeedById(payload.feedId);
+  if (!feed || !feed.isActive) {
+    console.log(`[FeedScheduler] Skipping inactive or missing feed ${payload.feedId}`);
+    return;
+  }
+
+  const result = await runIngestJob({ feedIds: [feed.id] });
+
+  const feedTiers = await resolveFeedTiers([feed.id]);
+  const bounds = getPollingBounds(feedTiers.get(feed.id) || 'free');
+  const publishDates = await storage.getFeedPublishDates(feed.id);
+  // Pushed feeds get new entries from the hub; polling only catches missed pushes
+  const interval = isPushActive(feed)
+    ? bounds.maxMinutes
+    : computeFetchInterval(publishDates, bounds);
+
+  await storage.updateFeedSchedule(feed.id, {
+    nextFetchAt: new Date(Date.now() + interval * 60000),
+    fetchIntervalMinutes: interval,
+  });
+
+  console.log(
+    `[FeedScheduler] ${feed.name}: ${result.inserted} new, ` +
+    `${result.unchanged > 0 ? 'unchanged, ' : ''}next fetch in ${interval} min`
+  );
+}
+
+/**
+ * Start the JobWorker that processes per-feed fetch jobs.
+ */
+export function startFeedPollingWorker(): JobWorker {
+  if (worker) return worker;
+
+  worker = new JobWorker({ pollInterval: 10000, maxRetries: 3 });
+  worker.register(FEED_FETCH_JOB, handleFeedFetchJob);
+  worker.start();
+
+  return worker;
+}
@@ -60,6 +60,16 @@ export class HealingOrchestrator {
     
     console.log(`🏥 Starting healing for feed: ${feed.name} (${feed.id})`);
 
+    // Literature query feeds have no URL to repair; their API errors are retried by the fetcher
+    if (feed.literatureQuery) {
+      return {
+        success: false,
+        fallbackUsed: false,
+        duration: Date.now() - startTime,
+        error: 'Literature query feeds are not healed',
+      };
+    }
+
     try {
       // Create healing context
       const context: HealingContext = {
@@ -28,7 +28,7 @@ export class CachedContentTactic implements RecoveryTactic {
 
     try {
       // Get the last successfully fetched items for this feed
-      const recentItems = await storage.getItemsByFeedUrl(feed.url, 10);
+      const recentItems = await storage.getItemsByFeedId(feed.id, 10);
 
       if (recentItems && recentItems.length > 0) {
         result.success = true;
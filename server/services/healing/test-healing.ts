@@ -35,7 +35,17 @@ async function testHealing() {
     lastErrorMessage: 'Failed to parse XML: invalid format',
     healingStatus: 'degraded',
     lastHealingAt: null,
-    preferredRecoveryTactic: null
+    preferredRecoveryTactic: null,
+    etag: null,
+    lastModified: null,
+    contentHash: null,
+    nextFetchAt: null,
+    fetchIntervalMinutes: null,
+    literatureQuery: null,
+    websubHub: null,
+    websubTopic: null,
+    websubStatus: null,
+    websubLeaseExpiresAt: null
   };
 
   console.log('Testing single feed healing...');
@@ -5,8 +5,17 @@ import { fetchSubstackFeeds } from "../sources/substack";
 import { fetchYouTubeFeeds } from "../sources/youtube";
 import { fetchPodcastFeeds } from "../sources/podcasts";
 import { enrichContentBatch } from "./content-enrichment";
-import { fetchFeedItems } from "./feed-fetcher";
-import type { InsertItem, Topic, FeedCatalog, UserFeedSubscription } from "@shared/schema";
+import { fetchFeedItems, saveFeedFetchValidators, type FetchFeedResult } from "./feed-fetcher";
+import { isDiscussionSource } from "../sources/community";
+import { engagementSourceKey, hasEngagementSignal } from "../core/engagement";
+import { extractDoi, extractReferences, urlVariants } from "../core/canonicalization";
+import { canMergeIntoItem } from "../core/dedupe";
+import { NearDuplicateIndex, fingerprintItem, attachNearDuplicate, refreshMergedDuplicate } from "./near-duplicates";
+import { classifyTopics } from "./topic-classifier";
+import { refreshTopicTaxonomy, resolveTopicScores, topicDescriptions, topicMatchers } from "./taxonomy";
+import { tagItemsWithCustomTopics } from "./custom-topics";
+import { recordContentChange } from "./item-revisions";
+import type { InsertItem, Item, Topic, FeedCatalog, UserFeedSubscription, ItemEngagement } from "@shared/schema";
 
 export interface IngestOptions {
   topics?: Topic[]; // If provided, only ingest items with these topics
@@ -15,7 +24,7 @@ export interface IngestOptions {
   feedIds?: string[]; // If provided, only ingest these specific feeds
 }
 
-export async function runIngestJob(options: IngestOptions = {}): Promise<{ inserted: number; skipped: number; merged: number; filtered: number }> {
+export async function runIngestJob(options: IngestOptions = {}): Promise<{ inserted: number; skipped: number; merged: number; filtered: number; unchanged: number }> {
   const { topics, enrichContent = true, useSubscribedFeeds = true, feedIds } = options;
   console.log(`Starting ingestion job${topics ? ` (filtering for ${topics.length} topics)` : ''}${enrichContent ? ' (with enrichment)' : ''}${useSubscribedFeeds ? ' (subscribed feeds only)' : ''}...`);
 
@@ -23,6 +32,7 @@ export async function runIngestJob(options: IngestOptions = {}): Promise<{ inser
   let skipped = 0;
   let merged = 0;
   let filtered = 0;
+  let unchanged = 0; // Feeds skipped because they returned 304 or an identical body
 
   // Create job run for observability
   const jobRun = await storage.createJobRun({
@@ -35,6 +45,7 @@ export async function runIngestJob(options: IngestOptions = {}): Promise<{ inser
 
   try {
     let allItems: InsertItem[] = [];
+    let pendingValidators: FetchFeedResult['validators'] = [];
 
     // Determine which feeds to process
     let feedsToProcess: FeedCatalog[] = [];
@@ -60,7 +71,7 @@ export async function runIngestJob(options: IngestOptions = {}): Promise<{ inser
           tokenSpend: 0,
           errorMessage: 'No feed subscriptions found',
         });
-        return { inserted: 0, skipped: 0, merged: 0, filtered: 0 };
+        return { inserted: 0, skipped: 0, merged: 0, filtered: 0, unchanged: 0 };
       }
       
       console.log(`Found ${uniqueFeedIds.length} unique subscribed feeds`);
@@ -84,79 +95,27 @@ export async function runIngestJob(options: IngestOptions = {}): Promise<{ inser
     // If we're using database feeds, fetch items from them
     if (feedsToProcess.length > 0) {
       console.log(`Processing ${feedsToProcess.length} feeds from database catalog...`);
-      allItems = await fetchFeedItems(feedsToProcess);
-      console.log(`Fetched ${allItems.length} items from subscribed feeds`);
+      const fetchResult = await fetchFeedItems(feedsToProcess);
+      allItems = fetchResult.items;
+      pendingValidators = fetchResult.validators;
+      unchanged = fetchResult.unchangedFeeds;
+      console.log(`Fetched ${allItems.length} items from subscribed feeds (${unchanged} feeds unchanged)`);
     }
 
-    // Filter by topics if specified
-    if (topics && topics.length > 0) {
-      const topicsSet = new Set(topics);
-      const beforeFilter = allItems.length;
-      allItems = allItems.filter(item => 
-        item.topics.some(topic => topicsSet.has(topic as Topic))
-      );
-      filtered = beforeFilter - allItems.length;
-      console.log(`Filtered to ${allItems.length} items matching ${topics.length} topics (excluded ${filtered} items)`);
-    }
-
-    // Enrich content with full text and quality metrics
-    if (enrichContent) {
-      console.log('\n🔬 Enriching content with full text and quality scoring...');
-      allItems = await enrichContentBatch(allItems);
-      
-      // Filter out items with insufficient content after enrichment
-      const beforeContentFilter = allItems.length;
-      allItems = allItems.filter(item => {
-        // Skip items with very short excerpts (likely just metadata)
-        if (!item.rawExcerpt || item.rawExcerpt.length < 100) {
-          console.log(`Filtered out item with minimal excerpt: "${item.title}"`);
-          return false;
-        }
-        
-        // Skip future publications (no content available yet)
-        const publishedDate = new Date(item.publishedAt);
-        if (publishedDate > new Date()) {
-          console.log(`Filtered out future publication: "${item.title}" (${item.publishedAt})`);
-          return false;
-        }
-        
-        // If enriched with quality score, skip items with very low content quality
-        if (item.scoreBreakdown && item.scoreBreakdown.contentQuality < 10) {
-          console.log(`Filtered out low-content item: "${item.title}" (content quality: ${item.scoreBreakdown.contentQuality})`);
-          return false;
-        }
-        
-        return true;
-      });
-      
-      const contentFiltered = beforeContentFilter - allItems.length;
-      filtered += contentFiltered;
-      if (contentFiltered > 0) {
-        console.log(`Filtered ${contentFiltered} items with insufficient content`);
-      }
-    }
+    const stored = await storeIngestedItems(allItems, { topics, enrichContent });
+    inserted = stored.inserted;
+    skipped = stored.skipped;
+    merged = stored.merged;
+    filtered = stored.filtered;
 
-    // Process each item
-    for (const item of allItems) {
-      const existing = await storage.getItemByHash(item.hashDedupe);
-
-      if (existing) {
-        // Check if this is a cross-source reference (same DOI/URL)
-        if (existing.sourceType !== item.sourceType) {
-          // Merge engagement data
-          await storage.mergeItemEngagement(existing.id, item.engagement);
-          merged++;
-        } else {
-          skipped++;
-        }
-      } else {
-        // Insert new item
-        await storage.createItem(item);
-        inserted++;
-      }
+    // Only now that the items are stored may the next run skip these feeds as unchanged.
+    // A topic filter drops entries that unfiltered runs still need, so validators are
+    // then only saved when nothing was filtered out
+    if (!topics?.length || filtered === 0) {
+      await saveFeedFetchValidators(pendingValidators);
     }
 
-    console.log(`Ingestion complete: ${inserted} inserted, ${skipped} skipped, ${merged} merged, ${filtered} filtered`);
+    console.log(`Ingestion complete: ${inserted} inserted, ${skipped} skipped, ${merged} merged, ${filtered} filtered, ${unchanged} unchanged feeds skipped`);
     
     // Finish job run with success
     await storage.finishJobRun(jobRun.id, {
@@ -166,7 +125,7 @@ export async function runIngestJob(options: IngestOptions = {}): Promise<{ inser
       tokenSpend: 0, // Ingestion doesn't use AI
     });
     
-    return { inserted, skipped, merged, filtered };
+    return { inserted, skipped, merged, filtered, unchanged };
   } catch (error) {
     console.error("Error during ingestion:", error);
     
@@ -182,3 +141,315 @@ export async function runIngestJob(options: IngestOptions = {}): Promise<{ inser
     throw error;
   }
 }
+
+export interface StoreItemsOptions {
+  topics?: Topic[]; // If provided, drop items outside these topics
+  enrichContent?: boolean; // Whether to fetch full content and quality metrics (default: true)
+}
+
+export interface StoreItemsResult {
+  inserted: number;
+  skipped: number;
+  merged: number;
+  filtered: number;
+}
+
+/**
+ * Filter, enrich, dedupe and store a batch of normalized items.
+ * Shared by the polling ingest job and WebSub push deliveries so both paths
+ * apply the same topic filter, content quality gate and cross-source merge.
+ */
+export async function storeIngestedItems(
+  items: InsertItem[],
+  options: StoreItemsOptions = {}
+): Promise<StoreItemsResult> {
+  const { topics, enrichContent = true } = options;
+  let allItems = items;
+  let inserted = 0;
+  let skipped = 0;
+  let merged = 0;
+  let filtered = 0;
+
+  // Entries already stored, or merged earlier as near-duplicates, are only merged into their
+  // item; classification and enrichment (quality analysis, full text, transcripts) run on new entries alone
+  const fresh: InsertItem[] = [];
+  for (const item of allItems) {
+    const existing = await findStoredItem(item);
+    if (existing) {
+      if (await mergeIntoStoredItem(item, existing)) {
+        merged++;
+      } else {
+        skipped++;
+      }
+    } else if (await refreshMergedDuplicate(item)) {
+      skipped++;
+    } else {
+      fresh.push(item);
+    }
+  }
+  allItems = fresh;
+
+  // Discussions of content we already have are attached to it rather than stored again
+  const { attached, remaining } = await attachDiscussionsToLinkedItems(allItems);
+  merged += attached;
+  allItems = remaining;
+
+  // Final topics with confidences. The topics items arrived with (feed topics plus the source's
+  // keyword pass) count as assigned; sequential so the embedding fallback doesn't burst requests
+  await refreshTopicTaxonomy();
+  const classified: InsertItem[] = [];
+  for (const item of allItems) {
+    const topicScores = resolveTopicScores(await classifyTopics(item, item.topics as Topic[], { matchers: topicMatchers(), descriptions: topicDescriptions() }));
+    classified.push({ ...item, topics: topicScores.map(score => score.topic), topicScores });
+  }
+  allItems = classified;
+
+  // Filter by topics if specified
+  if (topics && topics.length > 0) {
+    const topicsSet = new Set(topics);
+    const beforeFilter = allItems.length;
+    allItems = allItems.filter(item => 
+      item.topics.some(topic => topicsSet.has(topic as Topic))
+    );
+    filtered = beforeFilter - allItems.length;
+    console.log(`Filtered to ${allItems.length} items matching ${topics.length} topics (excluded ${filtered} items)`);
+  }
+
+  // Enrich content with full text and quality metrics
+  if (enrichContent) {
+    console.log('\n🔬 Enriching content with full text and quality scoring...');
+    allItems = await enrichContentBatch(allItems);
+    
+    // Filter out items with insufficient content after enrichment
+    const beforeContentFilter = allItems.length;
+    allItems = allItems.filter(item => {
+      // Skip items with very short excerpts (likely just metadata)
+      if (!item.rawExcerpt || item.rawExcerpt.length < 100) {
+        console.log(`Filtered out item with minimal excerpt: "${item.title}"`);
+        return false;
+      }
+      
+      // Skip future publications (no content available yet)
+      const publishedDate = new Date(item.publishedAt);
+      if (publishedDate > new Date()) {
+        console.log(`Filtered out future publication: "${item.title}" (${item.publishedAt})`);
+        return false;
+      }
+      
+      // If enriched with quality score, skip items with very low content quality
+      if (item.scoreBreakdown && item.scoreBreakdown.contentQuality < 10) {
+        console.log(`Filtered out low-content item: "${item.title}" (content quality: ${item.scoreBreakdown.contentQuality})`);
+        return false;
+      }
+      
+      return true;
+    });
+    
+    const contentFiltered = beforeContentFilter - allItems.length;
+    filtered += contentFiltered;
+    if (contentFiltered > 0) {
+      console.log(`Filtered ${contentFiltered} items with insufficient content`);
+    }
+  }
+
+  // Loaded on the first item that needs it
+  let nearDuplicates: NearDuplicateIndex | null = null;
+  const createdItems: Item[] = [];
+
+  // Process each item
+  for (const item of allItems) {
+    // Another feed in this batch may have stored the same entry already
+    const existing = await findStoredItem(item);
+
+    if (existing) {
+      if (await mergeIntoStoredItem(item, existing)) {
+        merged++;
+      } else {
+        skipped++;
+      }
+    } else {
+      // Same story under another URL/title (syndication, rewritten press release)
+      const fingerprint = fingerprintItem(item);
+      if (fingerprint) {
+        nearDuplicates = nearDuplicates ?? await NearDuplicateIndex.load();
+        const match = nearDuplicates.find(item, fingerprint);
+        if (match) {
+          if (await attachNearDuplicate(item, match)) {
+            merged++;
+          } else {
+            skipped++;
+          }
+          continue;
+        }
+      }
+
+      // Insert new item
+      const created = await storage.createItem({ ...item, fingerprint });
+      createdItems.push(created);
+      inserted++;
+      if (fingerprint) {
+        nearDuplicates?.add(created.id, item, fingerprint);
+      }
+
+      await linkCitedItems(item, created.id);
+    }
+  }
+
+  // Title + excerpt embeddings, so digest selection can compare items before they're summarized.
+  // Imported only here, since embeddings.ts creates its OpenAI client on import
+  if (createdItems.length > 0) {
+    try {
+      const { embedItemExcerpts } = await import("./embeddings");
+      await embedItemExcerpts(createdItems);
+    } catch (error) {
+      console.error("Error embedding new items:", error);
+    }
+  }
+
+  // Users' custom topics; items that merged into an existing item were tagged when it was stored
+  try {
+    const tagged = await tagItemsWithCustomTopics(createdItems);
+    if (tagged > 0) {
+      console.log(`Tagged ${tagged} custom topic matches`);
+    }
+  } catch (error) {
+    console.error("Error tagging custom topics:", error);
+  }
+
+  return { inserted, skipped, merged, filtered };
+}
+
+// A feed entry whose title or URL was edited keeps its guid
+async function findStoredItem(item: InsertItem): Promise<Item | undefined> {
+  return await storage.getItemByHash(item.hashDedupe)
+    ?? (item.feedId && item.guid ? await storage.getItemByGuid(item.feedId, item.guid) : undefined);
+}
+
+/**
+ * Record another sighting of a stored entry: content edits, the feed carrying
+ * it, and this source's engagement. Returns true when it came from another
+ * source type (a cross-source merge) rather than a re-poll.
+ */
+async function mergeIntoStoredItem(item: InsertItem, existing: Item): Promise<boolean> {
+  // Linking another feed to a private newsletter item would show it to that feed's readers
+  if (!canMergeIntoItem(item, existing)) {
+    console.warn(`Not merging "${item.title}" into item ${existing.id}: it belongs to another inbox`);
+    return false;
+  }
+
+  // Same entry republished with an edited body
+  if (existing.feedId === item.feedId) {
+    try {
+      await recordContentChange(existing, item);
+    } catch (error) {
+      console.error(`Error recording content change for item ${existing.id}:`, error);
+    }
+  }
+
+  // Record that this feed also carries the item (first feed stays on items.feedId)
+  if (item.feedId) {
+    await storage.linkItemToFeed(existing.id, item.feedId);
+  }
+
+  // Refresh this source's counts (same post) or add them (cross-source reference, same DOI/URL)
+  const engagement = item.engagement as ItemEngagement;
+  if (hasEngagementSignal(engagement)) {
+    await storage.mergeItemEngagement(
+      existing.id,
+      engagement,
+      engagementSourceKey(item.sourceType, item.sourceId)
+    );
+  }
+
+  // Refresh the counts on the items this post cites
+  await linkCitedItems(item, existing.id);
+
+  return existing.sourceType !== item.sourceType;
+}
+
+/**
+ * Community posts (HN, Reddit, Mastodon, Bluesky) that link to an item we
+ * already stored - same DOI or same URL - become a related_ref on that item and
+ * add their engagement to it, instead of turning into a near-duplicate item
+ * with a different title. Only called with posts not stored yet.
+ */
+async function attachDiscussionsToLinkedItems(
+  items: InsertItem[]
+): Promise<{ attached: number; remaining: InsertItem[] }> {
+  const remaining: InsertItem[] = [];
+  let attached = 0;
+
+  for (const item of items) {
+    if (!item.linkedUrl) {
+      remaining.push(item);
+      continue;
+    }
+
+    const target = await findItemByLinkedUrl(item.linkedUrl);
+    if (!target) {
+      remaining.push(item);
+      continue;
+    }
+
+    const engagement = item.engagement as ItemEngagement;
+    await storage.upsertRelatedRef({
+      itemId: target.id,
+      platform: item.sourceType,
+      label: item.title,
+      url: item.url,
+      counts: { comments: engagement.comments, upvotes: engagement.upvotes, views: engagement.views },
+    });
+    if (hasEngagementSignal(engagement)) {
+      await storage.mergeItemEngagement(target.id, engagement, engagementSourceKey(item.sourceType, item.sourceId));
+    }
+    if (item.feedId) {
+      await storage.linkItemToFeed(target.id, item.feedId);
+    }
+
+    console.log(`Linked ${item.sourceType} discussion "${item.title}" to existing item "${target.title}"`);
+    attached++;
+  }
+
+  return { attached, remaining };
+}
+
+/**
+ * Posts, essays and videos that cite a DOI or URL we hold are recorded as a
+ * related_ref on the cited item, with this source's counts, so the paper shows
+ * where it is being discussed. The citing item is stored as usual.
+ */
+async function linkCitedItems(item: InsertItem, itemId: string): Promise<void> {
+  // Papers citing papers aren't discussion; newsletter items are private to one inbox
+  if (item.sourceType === 'journal' || item.sourceType === 'newsletter') return;
+
+  const references = extractReferences(item.title, `${item.rawExcerpt} ${item.fullText || ''}`);
+  const engagement = item.engagement as ItemEngagement;
+
+  for (const reference of references) {
+    const target = reference.doi
+      ? await storage.getItemByDOI(reference.doi)
+      : await storage.getItemByUrl(urlVariants(reference.url!));
+
+    // Only primary content: not the item itself, other discussions, or the same feed's earlier posts
+    if (!target || target.id === itemId || isDiscussionSource(target.sourceType)) continue;
+    if (item.feedId && target.feedId === item.feedId) continue;
+
+    await storage.upsertRelatedRef({
+      itemId: target.id,
+      platform: item.sourceType,
+      label: item.title,
+      url: item.url,
+      counts: { comments: engagement.comments, upvotes: engagement.upvotes, views: engagement.views },
+    });
+    console.log(`Linked ${item.sourceType} item "${item.title}" to cited item "${target.title}"`);
+  }
+}
+
+async function findItemByLinkedUrl(url: string): Promise<Item | undefined> {
+  const doi = extractDoi(url);
+  if (doi) {
+    const byDoi = await storage.getItemByDOI(doi);
+    if (byDoi) return byDoi;
+  }
+  return storage.getItemByUrl(urlVariants(url));
+}
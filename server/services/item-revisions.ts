@@ -0,0 +1,143 @@
+import { nanoid } from "nanoid";
+import { db } from "../db";
+import { items, itemRevisions, savedItems, summaries, revisedItemFields } from "../../shared/schema";
+import type { InsertItem, Item, ItemRevision, ItemRevisionChange } from "../../shared/schema";
+import { and, asc, desc, eq, gt } from "drizzle-orm";
+import { storage } from "../storage";
+import { changedChars, condenseDiff, diffText } from "../core/text-diff";
+import { generateSummary } from "./summary";
+
+const MATERIAL_CHANGE_PERCENT = 10; // Smaller body edits (typos, links, formatting) keep the summary
+
+/**
+ * Compare a re-published feed entry with the stored item. When the content
+ * hash differs, the new text replaces the old and a revision with the
+ * per-field diff is stored; a material change also regenerates the item's
+ * summary if it has one. Items stored before content hashes existed only get
+ * their hash recorded, since there is nothing reliable to diff against.
+ */
+export async function recordContentChange(existing: Item, incoming: InsertItem): Promise<ItemRevision | null> {
+  if (!incoming.contentHash || incoming.contentHash === existing.contentHash) return null;
+
+  if (!existing.contentHash) {
+    await db
+      .update(items)
+      .set({ contentHash: incoming.contentHash, guid: existing.guid ?? incoming.guid })
+      .where(eq(items.id, existing.id));
+    return null;
+  }
+
+  const changes: ItemRevisionChange[] = [];
+  let changed = 0;
+  let total = 0;
+
+  for (const field of revisedItemFields) {
+    const before = existing[field] ?? '';
+    const after = incoming[field] ?? '';
+    // No full text this time (enrichment skipped or failed) says nothing about the old one
+    if (field === 'fullText' && !incoming.fullText) continue;
+
+    total += before.length + after.length;
+    if (before.trim().replace(/\s+/g, ' ') === after.trim().replace(/\s+/g, ' ')) continue;
+
+    const diff = diffText(before, after, field === 'fullText' ? 'sentence' : 'word');
+    changed += changedChars(diff);
+    changes.push({ field, diff: condenseDiff(diff) });
+  }
+
+  // Title and URL edits change hashDedupe; take the feed's current one so later runs match on it
+  const refreshed = {
+    hashDedupe: incoming.hashDedupe,
+    guid: existing.guid ?? incoming.guid,
+    contentHash: incoming.contentHash,
+  };
+
+  if (changes.length === 0) {
+    // The edit is past the stored excerpt and there is no full text to compare
+    await db.update(items).set(refreshed).where(eq(items.id, existing.id));
+    return null;
+  }
+
+  const changeRatio = total > 0 ? Math.round((changed / total) * 100) : 100;
+  const material = changes.some(change => change.field === 'title') || changeRatio >= MATERIAL_CHANGE_PERCENT;
+
+  const [updated] = await db
+    .update(items)
+    .set({
+      ...refreshed,
+      title: incoming.title,
+      rawExcerpt: incoming.rawExcerpt,
+      ...(incoming.fullText ? { fullText: incoming.fullText, paperSections: incoming.paperSections as Item['paperSections'] } : {}),
+      contentUpdatedAt: new Date().toISOString(),
+    })
+    .where(eq(items.id, existing.id))
+    .returning();
+
+  const summaryRegenerated = material && await regenerateSummary(updated);
+
+  const [revision] = await db
+    .insert(itemRevisions)
+    .values({
+      id: nanoid(),
+      itemId: existing.id,
+      previousHash: existing.contentHash,
+      contentHash: incoming.contentHash,
+      changes,
+      changeRatio,
+      material,
+      summaryRegenerated,
+    })
+    .returning();
+
+  console.log(`📝 "${incoming.title}" was updated by its feed (${changeRatio}% changed${material ? ', material' : ''})`);
+  return revision;
+}
+
+// Only items that already have a summary; the rest get one when a digest needs it
+async function regenerateSummary(item: Item): Promise<boolean> {
+  try {
+    if (!await storage.getSummaryByItemId(item.id)) return false;
+
+    const { itemId, tokenUsage, ...summary } = await generateSummary(item);
+    // Without usage the model call failed and this is the excerpt fallback; keep the real summary
+    if (!tokenUsage) return false;
+
+    await db.update(summaries).set(summary).where(eq(summaries.itemId, itemId));
+    return true;
+  } catch (error) {
+    console.error(`Error regenerating summary for item ${item.id}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Revisions of an item, newest first
+ */
+export async function getItemRevisions(itemId: string): Promise<ItemRevision[]> {
+  return db
+    .select()
+    .from(itemRevisions)
+    .where(eq(itemRevisions.itemId, itemId))
+    .orderBy(desc(itemRevisions.detectedAt));
+}
+
+/**
+ * Revisions detected after the user saved each item, oldest first, keyed by item id
+ */
+export async function getRevisionsSinceSaved(userId: string): Promise<Record<string, ItemRevision[]>> {
+  const rows = await db
+    .select({ revision: itemRevisions })
+    .from(savedItems)
+    .innerJoin(itemRevisions, and(
+      eq(itemRevisions.itemId, savedItems.itemId),
+      gt(itemRevisions.detectedAt, savedItems.savedAt),
+    ))
+    .where(eq(savedItems.userId, userId))
+    .orderBy(asc(itemRevisions.detectedAt));
+
+  const byItem: Record<string, ItemRevision[]> = {};
+  for (const { revision } of rows) {
+    (byItem[revision.itemId] ??= []).push(revision);
+  }
+  return byItem;
+}
@@ -3,6 +3,7 @@ import { feedCatalog } from "../../shared/schema";
 import { eq } from "drizzle-orm";
 import fs from "fs";
 import path from "path";
+import { resolveTopics } from "./taxonomy";
 
 /**
  * Migrates feed topics in database from feed-catalog.json
@@ -47,9 +48,12 @@ export async function migrateFeedTopics(): Promise<{
           continue;
         }
         
+        // Catalog topics merged or renamed in the taxonomy since the file was written map to their replacements
+        const resolvedTopics = resolveTopics(catalogFeed.topics || []);
+        
         // Check if topics need updating
         const dbTopics = JSON.stringify(dbFeed.topics?.sort());
-        const catalogTopics = JSON.stringify(catalogFeed.topics?.sort());
+        const catalogTopics = JSON.stringify([...resolvedTopics].sort());
         
         if (dbTopics === catalogTopics) {
           unchanged++;
@@ -58,10 +62,10 @@ export async function migrateFeedTopics(): Promise<{
         
         // Update the feed
         await db.update(feedCatalog)
-          .set({ topics: catalogFeed.topics })
+          .set({ topics: resolvedTopics })
           .where(eq(feedCatalog.id, catalogFeed.id));
         
-        details.push(`✅ Updated: ${catalogFeed.name} (${dbFeed.topics?.join(", ")} → ${catalogFeed.topics?.join(", ")})`);
+        details.push(`✅ Updated: ${catalogFeed.name} (${dbFeed.topics?.join(", ")} → ${resolvedTopics.join(", ")})`);
         updated++;
         
       } catch (error: any) {
@@ -0,0 +1,190 @@
+/**
+ * Near-duplicate detection across sources
+ *
+ * The same story syndicated by several outlets, or a press release rewritten
+ * per journal, has a different URL and title on each source, so the exact
+ * hash dedupe misses it. Every new item gets a MinHash of its title and
+ * excerpt; when it shares at least NEAR_DUPLICATE_MIN_SIMILARITY percent of
+ * its text with an item stored in the last NEAR_DUPLICATE_WINDOW_DAYS, it is
+ * folded into that item (the first copy stored stays canonical) as an
+ * alternate, and its engagement is merged into the canonical item's.
+ *
+ * Each merge records the copy's hash and feed guid, so when its feed is polled
+ * again the copy is recognised before classification and enrichment, like an
+ * entry that was stored.
+ */
+
+import { env } from "../../config/env";
+import { storage } from "../storage";
+import { contentFingerprint, fingerprintSimilarity } from "../core/fingerprint";
+import { engagementSourceKey, hasEngagementSignal } from "../core/engagement";
+import type { InsertItem, ItemEngagement, SourceType } from "@shared/schema";
+
+interface IndexEntry {
+  id: string;
+  title: string;
+  feedId: string | null;
+  doi: string | null;
+  fingerprint: string;
+}
+
+export interface NearDuplicateMatch {
+  canonicalId: string;
+  canonicalTitle: string;
+  similarity: number;
+}
+
+/**
+ * Fingerprints of recently stored items, loaded once per batch and extended as
+ * the batch's own items are stored
+ */
+export class NearDuplicateIndex {
+  private constructor(private entries: IndexEntry[]) {}
+
+  static async load(): Promise<NearDuplicateIndex> {
+    const since = new Date(Date.now() - env.nearDuplicateWindowDays * 24 * 60 * 60 * 1000).toISOString();
+    const candidates = await storage.getNearDuplicateCandidates(since);
+
+    const entries: IndexEntry[] = [];
+    const computed: Array<{ id: string; fingerprint: string }> = [];
+    for (const candidate of candidates) {
+      // Items stored before fingerprinting are fingerprinted once, then keep it
+      let fingerprint = candidate.fingerprint;
+      if (!fingerprint) {
+        fingerprint = contentFingerprint(candidate.title, candidate.rawExcerpt, env.nearDuplicateMinTokens);
+        if (fingerprint) computed.push({ id: candidate.id, fingerprint });
+      }
+      if (fingerprint) {
+        entries.push({ id: candidate.id, title: candidate.title, feedId: candidate.feedId, doi: candidate.doi, fingerprint });
+      }
+    }
+
+    if (computed.length > 0) {
+      await storage.setItemFingerprints(computed);
+    }
+
+    return new NearDuplicateIndex(entries);
+  }
+
+  find(item: InsertItem, fingerprint: string): NearDuplicateMatch | null {
+    let best: NearDuplicateMatch | null = null;
+
+    for (const entry of this.entries) {
+      // Posts of one feed share templates (weekly roundups, episode boilerplate)
+      if (item.feedId && entry.feedId === item.feedId) continue;
+      // Different papers can share an abstract-like excerpt (errata, commentaries)
+      if (item.doi && entry.doi && item.doi.toLowerCase() !== entry.doi.toLowerCase()) continue;
+
+      const similarity = fingerprintSimilarity(fingerprint, entry.fingerprint);
+      if (similarity >= env.nearDuplicateMinSimilarity && (!best || similarity > best.similarity)) {
+        best = { canonicalId: entry.id, canonicalTitle: entry.title, similarity };
+      }
+    }
+
+    return best;
+  }
+
+  add(id: string, item: InsertItem, fingerprint: string): void {
+    this.entries.push({ id, title: item.title, feedId: item.feedId ?? null, doi: item.doi ?? null, fingerprint });
+  }
+}
+
+/**
+ * Fingerprint for a new item; null when detection is off or doesn't apply
+ */
+export function fingerprintItem(item: InsertItem): string | null {
+  if (!env.nearDuplicateEnabled) return null;
+  // Newsletter items are private to one inbox and never merged with public items
+  if (item.sourceType === 'newsletter') return null;
+  return contentFingerprint(item.title, item.rawExcerpt, env.nearDuplicateMinTokens);
+}
+
+/**
+ * A copy merged earlier, by its hash or its feed's guid. Its engagement is
+ * refreshed on the canonical item; returns false when it was never merged.
+ */
+export async function refreshMergedDuplicate(item: InsertItem): Promise<boolean> {
+  if (item.sourceType === 'newsletter') return false;
+
+  const merge = await storage.getNearDuplicateMergeOf(item.hashDedupe, item.feedId ?? null, item.guid ?? null);
+  if (!merge) return false;
+
+  await refreshCanonicalItem(merge.canonicalItemId, item);
+  return true;
+}
+
+/**
+ * Fold a near-duplicate into its canonical item. Returns false when the copy
+ * was already recorded (the duplicate's feed was polled again); its engagement
+ * is refreshed either way.
+ */
+export async function attachNearDuplicate(item: InsertItem, match: NearDuplicateMatch): Promise<boolean> {
+  const added = await storage.addItemAlternate(match.canonicalId, {
+    url: item.url,
+    title: item.title,
+    sourceType: item.sourceType as SourceType,
+    feedId: item.feedId ?? undefined,
+    similarity: match.similarity,
+    addedAt: new Date().toISOString(),
+  });
+
+  await refreshCanonicalItem(match.canonicalId, item);
+
+  if (added) {
+    await storage.createNearDuplicateMerge({
+      canonicalItemId: match.canonicalId,
+      duplicateUrl: item.url,
+      duplicateTitle: item.title,
+      duplicateSourceType: item.sourceType,
+      feedId: item.feedId ?? null,
+      duplicateHash: item.hashDedupe,
+      duplicateGuid: item.guid ?? null,
+      similarity: match.similarity,
+    });
+    console.log(`Merged near-duplicate "${item.title}" (${item.sourceType}) into "${match.canonicalTitle}" (${match.similarity}% similar)`);
+  }
+
+  return added;
+}
+
+// The copy's engagement, and its feed as one that carries the canonical item
+async function refreshCanonicalItem(canonicalId: string, item: InsertItem): Promise<void> {
+  const engagement = item.engagement as ItemEngagement;
+  if (hasEngagementSignal(engagement)) {
+    await storage.mergeItemEngagement(canonicalId, engagement, engagementSourceKey(item.sourceType, item.sourceId));
+  }
+  if (item.feedId) {
+    await storage.linkItemToFeed(canonicalId, item.feedId);
+  }
+}
+
+/**
+ * Recent merges for the admin report, with per-source counts and the
+ * thresholds they were made under
+ */
+export async function getNearDuplicateReport(days: number, limit: number) {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  const merges = await storage.getNearDuplicateMerges(since, limit);
+
+  const bySourceType: Record<string, number> = {};
+  for (const merge of merges) {
+    bySourceType[merge.duplicateSourceType] = (bySourceType[merge.duplicateSourceType] || 0) + 1;
+  }
+
+  return {
+    settings: {
+      enabled: env.nearDuplicateEnabled,
+      minSimilarity: env.nearDuplicateMinSimilarity,
+      windowDays: env.nearDuplicateWindowDays,
+      minTokens: env.nearDuplicateMinTokens,
+    },
+    summary: {
+      total: merges.length,
+      bySourceType,
+      averageSimilarity: merges.length > 0
+        ? Math.round(merges.reduce((sum, merge) => sum + merge.similarity, 0) / merges.length)
+        : null,
+    },
+    merges,
+  };
+}
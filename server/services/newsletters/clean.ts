@@ -0,0 +1,136 @@
+import { createHash } from "crypto";
+import { htmlToText, type FeedEntry } from "../feed-ingestion/feed-parser";
+import type { ParsedEmail } from "./mime";
+
+/**
+ * Newsletter HTML → item text
+ *
+ * Email templates are table layouts wrapped around a short piece of writing.
+ * Open-tracking pixels, hidden preheaders and the unsubscribe/legal footer are
+ * dropped so topic tagging, quality scoring and summaries see only the issue.
+ */
+
+// Anchors that point at the hosted copy of the email
+const WEB_VERSION_PATTERN = /\b(view|read|open)\b[^<]{0,30}\b(in|on)\s+(your\s+|a\s+|the\s+)?(browser|web|online)\b|\bread\s+online\b|\bweb\s+version\b/i;
+
+// Image URLs of the common open trackers
+const TRACKING_SRC_PATTERN = /\/(open|track(ing)?|pixel|beacon|wf\/open|o\.gif|e\/o|mo\/|imp)(\b|\/|\?|\.)|[?&](open|tracking)_?id=/i;
+
+// Footer openers; everything from the paragraph containing one is dropped
+const FOOTER_PATTERNS = [
+  /\bunsubscribe\b/i,
+  /\byou(?:'|’| a)re receiving this\b/i,
+  /\byou received this (?:email|message)\b/i,
+  /\bno longer (?:wish|want) to receive\b/i,
+  /\b(?:manage|update) (?:your )?(?:email |subscription )?preferences\b/i,
+  /\bwas sent to \S+@\S+/i,
+];
+
+const FOOTER_SEARCH_START = 0.5; // Only look for the footer in the second half
+const MIN_BODY_LENGTH = 200; // Keep the footer rather than leave almost nothing
+
+export interface CleanedNewsletter {
+  html: string; // Without trackers, hidden text or the web-version link
+  text: string; // Also without the footer
+}
+
+export function cleanNewsletterHtml(html: string): CleanedNewsletter {
+  const cleaned = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(head|script|style|title|noscript)\b[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<img\b[^>]*>/gi, tag => isTrackingPixel(tag) ? '' : tag)
+    // Preheaders and other hidden text (single-element case, which is how templates emit them)
+    .replace(/<(div|span|p)\b[^>]*style\s*=\s*["'][^"']*(display\s*:\s*none|mso-hide\s*:\s*all|max-height\s*:\s*0)[^"']*["'][^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<a\b[^>]*>([\s\S]*?)<\/a>/gi, (anchor, label) => WEB_VERSION_PATTERN.test(htmlToText(label)) ? '' : anchor)
+    .trim();
+
+  // Table layouts: rows and cells separate text the way paragraphs would
+  const text = htmlToText(
+    cleaned
+      .replace(/<\/(tr|table|h[1-6])>/gi, '</p>')
+      .replace(/<\/td>/gi, ' </td>')
+  );
+
+  return { html: cleaned, text: trimNewsletterFooter(text) };
+}
+
+/**
+ * Drop the unsubscribe/legal footer from newsletter text
+ */
+export function trimNewsletterFooter(text: string): string {
+  const searchFrom = Math.floor(text.length * FOOTER_SEARCH_START);
+  let cutAt = text.length;
+
+  for (const pattern of FOOTER_PATTERNS) {
+    const match = pattern.exec(text.slice(searchFrom));
+    if (match) cutAt = Math.min(cutAt, searchFrom + match.index);
+  }
+
+  if (cutAt === text.length) return text.trim();
+
+  // Cut at the start of the paragraph the marker is in
+  const paragraphStart = text.lastIndexOf('\n\n', cutAt);
+  const body = text.slice(0, paragraphStart > 0 ? paragraphStart : cutAt).trim();
+  return body.length >= MIN_BODY_LENGTH ? body : text.trim();
+}
+
+/**
+ * URL of the "View in browser" copy of the email, if the template links one
+ */
+export function findWebVersionUrl(html: string): string | null {
+  const anchors = html.matchAll(/<a\b[^>]*href\s*=\s*["']([^"']+)["'][^>]*>([\s\S]*?)<\/a>/gi);
+  for (const [, href, label] of Array.from(anchors)) {
+    if (/^https?:\/\//i.test(href) && WEB_VERSION_PATTERN.test(htmlToText(label))) {
+      return href.replace(/&amp;/g, '&');
+    }
+  }
+  return null;
+}
+
+function isTrackingPixel(tag: string): boolean {
+  const attribute = (name: string) => tag.match(new RegExp(`\\b${name}\\s*=\\s*["']?([^"'\\s>]+)`, 'i'))?.[1] || '';
+
+  const width = parseInt(attribute('width'), 10);
+  const height = parseInt(attribute('height'), 10);
+  if ((width <= 1 && !isNaN(width)) || (height <= 1 && !isNaN(height))) return true;
+
+  const style = tag.match(/\bstyle\s*=\s*["']([^"']*)["']/i)?.[1] || '';
+  if (/display\s*:\s*none|(width|height)\s*:\s*[01]px/i.test(style)) return true;
+
+  return TRACKING_SRC_PATTERN.test(attribute('src'));
+}
+
+/**
+ * Turn an inbound email into a feed entry.
+ * Items link to the hosted copy when the email has one; otherwise to a
+ * mid: URI (RFC 2392), which also keeps re-deliveries from duplicating.
+ */
+export function buildNewsletterEntry(email: ParsedEmail): FeedEntry {
+  const cleaned = email.html ? cleanNewsletterHtml(email.html) : null;
+  const text = cleaned?.text || trimNewsletterFooter(email.text || '');
+
+  const messageId = email.messageId
+    || createHash('sha256').update(`${email.from?.address}|${email.subject}|${email.date}`).digest('hex').slice(0, 32);
+  const url = (email.html && findWebVersionUrl(email.html)) || `mid:${encodeURIComponent(messageId)}`;
+
+  return {
+    id: messageId,
+    title: email.subject || 'Untitled',
+    url,
+    links: [{ href: url, rel: 'alternate' }],
+    publishedAt: email.date,
+    updatedAt: null,
+    author: email.from?.name || email.from?.address || null,
+    contentHtml: cleaned?.html || null,
+    contentText: text || null,
+    summary: text ? text.slice(0, 500) : null,
+    categories: [],
+    enclosures: [],
+    imageUrl: null,
+    identifier: null,
+    transcripts: [],
+    chaptersUrl: null,
+    persons: [],
+    raw: null,
+  };
+}
@@ -0,0 +1,170 @@
+/**
+ * Inbound Email Newsletters
+ *
+ * Each user gets a private address, u-<token>@<INBOUND_EMAIL_DOMAIN>, to sign
+ * up to newsletters that have no RSS. The mail provider posts every message to
+ * /inbound-email (raw MIME, or its own parsed JSON/form fields); the message
+ * becomes an item of a per-user, per-sender "newsletter" feed and then goes
+ * through the same dedupe, tagging and enrichment path as polled feeds.
+ *
+ * Newsletter feeds are private (never approved into the catalog) and are
+ * never polled.
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import { customAlphabet } from 'nanoid';
+import { storage } from '../../storage';
+import { env } from '../../../config/env';
+import { canSubscribeToFeed } from '../../tierChecks';
+import { normalizeFeedEntries } from '../feed-fetcher';
+import { storeIngestedItems, type StoreItemsResult } from '../ingest';
+import { buildNewsletterEntry } from './clean';
+import type { EmailAddress, ParsedEmail } from './mime';
+import type { FeedCatalog, User } from '@shared/schema';
+
+export { parseInboundPayload, parseProviderFields } from './payload';
+export { buildNewsletterEntry } from './clean';
+
+// Lowercase only: mail systems don't reliably preserve the case of local parts
+const generateToken = customAlphabet('0123456789abcdefghijklmnopqrstuvwxyz', 16);
+
+const NEWSLETTER_URL_PREFIX = 'newsletter://';
+
+export type InboundEmailResult =
+  | ({ status: 'stored'; feedId: string } & StoreItemsResult)
+  | { status: 'ignored'; reason: string };
+
+export function getInboundEmailDomain(): string {
+  if (env.inboundEmailDomain) return env.inboundEmailDomain.toLowerCase();
+
+  // REPLIT_DEV_DOMAIN is a bare host name
+  const base = /^https?:\/\//.test(env.publicBaseUrl) ? env.publicBaseUrl : `https://${env.publicBaseUrl}`;
+  return `in.${new URL(base).hostname}`;
+}
+
+export function formatInboundAddress(token: string): string {
+  return `u-${token}@${getInboundEmailDomain()}`;
+}
+
+/**
+ * The user's inbound address, issuing a token on first use (or a new one when rotating)
+ */
+export async function getOrCreateInboundAddress(userId: string, rotate: boolean = false): Promise<string> {
+  const user = await storage.getUser(userId);
+  if (!user) {
+    throw new Error(`User not found: ${userId}`);
+  }
+
+  if (user.inboundEmailToken && !rotate) {
+    return formatInboundAddress(user.inboundEmailToken);
+  }
+
+  const updated = await storage.setUserInboundEmailToken(userId, generateToken());
+  return formatInboundAddress(updated.inboundEmailToken!);
+}
+
+/**
+ * The webhook secret may arrive as ?secret=, an X-Inbound-Secret header, or
+ * the password of HTTP basic auth (what most providers support in the URL)
+ */
+export function verifyInboundSecret(presented: string | null | undefined): boolean {
+  if (!env.inboundEmailSecret || !presented) return false;
+
+  const expected = createHash('sha256').update(env.inboundEmailSecret).digest();
+  const received = createHash('sha256').update(presented).digest();
+  return timingSafeEqual(expected, received);
+}
+
+/**
+ * Token of the first recipient that is one of our inbound addresses
+ */
+export function findInboundToken(recipients: EmailAddress[]): string | null {
+  const domain = getInboundEmailDomain();
+
+  for (const { address } of recipients) {
+    // u-<token>@domain, also with a +tag the user added when signing up
+    const match = address.match(/^u-([0-9a-z]+)(?:\+[^@]*)?@(.+)$/);
+    if (match && match[2] === domain) {
+      return match[1];
+    }
+  }
+
+  return null;
+}
+
+export function getNewsletterFeedUrl(userId: string, sender: string): string {
+  return `${NEWSLETTER_URL_PREFIX}${userId}/${sender.toLowerCase()}`;
+}
+
+/**
+ * Store an inbound email under the recipient's feed for its sender
+ */
+export async function ingestInboundEmail(email: ParsedEmail): Promise<InboundEmailResult> {
+  const token = findInboundToken(email.recipients);
+  if (!token) {
+    return { status: 'ignored', reason: 'No inbound address among the recipients' };
+  }
+
+  const user = await storage.getUserByInboundEmailToken(token);
+  if (!user) {
+    return { status: 'ignored', reason: 'Unknown or rotated inbound address' };
+  }
+
+  if (!email.from) {
+    return { status: 'ignored', reason: 'Message has no sender' };
+  }
+
+  const feed = await getNewsletterFeed(user, email.from);
+  if (!feed) {
+    return { status: 'ignored', reason: 'Feed limit reached or sender unsubscribed' };
+  }
+
+  const entry = buildNewsletterEntry(email);
+  const items = normalizeFeedEntries([entry], feed).map(item => ({
+    ...item,
+    fullText: entry.contentText,
+  }));
+  const result = await storeIngestedItems(items);
+
+  console.log(
+    `📨 Newsletter "${entry.title}" from ${email.from.address}: ` +
+    `${result.inserted} inserted, ${result.skipped + result.merged} duplicates, ${result.filtered} filtered`
+  );
+
+  return { status: 'stored', feedId: feed.id, ...result };
+}
+
+/**
+ * The user's feed for a sender, created and subscribed on the first email.
+ * A sender the user unsubscribed from stays unsubscribed.
+ */
+async function getNewsletterFeed(user: User, from: EmailAddress): Promise<FeedCatalog | null> {
+  const url = getNewsletterFeedUrl(user.id, from.address);
+
+  const existing = await storage.getFeedByUrl(url);
+  if (existing) {
+    return await storage.isSubscribedToFeed(user.id, existing.id) ? existing : null;
+  }
+
+  const tierCheck = await canSubscribeToFeed(storage, user.id);
+  if (!tierCheck.allowed) {
+    console.warn(`⚠️ Dropping newsletter from ${from.address} for user ${user.id}: ${tierCheck.reason}`);
+    return null;
+  }
+
+  const feed = await storage.createFeed({
+    name: from.name || from.address,
+    url,
+    domain: 'general',
+    category: 'Newsletters',
+    description: `Newsletter emails from ${from.address}`,
+    sourceType: 'newsletter',
+    topics: [],
+    isApproved: false, // Private to the recipient; never listed in the catalog
+    isActive: true,
+    submittedBy: user.id,
+  });
+  await storage.subscribeFeed(user.id, feed.id);
+
+  return feed;
+}
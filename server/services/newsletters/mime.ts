@@ -0,0 +1,300 @@
+/**
+ * Minimal MIME (RFC 5322 / 2045-2047) reader for inbound newsletters
+ *
+ * Only what's needed to turn an email into an item: the routing and display
+ * headers, and the first text/html and text/plain bodies. Attachments and
+ * forwarded message/rfc822 parts are skipped. The message is read as latin1
+ * so body bytes survive until the part's charset is known.
+ */
+
+export interface EmailAddress {
+  name: string | null;
+  address: string; // Lowercased
+}
+
+export interface ParsedEmail {
+  from: EmailAddress | null;
+  recipients: EmailAddress[]; // Delivered-To, X-Original-To, To and Cc, deduplicated
+  subject: string;
+  date: string | null; // ISO
+  messageId: string | null; // Without angle brackets
+  html: string | null;
+  text: string | null;
+}
+
+type Headers = Map<string, string[]>;
+
+interface HeaderValue {
+  value: string;
+  params: Record<string, string>;
+}
+
+const MAX_DEPTH = 10; // Nested multiparts
+
+export function parseMimeMessage(raw: Buffer | string): ParsedEmail {
+  const source = Buffer.isBuffer(raw) ? raw.toString('latin1') : raw;
+  const { headers, body } = splitMessage(source);
+
+  const bodies: { html: string | null; text: string | null } = { html: null, text: null };
+  collectBodies(headers, body, bodies, 0);
+
+  const recipients: EmailAddress[] = [];
+  for (const name of ['delivered-to', 'x-original-to', 'to', 'cc']) {
+    for (const value of headers.get(name) || []) {
+      for (const address of parseAddressList(decodeHeader(value))) {
+        if (!recipients.some(existing => existing.address === address.address)) {
+          recipients.push(address);
+        }
+      }
+    }
+  }
+
+  const date = firstHeader(headers, 'date');
+  const parsedDate = date ? new Date(date) : null;
+
+  return {
+    from: parseAddressList(decodeHeader(firstHeader(headers, 'from') || ''))[0] || null,
+    recipients,
+    subject: decodeHeader(firstHeader(headers, 'subject') || '').trim(),
+    date: parsedDate && !isNaN(parsedDate.getTime()) ? parsedDate.toISOString() : null,
+    messageId: stripAngles(firstHeader(headers, 'message-id')),
+    html: bodies.html,
+    text: bodies.text,
+  };
+}
+
+function splitMessage(source: string): { headers: Headers; body: string } {
+  const separator = source.match(/\r?\n\r?\n/);
+  const headerBlock = separator ? source.slice(0, separator.index) : source;
+  const body = separator ? source.slice(separator.index! + separator[0].length) : '';
+
+  const headers: Headers = new Map();
+  // Unfold continuation lines, then split "Name: value"
+  for (const line of headerBlock.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    const values = headers.get(name) || [];
+    values.push(line.slice(colon + 1).trim());
+    headers.set(name, values);
+  }
+
+  return { headers, body };
+}
+
+function firstHeader(headers: Headers, name: string): string | null {
+  return headers.get(name)?.[0] ?? null;
+}
+
+function stripAngles(value: string | null): string | null {
+  if (!value) return null;
+  return value.trim().replace(/^<|>$/g, '') || null;
+}
+
+/**
+ * `text/html; charset="utf-8"` → { value: 'text/html', params: { charset: 'utf-8' } }
+ */
+function parseHeaderValue(header: string | null): HeaderValue {
+  if (!header) return { value: '', params: {} };
+
+  const [value] = header.split(';', 1);
+  const params: Record<string, string> = {};
+  const pattern = /;\s*([^=\s;]+)\s*=\s*("(?:[^"\\]|\\.)*"|[^;]*)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(header)) !== null) {
+    const raw = match[2].trim();
+    params[match[1].toLowerCase()] = raw.startsWith('"') ? raw.slice(1, -1).replace(/\\(.)/g, '$1') : raw;
+  }
+
+  return { value: value.trim().toLowerCase(), params };
+}
+
+function collectBodies(
+  headers: Headers,
+  body: string,
+  bodies: { html: string | null; text: string | null },
+  depth: number
+): void {
+  const contentType = parseHeaderValue(firstHeader(headers, 'content-type') || 'text/plain');
+  const disposition = parseHeaderValue(firstHeader(headers, 'content-disposition'));
+  if (disposition.value === 'attachment') return;
+
+  if (contentType.value.startsWith('multipart/')) {
+    const boundary = contentType.params.boundary;
+    if (!boundary || depth >= MAX_DEPTH) return;
+
+    for (const part of splitMultipart(body, boundary)) {
+      const parsed = splitMessage(part);
+      collectBodies(parsed.headers, parsed.body, bodies, depth + 1);
+    }
+    return;
+  }
+
+  if (contentType.value !== 'text/html' && contentType.value !== 'text/plain') return;
+
+  const bytes = decodeTransferEncoding(body, firstHeader(headers, 'content-transfer-encoding'));
+  const decoded = decodeCharset(bytes, contentType.params.charset);
+
+  if (contentType.value === 'text/html') {
+    bodies.html ??= decoded;
+  } else {
+    bodies.text ??= decoded;
+  }
+}
+
+function splitMultipart(body: string, boundary: string): string[] {
+  const delimiter = `--${boundary}`;
+  const parts: string[] = [];
+  let current: string[] | null = null; // null before the first delimiter (preamble)
+
+  for (const line of body.split(/\r?\n/)) {
+    if (line.startsWith(delimiter)) {
+      const rest = line.slice(delimiter.length);
+      if (/^--\s*$/.test(rest)) {
+        if (current) parts.push(current.join('\r\n'));
+        return parts;
+      }
+      if (/^\s*$/.test(rest)) {
+        if (current) parts.push(current.join('\r\n'));
+        current = [];
+        continue;
+      }
+    }
+    current?.push(line);
+  }
+
+  // Missing close delimiter: keep what we have
+  if (current) parts.push(current.join('\r\n'));
+  return parts;
+}
+
+function decodeTransferEncoding(body: string, encoding: string | null): Buffer {
+  switch ((encoding || '').trim().toLowerCase()) {
+    case 'base64':
+      return Buffer.from(body.replace(/[^A-Za-z0-9+/=]/g, ''), 'base64');
+    case 'quoted-printable':
+      return Buffer.from(decodeQuotedPrintable(body), 'latin1');
+    default:
+      return Buffer.from(body, 'latin1');
+  }
+}
+
+function decodeQuotedPrintable(body: string): string {
+  return body
+    .replace(/[ \t]+(?=\r?\n)/g, '') // Trailing whitespace is transport padding
+    .replace(/=\r?\n/g, '') // Soft line breaks
+    .replace(/=([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+function decodeCharset(bytes: Buffer, charset: string | undefined): string {
+  const label = (charset || 'utf-8').trim().toLowerCase();
+  try {
+    return new TextDecoder(label === 'us-ascii' ? 'utf-8' : label).decode(bytes);
+  } catch {
+    // Unknown label
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+/**
+ * Decode RFC 2047 encoded-words (`=?utf-8?Q?Caf=C3=A9?=`) and raw UTF-8 header bytes
+ */
+export function decodeHeader(value: string): string {
+  // SMTPUTF8 headers arrive as raw UTF-8 bytes, which read as latin1 here
+  let text = value;
+  if (/[\u0080-\u00ff]/.test(text)) {
+    try {
+      text = new TextDecoder('utf-8', { fatal: true }).decode(Buffer.from(text, 'latin1'));
+    } catch {
+      // Genuinely latin1
+    }
+  }
+
+  // Whitespace between adjacent encoded-words is not part of the text
+  return text
+    .replace(/(\?=)\s+(?==\?)/g, '$1')
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_, charset: string, encoding: string, encoded: string) => {
+      const bytes = encoding.toUpperCase() === 'B'
+        ? Buffer.from(encoded, 'base64')
+        : Buffer.from(decodeQuotedPrintable(encoded.replace(/_/g, ' ')), 'latin1');
+      return decodeCharset(bytes, charset.split('*')[0]);
+    });
+}
+
+/**
+ * `"Jane Doe" <jane@example.com>, bob@example.com (Bob)` → addresses
+ */
+export function parseAddressList(value: string): EmailAddress[] {
+  const addresses: EmailAddress[] = [];
+  // Groups (`Team: a@x, b@x;`) contribute their members
+  const list = value.replace(/^[^"<:,]*:/, '').replace(/;\s*$/, '');
+
+  for (const token of splitAddresses(list)) {
+    const angle = token.match(/^(.*)<([^>]+)>/);
+    let name: string | null;
+    let address: string;
+
+    if (angle) {
+      name = angle[1].trim().replace(/^"|"$/g, '').replace(/\\(.)/g, '$1').trim() || null;
+      address = angle[2].trim();
+    } else {
+      const comment = token.match(/\(([^)]*)\)/);
+      name = comment ? comment[1].trim() || null : null;
+      address = token.replace(/\([^)]*\)/g, '').trim();
+    }
+
+    if (/^[^\s@]+@[^\s@]+$/.test(address)) {
+      addresses.push({ name, address: address.toLowerCase() });
+    }
+  }
+
+  return addresses;
+}
+
+function splitAddresses(list: string): string[] {
+  const tokens: string[] = [];
+  let current = '';
+  let quoted = false;
+  let angled = false;
+
+  for (let i = 0; i < list.length; i++) {
+    const char = list[i];
+    if (char === '\\' && quoted) {
+      current += char + (list[++i] ?? '');
+      continue;
+    }
+    if (char === '"') quoted = !quoted;
+    if (!quoted && char === '<') angled = true;
+    if (!quoted && char === '>') angled = false;
+
+    if (char === ',' && !quoted && !angled) {
+      if (current.trim()) tokens.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  if (current.trim()) tokens.push(current.trim());
+  return tokens;
+}
+
+/**
+ * Fields of a multipart/form-data body (how SendGrid and Mailgun post parsed mail).
+ * Values stay as bytes: a raw-message field must reach parseMimeMessage unchanged.
+ */
+export function parseFormData(body: Buffer, contentType: string): Record<string, Buffer> {
+  const boundary = parseHeaderValue(contentType).params.boundary;
+  const fields: Record<string, Buffer> = {};
+  if (!boundary) return fields;
+
+  for (const part of splitMultipart(body.toString('latin1'), boundary)) {
+    const { headers, body: value } = splitMessage(part);
+    const name = parseHeaderValue(firstHeader(headers, 'content-disposition')).params.name;
+    if (name && !(name in fields)) {
+      fields[name] = Buffer.from(value, 'latin1');
+    }
+  }
+
+  return fields;
+}
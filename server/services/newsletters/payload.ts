@@ -0,0 +1,107 @@
+import { parseMimeMessage, parseAddressList, parseFormData, decodeHeader, type EmailAddress, type ParsedEmail } from './mime';
+
+/**
+ * Inbound webhook bodies → ParsedEmail
+ *
+ * Providers post either the raw message or their own parsed fields; both end
+ * up as the same ParsedEmail, with the envelope recipient listed first.
+ */
+
+/**
+ * Read a webhook body: raw MIME, Postmark-style JSON, or SendGrid/Mailgun form fields
+ */
+export function parseInboundPayload(body: Buffer, contentType: string | undefined): ParsedEmail | null {
+  const type = (contentType || '').split(';')[0].trim().toLowerCase();
+
+  if (type === 'application/json') {
+    try {
+      return parseProviderFields(JSON.parse(body.toString('utf8')));
+    } catch {
+      return null;
+    }
+  }
+
+  if (type === 'application/x-www-form-urlencoded') {
+    return parseProviderFields(Object.fromEntries(new URLSearchParams(body.toString('utf8'))));
+  }
+
+  if (type === 'multipart/form-data') {
+    return parseProviderFields(parseFormData(body, contentType!));
+  }
+
+  // message/rfc822, text/plain, application/octet-stream or no type at all
+  return body.length > 0 ? parseMimeMessage(body) : null;
+}
+
+function fieldText(value: unknown): string {
+  if (Buffer.isBuffer(value)) return value.toString('utf8');
+  return typeof value === 'string' ? value : '';
+}
+
+function addressesOf(value: unknown): EmailAddress[] {
+  if (Array.isArray(value)) {
+    // Postmark ToFull/CcFull: [{ Email, Name }]
+    return value.flatMap(entry => typeof entry === 'object' && entry?.Email
+      ? parseAddressList(entry.Name ? `"${entry.Name}" <${entry.Email}>` : entry.Email)
+      : addressesOf(entry));
+  }
+  return parseAddressList(decodeHeader(fieldText(value)));
+}
+
+/**
+ * Provider field names:
+ * - Postmark: From/FromFull, To/ToFull, Cc, OriginalRecipient, Subject, HtmlBody, TextBody, Date, MessageID, RawEmail
+ * - SendGrid: from, to, cc, envelope (JSON), subject, html, text, email (raw MIME when "send raw" is on)
+ * - Mailgun: sender, from, recipient, To, subject, body-html, body-plain, Date, Message-Id, body-mime
+ */
+export function parseProviderFields(fields: Record<string, unknown>): ParsedEmail | null {
+  if (!fields || typeof fields !== 'object') return null;
+
+  const envelopeRecipients: EmailAddress[] = [
+    ...addressesOf(fields.OriginalRecipient),
+    ...addressesOf(fields.recipient),
+  ];
+  try {
+    const envelope = JSON.parse(fieldText(fields.envelope) || '{}');
+    envelopeRecipients.push(...addressesOf(envelope.to));
+  } catch {
+    // Not SendGrid
+  }
+
+  const raw = fields.RawEmail ?? fields['body-mime'] ?? fields.email;
+  let email: ParsedEmail;
+
+  if (raw) {
+    email = parseMimeMessage(Buffer.isBuffer(raw) ? raw : Buffer.from(fieldText(raw), 'utf8'));
+  } else {
+    const html = fieldText(fields.HtmlBody ?? fields.html ?? fields['body-html']);
+    const text = fieldText(fields.TextBody ?? fields.text ?? fields['body-plain']);
+    if (!html && !text) return null;
+
+    const date = new Date(fieldText(fields.Date ?? fields.date));
+    email = {
+      from: (fields.FromFull as any)?.Email
+        ? addressesOf([fields.FromFull])[0] || null
+        : addressesOf(fields.From ?? fields.from ?? fields.sender)[0] || null,
+      recipients: [
+        ...addressesOf(fields.ToFull ?? fields.To ?? fields.to),
+        ...addressesOf(fields.CcFull ?? fields.Cc ?? fields.cc),
+      ],
+      subject: decodeHeader(fieldText(fields.Subject ?? fields.subject)).trim(),
+      date: isNaN(date.getTime()) ? null : date.toISOString(),
+      messageId: fieldText(fields.MessageID ?? fields['Message-Id'] ?? fields['message-id']).replace(/^<|>$/g, '') || null,
+      html: html || null,
+      text: text || null,
+    };
+  }
+
+  // The envelope recipient is the one that routed the message here (the header To may be a list address)
+  const recipients = [...envelopeRecipients];
+  for (const address of email.recipients) {
+    if (!recipients.some(existing => existing.address === address.address)) {
+      recipients.push(address);
+    }
+  }
+
+  return { ...email, recipients };
+}
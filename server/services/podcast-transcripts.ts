@@ -0,0 +1,277 @@
+/**
+ * Podcast Transcript & Chapter Extraction (Podcasting 2.0 namespace)
+ *
+ * Episodes can link a transcript (<podcast:transcript>) in SRT, WebVTT,
+ * JSON or HTML form and a JSON chapters file (<podcast:chapters>).
+ * Transcripts become the item's fullText so podcasts are summarized from
+ * what was said rather than from show notes.
+ */
+
+import type { ItemMedia, MediaChapter } from '@shared/schema';
+import { htmlToText, type FeedEntry, type FeedTranscript } from './feed-ingestion/feed-parser';
+
+const FETCH_TIMEOUT = 15000;
+const MAX_FILE_BYTES = 5 * 1024 * 1024; // Transcripts of multi-hour episodes stay well under this
+
+export type TranscriptFormat = 'json' | 'vtt' | 'srt' | 'html' | 'text';
+
+export interface PodcastTranscriptSegment {
+  startSeconds: number | null; // null for formats without timing (HTML, plain text)
+  endSeconds: number | null;
+  speaker: string | null;
+  text: string;
+}
+
+// Formats with speakers and timing first
+const FORMAT_PREFERENCE: TranscriptFormat[] = ['json', 'vtt', 'srt', 'html', 'text'];
+
+/**
+ * Work out a transcript's format from its declared MIME type, falling back to the file extension
+ */
+export function detectTranscriptFormat(type: string | undefined, url: string = ''): TranscriptFormat {
+  const mime = (type || '').toLowerCase();
+  if (mime.includes('json')) return 'json';
+  if (mime.includes('vtt')) return 'vtt';
+  if (mime.includes('srt') || mime.includes('subrip')) return 'srt';
+  if (mime.includes('html')) return 'html';
+
+  const extension = url.split(/[?#]/)[0].split('.').pop()?.toLowerCase();
+  if (extension === 'json') return 'json';
+  if (extension === 'vtt') return 'vtt';
+  if (extension === 'srt') return 'srt';
+  if (extension === 'html' || extension === 'htm') return 'html';
+
+  return 'text';
+}
+
+/**
+ * Pick the richest transcript an episode offers
+ */
+export function selectTranscript(transcripts: FeedTranscript[]): FeedTranscript | null {
+  if (transcripts.length === 0) return null;
+
+  return [...transcripts].sort((a, b) =>
+    FORMAT_PREFERENCE.indexOf(detectTranscriptFormat(a.type, a.url))
+    - FORMAT_PREFERENCE.indexOf(detectTranscriptFormat(b.type, b.url))
+  )[0];
+}
+
+/**
+ * Item media from an entry's podcast namespace tags (files are fetched during enrichment)
+ */
+export function buildPodcastMedia(entry: FeedEntry): ItemMedia | null {
+  const transcript = selectTranscript(entry.transcripts);
+  if (!transcript && !entry.chaptersUrl && entry.persons.length === 0) return null;
+
+  return {
+    transcriptUrl: transcript?.url,
+    transcriptType: transcript?.type || undefined,
+    chaptersUrl: entry.chaptersUrl || undefined,
+    persons: entry.persons.length > 0 ? entry.persons : undefined,
+  };
+}
+
+/**
+ * Parse "HH:MM:SS,mmm" (SRT) / "HH:MM:SS.mmm" or "MM:SS.mmm" (VTT) into seconds
+ */
+function parseTimestamp(value: string): number | null {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{2})(?:[.,](\d{1,3}))?/);
+  if (!match) return null;
+
+  const [, hours, minutes, seconds, millis] = match;
+  return Number(hours || 0) * 3600
+    + Number(minutes) * 60
+    + Number(seconds)
+    + (millis ? Number(millis.padEnd(3, '0')) / 1000 : 0);
+}
+
+/**
+ * SRT and WebVTT share a cue structure: optional identifier, a
+ * "start --> end" timing line, then one or more text lines.
+ */
+function parseCues(body: string): PodcastTranscriptSegment[] {
+  const segments: PodcastTranscriptSegment[] = [];
+  const blocks = body.replace(/\r\n?/g, '\n').split(/\n{2,}/);
+
+  for (const block of blocks) {
+    const lines = block.split('\n').map(line => line.trim()).filter(Boolean);
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+    if (timingIndex === -1) continue; // WEBVTT header, NOTE and STYLE blocks
+
+    const [start, end] = lines[timingIndex].split('-->');
+    let text = lines.slice(timingIndex + 1).join(' ');
+    if (!text) continue;
+
+    // WebVTT voice spans: <v Speaker Name>text</v>
+    let speaker: string | null = null;
+    const voice = text.match(/<v(?:\.[^\s>]+)?\s+([^>]+)>/);
+    if (voice) speaker = voice[1].trim();
+
+    text = text.replace(/<[^>]+>/g, '').trim();
+
+    // SRT often prefixes lines with "Speaker:" instead
+    if (!speaker) {
+      const prefix = text.match(/^([A-Z][\w .'-]{0,40}):\s+(.+)$/);
+      if (prefix) {
+        speaker = prefix[1];
+        text = prefix[2];
+      }
+    }
+
+    segments.push({
+      startSeconds: parseTimestamp(start),
+      endSeconds: parseTimestamp(end),
+      speaker,
+      text,
+    });
+  }
+
+  return segments;
+}
+
+/**
+ * JSON transcripts: { version, segments: [{ speaker, startTime, endTime, body }] }
+ */
+function parseJsonTranscript(body: string): PodcastTranscriptSegment[] {
+  const json = JSON.parse(body);
+  const segments: any[] = Array.isArray(json?.segments) ? json.segments : [];
+
+  return segments
+    .filter(segment => typeof segment?.body === 'string' && segment.body.trim())
+    .map(segment => ({
+      startSeconds: typeof segment.startTime === 'number' ? segment.startTime : null,
+      endSeconds: typeof segment.endTime === 'number' ? segment.endTime : null,
+      speaker: typeof segment.speaker === 'string' ? segment.speaker : null,
+      text: segment.body.trim(),
+    }));
+}
+
+/**
+ * Parse a transcript file into segments
+ */
+export function parseTranscript(body: string, format: TranscriptFormat): PodcastTranscriptSegment[] {
+  switch (format) {
+    case 'json':
+      return parseJsonTranscript(body);
+    case 'vtt':
+    case 'srt':
+      return parseCues(body);
+    case 'html': {
+      const text = htmlToText(body);
+      return text ? [{ startSeconds: null, endSeconds: null, speaker: null, text }] : [];
+    }
+    default: {
+      const text = body.trim();
+      return text ? [{ startSeconds: null, endSeconds: null, speaker: null, text }] : [];
+    }
+  }
+}
+
+/**
+ * Flatten segments into readable text, starting a new paragraph when the speaker changes.
+ * Cue files split sentences across many short cues, so same-speaker cues are joined.
+ */
+export function transcriptToText(segments: PodcastTranscriptSegment[]): string {
+  const paragraphs: string[] = [];
+  let currentSpeaker: string | null = null;
+  let current: string[] = [];
+
+  const flush = () => {
+    if (current.length === 0) return;
+    const text = current.join(' ');
+    paragraphs.push(currentSpeaker ? `${currentSpeaker}: ${text}` : text);
+    current = [];
+  };
+
+  for (const segment of segments) {
+    if (segment.speaker && segment.speaker !== currentSpeaker) {
+      flush();
+      currentSpeaker = segment.speaker;
+    }
+    current.push(segment.text);
+  }
+  flush();
+
+  return paragraphs.join('\n\n').replace(/[ \t]+/g, ' ').trim();
+}
+
+async function fetchText(url: string, accept: string): Promise<string> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT);
+
+  try {
+    const response = await fetch(url, {
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (compatible; LucidFeed/1.0; +https://getlucidfeed.com)',
+        'Accept': accept,
+      },
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Status code ${response.status}`);
+    }
+
+    const length = Number(response.headers.get('content-length'));
+    if (length > MAX_FILE_BYTES) {
+      throw new Error(`File too large (${length} bytes)`);
+    }
+
+    const body = await response.text();
+    if (body.length > MAX_FILE_BYTES) {
+      throw new Error(`File too large (${body.length} chars)`);
+    }
+    return body;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Download and parse an episode transcript
+ */
+export async function fetchPodcastTranscript(
+  url: string,
+  type?: string
+): Promise<{ text: string; segments: PodcastTranscriptSegment[] } | null> {
+  try {
+    const format = detectTranscriptFormat(type, url);
+    const body = await fetchText(url, type || '*/*');
+    const segments = parseTranscript(body, format);
+    const text = transcriptToText(segments);
+
+    if (!text) {
+      console.log(`Empty podcast transcript: ${url}`);
+      return null;
+    }
+
+    return { text, segments };
+  } catch (error: any) {
+    console.error(`Error fetching podcast transcript ${url}:`, error?.message || error);
+    return null;
+  }
+}
+
+/**
+ * Download a JSON chapters file: { version, chapters: [{ startTime, title, url, img, toc }] }
+ */
+export async function fetchPodcastChapters(url: string): Promise<MediaChapter[]> {
+  try {
+    const json = JSON.parse(await fetchText(url, 'application/json+chapters, application/json'));
+    const chapters: any[] = Array.isArray(json?.chapters) ? json.chapters : [];
+
+    return chapters
+      .filter(chapter => typeof chapter?.startTime === 'number' && chapter.toc !== false) // toc=false marks silent markers
+      .map(chapter => ({
+        startSeconds: chapter.startTime,
+        endSeconds: typeof chapter.endTime === 'number' ? chapter.endTime : undefined,
+        title: typeof chapter.title === 'string' && chapter.title.trim() ? chapter.title.trim() : 'Untitled chapter',
+        url: typeof chapter.url === 'string' ? chapter.url : undefined,
+        imageUrl: typeof chapter.img === 'string' ? chapter.img : undefined,
+      }))
+      .sort((a, b) => a.startSeconds - b.startSeconds);
+  } catch (error: any) {
+    console.error(`Error fetching podcast chapters ${url}:`, error?.message || error);
+    return [];
+  }
+}
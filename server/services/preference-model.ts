@@ -0,0 +1,225 @@
+import { db } from "../db";
+import { items, savedItems, readItems, itemFolders, userRatings, userRankingModels, userFeedSubscriptions, userPreferences } from "../../shared/schema";
+import type { Item, PreferenceModel } from "../../shared/schema";
+import { and, eq, gte, inArray, notInArray, sql } from "drizzle-orm";
+import { storage } from "../storage";
+import { preferenceFeatures, type FeatureVector } from "../core/preference-features";
+
+const MIN_POSITIVES = 5; // Below this the user is cold-started on the global ranking
+const MAX_EXAMPLES = 2000;
+const NEGATIVES_PER_POSITIVE = 2;
+const NEGATIVE_WINDOW_DAYS = 90;
+
+// Example weights: a read is a weaker signal than a save; unopened items are only presumed uninteresting
+const READ_WEIGHT = 0.5;
+const IMPLICIT_NEGATIVE_WEIGHT = 0.5;
+
+const EPOCHS = 30;
+const LEARNING_RATE = 0.1;
+const L2_PENALTY = 0.01;
+const MIN_KEPT_WEIGHT = 0.001;
+
+// Share of the digest ordering that comes from the user's model; the rest is the global score
+const PERSONAL_WEIGHT = 0.4;
+
+interface TrainingExample {
+  features: FeatureVector;
+  label: 0 | 1;
+  weight: number;
+}
+
+function sigmoid(z: number): number {
+  return 1 / (1 + Math.exp(-z));
+}
+
+export function preferenceProbability(model: PreferenceModel, features: FeatureVector): number {
+  let z = model.bias;
+  for (const [name, value] of Object.entries(features)) {
+    z += (model.weights[name] ?? 0) * value;
+  }
+  return sigmoid(z);
+}
+
+/**
+ * Weighted logistic regression by stochastic gradient descent with L2
+ * regularization. Examples are visited in a fixed order, so retraining on the
+ * same interactions gives the same model.
+ */
+function trainLogistic(examples: TrainingExample[]): PreferenceModel {
+  const model: PreferenceModel = { bias: 0, weights: {} };
+
+  for (let epoch = 0; epoch < EPOCHS; epoch++) {
+    const rate = LEARNING_RATE / (1 + epoch * 0.1);
+    for (const example of examples) {
+      const gradient = (preferenceProbability(model, example.features) - example.label) * example.weight;
+      model.bias -= rate * gradient;
+      for (const [name, value] of Object.entries(example.features)) {
+        const weight = model.weights[name] ?? 0;
+        model.weights[name] = weight - rate * (gradient * value + L2_PENALTY * weight);
+      }
+    }
+  }
+
+  for (const [name, weight] of Object.entries(model.weights)) {
+    if (Math.abs(weight) < MIN_KEPT_WEIGHT) delete model.weights[name];
+    else model.weights[name] = Math.round(weight * 10000) / 10000;
+  }
+  return model;
+}
+
+async function methodologiesFor(itemIds: string[]): Promise<Map<string, string>> {
+  if (itemIds.length === 0) return new Map();
+  const summaries = await storage.getSummariesByItemIds(itemIds);
+  return new Map(summaries.map(summary => [summary.itemId, summary.methodology]));
+}
+
+/**
+ * Label the user's interactions: reads are weak positives, saves and folder
+ * assignments positives, and ratings override both (4-5 stars positive, 1-2
+ * negative, 3 neutral). Presumed negatives are sampled from recent items in
+ * the user's feeds that they never touched.
+ */
+async function collectExamples(userId: string): Promise<{ examples: TrainingExample[]; positives: number; negatives: number }> {
+  const [reads, saves, filed, ratings] = await Promise.all([
+    db.select({ itemId: readItems.itemId }).from(readItems).where(eq(readItems.userId, userId)),
+    db.select({ itemId: savedItems.itemId }).from(savedItems).where(eq(savedItems.userId, userId)),
+    db.select({ itemId: itemFolders.itemId }).from(itemFolders).where(eq(itemFolders.userId, userId)),
+    db.select({ itemId: userRatings.itemId, rating: userRatings.rating }).from(userRatings).where(eq(userRatings.userId, userId)),
+  ]);
+
+  const labels = new Map<string, { label: 0 | 1; weight: number }>();
+  for (const { itemId } of reads) labels.set(itemId, { label: 1, weight: READ_WEIGHT });
+  for (const { itemId } of [...saves, ...filed]) labels.set(itemId, { label: 1, weight: 1 });
+  for (const { itemId, rating } of ratings) {
+    if (rating >= 4) labels.set(itemId, { label: 1, weight: 1 });
+    else if (rating <= 2) labels.set(itemId, { label: 0, weight: 1 });
+    else labels.delete(itemId);
+  }
+
+  const labeledIds = Array.from(labels.keys()).slice(-MAX_EXAMPLES);
+  const positiveCount = labeledIds.filter(id => labels.get(id)!.label === 1).length;
+  if (positiveCount < MIN_POSITIVES) {
+    return { examples: [], positives: positiveCount, negatives: 0 };
+  }
+
+  const labeledItems = await db.select().from(items).where(inArray(items.id, labeledIds));
+
+  const subscriptions = await db
+    .select({ feedId: userFeedSubscriptions.feedId })
+    .from(userFeedSubscriptions)
+    .where(eq(userFeedSubscriptions.userId, userId));
+  const since = new Date(Date.now() - NEGATIVE_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const untouched = await db
+    .select()
+    .from(items)
+    .where(and(
+      gte(items.publishedAt, since),
+      notInArray(items.id, labeledIds),
+      subscriptions.length > 0 ? inArray(items.feedId, subscriptions.map(sub => sub.feedId)) : undefined,
+    ))
+    .orderBy(sql`random()`)
+    .limit(positiveCount * NEGATIVES_PER_POSITIVE);
+
+  const methodologies = await methodologiesFor([...labeledItems, ...untouched].map(item => item.id));
+  const examples: TrainingExample[] = [
+    ...labeledItems.map(item => ({ features: preferenceFeatures(item, methodologies.get(item.id)), ...labels.get(item.id)! })),
+    ...untouched.map(item => ({
+      features: preferenceFeatures(item, methodologies.get(item.id)),
+      label: 0 as const,
+      weight: IMPLICIT_NEGATIVE_WEIGHT,
+    })),
+  ];
+
+  return {
+    examples,
+    positives: examples.filter(example => example.label === 1).length,
+    negatives: examples.filter(example => example.label === 0).length,
+  };
+}
+
+/**
+ * Retrain one user's model. Users without enough positive interactions have
+ * any old model removed, so their digests fall back to the global ranking.
+ */
+export async function trainUserModel(userId: string): Promise<{ trained: boolean; positives: number; negatives: number }> {
+  const { examples, positives, negatives } = await collectExamples(userId);
+  if (examples.length === 0) {
+    await db.delete(userRankingModels).where(eq(userRankingModels.userId, userId));
+    return { trained: false, positives, negatives };
+  }
+
+  const model = trainLogistic(examples);
+  await db
+    .insert(userRankingModels)
+    .values({ userId, model, positives, negatives, trainedAt: new Date() })
+    .onConflictDoUpdate({
+      target: userRankingModels.userId,
+      set: { model, positives, negatives, trainedAt: new Date() },
+    });
+
+  return { trained: true, positives, negatives };
+}
+
+/**
+ * Nightly retrain for every user with feedback who hasn't turned personalization off
+ */
+export async function trainAllUserModels(): Promise<{ trained: number; coldStart: number; failed: number }> {
+  const interacted = await Promise.all([
+    db.selectDistinct({ userId: savedItems.userId }).from(savedItems),
+    db.selectDistinct({ userId: readItems.userId }).from(readItems),
+    db.selectDistinct({ userId: itemFolders.userId }).from(itemFolders),
+    db.selectDistinct({ userId: userRatings.userId }).from(userRatings),
+  ]);
+  const userIds = Array.from(new Set(interacted.flat().map(row => row.userId)));
+  const optedOut = new Set(
+    (await db.select({ userId: userPreferences.userId }).from(userPreferences).where(eq(userPreferences.personalizedRanking, false)))
+      .map(row => row.userId)
+  );
+
+  let trained = 0;
+  let coldStart = 0;
+  let failed = 0;
+
+  for (const userId of userIds) {
+    if (optedOut.has(userId)) continue;
+    try {
+      const result = await trainUserModel(userId);
+      if (result.trained) trained++;
+      else coldStart++;
+    } catch (error) {
+      failed++;
+      console.error(`Error training preference model for user ${userId}:`, error);
+    }
+  }
+
+  return { trained, coldStart, failed };
+}
+
+/**
+ * Re-rank globally ranked candidates for the user: each item's global score
+ * (0-100) is blended with the model's probability that the user engages with
+ * it. Returns null when the user turned personalization off or has no model
+ * yet (cold start), so the caller keeps the global order.
+ */
+export async function personalizeRanking(
+  userId: string,
+  rankedItems: Item[]
+): Promise<{ items: Item[]; preferences: Map<string, number>; weight: number } | null> {
+  const prefs = await storage.getUserPreferences(userId);
+  if (prefs && !prefs.personalizedRanking) return null;
+
+  const [stored] = await db.select().from(userRankingModels).where(eq(userRankingModels.userId, userId)).limit(1);
+  if (!stored) return null;
+
+  const methodologies = await methodologiesFor(rankedItems.map(item => item.id));
+  const preferences = new Map(rankedItems.map(item => [
+    item.id,
+    preferenceProbability(stored.model, preferenceFeatures(item, methodologies.get(item.id))),
+  ]));
+  const items = rankedItems
+    .map(item => ({ item, blended: (1 - PERSONAL_WEIGHT) * ((item.score ?? 0) / 100) + PERSONAL_WEIGHT * preferences.get(item.id)! }))
+    .sort((a, b) => b.blended - a.blended)
+    .map(({ item }) => item);
+
+  return { items, preferences, weight: PERSONAL_WEIGHT };
+}
@@ -0,0 +1,59 @@
+import { db } from "../db";
+import { items } from "../../shared/schema";
+import { and, asc, eq, gt, isNull, ne, or, type SQL } from "drizzle-orm";
+import { buildRankingContext, getRankingStrategy, scoreItem } from "../core/ranking";
+
+const BATCH_SIZE = 500;
+
+/**
+ * Rescore stored items with the default ranking strategy. By default only
+ * items scored by another strategy or an older version (or never scored) are
+ * touched; `all` rescores everything, e.g. after recency has moved on.
+ * Batch-relative signals are computed within each batch of BATCH_SIZE items.
+ */
+export async function rescoreArchive(options: { all?: boolean; limit?: number } = {}): Promise<{
+  strategy: string;
+  version: number;
+  rescored: number;
+}> {
+  const strategy = getRankingStrategy()!;
+  const outdated = or(
+    isNull(items.rankingStrategy),
+    ne(items.rankingStrategy, strategy.name),
+    isNull(items.rankingVersion),
+    ne(items.rankingVersion, strategy.version),
+  );
+
+  let rescored = 0;
+  let lastId: string | null = null;
+
+  while (options.limit === undefined || rescored < options.limit) {
+    const conditions: SQL[] = [];
+    if (!options.all) conditions.push(outdated!);
+    if (lastId) conditions.push(gt(items.id, lastId));
+
+    const batchSize: number = options.limit === undefined ? BATCH_SIZE : Math.min(BATCH_SIZE, options.limit - rescored);
+    const batch = await db
+      .select()
+      .from(items)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(items.id))
+      .limit(batchSize);
+    if (batch.length === 0) break;
+
+    const context = buildRankingContext(batch);
+    for (const item of batch) {
+      const ranking = scoreItem(item, strategy, context);
+      await db
+        .update(items)
+        .set({ score: Math.round(ranking.score), rankingStrategy: ranking.strategy, rankingVersion: ranking.version })
+        .where(eq(items.id, item.id));
+    }
+
+    rescored += batch.length;
+    lastId = batch[batch.length - 1].id;
+    console.log(`🔢 Rescored ${rescored} items with ${strategy.name} v${strategy.version}`);
+  }
+
+  return { strategy: strategy.name, version: strategy.version, rescored };
+}
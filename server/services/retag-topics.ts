@@ -0,0 +1,75 @@
+import { db } from "../db";
+import { items, feedCatalog } from "../../shared/schema";
+import { asc, eq, gt } from "drizzle-orm";
+import { classifyTopics } from "./topic-classifier";
+import { loadTopicTaxonomy, resolveTopics, resolveTopicScores, topicDescriptions, topicMatchers } from "./taxonomy";
+
+const BATCH_SIZE = 200;
+
+/**
+ * Re-runs the topic classifier over stored items, e.g. after the keyword
+ * patterns change. Items are classified from their text plus their feed's
+ * current catalog topics; their stored topics are not reused, so tags from
+ * older patterns don't linger.
+ */
+export async function retagItemTopics(options: { useEmbeddings?: boolean; limit?: number } = {}): Promise<{
+  scanned: number;
+  updated: number;
+  untagged: number;
+  byMethod: Record<string, number>;
+}> {
+  await loadTopicTaxonomy();
+  const feeds = await db.select({ id: feedCatalog.id, topics: feedCatalog.topics }).from(feedCatalog);
+  const feedTopics = new Map(feeds.map(feed => [feed.id, resolveTopics(feed.topics)]));
+
+  let scanned = 0;
+  let updated = 0;
+  let untagged = 0;
+  const byMethod: Record<string, number> = {};
+  let lastId = '';
+
+  while (!options.limit || scanned < options.limit) {
+    const pageSize = options.limit ? Math.min(BATCH_SIZE, options.limit - scanned) : BATCH_SIZE;
+    const batch = await db
+      .select({
+        id: items.id,
+        title: items.title,
+        rawExcerpt: items.rawExcerpt,
+        fullText: items.fullText,
+        feedId: items.feedId,
+        topics: items.topics,
+        topicScores: items.topicScores,
+      })
+      .from(items)
+      .where(gt(items.id, lastId))
+      .orderBy(asc(items.id))
+      .limit(pageSize);
+
+    if (batch.length === 0) break;
+
+    for (const item of batch) {
+      const assigned = item.feedId ? feedTopics.get(item.feedId) ?? [] : [];
+      const topicScores = resolveTopicScores(await classifyTopics(item, assigned, {
+        useEmbeddings: options.useEmbeddings,
+        matchers: topicMatchers(),
+        descriptions: topicDescriptions(),
+      }));
+      const topics = topicScores.map(score => score.topic);
+
+      for (const score of topicScores) {
+        byMethod[score.method] = (byMethod[score.method] || 0) + 1;
+      }
+      if (topics.length === 0) untagged++;
+
+      if (JSON.stringify(topicScores) !== JSON.stringify(item.topicScores)) {
+        await db.update(items).set({ topics, topicScores }).where(eq(items.id, item.id));
+        updated++;
+      }
+    }
+
+    scanned += batch.length;
+    lastId = batch[batch.length - 1].id;
+  }
+
+  return { scanned, updated, untagged, byMethod };
+}
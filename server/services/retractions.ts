@@ -0,0 +1,296 @@
+import { db } from "../db";
+import { items, savedItems, itemFolders, retractionWatchEntries, integrityStatuses } from "../../shared/schema";
+import type { Digest, DigestSectionItem, Item, IntegrityStatus, ItemIntegrity, ItemIntegrityNotice } from "../../shared/schema";
+import { and, eq, inArray, isNotNull, isNull, lt, or, sql } from "drizzle-orm";
+import { storage } from "../storage";
+import { fetchUpdateRelations, type CrossrefUpdate } from "./crossref";
+import { applyIntegrityToScore } from "../core/quality-scoring";
+
+const RECHECK_DAYS = 7;
+const FAILED_RECHECK_HOURS = 20; // Under a day, so a DOI Crossref failed on is due again at the next nightly run
+const DEFAULT_CHECK_LIMIT = 500;
+const CROSSREF_DELAY_MS = 200; // Stay well inside the polite pool
+
+// Crossref update types and Retraction Watch "RetractionNature" values, normalized
+// to snake_case. Anything else (addendum, reinstatement, new_version...) is ignored.
+const NOTICE_STATUSES: Record<string, IntegrityStatus> = {
+  retraction: 'retracted',
+  partial_retraction: 'retracted',
+  withdrawal: 'retracted',
+  removal: 'retracted',
+  expression_of_concern: 'expression_of_concern',
+  correction: 'corrected',
+  erratum: 'corrected',
+  corrigendum: 'corrected',
+};
+
+const STATUS_LABELS: Record<IntegrityStatus, string> = {
+  retracted: 'has been retracted',
+  expression_of_concern: 'has an expression of concern from its publisher',
+  corrected: 'has been corrected',
+};
+
+const STATUS_SEVERITY: Record<IntegrityStatus, 'error' | 'warning' | 'info'> = {
+  retracted: 'error',
+  expression_of_concern: 'warning',
+  corrected: 'info',
+};
+
+type FlaggableItem = Pick<Item, 'id' | 'title' | 'integrity' | 'scoreBreakdown'>;
+
+export function noticeStatus(type: string): IntegrityStatus | null {
+  const normalized = type.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  return NOTICE_STATUSES[normalized] ?? null;
+}
+
+export function normalizeDoi(doi: string): string {
+  return doi.trim().toLowerCase().replace(/^https?:\/\/(dx\.)?doi\.org\//, '').replace(/^doi:/, '');
+}
+
+function updateDate(update: CrossrefUpdate): string | undefined {
+  const parts = update.updated?.['date-parts']?.[0];
+  if (!parts || parts.length === 0) return undefined;
+  return parts.map(part => String(part).padStart(2, '0')).join('-');
+}
+
+function mostSevere(notices: ItemIntegrityNotice[]): IntegrityStatus {
+  return integrityStatuses.find(status => notices.some(notice => notice.status === status)) ?? 'corrected';
+}
+
+/**
+ * What a digest card shows: the current status and the notice behind it
+ */
+export function summarizeIntegrity(integrity: ItemIntegrity | null | undefined): DigestSectionItem['integrity'] {
+  if (!integrity) return undefined;
+  const notice = integrity.notices.find(n => n.status === integrity.status);
+  return { status: integrity.status, noticeDoi: notice?.noticeDoi, date: notice?.date };
+}
+
+/**
+ * Merge notices into every item holding the DOI. When an item's status changes,
+ * its credibility is rescored for the status (see applyIntegrityToScore) and
+ * users who saved or filed it are notified.
+ * Returns the number of items whose status changed.
+ */
+async function flagItems(rows: FlaggableItem[], notices: ItemIntegrityNotice[]): Promise<number> {
+  let changed = 0;
+
+  for (const item of rows) {
+    const existing = item.integrity?.notices ?? [];
+    const added = notices.filter(notice => !existing.some(e =>
+      e.status === notice.status && e.source === notice.source && e.noticeDoi === notice.noticeDoi
+    ));
+    if (added.length === 0) continue;
+
+    const merged = [...existing, ...added];
+    const status = mostSevere(merged);
+    const statusChanged = status !== item.integrity?.status;
+    const integrity: ItemIntegrity = {
+      status,
+      notices: merged,
+      flaggedAt: statusChanged ? new Date().toISOString() : item.integrity!.flaggedAt,
+    };
+    const scoreBreakdown = item.scoreBreakdown ? applyIntegrityToScore(item.scoreBreakdown, integrity) : null;
+
+    await db
+      .update(items)
+      .set({
+        integrity,
+        ...(scoreBreakdown ? { scoreBreakdown, score: Math.round(scoreBreakdown.totalScore) } : {}),
+      })
+      .where(eq(items.id, item.id));
+
+    if (statusChanged) {
+      changed++;
+      await notifyItemHolders(item, integrity);
+    }
+  }
+
+  return changed;
+}
+
+async function notifyItemHolders(item: FlaggableItem, integrity: ItemIntegrity): Promise<void> {
+  const [savers, filers] = await Promise.all([
+    db.select({ userId: savedItems.userId }).from(savedItems).where(eq(savedItems.itemId, item.id)),
+    db.select({ userId: itemFolders.userId }).from(itemFolders).where(eq(itemFolders.itemId, item.id)),
+  ]);
+  const userIds = Array.from(new Set([...savers, ...filers].map(row => row.userId)));
+  if (userIds.length === 0) return;
+
+  const notice = integrity.notices.find(n => n.status === integrity.status);
+  const details = [
+    notice?.noticeDoi ? `Notice: https://doi.org/${notice.noticeDoi}` : null,
+    notice?.reason ? `Reason: ${notice.reason}` : null,
+  ].filter(Boolean).join(' | ');
+
+  for (const userId of userIds) {
+    await storage.saveFeedNotification({
+      userId,
+      feedId: null,
+      itemId: item.id,
+      severity: STATUS_SEVERITY[integrity.status],
+      message: `"${item.title}" ${STATUS_LABELS[integrity.status]}.`,
+      technicalDetails: details || null,
+      actionType: 'integrity',
+      actionRequired: false,
+    });
+  }
+  console.log(`🔔 Notified ${userIds.length} user(s) that item ${item.id} ${STATUS_LABELS[integrity.status]}`);
+}
+
+async function itemsWithDoi(doi: string): Promise<FlaggableItem[]> {
+  return db
+    .select({ id: items.id, title: items.title, integrity: items.integrity, scoreBreakdown: items.scoreBreakdown })
+    .from(items)
+    .where(sql`lower(${items.doi}) = ${doi}`);
+}
+
+/**
+ * Flag items found in the imported Retraction Watch database. Cheap enough to
+ * run over every DOI we hold, so it doesn't wait for the Crossref recheck.
+ */
+export async function applyRetractionWatch(): Promise<{ matched: number; flagged: number }> {
+  const rows = await db
+    .select({
+      id: items.id,
+      title: items.title,
+      integrity: items.integrity,
+      scoreBreakdown: items.scoreBreakdown,
+      entry: retractionWatchEntries,
+    })
+    .from(items)
+    .innerJoin(retractionWatchEntries, sql`lower(${items.doi}) = ${retractionWatchEntries.originalDoi}`);
+
+  let flagged = 0;
+  for (const { entry, ...item } of rows) {
+    const status = noticeStatus(entry.nature);
+    if (!status) continue;
+    flagged += await flagItems([item], [{
+      status,
+      source: 'retraction_watch',
+      noticeDoi: entry.noticeDoi || undefined,
+      date: entry.noticeDate || undefined,
+      reason: entry.reason || undefined,
+    }]);
+  }
+
+  return { matched: rows.length, flagged };
+}
+
+/**
+ * Check held DOIs against Crossref's update relations. A DOI's own `updated-by`
+ * notices flag it; when the DOI is itself a notice, its `update-to` targets are
+ * flagged instead. DOIs are rechecked every RECHECK_DAYS days; one Crossref
+ * failed on is stamped so it comes due again after FAILED_RECHECK_HOURS, rather
+ * than staying at the head of every batch.
+ */
+export async function checkCrossrefUpdates(limit: number = DEFAULT_CHECK_LIMIT): Promise<{
+  checked: number;
+  flagged: number;
+  failed: number;
+}> {
+  const recheckBefore = new Date(Date.now() - RECHECK_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const due = await db
+    .select({ id: items.id, doi: items.doi })
+    .from(items)
+    .where(and(
+      isNotNull(items.doi),
+      or(isNull(items.integrityCheckedAt), lt(items.integrityCheckedAt, recheckBefore)),
+    ))
+    .orderBy(sql`${items.integrityCheckedAt} asc nulls first`)
+    .limit(limit);
+
+  const itemIdsByDoi = new Map<string, string[]>();
+  for (const row of due) {
+    const doi = normalizeDoi(row.doi!);
+    itemIdsByDoi.set(doi, [...(itemIdsByDoi.get(doi) ?? []), row.id]);
+  }
+
+  let checked = 0;
+  let flagged = 0;
+  let failed = 0;
+
+  const failedCheckedAt = new Date(
+    Date.now() - RECHECK_DAYS * 24 * 60 * 60 * 1000 + FAILED_RECHECK_HOURS * 60 * 60 * 1000
+  ).toISOString();
+
+  for (const [doi, itemIds] of Array.from(itemIdsByDoi.entries())) {
+    const relations = await fetchUpdateRelations(doi);
+    await new Promise(resolve => setTimeout(resolve, CROSSREF_DELAY_MS));
+    if (!relations) {
+      await db
+        .update(items)
+        .set({ integrityCheckedAt: failedCheckedAt })
+        .where(inArray(items.id, itemIds));
+      failed++;
+      continue;
+    }
+
+    const notices: ItemIntegrityNotice[] = [];
+    for (const update of relations.updatedBy) {
+      const status = noticeStatus(update.type);
+      if (status) notices.push({ status, source: 'crossref', noticeDoi: normalizeDoi(update.DOI), date: updateDate(update) });
+    }
+    if (notices.length > 0) {
+      flagged += await flagItems(await itemsWithDoi(doi), notices);
+    }
+
+    for (const update of relations.updateTo) {
+      const status = noticeStatus(update.type);
+      if (!status) continue;
+      const targets = await itemsWithDoi(normalizeDoi(update.DOI));
+      if (targets.length > 0) {
+        flagged += await flagItems(targets, [{ status, source: 'crossref', noticeDoi: doi, date: updateDate(update) }]);
+      }
+    }
+
+    await db
+      .update(items)
+      .set({ integrityCheckedAt: new Date().toISOString() })
+      .where(inArray(items.id, itemIds));
+    checked++;
+  }
+
+  return { checked, flagged, failed };
+}
+
+/**
+ * Nightly integrity check: Retraction Watch first (local), then a batch of
+ * Crossref lookups.
+ */
+export async function checkRetractions(options: { limit?: number } = {}): Promise<{
+  retractionWatch: { matched: number; flagged: number };
+  crossref: { checked: number; flagged: number; failed: number };
+}> {
+  const retractionWatch = await applyRetractionWatch();
+  const crossref = await checkCrossrefUpdates(options.limit);
+  return { retractionWatch, crossref };
+}
+
+/**
+ * Stored digests are snapshots; overlay the current flags so an item retracted
+ * after its digest went out is still badged.
+ */
+export async function withCurrentIntegrity(digest: Digest): Promise<Digest> {
+  const sections = digest.sections as Record<string, unknown>;
+  const sectionItems = Object.values(sections)
+    .filter((value): value is DigestSectionItem[] => Array.isArray(value))
+    .flat();
+  if (sectionItems.length === 0) return digest;
+
+  const flagged = await db
+    .select({ id: items.id, integrity: items.integrity })
+    .from(items)
+    .where(and(inArray(items.id, sectionItems.map(item => item.itemId)), isNotNull(items.integrity)));
+  if (flagged.length === 0) return digest;
+
+  const integrityById = new Map(flagged.map(row => [row.id, summarizeIntegrity(row.integrity)]));
+  const overlaid: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(sections)) {
+    overlaid[key] = Array.isArray(value)
+      ? (value as DigestSectionItem[]).map(item =>
+          integrityById.has(item.itemId) ? { ...item, integrity: integrityById.get(item.itemId) } : item)
+      : value;
+  }
+  return { ...digest, sections: overlaid };
+}
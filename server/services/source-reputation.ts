@@ -0,0 +1,176 @@
+import { nanoid } from "nanoid";
+import { db } from "../db";
+import { items, savedItems, userRatings, feedCatalog, feedHealthAttempts, sourceReputations } from "../../shared/schema";
+import type { SourceReputation, SourceReputationInputs, ReputationSubject } from "../../shared/schema";
+import { and, avg, count, desc, eq, gte, lt, sql, type SQL } from "drizzle-orm";
+import { computeReputation, normalizeAuthorKey } from "../core/reputation";
+
+const WINDOW_DAYS = 180;
+const MIN_ITEMS = 3; // Fewer items in the window than this and the subject keeps its previous reputation
+const HISTORY_DAYS = 365;
+const INSERT_BATCH_SIZE = 500;
+
+type TrackRecord = Omit<SourceReputationInputs, 'healingAttempts' | 'healingFailures'>;
+
+/**
+ * Track record per subject over items published since `since`, keyed by `key`
+ * (the item's first feed, or its normalized author/channel)
+ */
+async function collectTrackRecords(key: SQL<string | null>, since: string): Promise<Map<string, TrackRecord>> {
+  const inWindow = and(gte(items.publishedAt, since), sql`${key} IS NOT NULL`);
+
+  const [itemRows, ratingRows, saveRows] = await Promise.all([
+    db
+      .select({
+        key,
+        items: count(),
+        avgContentQuality: sql<string | null>`AVG((${items.scoreBreakdown}->>'contentQuality')::float)`,
+        retracted: sql<string>`COUNT(*) FILTER (WHERE ${items.integrity}->>'status' IN ('retracted', 'expression_of_concern'))`,
+        corrected: sql<string>`COUNT(*) FILTER (WHERE ${items.integrity}->>'status' = 'corrected')`,
+      })
+      .from(items)
+      .where(inWindow)
+      .groupBy(key),
+    db
+      .select({ key, ratings: count(), avgRating: avg(userRatings.rating) })
+      .from(userRatings)
+      .innerJoin(items, eq(userRatings.itemId, items.id))
+      .where(inWindow)
+      .groupBy(key),
+    db
+      .select({ key, saves: count() })
+      .from(savedItems)
+      .innerJoin(items, eq(savedItems.itemId, items.id))
+      .where(inWindow)
+      .groupBy(key),
+  ]);
+
+  const ratings = new Map(ratingRows.map(row => [row.key, row]));
+  const saves = new Map(saveRows.map(row => [row.key, row.saves]));
+  const records = new Map<string, TrackRecord>();
+  for (const row of itemRows) {
+    if (!row.key) continue;
+    const rating = ratings.get(row.key);
+    records.set(row.key, {
+      items: row.items,
+      avgContentQuality: row.avgContentQuality !== null ? Math.round(Number(row.avgContentQuality) * 10) / 10 : null,
+      ratings: rating?.ratings ?? 0,
+      avgRating: rating?.avgRating != null ? Math.round(Number(rating.avgRating) * 100) / 100 : null,
+      saves: saves.get(row.key) ?? 0,
+      retracted: Number(row.retracted),
+      corrected: Number(row.corrected),
+    });
+  }
+  return records;
+}
+
+/**
+ * Nightly: compute a reputation for every feed and author/channel with enough
+ * recent items, append it to the history, and copy feed reputations into
+ * feedCatalog.qualityScore for catalog sorting. New items pick the latest
+ * reputation up as a credibility signal when they're enriched.
+ */
+export async function computeSourceReputations(): Promise<{ feeds: number; authors: number; pruned: number }> {
+  const now = new Date();
+  const since = new Date(now.getTime() - WINDOW_DAYS * 24 * 60 * 60 * 1000);
+  const authorKey = sql<string | null>`regexp_replace(lower(trim(${items.authorOrChannel})), '\\s+', ' ', 'g')`;
+
+  const [feedRecords, authorRecords, healingRows] = await Promise.all([
+    collectTrackRecords(sql<string | null>`${items.feedId}`, since.toISOString()),
+    collectTrackRecords(authorKey, since.toISOString()),
+    db
+      .select({
+        feedId: feedHealthAttempts.feedId,
+        attempts: count(),
+        failures: sql<string>`COUNT(*) FILTER (WHERE NOT ${feedHealthAttempts.tacticSucceeded})`,
+      })
+      .from(feedHealthAttempts)
+      .where(gte(feedHealthAttempts.attemptedAt, since))
+      .groupBy(feedHealthAttempts.feedId),
+  ]);
+  const healing = new Map(healingRows.map(row => [row.feedId, row]));
+
+  // Save rates are judged against the catalog as a whole
+  const allFeeds = Array.from(feedRecords.values());
+  const totalItems = allFeeds.reduce((sum, record) => sum + record.items, 0);
+  const catalogSaveRate = totalItems > 0 ? allFeeds.reduce((sum, record) => sum + record.saves, 0) / totalItems : 0;
+
+  const rows: Array<typeof sourceReputations.$inferInsert> = [];
+  const feedScores = new Map<string, number>();
+
+  for (const [feedId, record] of Array.from(feedRecords.entries())) {
+    if (record.items < MIN_ITEMS) continue;
+    const attempts = healing.get(feedId);
+    const inputs: SourceReputationInputs = {
+      ...record,
+      healingAttempts: attempts?.attempts ?? 0,
+      healingFailures: Number(attempts?.failures ?? 0),
+    };
+    const { score, components } = computeReputation(inputs, catalogSaveRate);
+    rows.push({ id: nanoid(), subjectType: 'feed', subjectKey: feedId, score, components, inputs, computedAt: now });
+    feedScores.set(feedId, score);
+  }
+
+  let authors = 0;
+  for (const [author, record] of Array.from(authorRecords.entries())) {
+    if (record.items < MIN_ITEMS) continue;
+    const { score, components } = computeReputation(record, catalogSaveRate);
+    rows.push({ id: nanoid(), subjectType: 'author', subjectKey: author, score, components, inputs: record, computedAt: now });
+    authors++;
+  }
+
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    await db.insert(sourceReputations).values(rows.slice(i, i + INSERT_BATCH_SIZE));
+  }
+
+  // Feed ids come from items, so ones whose feed was deleted simply match nothing
+  for (const [feedId, score] of Array.from(feedScores.entries())) {
+    await db.update(feedCatalog).set({ qualityScore: score }).where(eq(feedCatalog.id, feedId));
+  }
+
+  const pruned = await db
+    .delete(sourceReputations)
+    .where(lt(sourceReputations.computedAt, new Date(now.getTime() - HISTORY_DAYS * 24 * 60 * 60 * 1000)))
+    .returning({ id: sourceReputations.id });
+
+  return { feeds: feedScores.size, authors, pruned: pruned.length };
+}
+
+async function latestReputation(subjectType: ReputationSubject, subjectKey: string): Promise<SourceReputation | undefined> {
+  const [latest] = await db
+    .select()
+    .from(sourceReputations)
+    .where(and(eq(sourceReputations.subjectType, subjectType), eq(sourceReputations.subjectKey, subjectKey)))
+    .orderBy(desc(sourceReputations.computedAt))
+    .limit(1);
+  return latest;
+}
+
+/**
+ * Latest reputation score (0-100) for an item's source: its feed's when the
+ * feed has one, else its author's/channel's. Null when neither has been computed.
+ */
+export async function getSourceReputation(feedId: string | null | undefined, authorOrChannel: string | null | undefined): Promise<number | null> {
+  if (feedId) {
+    const feed = await latestReputation('feed', feedId);
+    if (feed) return feed.score;
+  }
+  if (authorOrChannel) {
+    const author = await latestReputation('author', normalizeAuthorKey(authorOrChannel));
+    if (author) return author.score;
+  }
+  return null;
+}
+
+/**
+ * A feed's reputation history, oldest first
+ */
+export async function getFeedReputationHistory(feedId: string, limit: number = 60): Promise<SourceReputation[]> {
+  const history = await db
+    .select()
+    .from(sourceReputations)
+    .where(and(eq(sourceReputations.subjectType, 'feed'), eq(sourceReputations.subjectKey, feedId)))
+    .orderBy(desc(sourceReputations.computedAt))
+    .limit(limit);
+  return history.reverse();
+}
@@ -1,17 +1,29 @@
 import OpenAI from 'openai';
 import type { Item, InsertSummary, Methodology, EvidenceLevel } from '@shared/schema';
 import { calculateTokenCost, type TokenUsage } from '../utils/token-pricing';
+import { isDiscussionSource } from '../sources/community';
+import { selectPaperSections } from '../core/paper-sections';
+import { formatTimedTranscript, parseKeyMoments } from '../core/key-moments';
 
 const openai = new OpenAI({
   baseURL: process.env.AI_INTEGRATIONS_OPENAI_BASE_URL,
   apiKey: process.env.AI_INTEGRATIONS_OPENAI_API_KEY,
 });
 
+const SUMMARY_MAX_CHARS = 10000;
+
 export interface SummaryWithCost extends InsertSummary {
   tokenUsage?: TokenUsage & { cost: number };
 }
 
+const KEY_MOMENTS_PROMPT = `
+
+The content is a timed transcript: each line starts with the time it was said, as [mm:ss] or [h:mm:ss]. Also return "keyMoments": the 3-8 moments a busy clinician would most want to jump to, in order, as [{"startSeconds": <that line's timestamp in seconds>, "title": "<what is discussed, under 10 words>"}].`;
+
 export async function generateSummary(item: Item): Promise<SummaryWithCost> {
+  // Videos and podcasts with a timed transcript also get key moments
+  const transcriptCues = item.media?.transcript || [];
+
   const systemPrompt = `You are a functional medicine expert who summarizes scientific articles and health content for medical practitioners.
 
 Your task: Extract comprehensive insights and detailed clinical takeaways from content, and classify the methodology and evidence level.
@@ -38,26 +50,42 @@ Methodology types:
 - Preprint: Preprint (not yet peer-reviewed)
 - NA: Not applicable (for social media, YouTube, general discussions)
 
-Focus on extracting maximum clinical value from the content.`;
+Focus on extracting maximum clinical value from the content.${transcriptCues.length > 0 ? KEY_MOMENTS_PROMPT : ''}`;
 
   // Use full text if available, otherwise use excerpt
   // For journal articles, this will be the complete PDF text (if open access)
   // For YouTube, this will be the full transcript
+  // For podcasts, this will be the Podcasting 2.0 transcript (speaker-labelled) when the feed links one
   // For Reddit/Substack, this will be the full post
   const contentToAnalyze = item.fullText || item.rawExcerpt;
   
-  // Truncate very long content (>10k chars) to manage token limits
-  const truncatedContent = contentToAnalyze.length > 10000 
-    ? contentToAnalyze.slice(0, 10000) + '\n\n[Content truncated - full text analyzed]'
-    : contentToAnalyze;
+  // Truncate very long content (>10k chars) to manage token limits.
+  // Sectioned papers send abstract, results, conclusions... instead of the first pages;
+  // timed transcripts are condensed evenly so key moments can come from the whole episode
+  let truncatedContent: string;
+  if (item.paperSections?.length) {
+    truncatedContent = selectPaperSections(item.paperSections, 'summary', SUMMARY_MAX_CHARS);
+  } else if (transcriptCues.length > 0) {
+    truncatedContent = formatTimedTranscript(transcriptCues, SUMMARY_MAX_CHARS);
+  } else {
+    truncatedContent = contentToAnalyze.length > SUMMARY_MAX_CHARS
+      ? contentToAnalyze.slice(0, SUMMARY_MAX_CHARS) + '\n\n[Content truncated - full text analyzed]'
+      : contentToAnalyze;
+  }
+
+  // Hosts and guests credited on podcast episodes help attribute claims in the transcript
+  const people = (item.media?.persons || [])
+    .map(person => `${person.name} (${person.role})`)
+    .join(', ');
 
   const userPrompt = `Source: ${item.sourceType}
 Title: ${item.title}
 Author/Channel: ${item.authorOrChannel}
+${people ? `People: ${people}` : ''}
 ${item.journalName ? `Journal: ${item.journalName}` : ''}
 ${item.doi ? `DOI: ${item.doi}` : ''}
 Is Preprint: ${item.isPreprint}
-${item.fullText ? '**Full content available for analysis**' : 'Content excerpt:'}
+${item.paperSections?.length ? '**Key sections of the full paper (abstract, results, conclusions...)**' : item.fullText ? (item.sourceType === 'podcast' ? '**Full episode transcript available for analysis**' : '**Full content available for analysis**') : 'Content excerpt:'}
 
 Content:
 ${truncatedContent}
@@ -73,7 +101,7 @@ Generate a summary with key insights, clinical takeaway, methodology classificat
       ],
       response_format: { type: 'json_object' },
       temperature: 0.3,
-      max_tokens: 800, // Increased for more detailed insights
+      max_tokens: transcriptCues.length > 0 ? 1100 : 800, // Increased for more detailed insights; key moments need room too
     });
 
     const content = completion.choices[0]?.message?.content;
@@ -108,6 +136,7 @@ Generate a summary with key insights, clinical takeaway, methodology classificat
       clinicalTakeaway: parsed.clinicalTakeaway || fallbackClinicalTakeaway(item.rawExcerpt),
       methodology: (parsed.methodology || fallbackMethodology(item)) as Methodology,
       levelOfEvidence: (parsed.levelOfEvidence || 'C') as EvidenceLevel,
+      keyMoments: transcriptCues.length > 0 ? parseKeyMoments(parsed.keyMoments, transcriptCues, item) : undefined,
       tokenUsage,
     };
   } catch (error) {
@@ -138,7 +167,7 @@ function fallbackMethodology(item: Item): Methodology {
   const excerpt = item.rawExcerpt.toLowerCase();
   
   if (item.isPreprint) return 'Preprint';
-  if (item.sourceType === 'reddit' || item.sourceType === 'youtube') return 'NA';
+  if (isDiscussionSource(item.sourceType) || item.sourceType === 'youtube') return 'NA';
   if (/randomized|rct/i.test(excerpt)) return 'RCT';
   if (/cohort/i.test(excerpt)) return 'Cohort';
   if (/meta-analysis|meta analysis/i.test(excerpt)) return 'Meta';
@@ -151,7 +180,7 @@ function fallbackMethodology(item: Item): Methodology {
 function fallbackEvidenceLevel(item: Item): EvidenceLevel {
   const excerpt = item.rawExcerpt.toLowerCase();
   
-  if (item.sourceType === 'reddit' || item.sourceType === 'youtube') return 'C';
+  if (isDiscussionSource(item.sourceType) || item.sourceType === 'youtube') return 'C';
   if (/high quality|strong evidence|rct|meta-analysis/i.test(excerpt)) return 'A';
   if (/moderate|cohort|case-control/i.test(excerpt)) return 'B';
   
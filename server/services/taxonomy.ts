@@ -0,0 +1,480 @@
+import { db } from "../db";
+import { nanoid } from "nanoid";
+import { asc, eq, sql, type AnyColumn, type SQL } from "drizzle-orm";
+import {
+  taxonomyTopics,
+  topicRemaps,
+  items,
+  feedCatalog,
+  userPreferences,
+  topics as builtinTopics,
+} from "../../shared/schema";
+import type {
+  TaxonomyTopic,
+  InsertTaxonomyTopic,
+  UpdateTaxonomyTopic,
+  TopicTreeNode,
+  TopicRemap,
+  Topic,
+  ItemTopicScore,
+} from "../../shared/schema";
+import {
+  builtinTopicDescriptions,
+  builtinTopicMatchers,
+  compileTopicMatcher,
+  phrasePattern,
+  topicDefinitions,
+  type TopicDescription,
+  type TopicMatcher,
+} from "../core/topics";
+
+/**
+ * Topic taxonomy
+ *
+ * Categories and topics live in taxonomy_topics. Hot paths (feed
+ * normalization, digest building, classification) resolve topics
+ * synchronously against an in-memory snapshot: deprecated slugs follow
+ * replacedBy to the topic that absorbed them, and unknown slugs and category
+ * slugs resolve to nothing. The snapshot is reloaded after every admin edit
+ * and at most SNAPSHOT_TTL_MS apart elsewhere, so workers pick up edits made
+ * by the web process.
+ *
+ * The snapshot also carries the classifier's keyword matchers: the built-in
+ * patterns of every topic (a merged or renamed topic's go to the topic that
+ * replaced it), plus each active topic's synonyms, and the label of topics
+ * that have no built-in patterns, as phrase patterns.
+ */
+
+const SNAPSHOT_TTL_MS = 5 * 60 * 1000;
+const MAX_REPLACEMENT_HOPS = 10;
+
+interface TaxonomySnapshot {
+  rows: TaxonomyTopic[];
+  bySlug: Map<string, TaxonomyTopic>;
+  tree: TopicTreeNode[];
+  matchers: TopicMatcher[];
+  loadedAt: number;
+}
+
+export type TaxonomyResult<T> = { ok: true; value: T } | { ok: false; status: number; reason: string };
+
+export interface RemapCounts {
+  itemsUpdated: number;
+  feedsUpdated: number;
+  preferencesUpdated: number;
+}
+
+let snapshot: TaxonomySnapshot | null = null;
+const builtinTopicSet = new Set<string>(builtinTopics);
+
+export async function loadTopicTaxonomy(): Promise<TaxonomySnapshot> {
+  const rows = await db
+    .select()
+    .from(taxonomyTopics)
+    .orderBy(asc(taxonomyTopics.sortOrder), asc(taxonomyTopics.label));
+
+  snapshot = {
+    rows,
+    bySlug: new Map(rows.map(row => [row.slug, row])),
+    tree: buildTree(rows),
+    matchers: [],
+    loadedAt: Date.now(),
+  };
+  snapshot.matchers = buildMatchers(rows);
+  return snapshot;
+}
+
+/**
+ * Reload the snapshot when it is older than SNAPSHOT_TTL_MS. A failed reload
+ * keeps the previous snapshot.
+ */
+export async function refreshTopicTaxonomy(): Promise<void> {
+  if (snapshot && Date.now() - snapshot.loadedAt < SNAPSHOT_TTL_MS) return;
+  try {
+    await loadTopicTaxonomy();
+  } catch (error) {
+    console.error("Error loading topic taxonomy:", error);
+  }
+}
+
+// Runs once snapshot is set, since resolveTopic follows deprecated topics through it
+function buildMatchers(rows: TaxonomyTopic[]): TopicMatcher[] {
+  const patterns = new Map<Topic, RegExp[]>();
+  const add = (topic: Topic, added: RegExp[]) => patterns.set(topic, [...(patterns.get(topic) ?? []), ...added]);
+
+  for (const row of rows) {
+    const topic = resolveTopic(row.slug);
+    if (!topic) continue;
+
+    const builtin = topicDefinitions[row.slug as Topic]?.patterns;
+    if (builtin) add(topic, builtin);
+    if (row.deprecatedAt) continue;
+
+    const phrases = [...(builtin ? [] : [row.label]), ...(row.synonyms ?? [])].filter(phrase => phrase.trim());
+    add(topic, phrases.map(phrasePattern));
+  }
+
+  return Array.from(patterns.entries())
+    .filter(([, topicPatterns]) => topicPatterns.length > 0)
+    .map(([topic, topicPatterns]) => compileTopicMatcher(topic, topicPatterns));
+}
+
+/**
+ * Keyword matchers for the live taxonomy; the built-in ones before it is loaded
+ */
+export function topicMatchers(): TopicMatcher[] {
+  return snapshot?.matchers ?? builtinTopicMatchers;
+}
+
+/**
+ * What the embedding fallback compares items against: each active topic's
+ * description (the built-in one, or its label, when it has none) and synonyms
+ */
+export function topicDescriptions(): TopicDescription[] {
+  if (!snapshot) return builtinTopicDescriptions;
+
+  return snapshot.rows
+    .filter(row => !row.deprecatedAt && row.parentSlug)
+    .map(row => {
+      const description = row.description || topicDefinitions[row.slug as Topic]?.description || row.label;
+      const synonyms = row.synonyms ?? [];
+      return {
+        topic: row.slug as Topic,
+        text: synonyms.length > 0 ? `${description} (also: ${synonyms.join(', ')})` : description,
+      };
+    });
+}
+
+function buildTree(rows: TaxonomyTopic[]): TopicTreeNode[] {
+  const active = rows.filter(row => !row.deprecatedAt);
+  const childrenOf = (parentSlug: string | null): TopicTreeNode[] =>
+    active
+      .filter(row => row.parentSlug === parentSlug)
+      .map(row => ({
+        slug: row.slug,
+        label: row.label,
+        description: row.description,
+        synonyms: row.synonyms ?? [],
+        children: childrenOf(row.slug),
+      }));
+  return childrenOf(null);
+}
+
+/**
+ * The active topic a slug stands for, or null for unknown slugs, retired
+ * topics and categories. Before the taxonomy is loaded, only built-in topics
+ * resolve.
+ */
+export function resolveTopic(slug: string): Topic | null {
+  if (!snapshot) return builtinTopicSet.has(slug) ? slug as Topic : null;
+
+  let row = snapshot.bySlug.get(slug);
+  for (let hops = 0; row?.deprecatedAt && hops < MAX_REPLACEMENT_HOPS; hops++) {
+    row = row.replacedBy ? snapshot.bySlug.get(row.replacedBy) : undefined;
+  }
+  if (!row || row.deprecatedAt || !row.parentSlug) return null;
+  return row.slug as Topic;
+}
+
+export function activeTopics(): Topic[] {
+  if (!snapshot) return [...builtinTopics];
+  return snapshot.rows.filter(row => !row.deprecatedAt && row.parentSlug).map(row => row.slug as Topic);
+}
+
+export function resolveTopics(values: unknown[]): Topic[] {
+  const resolved = values
+    .map(value => typeof value === 'string' ? resolveTopic(value) : null)
+    .filter((topic): topic is Topic => topic !== null);
+  return Array.from(new Set(resolved));
+}
+
+/**
+ * Values that don't resolve to a topic (for rejecting user input)
+ */
+export function unknownTopics(values: unknown[]): string[] {
+  return values
+    .filter(value => typeof value !== 'string' || resolveTopic(value) === null)
+    .map(value => String(value));
+}
+
+/**
+ * Classifier scores with deprecated topics moved to their replacements; where
+ * two scores land on the same topic the more confident one wins
+ */
+export function resolveTopicScores(scores: ItemTopicScore[]): ItemTopicScore[] {
+  const byTopic = new Map<Topic, ItemTopicScore>();
+  for (const score of scores) {
+    const topic = resolveTopic(score.topic);
+    if (!topic) continue;
+    const existing = byTopic.get(topic);
+    if (!existing || score.confidence > existing.confidence) {
+      byTopic.set(topic, { ...score, topic });
+    }
+  }
+  return Array.from(byTopic.values()).sort((a, b) => b.confidence - a.confidence);
+}
+
+export async function getTopicTree(): Promise<TopicTreeNode[]> {
+  await refreshTopicTaxonomy();
+  return snapshot?.tree ?? [];
+}
+
+/**
+ * Every row, deprecated ones included, plus the remap log (admin view)
+ */
+export async function getTaxonomyAdminView(): Promise<{ topics: TaxonomyTopic[]; remaps: TopicRemap[] }> {
+  const { rows } = await loadTopicTaxonomy();
+  const remaps = await db.select().from(topicRemaps).orderBy(sql`${topicRemaps.createdAt} DESC`).limit(100);
+  return { topics: rows, remaps };
+}
+
+export async function createTaxonomyTopic(input: InsertTaxonomyTopic): Promise<TaxonomyResult<TaxonomyTopic>> {
+  const { bySlug } = await loadTopicTaxonomy();
+
+  if (bySlug.has(input.slug)) {
+    return { ok: false, status: 409, reason: `Slug "${input.slug}" is already used` };
+  }
+  if (input.parentSlug) {
+    const parent = bySlug.get(input.parentSlug);
+    if (!parent || parent.deprecatedAt) {
+      return { ok: false, status: 400, reason: `Unknown parent "${input.parentSlug}"` };
+    }
+  }
+
+  const [created] = await db.insert(taxonomyTopics).values(input).returning();
+  await loadTopicTaxonomy();
+  return { ok: true, value: created };
+}
+
+export async function updateTaxonomyTopic(slug: string, patch: UpdateTaxonomyTopic): Promise<TaxonomyResult<TaxonomyTopic>> {
+  const { bySlug } = await loadTopicTaxonomy();
+  const existing = bySlug.get(slug);
+  if (!existing || existing.deprecatedAt) {
+    return { ok: false, status: 404, reason: `Unknown topic "${slug}"` };
+  }
+
+  if (patch.parentSlug !== undefined && patch.parentSlug !== existing.parentSlug) {
+    // Categories stay roots and topics stay under a category, so data never changes meaning
+    if (!existing.parentSlug || !patch.parentSlug) {
+      return { ok: false, status: 400, reason: "Topics can't become categories or the other way round" };
+    }
+    const parent = bySlug.get(patch.parentSlug);
+    if (!parent || parent.deprecatedAt) {
+      return { ok: false, status: 400, reason: `Unknown parent "${patch.parentSlug}"` };
+    }
+    for (let ancestor: TaxonomyTopic | undefined = parent; ancestor; ancestor = ancestor.parentSlug ? bySlug.get(ancestor.parentSlug) : undefined) {
+      if (ancestor.slug === slug) {
+        return { ok: false, status: 400, reason: "A topic can't be moved under itself" };
+      }
+    }
+  }
+
+  const [updated] = await db
+    .update(taxonomyTopics)
+    .set({ ...patch, updatedAt: new Date() })
+    .where(eq(taxonomyTopics.slug, slug))
+    .returning();
+  await loadTopicTaxonomy();
+  return { ok: true, value: updated };
+}
+
+/**
+ * Fold one topic into another: everything tagged with it is retagged, its
+ * subtopics move to the target, and its label becomes a synonym there.
+ */
+export async function mergeTaxonomyTopic(
+  slug: string,
+  intoSlug: string,
+  userId?: string
+): Promise<TaxonomyResult<RemapCounts>> {
+  const { bySlug } = await loadTopicTaxonomy();
+  const source = bySlug.get(slug);
+  const target = bySlug.get(intoSlug);
+
+  if (!source || source.deprecatedAt) {
+    return { ok: false, status: 404, reason: `Unknown topic "${slug}"` };
+  }
+  if (!source.parentSlug) {
+    return { ok: false, status: 400, reason: "Categories can't be merged; move their topics instead" };
+  }
+  if (!target || target.deprecatedAt || !target.parentSlug) {
+    return { ok: false, status: 400, reason: `Unknown target topic "${intoSlug}"` };
+  }
+  if (source.slug === target.slug) {
+    return { ok: false, status: 400, reason: "A topic can't be merged into itself" };
+  }
+
+  const synonyms = Array.from(new Set([...(target.synonyms ?? []), source.label, ...(source.synonyms ?? [])]));
+
+  const counts = await db.transaction(async (tx) => {
+    await tx.update(taxonomyTopics)
+      .set({ synonyms, updatedAt: new Date() })
+      .where(eq(taxonomyTopics.slug, target.slug));
+    await tx.update(taxonomyTopics)
+      .set({ parentSlug: target.slug, updatedAt: new Date() })
+      .where(eq(taxonomyTopics.parentSlug, source.slug));
+    return deprecateAndRemap(tx, source.slug, target.slug, 'merge', userId);
+  });
+
+  await loadTopicTaxonomy();
+  console.log(`🏷️ Merged topic ${source.slug} into ${target.slug}: ${formatCounts(counts)}`);
+  return { ok: true, value: counts };
+}
+
+/**
+ * Give a topic a new slug. The old slug stays as a deprecated alias.
+ */
+export async function renameTaxonomyTopic(
+  slug: string,
+  newSlug: string,
+  userId?: string
+): Promise<TaxonomyResult<RemapCounts>> {
+  const { bySlug } = await loadTopicTaxonomy();
+  const source = bySlug.get(slug);
+
+  if (!source || source.deprecatedAt) {
+    return { ok: false, status: 404, reason: `Unknown topic "${slug}"` };
+  }
+  if (!source.parentSlug) {
+    return { ok: false, status: 400, reason: "Categories can't be renamed; edit the label instead" };
+  }
+  if (bySlug.has(newSlug)) {
+    return { ok: false, status: 409, reason: `Slug "${newSlug}" is already used` };
+  }
+
+  const counts = await db.transaction(async (tx) => {
+    await tx.insert(taxonomyTopics).values({
+      slug: newSlug,
+      label: source.label,
+      description: source.description,
+      synonyms: source.synonyms,
+      parentSlug: source.parentSlug,
+      sortOrder: source.sortOrder,
+    });
+    await tx.update(taxonomyTopics)
+      .set({ parentSlug: newSlug, updatedAt: new Date() })
+      .where(eq(taxonomyTopics.parentSlug, source.slug));
+    return deprecateAndRemap(tx, source.slug, newSlug, 'rename', userId);
+  });
+
+  await loadTopicTaxonomy();
+  console.log(`🏷️ Renamed topic ${source.slug} to ${newSlug}: ${formatCounts(counts)}`);
+  return { ok: true, value: counts };
+}
+
+/**
+ * Retire a topic (or an empty category) and remove it wherever it is used
+ */
+export async function retireTaxonomyTopic(slug: string, userId?: string): Promise<TaxonomyResult<RemapCounts>> {
+  const { rows, bySlug } = await loadTopicTaxonomy();
+  const existing = bySlug.get(slug);
+
+  if (!existing || existing.deprecatedAt) {
+    return { ok: false, status: 404, reason: `Unknown topic "${slug}"` };
+  }
+  if (rows.some(row => row.parentSlug === slug && !row.deprecatedAt)) {
+    return { ok: false, status: 409, reason: `"${slug}" still has subtopics; merge or move them first` };
+  }
+
+  const counts = await db.transaction(tx => deprecateAndRemap(tx, slug, null, 'retire', userId));
+
+  await loadTopicTaxonomy();
+  console.log(`🏷️ Retired topic ${slug}: ${formatCounts(counts)}`);
+  return { ok: true, value: counts };
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+async function deprecateAndRemap(
+  tx: Transaction,
+  fromSlug: string,
+  toSlug: string | null,
+  action: 'merge' | 'rename' | 'retire',
+  userId?: string
+): Promise<RemapCounts> {
+  await tx.update(taxonomyTopics)
+    .set({ deprecatedAt: new Date(), replacedBy: toSlug, updatedAt: new Date() })
+    .where(eq(taxonomyTopics.slug, fromSlug));
+  // Aliases of the old topic point straight at the new one
+  await tx.update(taxonomyTopics)
+    .set({ replacedBy: toSlug, updatedAt: new Date() })
+    .where(eq(taxonomyTopics.replacedBy, fromSlug));
+
+  const remappedItems = await tx.update(items)
+    .set({ topics: remapSlugArray(items.topics, fromSlug, toSlug) })
+    .where(containsSlug(items.topics, fromSlug))
+    .returning({ id: items.id });
+  await tx.update(items)
+    .set({ topicScores: remapTopicScores(fromSlug, toSlug) })
+    .where(sql`${items.topicScores}::jsonb @> ${JSON.stringify([{ topic: fromSlug }])}::jsonb`);
+
+  const remappedFeeds = await tx.update(feedCatalog)
+    .set({ topics: remapSlugArray(feedCatalog.topics, fromSlug, toSlug) })
+    .where(containsSlug(feedCatalog.topics, fromSlug))
+    .returning({ id: feedCatalog.id });
+
+  const remappedPreferences = await tx.update(userPreferences)
+    .set({ favoriteTopics: remapSlugArray(userPreferences.favoriteTopics, fromSlug, toSlug) })
+    .where(containsSlug(userPreferences.favoriteTopics, fromSlug))
+    .returning({ userId: userPreferences.userId });
+
+  const counts = {
+    itemsUpdated: remappedItems.length,
+    feedsUpdated: remappedFeeds.length,
+    preferencesUpdated: remappedPreferences.length,
+  };
+
+  await tx.insert(topicRemaps).values({
+    id: nanoid(),
+    fromSlug,
+    toSlug,
+    action,
+    ...counts,
+    createdBy: userId ?? null,
+  });
+
+  return counts;
+}
+
+function containsSlug(column: AnyColumn, slug: string): SQL {
+  return sql`${column}::jsonb @> ${JSON.stringify([slug])}::jsonb`;
+}
+
+/**
+ * A json array of slugs with one slug replaced (or removed when toSlug is
+ * null), keeping order and dropping the duplicate a merge can create
+ */
+function remapSlugArray(column: AnyColumn, fromSlug: string, toSlug: string | null): SQL {
+  return sql`(
+    SELECT coalesce(json_agg(slug ORDER BY position), '[]'::json)
+    FROM (
+      SELECT slug, min(position) AS position
+      FROM (
+        SELECT CASE WHEN value = ${fromSlug} THEN ${toSlug}::text ELSE value END AS slug, ordinality AS position
+        FROM json_array_elements_text(${column}) WITH ORDINALITY
+      ) mapped
+      WHERE slug IS NOT NULL
+      GROUP BY slug
+    ) deduped
+  )`;
+}
+
+// Same for items.topic_scores; of two scores for one topic the more confident is kept
+function remapTopicScores(fromSlug: string, toSlug: string | null): SQL {
+  return sql`(
+    SELECT coalesce(json_agg(score ORDER BY (score->>'confidence')::float DESC), '[]'::json)
+    FROM (
+      SELECT DISTINCT ON (score->>'topic') score
+      FROM (
+        SELECT CASE WHEN entry->>'topic' = ${fromSlug} THEN jsonb_set(entry, '{topic}', to_jsonb(${toSlug}::text)) ELSE entry END AS score
+        FROM jsonb_array_elements(${items.topicScores}::jsonb) entry
+      ) mapped
+      WHERE score IS NOT NULL
+      ORDER BY score->>'topic', (score->>'confidence')::float DESC
+    ) deduped
+  )`;
+}
+
+function formatCounts(counts: RemapCounts): string {
+  return `${counts.itemsUpdated} items, ${counts.feedsUpdated} feeds, ${counts.preferencesUpdated} preference sets`;
+}
@@ -0,0 +1,95 @@
+/**
+ * Topic classification for items
+ *
+ * Keyword scores (server/core/topics.ts) decide most topics. Topics an item
+ * arrived with that the keywords didn't find, i.e. its feed's catalog topics,
+ * are kept at FEED_TOPIC_CONFIDENCE. When neither produces a topic and the
+ * embedding fallback is on, the item's text is embedded and compared with
+ * each topic's description.
+ *
+ * Callers pass the live taxonomy's matchers and descriptions
+ * (services/taxonomy.ts); without them only the built-in topics are known.
+ * This module doesn't load the taxonomy itself, so it runs without a database.
+ */
+
+import { env } from "../../config/env";
+import {
+  builtinTopicDescriptions,
+  builtinTopicMatchers,
+  MAX_TOPICS,
+  scoreTopics,
+  type TopicDescription,
+  type TopicMatcher,
+} from "../core/topics";
+import type { InsertItem, ItemTopicScore, Topic } from "@shared/schema";
+
+const FEED_TOPIC_CONFIDENCE = 0.5;
+const MAX_EMBEDDING_TOPICS = 3;
+const FULL_TEXT_CHARS = 4000; // Transcripts and PDFs only contribute their opening
+
+type ClassifiableItem = Pick<InsertItem, 'title' | 'rawExcerpt' | 'fullText'>;
+
+export interface ClassifyOptions {
+  useEmbeddings?: boolean; // Defaults to TOPIC_EMBEDDING_FALLBACK
+  matchers?: TopicMatcher[];
+  descriptions?: TopicDescription[];
+}
+
+// Description embeddings by text, so an edited description is embedded again
+const descriptionEmbeddings = new Map<string, number[]>();
+
+export async function classifyTopics(
+  item: ClassifiableItem,
+  assignedTopics: Topic[] = [],
+  options: ClassifyOptions = {}
+): Promise<ItemTopicScore[]> {
+  const body = [item.rawExcerpt, item.fullText?.slice(0, FULL_TEXT_CHARS)].filter(Boolean).join('\n');
+
+  const scores: ItemTopicScore[] = scoreTopics(item.title, body, options.matchers ?? builtinTopicMatchers)
+    .map(score => ({ ...score, method: 'keyword' as const }));
+
+  for (const topic of assignedTopics) {
+    if (!scores.some(score => score.topic === topic)) {
+      scores.push({ topic, confidence: FEED_TOPIC_CONFIDENCE, method: 'feed' });
+    }
+  }
+
+  const useEmbeddings = options.useEmbeddings ?? env.topicEmbeddingFallback;
+  if (scores.length === 0 && useEmbeddings) {
+    scores.push(...await embeddingTopicScores(`${item.title}\n\n${body}`, options.descriptions ?? builtinTopicDescriptions));
+  }
+
+  return scores.sort((a, b) => b.confidence - a.confidence).slice(0, MAX_TOPICS);
+}
+
+async function embeddingTopicScores(text: string, descriptions: TopicDescription[]): Promise<ItemTopicScore[]> {
+  try {
+    // Loaded on demand: the OpenAI client needs OPENAI_API_KEY at import
+    const { generateEmbedding, cosineSimilarity } = await import("./embeddings");
+    const [embedding, described] = await Promise.all([generateEmbedding(text), loadTopicEmbeddings(descriptions)]);
+
+    return described
+      .map(({ topic, embedding: topicEmbedding }) => ({
+        topic,
+        confidence: Math.round(cosineSimilarity(embedding, topicEmbedding) * 100) / 100,
+        method: 'embedding' as const,
+      }))
+      .filter(score => score.confidence * 100 >= env.topicEmbeddingMinSimilarity)
+      .sort((a, b) => b.confidence - a.confidence)
+      .slice(0, MAX_EMBEDDING_TOPICS);
+  } catch (error) {
+    console.error("Error in topic embedding fallback:", error);
+    return [];
+  }
+}
+
+// Embeds the descriptions not seen yet; a failed request is retried on the next call
+async function loadTopicEmbeddings(descriptions: TopicDescription[]): Promise<Array<{ topic: Topic; embedding: number[] }>> {
+  const missing = Array.from(new Set(descriptions.map(({ text }) => text).filter(text => !descriptionEmbeddings.has(text))));
+  if (missing.length > 0) {
+    const { generateEmbeddings } = await import("./embeddings");
+    const vectors = await generateEmbeddings(missing);
+    missing.forEach((text, i) => descriptionEmbeddings.set(text, vectors[i]));
+  }
+  return descriptions.map(({ topic, text }) => ({ topic, embedding: descriptionEmbeddings.get(text)! }));
+}
@@ -0,0 +1,153 @@
+/**
+ * Local WebSub Hub
+ *
+ * A minimal in-process hub for development and tests, so subscriptions and
+ * pushes can be exercised without a public hub or a reachable callback URL.
+ * It follows the parts of the spec the subscriber relies on:
+ * - POST hub.mode=subscribe|unsubscribe → 202, then verifies intent with a
+ *   challenge GET against hub.callback
+ * - POST hub.mode=publish&hub.url=<topic> fetches the topic and distributes it,
+ *   for http(s) topics with an active subscription only
+ * - publish() delivers a body directly, signed with each subscriber's secret
+ *
+ * Enable with WEBSUB_LOCAL_HUB=true and point a feed's rel="hub" at /websub-hub.
+ */
+
+import express from 'express';
+import { createHmac, randomBytes } from 'crypto';
+
+interface LocalSubscription {
+  callback: string;
+  secret: string | null;
+  expiresAt: number;
+}
+
+export interface LocalWebSubHub {
+  router: express.Router;
+  publish(topic: string, body: string, contentType?: string): Promise<number>;
+  getSubscriptions(topic: string): LocalSubscription[];
+}
+
+export function createLocalWebSubHub(path: string = '/websub-hub', hubUrl: string = path): LocalWebSubHub {
+  const subscriptions = new Map<string, Map<string, LocalSubscription>>(); // topic → callback → subscription
+  const router = express.Router();
+
+  async function verifyIntent(mode: string, topic: string, callback: string, leaseSeconds: number): Promise<boolean> {
+    const challenge = randomBytes(16).toString('hex');
+    const url = new URL(callback);
+    url.searchParams.set('hub.mode', mode);
+    url.searchParams.set('hub.topic', topic);
+    url.searchParams.set('hub.challenge', challenge);
+    if (mode === 'subscribe') {
+      url.searchParams.set('hub.lease_seconds', String(leaseSeconds));
+    }
+
+    try {
+      const response = await fetch(url);
+      return response.ok && (await response.text()) === challenge;
+    } catch (error) {
+      console.error(`[LocalHub] Verification request to ${callback} failed:`, error);
+      return false;
+    }
+  }
+
+  function isHttpUrl(value: string): boolean {
+    try {
+      return ['http:', 'https:'].includes(new URL(value).protocol);
+    } catch {
+      return false;
+    }
+  }
+
+  function activeSubscriptions(topic: string): LocalSubscription[] {
+    const now = Date.now();
+    return Array.from(subscriptions.get(topic)?.values() || []).filter(subscription => subscription.expiresAt >= now);
+  }
+
+  async function publish(topic: string, body: string, contentType: string = 'application/atom+xml'): Promise<number> {
+    let delivered = 0;
+
+    for (const subscription of activeSubscriptions(topic)) {
+      const headers: Record<string, string> = {
+        'Content-Type': contentType,
+        'Link': `<${hubUrl}>; rel="hub", <${topic}>; rel="self"`,
+      };
+      if (subscription.secret) {
+        headers['X-Hub-Signature'] = `sha256=${createHmac('sha256', subscription.secret).update(body).digest('hex')}`;
+      }
+
+      try {
+        const response = await fetch(subscription.callback, { method: 'POST', headers, body });
+        if (response.ok) delivered++;
+      } catch (error) {
+        console.error(`[LocalHub] Delivery to ${subscription.callback} failed:`, error);
+      }
+    }
+
+    return delivered;
+  }
+
+  router.post(path, async (req, res) => {
+    const mode = req.body?.['hub.mode'];
+    const topic = req.body?.['hub.topic'] || req.body?.['hub.url'];
+
+    if (!topic) {
+      return res.status(400).send('Missing hub.topic');
+    }
+
+    if (mode === 'publish') {
+      // The hub fetches the topic itself, so only for topics someone subscribed to -
+      // otherwise any caller could make the server request any URL
+      if (!isHttpUrl(topic) || activeSubscriptions(topic).length === 0) {
+        return res.status(404).send('No active subscriptions for this topic');
+      }
+
+      res.status(204).end();
+      try {
+        const response = await fetch(topic);
+        const delivered = await publish(topic, await response.text(), response.headers.get('content-type') || undefined);
+        console.log(`[LocalHub] Published ${topic} to ${delivered} subscribers`);
+      } catch (error) {
+        console.error(`[LocalHub] Failed to publish ${topic}:`, error);
+      }
+      return;
+    }
+
+    const callback = req.body?.['hub.callback'];
+    if ((mode !== 'subscribe' && mode !== 'unsubscribe') || !callback) {
+      return res.status(400).send('Expected hub.mode=subscribe|unsubscribe with hub.callback');
+    }
+    if (!isHttpUrl(topic) || !isHttpUrl(callback)) {
+      return res.status(400).send('hub.topic and hub.callback must be http(s) URLs');
+    }
+
+    const leaseSeconds = Number(req.body['hub.lease_seconds']) || 864000;
+    res.status(202).end();
+
+    // Verify asynchronously, as real hubs do
+    const verified = await verifyIntent(mode, topic, callback, leaseSeconds);
+    if (!verified) {
+      console.log(`[LocalHub] ${mode} for ${callback} was not verified`);
+      return;
+    }
+
+    const topicSubscriptions = subscriptions.get(topic) || new Map<string, LocalSubscription>();
+    if (mode === 'subscribe') {
+      topicSubscriptions.set(callback, {
+        callback,
+        secret: req.body['hub.secret'] || null,
+        expiresAt: Date.now() + leaseSeconds * 1000,
+      });
+    } else {
+      topicSubscriptions.delete(callback);
+    }
+    subscriptions.set(topic, topicSubscriptions);
+    console.log(`[LocalHub] ${mode} verified for ${callback} on ${topic}`);
+  });
+
+  return {
+    router,
+    publish,
+    getSubscriptions: (topic: string) => Array.from(subscriptions.get(topic)?.values() || []),
+  };
+}
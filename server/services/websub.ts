@@ -0,0 +1,322 @@
+/**
+ * WebSub (PubSubHubbub) Subscriber
+ *
+ * Feeds that advertise a hub (<link rel="hub"> in the document or a Link
+ * header) get a push subscription so new entries arrive without polling:
+ * - Subscription requests are sent to the hub with a per-feed HMAC secret
+ * - The hub verifies intent via GET /websub/:feedId (challenge echo)
+ * - Content distributions are POSTed to /websub/:feedId, signature-checked,
+ *   and stored through the same dedupe/enrichment path as the ingest job
+ * - Leases are renewed before they expire; polling continues as a safety net
+ *
+ * Subscription state and lease expiry live on the feed catalog row.
+ * The per-feed secret is derived from WEBSUB_SECRET (or SESSION_SECRET) so it
+ * never needs to be stored alongside the feed.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { storage } from '../storage';
+import { env } from '../../config/env';
+import { parseFeed, type FeedLink } from './feed-ingestion/feed-parser';
+import { normalizeFeedEntries } from './feed-fetcher';
+import { storeIngestedItems, type StoreItemsResult } from './ingest';
+import type { FeedCatalog } from '@shared/schema';
+
+const SUBSCRIBE_TIMEOUT = 15000;
+const RENEW_BEFORE_MS = 24 * 60 * 60 * 1000; // Renew leases expiring within a day
+const SIGNATURE_ALGORITHMS = ['sha1', 'sha256', 'sha384', 'sha512'] as const;
+
+export interface WebSubDiscovery {
+  hub: string;
+  topic: string;
+}
+
+export type VerificationResult =
+  | { ok: true; challenge: string }
+  | { ok: false; status: number; reason: string };
+
+export function isWebSubEnabled(): boolean {
+  return env.websubEnabled && !!env.websubSecret;
+}
+
+export function getCallbackUrl(feedId: string): string {
+  // REPLIT_DEV_DOMAIN is a bare host name
+  const base = /^https?:\/\//.test(env.publicBaseUrl) ? env.publicBaseUrl : `https://${env.publicBaseUrl}`;
+  return `${base.replace(/\/$/, '')}/websub/${feedId}`;
+}
+
+/**
+ * Per-feed HMAC secret handed to the hub when subscribing; null when no
+ * WEBSUB_SECRET/SESSION_SECRET is configured, since a key derived from an
+ * empty secret is one anybody can compute
+ */
+export function getFeedSecret(feedId: string): string | null {
+  if (!env.websubSecret) return null;
+  return createHmac('sha256', env.websubSecret).update(`websub:${feedId}`).digest('hex');
+}
+
+/**
+ * Parse an HTTP Link header into feed links
+ * e.g. `<https://hub.example/>; rel="hub", <https://example.com/feed>; rel="self"`
+ */
+export function parseLinkHeader(header: string | null | undefined): FeedLink[] {
+  if (!header) return [];
+
+  const links: FeedLink[] = [];
+  for (const part of header.split(/,(?=\s*<)/)) {
+    const href = part.match(/<([^>]+)>/)?.[1]?.trim();
+    const rel = part.match(/;\s*rel="?([^";]+)"?/i)?.[1];
+    if (!href || !rel) continue;
+
+    // A single link can carry several space-separated relations
+    for (const value of rel.trim().split(/\s+/)) {
+      links.push({ href, rel: value.toLowerCase() });
+    }
+  }
+
+  return links;
+}
+
+/**
+ * Find the hub and topic URL a feed advertises. The Link header wins over
+ * in-document links, and the topic falls back to the URL we fetched.
+ */
+export function discoverWebSub(
+  feedUrl: string,
+  documentLinks: FeedLink[],
+  linkHeader?: string | null
+): WebSubDiscovery | null {
+  const links = [...parseLinkHeader(linkHeader), ...documentLinks];
+  const hub = links.find(link => link.rel === 'hub')?.href;
+  if (!hub) return null;
+
+  const topic = links.find(link => link.rel === 'self')?.href || feedUrl;
+  return { hub, topic };
+}
+
+/**
+ * Subscribe if the feed advertises a hub we don't already hold a live lease with.
+ * Called from the fetcher after every successful download.
+ */
+export async function ensureWebSubSubscription(
+  feed: FeedCatalog,
+  discovery: WebSubDiscovery | null
+): Promise<void> {
+  if (!isWebSubEnabled() || !discovery) return;
+
+  const sameHub = feed.websubHub === discovery.hub && feed.websubTopic === discovery.topic;
+  const leaseValid = !!feed.websubLeaseExpiresAt
+    && feed.websubLeaseExpiresAt.getTime() - Date.now() > RENEW_BEFORE_MS;
+
+  // Pending/failed requests are simply re-sent on the next poll
+  if (sameHub && feed.websubStatus === 'subscribed' && leaseValid) return;
+  if (sameHub && feed.websubStatus === 'denied') return; // Hub refused; don't retry on every poll
+
+  await subscribeToHub(feed, discovery.hub, discovery.topic);
+}
+
+/**
+ * Send a subscribe (or unsubscribe) request to a hub.
+ * Hubs answer 202 Accepted and verify asynchronously against our callback.
+ */
+export async function subscribeToHub(
+  feed: FeedCatalog,
+  hub: string,
+  topic: string,
+  mode: 'subscribe' | 'unsubscribe' = 'subscribe'
+): Promise<boolean> {
+  const secret = getFeedSecret(feed.id);
+  if (!secret) {
+    console.warn(`⚠️ Not sending WebSub ${mode} for "${feed.name}": no WebSub secret configured`);
+    return false;
+  }
+
+  const body = new URLSearchParams({
+    'hub.mode': mode,
+    'hub.topic': topic,
+    'hub.callback': getCallbackUrl(feed.id),
+    'hub.secret': secret,
+    'hub.lease_seconds': String(env.websubLeaseSeconds),
+  });
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), SUBSCRIBE_TIMEOUT);
+
+  try {
+    const response = await fetch(hub, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: body.toString(),
+      signal: controller.signal,
+    });
+
+    if (response.status !== 202 && response.status !== 204) {
+      const reason = (await response.text()).slice(0, 200);
+      throw new Error(`Hub returned ${response.status}${reason ? `: ${reason}` : ''}`);
+    }
+
+    await storage.updateFeedWebSub(feed.id, {
+      websubHub: hub,
+      websubTopic: topic,
+      websubStatus: mode === 'subscribe' ? 'pending' : 'unsubscribed',
+    });
+
+    console.log(`📡 WebSub ${mode} requested for "${feed.name}" via ${hub}`);
+    return true;
+  } catch (error: any) {
+    console.error(`❌ WebSub ${mode} failed for "${feed.name}":`, error?.message || error);
+    await storage.updateFeedWebSub(feed.id, {
+      websubHub: hub,
+      websubTopic: topic,
+      websubStatus: 'failed',
+    });
+    return false;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Handle the hub's GET to our callback: intent verification or a denial.
+ * Only echoes the challenge for the topic we actually asked for.
+ */
+export async function verifyIntent(
+  feedId: string,
+  query: Record<string, unknown>
+): Promise<VerificationResult> {
+  const mode = typeof query['hub.mode'] === 'string' ? query['hub.mode'] : '';
+  const topic = typeof query['hub.topic'] === 'string' ? query['hub.topic'] : '';
+  const challenge = typeof query['hub.challenge'] === 'string' ? query['hub.challenge'] : '';
+
+  const feed = await storage.getFeedById(feedId);
+  if (!feed) {
+    return { ok: false, status: 404, reason: 'Unknown feed' };
+  }
+  if (!feed.websubTopic || topic !== feed.websubTopic) {
+    return { ok: false, status: 404, reason: 'Topic mismatch' };
+  }
+
+  if (mode === 'denied') {
+    await storage.updateFeedWebSub(feed.id, { websubStatus: 'denied', websubLeaseExpiresAt: null });
+    console.log(`⚠️ WebSub hub denied subscription for "${feed.name}": ${query['hub.reason'] || 'no reason given'}`);
+    return { ok: true, challenge: '' };
+  }
+
+  if (!challenge) {
+    return { ok: false, status: 400, reason: 'Missing hub.challenge' };
+  }
+
+  if (mode === 'subscribe') {
+    if (!feed.isActive) {
+      return { ok: false, status: 404, reason: 'Feed is inactive' };
+    }
+
+    const leaseSeconds = Number(query['hub.lease_seconds']) || env.websubLeaseSeconds;
+    await storage.updateFeedWebSub(feed.id, {
+      websubStatus: 'subscribed',
+      websubLeaseExpiresAt: new Date(Date.now() + leaseSeconds * 1000),
+    });
+    console.log(`✅ WebSub subscription verified for "${feed.name}" (lease ${leaseSeconds}s)`);
+    return { ok: true, challenge };
+  }
+
+  if (mode === 'unsubscribe') {
+    // Only confirm unsubscribes we requested, so a stray request can't cut off pushes
+    if (feed.websubStatus !== 'unsubscribed') {
+      return { ok: false, status: 404, reason: 'Unsubscribe not requested' };
+    }
+    await storage.updateFeedWebSub(feed.id, { websubLeaseExpiresAt: null });
+    return { ok: true, challenge };
+  }
+
+  return { ok: false, status: 400, reason: `Unsupported hub.mode "${mode}"` };
+}
+
+/**
+ * Whether the callback takes pushes for a feed: WebSub must be enabled and
+ * the hub must have verified our subscription to it
+ */
+export async function checkPushAccepted(feedId: string): Promise<{ ok: true } | { ok: false; status: number; reason: string }> {
+  if (!isWebSubEnabled()) {
+    return { ok: false, status: 404, reason: 'WebSub is disabled' };
+  }
+
+  const feed = await storage.getFeedById(feedId);
+  if (!feed) {
+    return { ok: false, status: 404, reason: 'Unknown feed' };
+  }
+  if (!feed.isActive || feed.websubStatus !== 'subscribed') {
+    return { ok: false, status: 403, reason: 'No active subscription for this feed' };
+  }
+
+  return { ok: true };
+}
+
+/**
+ * Check an X-Hub-Signature header (`<algo>=<hex hmac>`) against the raw body
+ */
+export function verifySignature(feedId: string, rawBody: Buffer, header: string | undefined): boolean {
+  const secret = getFeedSecret(feedId);
+  if (!header || !secret) return false;
+
+  const [algorithm, signature] = header.split('=', 2);
+  if (!signature || !(SIGNATURE_ALGORITHMS as readonly string[]).includes(algorithm?.toLowerCase())) {
+    return false;
+  }
+
+  const expected = createHmac(algorithm.toLowerCase(), secret).update(rawBody).digest();
+  const received = Buffer.from(signature, 'hex');
+
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
+
+/**
+ * Store the entries of a pushed feed document.
+ * Pushes are partial feeds containing only new or updated entries.
+ */
+export async function handleContentDistribution(
+  feedId: string,
+  rawBody: Buffer,
+  contentType: string | undefined
+): Promise<StoreItemsResult & { received: number }> {
+  const feed = await storage.getFeedById(feedId);
+  if (!isWebSubEnabled() || !feed || !feed.isActive || feed.websubStatus !== 'subscribed') {
+    return { received: 0, inserted: 0, skipped: 0, merged: 0, filtered: 0 };
+  }
+
+  const parsed = await parseFeed(rawBody.toString('utf8'), contentType);
+  const items = normalizeFeedEntries(parsed.items, feed);
+  const result = await storeIngestedItems(items);
+
+  console.log(
+    `📬 WebSub push for "${feed.name}": ${items.length} entries, ` +
+    `${result.inserted} inserted, ${result.skipped + result.merged} duplicates, ${result.filtered} filtered`
+  );
+
+  return { received: items.length, ...result };
+}
+
+/**
+ * Re-subscribe feeds whose leases expire soon (run from the scheduler)
+ */
+export async function renewWebSubLeases(): Promise<{ renewed: number; failed: number }> {
+  if (!isWebSubEnabled()) return { renewed: 0, failed: 0 };
+
+  const expiring = await storage.getFeedsWithExpiringWebSubLeases(new Date(Date.now() + RENEW_BEFORE_MS));
+  let renewed = 0;
+  let failed = 0;
+
+  for (const feed of expiring) {
+    if (!feed.websubHub || !feed.websubTopic) continue;
+
+    const ok = await subscribeToHub(feed, feed.websubHub, feed.websubTopic);
+    if (ok) renewed++;
+    else failed++;
+  }
+
+  if (expiring.length > 0) {
+    console.log(`📡 WebSub lease renewal: ${renewed} renewed, ${failed} failed`);
+  }
+
+  return { renewed, failed };
+}
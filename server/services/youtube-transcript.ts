@@ -29,9 +29,10 @@ function extractVideoId(url: string): string | null {
 }
 
 /**
- * Fetch full transcript for a YouTube video
+ * Fetch full transcript for a YouTube video, flattened and with its timed
+ * segments (offsets in seconds)
  */
-export async function fetchYouTubeTranscript(url: string): Promise<string | null> {
+export async function fetchYouTubeTranscript(url: string): Promise<{ text: string; segments: TranscriptSegment[] } | null> {
   try {
     const videoId = extractVideoId(url);
     
@@ -52,7 +53,7 @@ export async function fetchYouTubeTranscript(url: string): Promise<string | null
     
     console.log(`Extracted transcript for ${videoId}: ${fullText.length} characters`);
     
-    return fullText;
+    return { text: fullText, segments: transcript };
   } catch (error) {
     console.error(`Error fetching YouTube transcript for ${url}:`, error);
     return null;
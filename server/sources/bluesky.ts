@@ -0,0 +1,128 @@
+import type { FeedLink } from "../services/feed-ingestion/feed-parser";
+import { fetchJson, postTitle, type CommunityPost } from "./community";
+
+/**
+ * Bluesky adapter (public AppView XRPC API)
+ *
+ * Profile feeds (`bsky.app/profile/<handle>`, whose `/rss` is the catalog
+ * URL) use app.bsky.feed.getAuthorFeed; custom feeds
+ * (`bsky.app/profile/<handle>/feed/<rkey>`) use app.bsky.feed.getFeed.
+ * Replies and quotes count as comments, likes plus reposts as upvotes.
+ */
+
+const APPVIEW_API = 'https://public.api.bsky.app/xrpc';
+
+// Self-labels and moderation labels for adult content
+const ADULT_LABELS = new Set(['porn', 'sexual', 'nudity', 'graphic-media']);
+
+export interface BlueskyTarget {
+  actor: string; // Handle or DID
+  feed: string | null; // Custom feed record key
+}
+
+export function getBlueskyTarget(feedUrl: string): BlueskyTarget | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(feedUrl);
+  } catch {
+    return null;
+  }
+
+  if (parsed.hostname.replace(/^www\./, '') !== 'bsky.app') return null;
+
+  const match = parsed.pathname.match(/^\/profile\/([^/]+)(?:\/feed\/([^/]+)|\/rss)?\/?$/);
+  if (!match) return null;
+
+  return { actor: decodeURIComponent(match[1]), feed: match[2] ? decodeURIComponent(match[2]) : null };
+}
+
+function embeddedExternal(embed: any): any {
+  // Link cards: app.bsky.embed.external#view, or inside recordWithMedia
+  return embed?.external || embed?.media?.external || null;
+}
+
+function embeddedImage(embed: any): string | null {
+  const images = embed?.images || embed?.media?.images;
+  return Array.isArray(images) && images[0]?.thumb ? images[0].thumb : null;
+}
+
+/**
+ * Parse a getAuthorFeed/getFeed response into posts, skipping replies
+ */
+export function parseBlueskyFeed(response: any, refreshedAt: string = new Date().toISOString()): CommunityPost[] {
+  const feed: any[] = Array.isArray(response?.feed) ? response.feed : [];
+  const posts: CommunityPost[] = [];
+
+  for (const { post, reply } of feed) {
+    if (!post?.uri || reply || post.record?.reply) continue;
+
+    const rkey = post.uri.split('/').pop();
+    const handle = post.author?.handle || post.author?.did;
+    if (!rkey || !handle) continue;
+
+    const url = `https://bsky.app/profile/${handle}/post/${rkey}`;
+    const external = embeddedExternal(post.embed);
+    const links: FeedLink[] = [{ href: url, rel: 'alternate' }];
+    if (external?.uri) {
+      links.push({ href: external.uri, rel: 'related' });
+    }
+
+    const text: string = typeof post.record?.text === 'string' ? post.record.text : '';
+    const labels: any[] = Array.isArray(post.labels) ? post.labels : [];
+
+    posts.push({
+      entry: {
+        id: post.uri,
+        title: postTitle(text, external?.title),
+        url,
+        links,
+        publishedAt: post.record?.createdAt || post.indexedAt || null,
+        updatedAt: null,
+        author: `@${handle}`,
+        contentHtml: null,
+        contentText: text || null,
+        summary: text || external?.description || null,
+        categories: Array.isArray(post.record?.tags) ? post.record.tags : [],
+        enclosures: [],
+        imageUrl: embeddedImage(post.embed) || external?.thumb || null,
+        identifier: null,
+        transcripts: [],
+        chaptersUrl: null,
+        persons: [],
+        raw: post,
+      },
+      engagement: {
+        comments: (Number(post.replyCount) || 0) + (Number(post.quoteCount) || 0),
+        upvotes: (Number(post.likeCount) || 0) + (Number(post.repostCount) || 0),
+        views: 0,
+        status: 'reported',
+        over18: labels.some(label => ADULT_LABELS.has(label?.val)),
+        refreshedAt,
+      },
+    });
+  }
+
+  return posts;
+}
+
+async function resolveDid(actor: string): Promise<string> {
+  if (actor.startsWith('did:')) return actor;
+  const response = await fetchJson(`${APPVIEW_API}/com.atproto.identity.resolveHandle?handle=${encodeURIComponent(actor)}`);
+  if (!response?.did) {
+    throw new Error(`Bluesky handle not found: ${actor}`);
+  }
+  return response.did;
+}
+
+export async function fetchBlueskyPosts(target: BlueskyTarget, limit: number = 25): Promise<CommunityPost[]> {
+  if (target.feed) {
+    const feedUri = `at://${await resolveDid(target.actor)}/app.bsky.feed.generator/${target.feed}`;
+    const response = await fetchJson(`${APPVIEW_API}/app.bsky.feed.getFeed?feed=${encodeURIComponent(feedUri)}&limit=${limit}`);
+    return parseBlueskyFeed(response);
+  }
+
+  const response = await fetchJson(
+    `${APPVIEW_API}/app.bsky.feed.getAuthorFeed?actor=${encodeURIComponent(target.actor)}&filter=posts_no_replies&limit=${limit}`
+  );
+  return parseBlueskyFeed(response);
+}
@@ -0,0 +1,122 @@
+import { discussionSourceTypes, type FeedCatalog, type ItemEngagement } from "@shared/schema";
+import type { FeedEntry } from "../services/feed-ingestion/feed-parser";
+import { fetchSubredditListing, getSubredditName } from "./reddit";
+import { fetchHackerNewsPosts, getHackerNewsSearchUrl } from "./hackernews";
+import { fetchMastodonPosts, getMastodonTarget } from "./mastodon";
+import { fetchBlueskyPosts, getBlueskyTarget } from "./bluesky";
+
+/**
+ * Community platform adapters (Reddit, Hacker News, Mastodon, Bluesky)
+ *
+ * Catalog entries keep the platform's RSS URL so the generic feed fetch still
+ * works as a fallback; the adapters read the same timeline through the
+ * platform's API, which is the only place engagement counts are exposed.
+ * A post that links to an article carries it as a `related` entry link.
+ */
+
+export interface CommunityPost {
+  entry: FeedEntry;
+  engagement: ItemEngagement;
+}
+
+export type CommunityPostFetcher = (limit: number) => Promise<CommunityPost[]>;
+
+export function isDiscussionSource(sourceType: string): boolean {
+  return (discussionSourceTypes as readonly string[]).includes(sourceType);
+}
+
+/**
+ * The community a discussion took place in: the subreddit, Mastodon instance or
+ * Substack publication, else the platform itself
+ */
+export function discussionCommunity(platform: string, url: string): string {
+  if (platform === 'reddit') {
+    const subreddit = getSubredditName(url);
+    if (subreddit) return `r/${subreddit.toLowerCase()}`;
+  }
+  if (platform === 'mastodon' || platform === 'substack') {
+    try {
+      return `${platform}:${new URL(url).hostname.toLowerCase()}`;
+    } catch {
+      // Fall through to the platform
+    }
+  }
+  return platform;
+}
+
+/**
+ * API fetcher for a community feed, or null when the feed isn't one or its URL isn't recognized
+ */
+export function getCommunityFetcher(feed: Pick<FeedCatalog, 'sourceType' | 'url'>): CommunityPostFetcher | null {
+  switch (feed.sourceType) {
+    case 'reddit': {
+      const subreddit = getSubredditName(feed.url);
+      return subreddit ? limit => fetchSubredditListing(subreddit, limit) : null;
+    }
+    case 'hackernews': {
+      const searchUrl = getHackerNewsSearchUrl(feed.url);
+      return searchUrl ? limit => fetchHackerNewsPosts(searchUrl, limit) : null;
+    }
+    case 'mastodon': {
+      const target = getMastodonTarget(feed.url);
+      return target ? limit => fetchMastodonPosts(target, limit) : null;
+    }
+    case 'bluesky': {
+      const target = getBlueskyTarget(feed.url);
+      return target ? limit => fetchBlueskyPosts(target, limit) : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * The article a post links to (Reddit link posts, HN stories, link cards)
+ */
+export function getLinkedUrl(entry: FeedEntry): string | null {
+  return entry.links.find(link => link.rel === 'related')?.href || null;
+}
+
+/**
+ * Microblog posts have no title: use the link card's title, else the opening of the text
+ */
+export function postTitle(text: string, cardTitle?: string | null): string {
+  if (cardTitle && cardTitle.trim()) return cardTitle.trim();
+
+  const firstLine = text.split('\n').map(line => line.trim()).find(Boolean) || '';
+  if (!firstLine) return 'Untitled';
+  return firstLine.length > 120 ? `${firstLine.slice(0, 117).trimEnd()}...` : firstLine;
+}
+
+/**
+ * JSON GET with a timeout; status errors carry statusCode for the fetcher's retry logic
+ */
+export async function fetchJson(url: string, timeoutMs: number = 10000): Promise<any> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetch(url, {
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (compatible; LucidFeed/1.0; +https://getlucidfeed.com)',
+        'Accept': 'application/json',
+      },
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      const statusError: any = new Error(`Status code ${response.status}`);
+      statusError.statusCode = response.status;
+      throw statusError;
+    }
+
+    return await response.json();
+  } catch (error: any) {
+    if (error?.name === 'AbortError') {
+      throw new Error('Request timed out');
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
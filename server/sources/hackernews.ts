@@ -0,0 +1,119 @@
+import { htmlToText, type FeedLink } from "../services/feed-ingestion/feed-parser";
+import { fetchJson, type CommunityPost } from "./community";
+
+/**
+ * Hacker News adapter (Algolia HN Search API)
+ *
+ * Catalog entries use hnrss.org or news.ycombinator.com URLs; both are mapped
+ * to the equivalent Algolia search, which reports points and comment counts.
+ * Posts keep the HN thread as their URL and the story's article as a
+ * `related` link.
+ */
+
+const ALGOLIA_API = 'https://hn.algolia.com/api/v1';
+
+// hnrss.org / news.ycombinator.com paths → Algolia endpoint and tags
+const LISTINGS: Record<string, { endpoint: 'search' | 'search_by_date'; tags: string }> = {
+  '': { endpoint: 'search', tags: 'front_page' },
+  'news': { endpoint: 'search', tags: 'front_page' },
+  'frontpage': { endpoint: 'search', tags: 'front_page' },
+  'newest': { endpoint: 'search_by_date', tags: 'story' },
+  'best': { endpoint: 'search', tags: 'story' },
+  'show': { endpoint: 'search_by_date', tags: 'show_hn' },
+  'shownew': { endpoint: 'search_by_date', tags: 'show_hn' },
+  'ask': { endpoint: 'search_by_date', tags: 'ask_hn' },
+};
+
+/**
+ * Algolia search URL for a Hacker News feed URL (without hitsPerPage)
+ */
+export function getHackerNewsSearchUrl(feedUrl: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(feedUrl);
+  } catch {
+    return null;
+  }
+
+  const host = parsed.hostname.replace(/^www\./, '');
+  if (host === 'hn.algolia.com') {
+    parsed.searchParams.delete('hitsPerPage');
+    return parsed.toString();
+  }
+  if (host !== 'hnrss.org' && host !== 'news.ycombinator.com') {
+    return null;
+  }
+
+  const listing = LISTINGS[parsed.pathname.replace(/^\/+|\/+$/g, '').replace(/\.rss$/, '')];
+  if (!listing) return null;
+
+  const params = new URLSearchParams({ tags: listing.tags });
+  const query = parsed.searchParams.get('q');
+  if (query) params.set('query', query);
+
+  // hnrss.org thresholds: ?points=100, ?comments=25
+  const filters: string[] = [];
+  const points = Number(parsed.searchParams.get('points'));
+  const comments = Number(parsed.searchParams.get('comments'));
+  if (points > 0) filters.push(`points>=${points}`);
+  if (comments > 0) filters.push(`num_comments>=${comments}`);
+  if (filters.length > 0) params.set('numericFilters', filters.join(','));
+
+  return `${ALGOLIA_API}/${listing.endpoint}?${params.toString()}`;
+}
+
+/**
+ * Parse an Algolia search response into posts
+ */
+export function parseHackerNewsHits(response: any, refreshedAt: string = new Date().toISOString()): CommunityPost[] {
+  const hits: any[] = Array.isArray(response?.hits) ? response.hits : [];
+
+  return hits
+    .filter(hit => hit?.objectID && hit.title)
+    .map(hit => {
+      const threadUrl = `https://news.ycombinator.com/item?id=${hit.objectID}`;
+      const links: FeedLink[] = [{ href: threadUrl, rel: 'alternate' }];
+      if (hit.url) {
+        links.push({ href: hit.url, rel: 'related' });
+      }
+
+      const text = hit.story_text ? htmlToText(hit.story_text) : '';
+      const tags: string[] = Array.isArray(hit._tags) ? hit._tags : [];
+
+      return {
+        entry: {
+          id: String(hit.objectID),
+          title: hit.title,
+          url: threadUrl,
+          links,
+          publishedAt: hit.created_at_i ? new Date(hit.created_at_i * 1000).toISOString() : hit.created_at || null,
+          updatedAt: null,
+          author: hit.author || null,
+          contentHtml: hit.story_text || null,
+          contentText: text || null,
+          summary: text || hit.url || null,
+          categories: tags.filter(tag => tag === 'show_hn' || tag === 'ask_hn'),
+          enclosures: [],
+          imageUrl: null,
+          identifier: null,
+          transcripts: [],
+          chaptersUrl: null,
+          persons: [],
+          raw: hit,
+        },
+        engagement: {
+          comments: Number(hit.num_comments) || 0,
+          upvotes: Number(hit.points) || 0, // Points
+          views: 0,
+          status: 'reported',
+          refreshedAt,
+        },
+      };
+    });
+}
+
+export async function fetchHackerNewsPosts(searchUrl: string, limit: number = 25): Promise<CommunityPost[]> {
+  const separator = searchUrl.includes('?') ? '&' : '?';
+  const response = await fetchJson(`${searchUrl}${separator}hitsPerPage=${limit}`);
+  return parseHackerNewsHits(response);
+}
@@ -2,6 +2,7 @@ import Parser from "rss-parser";
 import { nanoid } from "nanoid";
 import type { InsertItem } from "@shared/schema";
 import { tagTopics } from "../core/topics";
+import { unknownEngagement } from "../core/engagement";
 import { generateHashDedupe, extractDOI } from "../core/dedupe";
 import { journalFeeds } from "./config";
 
@@ -47,11 +48,7 @@ export async function fetchJournalFeeds(): Promise<InsertItem[]> {
           publishedAt,
           ingestedAt: new Date().toISOString(),
           rawExcerpt: rawExcerpt.substring(0, 500),
-          engagement: {
-            comments: 0,
-            upvotes: 0,
-            views: 0,
-          },
+          engagement: unknownEngagement(), // Citations are collected separately during enrichment
           topics,
           isPreprint: title.toLowerCase().includes("preprint") || rawExcerpt.toLowerCase().includes("preprint"),
           journalName: journal.name,
@@ -0,0 +1,137 @@
+import Parser from "rss-parser";
+import type { LiteratureQuery, PublicationLink } from "@shared/schema";
+import { fetchWithTimeout, type LiteratureRecord } from "./types";
+
+/**
+ * arXiv adapter (export.arxiv.org API, Atom responses)
+ *
+ * Each keyword becomes an `all:` clause (AND-ed) and categories a
+ * `cat:` disjunction, newest submissions first. arXiv exposes the DOI of the
+ * published version (arxiv:doi) and the journal reference once authors add them.
+ */
+
+const API_URL = 'https://export.arxiv.org/api/query';
+
+const parser = new Parser<any, any>({
+  customFields: {
+    item: [
+      ['author', 'authors', { keepArray: true }],
+      ['link', 'rawLinks', { keepArray: true }],
+      ['category', 'rawCategories', { keepArray: true }],
+      ['arxiv:doi', 'publishedDoi'],
+      ['arxiv:journal_ref', 'journalRef'],
+      'id',
+      'published',
+      'updated',
+      'summary',
+    ],
+  },
+});
+
+function quoteTerm(term: string): string {
+  return /\s/.test(term) ? `"${term.replace(/"/g, '')}"` : term;
+}
+
+export function buildArxivSearchQuery(query: LiteratureQuery): string {
+  const clauses = query.keywords.map(keyword => `all:${quoteTerm(keyword)}`);
+
+  if (query.categories.length > 0) {
+    const categories = query.categories.map(category => `cat:${category}`).join(' OR ');
+    clauses.push(query.categories.length > 1 ? `(${categories})` : categories);
+  }
+
+  return clauses.join(' AND ');
+}
+
+export function buildArxivUrl(query: LiteratureQuery, limit: number = 25): string {
+  const params = new URLSearchParams({
+    search_query: buildArxivSearchQuery(query),
+    sortBy: 'submittedDate',
+    sortOrder: 'descending',
+    max_results: String(limit),
+  });
+  return `${API_URL}?${params.toString()}`;
+}
+
+function text(value: any): string {
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) return text(value[0]);
+  if (typeof value?._ === 'string') return value._;
+  return '';
+}
+
+function clean(value: string): string {
+  return value.replace(/\s+/g, ' ').trim();
+}
+
+function toIso(value: unknown): string | null {
+  if (typeof value !== 'string' || !value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * Parse an arXiv API Atom response
+ */
+export async function parseArxivResponse(xml: string): Promise<LiteratureRecord[]> {
+  const feed = await parser.parseString(xml);
+  const records: LiteratureRecord[] = [];
+
+  for (const entry of feed.items || []) {
+    // id: http://arxiv.org/abs/2401.01234v2
+    const idMatch = text(entry.id).match(/arxiv\.org\/abs\/(.+?)(v\d+)?$/);
+    if (!idMatch) continue;
+
+    const arxivId = idMatch[1];
+    const version = idMatch[2] || null;
+    const absUrl = `https://arxiv.org/abs/${arxivId}`;
+    const publishedDoi = clean(text(entry.publishedDoi)).toLowerCase() || null;
+    const journalRef = clean(text(entry.journalRef)) || null;
+
+    const links: PublicationLink[] = [{ rel: 'abstract', url: absUrl }];
+    for (const link of entry.rawLinks || []) {
+      if (link?.$?.title === 'pdf' && link.$.href) {
+        links.push({ rel: 'pdf', url: link.$.href });
+      }
+    }
+    if (version) {
+      links.push({ rel: 'version', url: `${absUrl}${version}`, label: version });
+    }
+    if (publishedDoi) {
+      links.push({
+        rel: 'published',
+        url: `https://doi.org/${publishedDoi}`,
+        doi: publishedDoi,
+        label: journalRef || undefined,
+      });
+    }
+
+    records.push({
+      source: 'arxiv',
+      externalId: arxivId,
+      title: clean(text(entry.title)) || 'Untitled',
+      abstract: clean(text(entry.summary)),
+      authors: (entry.authors || [])
+        .map((author: any) => clean(text(author?.name)))
+        .filter(Boolean),
+      doi: `10.48550/arxiv.${arxivId.toLowerCase()}`, // DataCite DOI arXiv assigns every paper
+      url: absUrl,
+      publishedAt: toIso(entry.published),
+      updatedAt: toIso(entry.updated),
+      isPreprint: true,
+      version,
+      journalName: 'arXiv',
+      categories: (entry.rawCategories || [])
+        .map((category: any) => category?.$?.term)
+        .filter((term: unknown): term is string => typeof term === 'string'),
+      links,
+    });
+  }
+
+  return records;
+}
+
+export async function fetchArxivRecords(query: LiteratureQuery, limit: number = 25): Promise<LiteratureRecord[]> {
+  const xml = await fetchWithTimeout(buildArxivUrl(query, limit), 'application/atom+xml');
+  return parseArxivResponse(xml);
+}
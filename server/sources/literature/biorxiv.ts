@@ -0,0 +1,154 @@
+import type { LiteratureQuery, PublicationLink } from "@shared/schema";
+import { fetchWithTimeout, matchesKeywords, type LiteratureRecord } from "./types";
+
+/**
+ * bioRxiv / medRxiv adapter (api.biorxiv.org "details" endpoint)
+ *
+ * The API has no full-text search: it lists every preprint posted in a date
+ * interval, optionally narrowed to one subject category. Keywords are matched
+ * locally against title and abstract. Each version is a separate row, so only
+ * the latest version per DOI is kept; `published` carries the journal DOI once
+ * the preprint has been published.
+ *
+ * Rows come oldest first, so the whole interval is paged through: stopping
+ * early would drop the newest preprints rather than the oldest.
+ */
+
+type PreprintServer = 'biorxiv' | 'medrxiv';
+
+const API_BASE = 'https://api.biorxiv.org/details';
+const LOOKBACK_DAYS = 7;
+const PAGE_SIZE = 100; // Fixed by the API
+const MAX_PAGES = 100; // Guard against a cursor that never runs out; a week of bioRxiv is ~15 pages
+
+const SERVER_HOSTS: Record<PreprintServer, string> = {
+  biorxiv: 'https://www.biorxiv.org',
+  medrxiv: 'https://www.medrxiv.org',
+};
+
+const SERVER_NAMES: Record<PreprintServer, string> = {
+  biorxiv: 'bioRxiv',
+  medrxiv: 'medRxiv',
+};
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function buildBiorxivUrl(
+  server: PreprintServer,
+  category: string | null,
+  cursor: number = 0,
+  now: Date = new Date()
+): string {
+  const start = new Date(now.getTime() - LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+  const url = `${API_BASE}/${server}/${formatDate(start)}/${formatDate(now)}/${cursor}`;
+  // The API expects spaces in category names as underscores
+  return category ? `${url}?category=${encodeURIComponent(category.toLowerCase().replace(/\s+/g, '_'))}` : url;
+}
+
+function toIso(value: unknown): string | null {
+  if (typeof value !== 'string' || !value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * Parse one page of the details endpoint into records (all versions, unfiltered)
+ */
+export function parseBiorxivResponse(body: string, server: PreprintServer): LiteratureRecord[] {
+  const json = JSON.parse(body);
+  const collection: any[] = Array.isArray(json?.collection) ? json.collection : [];
+  const host = SERVER_HOSTS[server];
+
+  return collection
+    .filter(row => typeof row?.doi === 'string' && row.doi)
+    .map(row => {
+      const doi = row.doi.toLowerCase();
+      const version = row.version ? `v${row.version}` : null;
+      const contentUrl = `${host}/content/${doi}${version || ''}`;
+
+      const links: PublicationLink[] = [
+        { rel: 'abstract', url: contentUrl },
+        { rel: 'pdf', url: `${contentUrl}.full.pdf` },
+      ];
+      if (version) {
+        links.push({ rel: 'version', url: contentUrl, label: version });
+      }
+
+      const publishedDoi = typeof row.published === 'string' && row.published !== 'NA'
+        ? row.published.toLowerCase()
+        : null;
+      if (publishedDoi) {
+        links.push({ rel: 'published', url: `https://doi.org/${publishedDoi}`, doi: publishedDoi });
+      }
+
+      return {
+        source: server,
+        externalId: doi,
+        title: (row.title || '').replace(/\s+/g, ' ').trim() || 'Untitled',
+        abstract: (row.abstract || '').replace(/\s+/g, ' ').trim(),
+        authors: typeof row.authors === 'string'
+          ? row.authors.split(';').map((author: string) => author.trim()).filter(Boolean)
+          : [],
+        doi,
+        url: `https://doi.org/${doi}`,
+        publishedAt: toIso(row.date),
+        updatedAt: toIso(row.date),
+        isPreprint: true,
+        version,
+        journalName: SERVER_NAMES[server],
+        categories: row.category ? [row.category] : [],
+        links,
+      } satisfies LiteratureRecord;
+    });
+}
+
+/**
+ * Total rows in the interval, from the page's `messages` block
+ */
+export function parseBiorxivTotal(body: string): number | null {
+  const total = Number(JSON.parse(body)?.messages?.[0]?.total);
+  return Number.isFinite(total) ? total : null;
+}
+
+/**
+ * Keep the latest version of each preprint that matches the query's keywords
+ */
+export function selectBiorxivRecords(records: LiteratureRecord[], query: LiteratureQuery): LiteratureRecord[] {
+  const latest = new Map<string, LiteratureRecord>();
+
+  for (const record of records) {
+    const existing = latest.get(record.externalId);
+    const version = Number(record.version?.slice(1)) || 0;
+    const existingVersion = Number(existing?.version?.slice(1)) || 0;
+    if (!existing || version > existingVersion) {
+      latest.set(record.externalId, record);
+    }
+  }
+
+  return Array.from(latest.values())
+    .filter(record => matchesKeywords(`${record.title} ${record.abstract}`, query.keywords))
+    .sort((a, b) => (b.publishedAt || '').localeCompare(a.publishedAt || ''));
+}
+
+export async function fetchBiorxivRecords(query: LiteratureQuery, limit: number = 25): Promise<LiteratureRecord[]> {
+  const server: PreprintServer = query.source === 'medrxiv' ? 'medrxiv' : 'biorxiv';
+  const categories: (string | null)[] = query.categories.length > 0 ? query.categories : [null];
+  const now = new Date();
+  const records: LiteratureRecord[] = [];
+
+  for (const category of categories) {
+    for (let page = 0; page < MAX_PAGES; page++) {
+      const cursor = page * PAGE_SIZE;
+      const body = await fetchWithTimeout(buildBiorxivUrl(server, category, cursor, now), 'application/json');
+      const pageRecords = parseBiorxivResponse(body, server);
+      records.push(...pageRecords);
+
+      const total = parseBiorxivTotal(body);
+      if (pageRecords.length < PAGE_SIZE || (total !== null && cursor + PAGE_SIZE >= total)) break;
+    }
+  }
+
+  return selectBiorxivRecords(records, query).slice(0, limit);
+}
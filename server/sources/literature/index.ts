@@ -0,0 +1,62 @@
+import type { LiteratureQuery } from "@shared/schema";
+import { fetchArxivRecords } from "./arxiv";
+import { fetchBiorxivRecords } from "./biorxiv";
+import { fetchPubmedRecords } from "./pubmed";
+import type { LiteratureRecord } from "./types";
+
+export type { LiteratureRecord } from "./types";
+
+/**
+ * Literature search adapters
+ *
+ * A saved query is subscribed to like a feed: its feedCatalog row carries the
+ * query and a canonical `literature://` URL so the same query is shared by
+ * every subscriber rather than duplicated per user.
+ */
+
+const SOURCE_LABELS: Record<LiteratureQuery['source'], string> = {
+  arxiv: 'arXiv',
+  biorxiv: 'bioRxiv',
+  medrxiv: 'medRxiv',
+  pubmed: 'PubMed',
+};
+
+export async function fetchLiteratureRecords(query: LiteratureQuery, limit: number = 25): Promise<LiteratureRecord[]> {
+  switch (query.source) {
+    case 'arxiv':
+      return fetchArxivRecords(query, limit);
+    case 'biorxiv':
+    case 'medrxiv':
+      return fetchBiorxivRecords(query, limit);
+    case 'pubmed':
+      return fetchPubmedRecords(query, limit);
+  }
+}
+
+/**
+ * Canonical feed URL for a query. Terms are lower-cased and sorted so
+ * equivalent queries map to the same catalog entry.
+ */
+export function buildLiteratureQueryUrl(query: LiteratureQuery): string {
+  const normalize = (terms: string[]) =>
+    Array.from(new Set(terms.map(term => term.trim().toLowerCase()).filter(Boolean))).sort();
+
+  const params = new URLSearchParams();
+  for (const keyword of normalize(query.keywords)) params.append('q', keyword);
+  for (const mesh of normalize(query.meshTerms)) params.append('mesh', mesh);
+  for (const category of normalize(query.categories)) params.append('cat', category);
+
+  return `literature://${query.source}?${params.toString()}`;
+}
+
+/**
+ * Human-readable feed name, e.g. `arXiv: "diffusion models" in cs.LG`
+ */
+export function describeLiteratureQuery(query: LiteratureQuery): string {
+  const parts: string[] = [];
+  if (query.keywords.length > 0) parts.push(query.keywords.map(keyword => `"${keyword}"`).join(' + '));
+  if (query.meshTerms.length > 0) parts.push(`MeSH ${query.meshTerms.join(', ')}`);
+  if (query.categories.length > 0) parts.push(`in ${query.categories.join(', ')}`);
+
+  return `${SOURCE_LABELS[query.source]}: ${parts.join(' ')}`;
+}
@@ -0,0 +1,150 @@
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import type { LiteratureQuery } from '@shared/schema';
+import { buildArxivSearchQuery, parseArxivResponse } from './arxiv';
+import { buildBiorxivUrl, fetchBiorxivRecords, parseBiorxivResponse, parseBiorxivTotal } from './biorxiv';
+import { buildPubmedTerm, fetchPubmedRecords, parsePubmedArticles, parsePubmedSearchResponse } from './pubmed';
+
+const fixturesDir = join(dirname(fileURLToPath(import.meta.url)), 'fixtures');
+
+function fixture(name: string): string {
+  return readFileSync(join(fixturesDir, name), 'utf8');
+}
+
+function query(fields: Partial<LiteratureQuery> & Pick<LiteratureQuery, 'source'>): LiteratureQuery {
+  return { keywords: [], meshTerms: [], categories: [], ...fields };
+}
+
+/**
+ * Answer fetch from recorded responses, keyed by a substring of the request URL
+ */
+function replay(responses: Array<[string, string]>): string[] {
+  const requested: string[] = [];
+  mock.method(globalThis, 'fetch', async (url: string) => {
+    requested.push(url);
+    const recorded = responses.find(([match]) => url.includes(match));
+    return recorded ? new Response(recorded[1]) : new Response('Not found', { status: 404 });
+  });
+  return requested;
+}
+
+test('arXiv: query syntax', () => {
+  assert.equal(
+    buildArxivSearchQuery(query({ source: 'arxiv', keywords: ['glucose', 'gaussian process'], categories: ['q-bio.QM', 'stat.ML'] })),
+    'all:glucose AND all:"gaussian process" AND (cat:q-bio.QM OR cat:stat.ML)'
+  );
+});
+
+test('arXiv: versions, journal version and old-style ids', async () => {
+  const [paper, legacy] = await parseArxivResponse(fixture('arxiv-query.xml'));
+
+  assert.equal(paper.externalId, '2503.01234');
+  assert.equal(paper.version, 'v2');
+  assert.equal(paper.title, 'Forecasting Postprandial Glucose from Continuous Monitoring Data with Sparse Gaussian Processes');
+  assert.deepEqual(paper.authors, ['Ana Ferreira', 'Tomás Brandt']);
+  assert.equal(paper.doi, '10.48550/arxiv.2503.01234');
+  assert.equal(paper.publishedAt, '2025-03-01T09:15:00.000Z');
+  assert.equal(paper.updatedAt, '2025-03-03T17:42:10.000Z');
+  assert.equal(paper.isPreprint, true);
+  assert.deepEqual(paper.categories, ['q-bio.QM', 'stat.ML']);
+  assert.deepEqual(paper.links.map(link => link.rel), ['abstract', 'pdf', 'version', 'published']);
+  assert.deepEqual(paper.links.find(link => link.rel === 'published'), {
+    rel: 'published',
+    url: 'https://doi.org/10.1109/jbhi.2025.0001234',
+    doi: '10.1109/jbhi.2025.0001234',
+    label: 'IEEE J. Biomed. Health Inform. 29 (2025) 101-112',
+  });
+
+  assert.equal(legacy.externalId, 'q-bio/0601001');
+  assert.equal(legacy.url, 'https://arxiv.org/abs/q-bio/0601001');
+  assert.equal(legacy.links.some(link => link.rel === 'published'), false);
+});
+
+test('bioRxiv: rows, total and category URL', () => {
+  const body = fixture('biorxiv-details-0.json');
+  const records = parseBiorxivResponse(body, 'biorxiv');
+
+  assert.equal(records.length, 100);
+  assert.equal(parseBiorxivTotal(body), 130);
+  assert.equal(
+    buildBiorxivUrl('medrxiv', 'Infectious Diseases', 200, new Date('2025-03-04T12:00:00Z')),
+    'https://api.biorxiv.org/details/medrxiv/2025-02-25/2025-03-04/200?category=infectious_diseases'
+  );
+});
+
+test('bioRxiv: pages through the interval and keeps the latest matching versions', async (t) => {
+  t.after(() => mock.restoreAll());
+  const requested = replay([
+    ['/0?', fixture('biorxiv-details-0.json')],
+    ['/100?', fixture('biorxiv-details-100.json')],
+  ]);
+
+  const records = await fetchBiorxivRecords(query({ source: 'biorxiv', keywords: ['insulin'], categories: ['Plant Biology'] }));
+
+  assert.equal(requested.length, 2);
+  // Newest first; the newest match is only on the second page
+  assert.deepEqual(records.map(record => [record.externalId, record.version]), [
+    ['10.1101/2025.03.02.641125', 'v1'],
+    ['10.1101/2025.02.24.640010', 'v2'],
+  ]);
+
+  const [newest, revised] = records;
+  assert.deepEqual(newest.authors, ['García, M.', 'Chen, W.']);
+  assert.equal(revised.title, 'Insulin signalling in root hair growth');
+  assert.equal(revised.publishedAt, '2025-02-26T00:00:00.000Z');
+  assert.deepEqual(revised.links.find(link => link.rel === 'published')?.doi, '10.1038/s41477-025-01234-5');
+});
+
+test('PubMed: term syntax', () => {
+  assert.equal(
+    buildPubmedTerm(query({ source: 'pubmed', keywords: ['zone 2'], meshTerms: ['Exercise'], categories: ['Randomized Controlled Trial'] })),
+    '"zone 2"[Title/Abstract] AND "Exercise"[MeSH Terms] AND "Randomized Controlled Trial"[pt]'
+  );
+});
+
+test('PubMed: structured abstracts, authors, dates and preprint links', () => {
+  assert.deepEqual(parsePubmedSearchResponse(fixture('pubmed-esearch.json')), ['40012345', '39998877']);
+
+  const [trial, preprint] = parsePubmedArticles(fixture('pubmed-efetch.xml'));
+
+  assert.equal(trial.externalId, '40012345');
+  assert.equal(trial.abstract, 'BACKGROUND: Low-intensity endurance training is widely recommended.\n\nRESULTS: Mitochondrial volume density rose by 21% (95% CI 12–30%) versus 3% in controls.');
+  assert.deepEqual(trial.authors, ['Chidi Okafor', 'Jonas Müller', 'ZONE2 Trial Investigators']);
+  assert.equal(trial.doi, '10.1152/japplphysiol.00123.2025');
+  assert.equal(trial.publishedAt, '2025-02-27T00:00:00.000Z'); // Electronic ArticleDate before the print PubDate
+  assert.equal(trial.updatedAt, '2025-03-02T00:00:00.000Z');
+  assert.equal(trial.isPreprint, false);
+  assert.equal(trial.journalName, 'Journal of applied physiology (Bethesda, Md. : 1985)');
+  assert.deepEqual(trial.categories, ['Randomized Controlled Trial', 'Journal Article', 'Exercise', 'Mitochondria, Muscle']);
+  assert.deepEqual(trial.links.map(link => [link.rel, link.url]), [
+    ['abstract', 'https://pubmed.ncbi.nlm.nih.gov/40012345/'],
+    ['pdf', 'https://www.ncbi.nlm.nih.gov/pmc/articles/PMC11876543/pdf/'],
+    ['preprint', 'https://pubmed.ncbi.nlm.nih.gov/39387654/'],
+  ]);
+
+  assert.equal(preprint.isPreprint, true);
+  assert.equal(preprint.abstract, 'Cardiac drift & lactate were measured in 40 cyclists.');
+  assert.equal(preprint.publishedAt, '2025-01-01T00:00:00.000Z'); // MedlineDate "2025 Jan-Feb"
+  assert.deepEqual(preprint.links.find(link => link.rel === 'published'), {
+    rel: 'published',
+    url: 'https://pubmed.ncbi.nlm.nih.gov/40054321/',
+    label: 'Eur J Appl Physiol. 2025',
+  });
+});
+
+test('PubMed: esearch then efetch for the returned PMIDs', async (t) => {
+  t.after(() => mock.restoreAll());
+  const requested = replay([
+    ['esearch.fcgi', fixture('pubmed-esearch.json')],
+    ['efetch.fcgi', fixture('pubmed-efetch.xml')],
+  ]);
+
+  const records = await fetchPubmedRecords(query({ source: 'pubmed', keywords: ['zone 2'] }), 2);
+
+  assert.equal(requested.length, 2);
+  assert.match(requested[1], /id=40012345,39998877/);
+  assert.deepEqual(records.map(record => record.externalId), ['40012345', '39998877']);
+});
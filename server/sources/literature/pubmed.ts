@@ -0,0 +1,195 @@
+import type { LiteratureQuery, PublicationLink } from "@shared/schema";
+import { fetchWithTimeout, type LiteratureRecord } from "./types";
+
+/**
+ * PubMed adapter (NCBI E-utilities)
+ *
+ * esearch finds the newest PMIDs for the query, efetch returns their full
+ * records as PubMed XML. Keywords search title and abstract, MeSH terms use
+ * [MeSH Terms] and categories are matched as publication types
+ * (e.g. "Randomized Controlled Trial"). NCBI_API_KEY raises the rate limit
+ * from 3 to 10 requests per second but is optional.
+ */
+
+const EUTILS_BASE = 'https://eutils.ncbi.nlm.nih.gov/entrez/eutils';
+
+function apiKeyParam(): string {
+  return process.env.NCBI_API_KEY ? `&api_key=${encodeURIComponent(process.env.NCBI_API_KEY)}` : '';
+}
+
+export function buildPubmedTerm(query: LiteratureQuery): string {
+  const quote = (term: string) => `"${term.replace(/"/g, '')}"`;
+  const clauses = [
+    ...query.keywords.map(keyword => `${quote(keyword)}[Title/Abstract]`),
+    ...query.meshTerms.map(mesh => `${quote(mesh)}[MeSH Terms]`),
+  ];
+
+  if (query.categories.length > 0) {
+    const types = query.categories.map(category => `${quote(category)}[pt]`).join(' OR ');
+    clauses.push(query.categories.length > 1 ? `(${types})` : types);
+  }
+
+  return clauses.join(' AND ');
+}
+
+export function buildPubmedSearchUrl(query: LiteratureQuery, limit: number = 25): string {
+  const term = encodeURIComponent(buildPubmedTerm(query));
+  return `${EUTILS_BASE}/esearch.fcgi?db=pubmed&retmode=json&sort=pub_date&retmax=${limit}&term=${term}${apiKeyParam()}`;
+}
+
+export function buildPubmedFetchUrl(pmids: string[]): string {
+  return `${EUTILS_BASE}/efetch.fcgi?db=pubmed&retmode=xml&id=${pmids.join(',')}${apiKeyParam()}`;
+}
+
+/**
+ * PMIDs from an esearch JSON response
+ */
+export function parsePubmedSearchResponse(body: string): string[] {
+  const ids = JSON.parse(body)?.esearchresult?.idlist;
+  return Array.isArray(ids) ? ids.filter((id: unknown): id is string => typeof id === 'string') : [];
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function decode(value: string): string {
+  return value
+    .replace(/<[^>]+>/g, '') // Inline markup such as <i>, <sup>
+    .replace(/&(#x?[0-9a-f]+|\w+);/gi, (entity, code: string) => {
+      if (code[0] === '#') {
+        const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+        return isNaN(point) ? entity : String.fromCodePoint(point);
+      }
+      return ENTITIES[code.toLowerCase()] ?? entity;
+    })
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function elements(xml: string, tag: string): { attrs: string; body: string }[] {
+  const pattern = new RegExp(`<${tag}(\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'g');
+  return Array.from(xml.matchAll(pattern), match => ({ attrs: match[1] || '', body: match[2] }));
+}
+
+function first(xml: string, tag: string): string | null {
+  const element = elements(xml, tag)[0];
+  return element ? decode(element.body) : null;
+}
+
+function attr(attrs: string, name: string): string | null {
+  return attrs.match(new RegExp(`${name}="([^"]*)"`))?.[1] ?? null;
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * PubMed dates come as Year/Month/Day with Month numeric or abbreviated,
+ * and Day or Month often missing
+ */
+function parsePubmedDate(xml: string | null): string | null {
+  if (!xml) return null;
+
+  const year = Number(first(xml, 'Year'));
+  if (!year) {
+    const medline = first(xml, 'MedlineDate')?.match(/\d{4}/); // e.g. "2024 Jan-Feb"
+    return medline ? new Date(Date.UTC(Number(medline[0]), 0, 1)).toISOString() : null;
+  }
+
+  const monthText = (first(xml, 'Month') || '1').toLowerCase();
+  const month = /^\d+$/.test(monthText) ? Number(monthText) : MONTHS.indexOf(monthText.slice(0, 3)) + 1;
+  const day = Number(first(xml, 'Day')) || 1;
+
+  return new Date(Date.UTC(year, Math.max(month, 1) - 1, day)).toISOString();
+}
+
+function parseArticle(article: string): LiteratureRecord | null {
+  const pmid = first(article, 'PMID');
+  if (!pmid) return null;
+
+  const abstractParts = elements(article, 'AbstractText').map(({ attrs, body }) => {
+    const label = attr(attrs, 'Label');
+    const text = decode(body);
+    return label ? `${label}: ${text}` : text;
+  });
+
+  const authors = elements(article, 'Author')
+    .map(({ body }) => {
+      const collective = first(body, 'CollectiveName');
+      if (collective) return collective;
+      return [first(body, 'ForeName'), first(body, 'LastName')].filter(Boolean).join(' ');
+    })
+    .filter(Boolean);
+
+  const articleIds = new Map<string, string>();
+  for (const { attrs, body } of elements(article, 'ArticleId')) {
+    const type = attr(attrs, 'IdType');
+    if (type && !articleIds.has(type)) articleIds.set(type, decode(body));
+  }
+  const doi = articleIds.get('doi')?.toLowerCase() || null;
+  const pmcid = articleIds.get('pmc') || null;
+
+  const publicationTypes = elements(article, 'PublicationType').map(({ body }) => decode(body));
+  const meshHeadings = elements(article, 'DescriptorName').map(({ body }) => decode(body));
+  const isPreprint = publicationTypes.includes('Preprint');
+
+  const pubmedUrl = `https://pubmed.ncbi.nlm.nih.gov/${pmid}/`;
+  const links: PublicationLink[] = [{ rel: 'abstract', url: pubmedUrl }];
+  if (pmcid) {
+    links.push({ rel: 'pdf', url: `https://www.ncbi.nlm.nih.gov/pmc/articles/${pmcid}/pdf/`, label: pmcid });
+  }
+
+  // Preprint records point at their journal version ("UpdateIn") and vice versa ("UpdateOf")
+  for (const { attrs, body } of elements(article, 'CommentsCorrections')) {
+    const refType = attr(attrs, 'RefType');
+    if (refType !== 'UpdateIn' && refType !== 'UpdateOf') continue;
+
+    const refPmid = first(body, 'PMID');
+    const refSource = first(body, 'RefSource') || undefined;
+    if (!refPmid) continue;
+
+    links.push({
+      rel: refType === 'UpdateIn' ? 'published' : 'preprint',
+      url: `https://pubmed.ncbi.nlm.nih.gov/${refPmid}/`,
+      label: refSource,
+    });
+  }
+
+  const articleDate = elements(article, 'ArticleDate')[0]?.body ?? null;
+  const pubDate = elements(article, 'PubDate')[0]?.body ?? null;
+  const publishedAt = parsePubmedDate(articleDate) || parsePubmedDate(pubDate);
+
+  return {
+    source: 'pubmed',
+    externalId: pmid,
+    title: first(article, 'ArticleTitle') || 'Untitled',
+    abstract: abstractParts.join('\n\n'),
+    authors,
+    doi,
+    url: doi ? `https://doi.org/${doi}` : pubmedUrl,
+    publishedAt,
+    updatedAt: parsePubmedDate(elements(article, 'DateRevised')[0]?.body ?? null),
+    isPreprint,
+    version: null, // PubMed records aren't versioned; preprint/journal versions are separate PMIDs
+    journalName: first(article, 'Title'), // Journal title (ISOAbbreviation is the short form)
+    categories: [...publicationTypes, ...meshHeadings],
+    links,
+  };
+}
+
+/**
+ * Parse an efetch PubMed XML response (PubmedArticleSet)
+ */
+export function parsePubmedArticles(xml: string): LiteratureRecord[] {
+  return elements(xml, 'PubmedArticle')
+    .map(({ body }) => parseArticle(body))
+    .filter((record): record is LiteratureRecord => record !== null);
+}
+
+export async function fetchPubmedRecords(query: LiteratureQuery, limit: number = 25): Promise<LiteratureRecord[]> {
+  const pmids = parsePubmedSearchResponse(
+    await fetchWithTimeout(buildPubmedSearchUrl(query, limit), 'application/json')
+  );
+  if (pmids.length === 0) return [];
+
+  const xml = await fetchWithTimeout(buildPubmedFetchUrl(pmids), 'application/xml');
+  return parsePubmedArticles(xml);
+}
@@ -0,0 +1,68 @@
+import type { LiteratureSource, PublicationLink } from "@shared/schema";
+
+/**
+ * One paper as returned by a literature database adapter, before it is
+ * normalized into an item. Adapters keep parsing separate from fetching so
+ * recorded API responses can be replayed through the parse functions.
+ */
+export interface LiteratureRecord {
+  source: LiteratureSource;
+  externalId: string; // arXiv id, bioRxiv/medRxiv DOI, PMID
+  title: string;
+  abstract: string;
+  authors: string[];
+  doi: string | null; // DOI of this record (the preprint's own DOI for preprints)
+  url: string; // Landing page
+  publishedAt: string | null; // ISO 8601
+  updatedAt: string | null; // ISO 8601 (latest version)
+  isPreprint: boolean;
+  version: string | null;
+  journalName: string | null; // Journal (PubMed) or server name (bioRxiv, arXiv)
+  categories: string[];
+  links: PublicationLink[];
+}
+
+export const LITERATURE_REQUEST_HEADERS: Record<string, string> = {
+  'User-Agent': 'Mozilla/5.0 (compatible; LucidFeed/1.0; +https://getlucidfeed.com)',
+};
+
+export const LITERATURE_TIMEOUT = 20000;
+
+/**
+ * GET with a timeout; status errors carry statusCode so the fetcher's
+ * retry logic can tell transient from permanent failures.
+ */
+export async function fetchWithTimeout(url: string, accept: string): Promise<string> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), LITERATURE_TIMEOUT);
+
+  try {
+    const response = await fetch(url, {
+      headers: { ...LITERATURE_REQUEST_HEADERS, 'Accept': accept },
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      const statusError: any = new Error(`Status code ${response.status}`);
+      statusError.statusCode = response.status;
+      throw statusError;
+    }
+
+    return await response.text();
+  } catch (error: any) {
+    if (error?.name === 'AbortError') {
+      throw new Error('Request timed out');
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Every keyword must appear in the text (case-insensitive)
+ */
+export function matchesKeywords(text: string, keywords: string[]): boolean {
+  const haystack = text.toLowerCase();
+  return keywords.every(keyword => haystack.includes(keyword.toLowerCase()));
+}
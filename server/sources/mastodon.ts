@@ -0,0 +1,117 @@
+import { htmlToText, type FeedLink } from "../services/feed-ingestion/feed-parser";
+import { fetchJson, postTitle, type CommunityPost } from "./community";
+
+/**
+ * Mastodon adapter (public REST API of the feed's instance)
+ *
+ * Catalog entries use the instance's RSS URLs (`/tags/<tag>.rss`,
+ * `/@<account>.rss`); the adapter reads the same timeline from
+ * `/api/v1/timelines/tag/<tag>` or the account's statuses. Replies count as
+ * comments, favourites plus boosts as upvotes.
+ */
+
+export interface MastodonTarget {
+  instance: string; // https://mastodon.social
+  kind: 'tag' | 'account';
+  name: string; // Hashtag without '#', or acct (user or user@domain)
+}
+
+export function getMastodonTarget(feedUrl: string): MastodonTarget | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(feedUrl);
+  } catch {
+    return null;
+  }
+
+  const instance = `${parsed.protocol}//${parsed.host}`;
+  const path = parsed.pathname.replace(/\.rss$/, '').replace(/\/+$/, '');
+
+  const tag = path.match(/^\/tags\/([^/]+)$/);
+  if (tag) return { instance, kind: 'tag', name: decodeURIComponent(tag[1]) };
+
+  const account = path.match(/^\/@([^/]+)$/) || path.match(/^\/users\/([^/]+)$/);
+  if (account) return { instance, kind: 'account', name: decodeURIComponent(account[1]) };
+
+  return null;
+}
+
+/**
+ * Parse an array of statuses (tag timeline or account statuses) into posts.
+ * Boosts are read as the boosted status; replies are skipped.
+ */
+export function parseMastodonStatuses(statuses: any, refreshedAt: string = new Date().toISOString()): CommunityPost[] {
+  const list: any[] = Array.isArray(statuses) ? statuses : [];
+  const posts: CommunityPost[] = [];
+
+  for (const item of list) {
+    const status = item?.reblog || item;
+    if (!status?.id || status.in_reply_to_id) continue;
+
+    const url = status.url || status.uri;
+    if (!url) continue;
+
+    const card = status.card;
+    const links: FeedLink[] = [{ href: url, rel: 'alternate' }];
+    if (card?.url && card.url !== url) {
+      links.push({ href: card.url, rel: 'related' });
+    }
+
+    const body = htmlToText(status.content);
+    const text = status.spoiler_text ? `${status.spoiler_text}\n\n${body}` : body;
+    const image = (status.media_attachments || []).find((media: any) => media?.type === 'image');
+    const account = status.account;
+
+    posts.push({
+      entry: {
+        id: String(status.id),
+        title: postTitle(text, card?.title),
+        url,
+        links,
+        publishedAt: status.created_at || null,
+        updatedAt: status.edited_at || null,
+        author: account?.acct ? `@${account.acct}` : account?.display_name || null,
+        contentHtml: status.content || null,
+        contentText: text || null,
+        summary: text || card?.description || null,
+        categories: (status.tags || []).map((tag: any) => tag?.name).filter(Boolean),
+        enclosures: [],
+        imageUrl: image?.preview_url || card?.image || null,
+        identifier: null,
+        transcripts: [],
+        chaptersUrl: null,
+        persons: [],
+        raw: status,
+      },
+      engagement: {
+        comments: Number(status.replies_count) || 0,
+        upvotes: (Number(status.favourites_count) || 0) + (Number(status.reblogs_count) || 0),
+        views: 0,
+        status: 'reported',
+        over18: !!status.sensitive,
+        refreshedAt,
+      },
+    });
+  }
+
+  return posts;
+}
+
+export async function fetchMastodonPosts(target: MastodonTarget, limit: number = 25): Promise<CommunityPost[]> {
+  const api = `${target.instance}/api/v1`;
+
+  if (target.kind === 'tag') {
+    const statuses = await fetchJson(`${api}/timelines/tag/${encodeURIComponent(target.name)}?limit=${limit}`);
+    return parseMastodonStatuses(statuses);
+  }
+
+  const account = await fetchJson(`${api}/accounts/lookup?acct=${encodeURIComponent(target.name)}`);
+  if (!account?.id) {
+    throw new Error(`Mastodon account not found: ${target.name}`);
+  }
+
+  const statuses = await fetchJson(
+    `${api}/accounts/${encodeURIComponent(account.id)}/statuses?limit=${limit}&exclude_replies=true`
+  );
+  return parseMastodonStatuses(statuses);
+}
@@ -1,35 +1,23 @@
-import Parser from "rss-parser";
 import type { InsertItem } from "@shared/schema";
 import { tagTopics } from "../core/topics";
+import { unknownEngagement } from "../core/engagement";
 import { generateHashDedupe } from "../core/dedupe";
+import { fetchAndParseFeed } from "../services/feed-ingestion/feed-parser";
+import { buildPodcastMedia } from "../services/podcast-transcripts";
 import { podcastFeeds } from "./config";
 
-const parser = new Parser({
-  headers: {
-    'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-    'Accept': 'application/rss+xml, application/xml, text/xml, */*'
-  },
-  timeout: 10000,
-  customFields: {
-    item: [
-      ['itunes:duration', 'duration'],
-      ['itunes:explicit', 'explicit'],
-    ],
-  },
-});
-
 export async function fetchPodcastFeeds(): Promise<InsertItem[]> {
   const items: InsertItem[] = [];
 
   for (const podcast of podcastFeeds) {
     try {
-      const feed = await parser.parseURL(podcast.url);
+      const feed = await fetchAndParseFeed(podcast.url);
 
       for (const entry of feed.items.slice(0, 5)) { // Limit per feed
         const title = entry.title || "Untitled";
-        const url = entry.link || entry.guid || "";
-        const publishedAt = entry.pubDate ? new Date(entry.pubDate).toISOString() : new Date().toISOString();
-        const rawExcerpt = entry.content || entry.summary || entry.contentSnippet || ""; // Prefer full content first
+        const url = entry.url || entry.id || "";
+        const publishedAt = entry.publishedAt || new Date().toISOString();
+        const rawExcerpt = entry.contentText || entry.summary || ""; // Show notes; the transcript is fetched during enrichment
         
         const searchText = `${title} ${rawExcerpt}`;
         const topics = tagTopics(searchText);
@@ -46,15 +34,12 @@ export async function fetchPodcastFeeds(): Promise<InsertItem[]> {
           publishedAt,
           ingestedAt: new Date().toISOString(),
           rawExcerpt: rawExcerpt, // Full episode description/show notes
-          engagement: {
-            comments: 0,
-            upvotes: Math.floor(Math.random() * 100),
-            views: Math.floor(Math.random() * 10000) + 1000,
-          },
+          engagement: unknownEngagement(), // Podcast RSS has no play or like counts
           topics,
           isPreprint: false,
           journalName: null,
           hashDedupe,
+          media: buildPodcastMedia(entry), // podcast:transcript, podcast:chapters, podcast:person
         });
       }
     } catch (error) {
@@ -1,37 +1,133 @@
-import Parser from "rss-parser";
 import type { InsertItem } from "@shared/schema";
 import { tagTopics } from "../core/topics";
 import { generateHashDedupe } from "../core/dedupe";
+import { htmlToText, type FeedLink } from "../services/feed-ingestion/feed-parser";
 import { redditFeeds } from "./config";
+import { getLinkedUrl, type CommunityPost } from "./community";
 
-const parser = new Parser({
-  headers: {
-    'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-    'Accept': 'application/rss+xml, application/xml, text/xml, */*'
-  },
-  timeout: 10000
-});
+/**
+ * Reddit adapter
+ *
+ * Reads the subreddit's public `.json` listing instead of its RSS feed, since
+ * only the listing carries real engagement (score, num_comments, upvote_ratio)
+ * plus flair and the over_18 flag. Posts keep the comments permalink as their
+ * URL so they dedupe against items ingested from the RSS feed.
+ */
+
+const LISTING_TIMEOUT = 10000;
+
+const REDDIT_HEADERS: Record<string, string> = {
+  'User-Agent': 'Mozilla/5.0 (compatible; LucidFeed/1.0; +https://getlucidfeed.com)',
+  'Accept': 'application/json',
+};
+
+export type RedditPost = CommunityPost;
+
+/**
+ * Extract the subreddit name from a subreddit URL (RSS or listing)
+ */
+export function getSubredditName(url: string): string | null {
+  return url.match(/reddit\.com\/r\/([^/?#.]+)/i)?.[1] || null;
+}
+
+/**
+ * Fetch the newest posts of a subreddit with their engagement counts
+ */
+export async function fetchSubredditListing(subreddit: string, limit: number = 25): Promise<RedditPost[]> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), LISTING_TIMEOUT);
+
+  try {
+    const url = `https://www.reddit.com/r/${encodeURIComponent(subreddit)}/.json?limit=${limit}&raw_json=1`;
+    const response = await fetch(url, { headers: REDDIT_HEADERS, signal: controller.signal });
+
+    if (!response.ok) {
+      const statusError: any = new Error(`Status code ${response.status}`);
+      statusError.statusCode = response.status;
+      throw statusError;
+    }
+
+    const listing = await response.json();
+    const children: any[] = listing?.data?.children || [];
+    const refreshedAt = new Date().toISOString();
+
+    return children
+      .filter(child => child?.kind === 't3' && child.data && !child.data.stickied)
+      .map(child => toRedditPost(child.data, refreshedAt));
+  } catch (error: any) {
+    if (error?.name === 'AbortError') {
+      throw new Error('Request timed out');
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+function toRedditPost(post: any, refreshedAt: string): RedditPost {
+  const permalink = `https://www.reddit.com${post.permalink}`;
+  const links: FeedLink[] = [{ href: permalink, rel: 'alternate' }];
+  if (!post.is_self && post.url && post.url !== permalink) {
+    links.push({ href: post.url, rel: 'related' }); // The article or paper the post links to
+  }
+
+  const selftext = post.selftext || htmlToText(post.selftext_html);
+  const flair = post.link_flair_text || null;
+  const thumbnail = typeof post.thumbnail === 'string' && post.thumbnail.startsWith('http') ? post.thumbnail : null;
+
+  return {
+    entry: {
+      id: post.name || null,
+      title: post.title || 'Untitled',
+      url: permalink,
+      links,
+      publishedAt: post.created_utc ? new Date(post.created_utc * 1000).toISOString() : null,
+      updatedAt: typeof post.edited === 'number' ? new Date(post.edited * 1000).toISOString() : null,
+      author: post.author ? `/u/${post.author}` : null,
+      contentHtml: post.selftext_html || null,
+      contentText: selftext || null,
+      summary: selftext || (post.is_self ? null : post.url) || null,
+      categories: flair ? [flair] : [],
+      enclosures: [],
+      imageUrl: thumbnail,
+      identifier: null,
+      transcripts: [],
+      chaptersUrl: null,
+      persons: [],
+      raw: post,
+    },
+    engagement: {
+      comments: Number(post.num_comments) || 0,
+      upvotes: Number(post.score) || 0,
+      views: 0, // Reddit doesn't expose view counts
+      status: 'reported',
+      upvoteRatio: typeof post.upvote_ratio === 'number' ? post.upvote_ratio : undefined,
+      flair,
+      over18: !!post.over_18,
+      refreshedAt,
+    },
+  };
+}
 
 export async function fetchRedditFeeds(): Promise<InsertItem[]> {
   const items: InsertItem[] = [];
 
   for (const subreddit of redditFeeds) {
     try {
-      const feed = await parser.parseURL(subreddit.url);
-
-      for (const entry of feed.items.slice(0, 15)) { // Limit per feed
-        const title = entry.title || "Untitled";
-        const url = entry.link || "";
-        const publishedAt = entry.pubDate ? new Date(entry.pubDate).toISOString() : new Date().toISOString();
-        const rawExcerpt = entry.content || entry.contentSnippet || ""; // Prefer full content over snippet
-        
+      const name = getSubredditName(subreddit.url);
+      if (!name) continue;
+
+      const posts = await fetchSubredditListing(name, 15); // Limit per feed
+
+      for (const { entry, engagement } of posts) {
+        const title = entry.title;
+        const url = entry.url;
+        const publishedAt = entry.publishedAt || new Date().toISOString();
+        const rawExcerpt = entry.contentText || entry.summary || ""; // Full self-post text
+
         const searchText = `${title} ${rawExcerpt}`;
         const topics = tagTopics(searchText);
-        
-        // Extract score/upvotes from content if available (Reddit RSS sometimes includes this)
-        const upvoteMatch = rawExcerpt.match(/(\d+) points?/);
-        const upvotes = upvoteMatch ? parseInt(upvoteMatch[1]) : Math.floor(Math.random() * 100);
-        
+
         const hashDedupe = generateHashDedupe(url, title);
 
         items.push({
@@ -39,16 +135,13 @@ export async function fetchRedditFeeds(): Promise<InsertItem[]> {
           sourceId: url,
           doi: null,
           url,
+          linkedUrl: getLinkedUrl(entry),
           title,
           authorOrChannel: subreddit.name,
           publishedAt,
           ingestedAt: new Date().toISOString(),
-          rawExcerpt: rawExcerpt, // Full post content from RSS
-          engagement: {
-            comments: Math.floor(Math.random() * 50),
-            upvotes,
-            views: 0,
-          },
+          rawExcerpt: rawExcerpt,
+          engagement,
           topics,
           isPreprint: false,
           journalName: null,
@@ -1,6 +1,7 @@
 import Parser from "rss-parser";
 import type { InsertItem } from "@shared/schema";
 import { tagTopics } from "../core/topics";
+import { unknownEngagement } from "../core/engagement";
 import { generateHashDedupe } from "../core/dedupe";
 import { substackFeeds } from "./config";
 
@@ -40,11 +41,7 @@ export async function fetchSubstackFeeds(): Promise<InsertItem[]> {
           publishedAt,
           ingestedAt: new Date().toISOString(),
           rawExcerpt: rawExcerpt, // Full article content from RSS
-          engagement: {
-            comments: Math.floor(Math.random() * 30),
-            upvotes: Math.floor(Math.random() * 200),
-            views: 0,
-          },
+          engagement: unknownEngagement(), // Likes and comments aren't in the Substack RSS
           topics,
           isPreprint: false,
           journalName: null,
@@ -1,6 +1,7 @@
 import Parser from "rss-parser";
 import type { InsertItem } from "@shared/schema";
 import { tagTopics } from "../core/topics";
+import { unknownEngagement } from "../core/engagement";
 import { generateHashDedupe } from "../core/dedupe";
 import { youtubeFeeds } from "./config";
 
@@ -46,11 +47,7 @@ export async function fetchYouTubeFeeds(): Promise<InsertItem[]> {
           publishedAt,
           ingestedAt: new Date().toISOString(),
           rawExcerpt: rawExcerpt.substring(0, 500),
-          engagement: {
-            comments: Math.floor(Math.random() * 500),
-            upvotes: Math.floor(Math.random() * 5000),
-            views: Math.floor(Math.random() * 100000) + 10000,
-          },
+          engagement: unknownEngagement(), // Channel RSS has no view/like counts (those need the Data API)
           topics,
           isPreprint: false,
           journalName: null,
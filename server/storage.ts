@@ -1,28 +1,78 @@
 import { nanoid } from "nanoid";
 import { db } from "./db";
-import { items, summaries, digests, users, userPreferences, savedItems, readItems, feedCatalog, userFeedSubmissions, jobRuns, relatedRefs, userRatings, userFeedSubscriptions, userSubscriptions, dailyUsage, folders, itemFolders, chatConversations, chatSettings, feedRequests, feedHealthAttempts, feedHealingProfiles, feedNotifications, discoveryAttempts } from "@shared/schema";
-import type { Item, InsertItem, Summary, InsertSummary, Digest, InsertDigest, User, UpsertUser, UserPreferences, InsertUserPreferences, SavedItem, InsertSavedItem, ReadItem, InsertReadItem, FeedCatalog, InsertFeedCatalog, UserFeedSubmission, InsertUserFeedSubmission, JobRun, InsertJobRun, RelatedRef, InsertRelatedRef, UserRating, InsertUserRating, UserFeedSubscription, InsertUserFeedSubscription, UserSubscription, InsertUserSubscription, DailyUsage, InsertDailyUsage, Folder, InsertFolder, ItemFolder, InsertItemFolder, ChatConversation, InsertChatConversation, ChatSettings, InsertChatSettings, FeedRequest, InsertFeedRequest, FeedHealthAttempt, InsertFeedHealthAttempt, FeedHealingProfile, InsertFeedHealingProfile, FeedNotification, InsertFeedNotification, DiscoveryAttempt, InsertDiscoveryAttempt } from "@shared/schema";
-import { eq, and, gte, lte, desc, inArray, or, like, sql, avg, count, isNull } from "drizzle-orm";
+import { items, summaries, digests, users, userPreferences, savedItems, readItems, feedCatalog, userFeedSubmissions, jobRuns, relatedRefs, userRatings, userFeedSubscriptions, userSubscriptions, dailyUsage, folders, itemFolders, chatConversations, chatSettings, feedRequests, itemFeeds, feedHealthAttempts, feedHealingProfiles, feedNotifications, discoveryAttempts, nearDuplicateMerges, itemEmbeddings } from "@shared/schema";
+import type { Item, InsertItem, Summary, InsertSummary, Digest, InsertDigest, User, UpsertUser, UserPreferences, InsertUserPreferences, SavedItem, InsertSavedItem, ReadItem, InsertReadItem, FeedCatalog, InsertFeedCatalog, UserFeedSubmission, InsertUserFeedSubmission, JobRun, InsertJobRun, RelatedRef, InsertRelatedRef, UserRating, InsertUserRating, UserFeedSubscription, InsertUserFeedSubscription, UserSubscription, InsertUserSubscription, DailyUsage, InsertDailyUsage, Folder, InsertFolder, ItemFolder, InsertItemFolder, ChatConversation, InsertChatConversation, ChatSettings, InsertChatSettings, FeedRequest, InsertFeedRequest, FeedHealthAttempt, InsertFeedHealthAttempt, FeedHealingProfile, InsertFeedHealingProfile, FeedNotification, InsertFeedNotification, DiscoveryAttempt, InsertDiscoveryAttempt, WebSubStatus, ItemEngagement, ItemAlternate, NearDuplicateMerge, InsertNearDuplicateMerge } from "@shared/schema";
+import { eq, ne, and, gte, lte, desc, inArray, or, like, notLike, sql, avg, count, isNull, type SQL } from "drizzle-orm";
+import { mergeEngagement, engagementSourceKey } from "./core/engagement";
+
+// Fields near-duplicate detection compares; fingerprint is null for items stored before fingerprinting
+export type NearDuplicateCandidate = Pick<Item, 'id' | 'title' | 'rawExcerpt' | 'sourceType' | 'feedId' | 'doi' | 'fingerprint'>;
+
+export type NearDuplicateMergeReport = NearDuplicateMerge & {
+  canonicalTitle: string;
+  canonicalUrl: string;
+  canonicalSourceType: string;
+};
+
+/**
+ * Items a user may see. Newsletter items are private to the user whose inbound
+ * address received them (the submitter of their feed); everything else is public.
+ */
+export function itemVisibleTo(userId: string | undefined): SQL {
+  if (!userId) return ne(items.sourceType, 'newsletter');
+  return or(
+    ne(items.sourceType, 'newsletter'),
+    inArray(items.feedId, db.select({ id: feedCatalog.id }).from(feedCatalog).where(eq(feedCatalog.submittedBy, userId)))
+  )!;
+}
+
+export function isFeedVisibleTo(feed: FeedCatalog, userId: string | undefined): boolean {
+  return feed.sourceType !== 'newsletter' || (!!userId && feed.submittedBy === userId);
+}
+
+/**
+ * Digests a user may see. Personalized digests (recorded owner, or the
+ * personal- slug of those generated before owners were recorded) are private
+ * to their owner; the weekly digests are public.
+ */
+export function digestVisibleTo(userId: string | undefined): SQL {
+  const isPublic = and(isNull(digests.userId), notLike(digests.slug, 'personal-%'))!;
+  return userId ? or(isPublic, eq(digests.userId, userId))! : isPublic;
+}
+
+export function isDigestVisibleTo(digest: Digest, userId: string | undefined): boolean {
+  const isPersonal = !!digest.userId || digest.slug.startsWith('personal-');
+  return !isPersonal || (!!userId && digest.userId === userId);
+}
 
 export interface IStorage {
   // Items
   createItem(item: InsertItem): Promise<Item>;
   getItemByHash(hash: string): Promise<Item | undefined>;
+  getItemByGuid(feedId: string, guid: string): Promise<Item | undefined>;
+  getItemByUrl(urls: string[]): Promise<Item | undefined>;
+  isItemVisibleToUser(itemId: string, userId: string): Promise<boolean>;
   getItemsInWindow(start: string, end: string): Promise<Item[]>;
-  mergeItemEngagement(itemId: string, engagement: { comments: number; upvotes: number; views: number }): Promise<void>;
+  mergeItemEngagement(itemId: string, engagement: ItemEngagement, sourceKey: string): Promise<void>;
   getItemsWithoutQualityScores(limit: number): Promise<Item[]>;
   updateItem(itemId: string, updates: Partial<Item>): Promise<void>;
   getRecentItems(limit: number): Promise<Item[]>;
+  getNearDuplicateCandidates(since: string): Promise<NearDuplicateCandidate[]>;
+  setItemFingerprints(fingerprints: Array<{ id: string; fingerprint: string }>): Promise<void>;
+  addItemAlternate(itemId: string, alternate: ItemAlternate): Promise<boolean>;
   
   // Summaries
   createSummary(summary: InsertSummary): Promise<Summary>;
   getSummaryByItemId(itemId: string): Promise<Summary | undefined>;
   getSummariesByItemIds(itemIds: string[]): Promise<Summary[]>;
   createBatchSummaries(summaries: InsertSummary[]): Promise<Summary[]>;
+
+  // Embeddings
+  getItemEmbeddings(itemIds: string[]): Promise<Map<string, number[]>>;
   
   // Digests
   createDigest(digest: InsertDigest): Promise<Digest>;
-  getLatestDigest(): Promise<Digest | undefined>;
+  getLatestDigest(userId?: string): Promise<Digest | undefined>;
   getDigestBySlug(slug: string): Promise<Digest | undefined>;
   getAllDigests(): Promise<Digest[]>;
   deleteDigest(id: string): Promise<void>;
@@ -30,6 +80,8 @@ export interface IStorage {
   // Users (required for Replit Auth)
   getUser(id: string): Promise<User | undefined>;
   upsertUser(user: UpsertUser): Promise<User>;
+  getUserByInboundEmailToken(token: string): Promise<User | undefined>;
+  setUserInboundEmailToken(userId: string, token: string): Promise<User>;
   
   // User Preferences
   getUserPreferences(userId: string): Promise<UserPreferences | undefined>;
@@ -63,7 +115,10 @@ export interface IStorage {
   createFeed(feed: InsertFeedCatalog): Promise<FeedCatalog>;
   getActiveFeeds(): Promise<FeedCatalog[]>;
   updateFeedUrl(feedId: string, newUrl: string): Promise<void>;
-  getItemsByFeedUrl(feedUrl: string, limit?: number): Promise<Item[]>;
+  getItemsByFeedId(feedId: string, limit?: number): Promise<Item[]>;
+  getFeedItemsInWindow(feedIds: string[], start: string, end: string, userId: string): Promise<Item[]>;
+  getFeedItemStats(feedId: string): Promise<{ itemCount: number; lastPublishedAt: string | null; averageScore: number | null }>;
+  linkItemToFeed(itemId: string, feedId: string): Promise<void>;
   getFeedCatalog(filters?: { domain?: string; sourceType?: string; search?: string; featured?: boolean }): Promise<FeedCatalog[]>;
   getFeaturedFeeds(): Promise<FeedCatalog[]>;
   getSuggestedFeeds(topics: string[], sourceTypes: string[], limit?: number): Promise<FeedCatalog[]>;
@@ -78,6 +133,22 @@ export interface IStorage {
     lastHealthCheck?: Date;
     healthStatus?: 'healthy' | 'degraded' | 'failing' | 'dead';
   }): Promise<void>;
+  updateFeedFetchValidators(feedId: string, validators: {
+    etag?: string | null;
+    lastModified?: string | null;
+    contentHash?: string | null;
+  }): Promise<void>;
+  getFeedsDueForFetch(now: Date): Promise<FeedCatalog[]>;
+  getSubscriberTiersForFeeds(feedIds: string[]): Promise<Array<{ feedId: string; tier: string | null }>>;
+  getFeedPublishDates(feedId: string, limit?: number): Promise<string[]>;
+  updateFeedSchedule(feedId: string, schedule: { nextFetchAt: Date; fetchIntervalMinutes?: number }): Promise<void>;
+  updateFeedWebSub(feedId: string, state: {
+    websubHub?: string | null;
+    websubTopic?: string | null;
+    websubStatus?: WebSubStatus | null;
+    websubLeaseExpiresAt?: Date | null;
+  }): Promise<void>;
+  getFeedsWithExpiringWebSubLeases(before: Date): Promise<FeedCatalog[]>;
   deactivateFeed(feedId: string): Promise<void>;
   reactivateFeed(feedId: string): Promise<void>;
   
@@ -88,9 +159,16 @@ export interface IStorage {
   
   // Related Refs (cross-source linking)
   createRelatedRef(ref: InsertRelatedRef): Promise<RelatedRef>;
+  upsertRelatedRef(ref: InsertRelatedRef): Promise<RelatedRef>;
   getRelatedRefsByItemId(itemId: string): Promise<RelatedRef[]>;
+  getRelatedRefsByItemIds(itemIds: string[]): Promise<RelatedRef[]>;
   getItemByDOI(doi: string): Promise<Item | undefined>;
   
+  // Near-duplicate merges (admin report)
+  createNearDuplicateMerge(merge: InsertNearDuplicateMerge): Promise<NearDuplicateMerge>;
+  getNearDuplicateMergeOf(hash: string, feedId: string | null, guid: string | null): Promise<NearDuplicateMerge | undefined>;
+  getNearDuplicateMerges(since: Date, limit: number): Promise<NearDuplicateMergeReport[]>;
+  
   // User Ratings (community quality assessment)
   upsertUserRating(rating: InsertUserRating): Promise<UserRating>;
   getUserRating(userId: string, itemId: string): Promise<UserRating | undefined>;
@@ -165,6 +243,10 @@ export class PostgresStorage implements IStorage {
       id,
       ingestedAt: now,
     } as any).returning();
+    
+    if (item.feedId) {
+      await this.linkItemToFeed(item.id, item.feedId);
+    }
     return item;
   }
 
@@ -173,6 +255,27 @@ export class PostgresStorage implements IStorage {
     return item;
   }
 
+  async getItemByGuid(feedId: string, guid: string): Promise<Item | undefined> {
+    const [item] = await db.select().from(items).where(and(eq(items.feedId, feedId), eq(items.guid, guid))).limit(1);
+    return item;
+  }
+
+  // Cross-source lookups (discussions, citations) never resolve to a private newsletter item
+  async getItemByUrl(urls: string[]): Promise<Item | undefined> {
+    if (urls.length === 0) return undefined;
+    const [item] = await db.select().from(items).where(and(inArray(items.url, urls), itemVisibleTo(undefined))).limit(1);
+    return item;
+  }
+
+  async isItemVisibleToUser(itemId: string, userId: string): Promise<boolean> {
+    const [item] = await db
+      .select({ id: items.id })
+      .from(items)
+      .where(and(eq(items.id, itemId), itemVisibleTo(userId)))
+      .limit(1);
+    return !!item;
+  }
+
   async getItemsInWindow(start: string, end: string): Promise<Item[]> {
     const results = await db.select().from(items).where(
       and(
@@ -185,18 +288,20 @@ export class PostgresStorage implements IStorage {
 
   async mergeItemEngagement(
     itemId: string,
-    engagement: { comments: number; upvotes: number; views: number }
+    engagement: ItemEngagement,
+    sourceKey: string
   ): Promise<void> {
     const [item] = await db.select().from(items).where(eq(items.id, itemId)).limit(1);
     if (item) {
-      const currentEngagement = item.engagement as { comments: number; upvotes: number; views: number };
-      await db.update(items).set({
-        engagement: {
-          comments: currentEngagement.comments + engagement.comments,
-          upvotes: currentEngagement.upvotes + engagement.upvotes,
-          views: currentEngagement.views + engagement.views,
-        }
-      }).where(eq(items.id, itemId));
+      const merged = mergeEngagement(
+        item.engagement,
+        engagementSourceKey(item.sourceType, item.sourceId),
+        engagement,
+        sourceKey
+      );
+      if (merged !== item.engagement) {
+        await db.update(items).set({ engagement: merged }).where(eq(items.id, itemId));
+      }
     }
   }
 
@@ -213,12 +318,58 @@ export class PostgresStorage implements IStorage {
   }
 
   async getRecentItems(limit: number): Promise<Item[]> {
+    // Newsletter items belong to the inbox that received them
     return await db.select()
       .from(items)
+      .where(ne(items.sourceType, 'newsletter'))
       .orderBy(desc(items.publishedAt))
       .limit(limit);
   }
 
+  // The excerpt is only read for items stored before fingerprinting, which have to be fingerprinted now
+  async getNearDuplicateCandidates(since: string): Promise<NearDuplicateCandidate[]> {
+    return await db
+      .select({
+        id: items.id,
+        title: items.title,
+        rawExcerpt: sql<string>`case when ${items.fingerprint} is null then ${items.rawExcerpt} else '' end`,
+        sourceType: items.sourceType,
+        feedId: items.feedId,
+        doi: items.doi,
+        fingerprint: items.fingerprint,
+      })
+      .from(items)
+      .where(and(
+        gte(items.ingestedAt, since),
+        ne(items.sourceType, 'newsletter')
+      ));
+  }
+
+  async setItemFingerprints(fingerprints: Array<{ id: string; fingerprint: string }>): Promise<void> {
+    for (const { id, fingerprint } of fingerprints) {
+      await db.update(items).set({ fingerprint }).where(eq(items.id, id));
+    }
+  }
+
+  // Returns false when the item is gone or already lists this URL
+  async addItemAlternate(itemId: string, alternate: ItemAlternate): Promise<boolean> {
+    const [item] = await db
+      .select({ alternates: items.alternates })
+      .from(items)
+      .where(eq(items.id, itemId))
+      .limit(1);
+    if (!item) return false;
+
+    const alternates = (item.alternates as ItemAlternate[] | null) ?? [];
+    if (alternates.some(existing => existing.url === alternate.url)) return false;
+
+    await db
+      .update(items)
+      .set({ alternates: [...alternates, alternate] })
+      .where(eq(items.id, itemId));
+    return true;
+  }
+
   // Summaries
   async createSummary(insertSummary: InsertSummary): Promise<Summary> {
     const [summary] = await db.insert(summaries).values(insertSummary).returning();
@@ -240,6 +391,16 @@ export class PostgresStorage implements IStorage {
     return await db.insert(summaries).values(insertSummaries).returning();
   }
 
+  // Embeddings
+  async getItemEmbeddings(itemIds: string[]): Promise<Map<string, number[]>> {
+    if (itemIds.length === 0) return new Map();
+    const rows = await db
+      .select({ itemId: itemEmbeddings.itemId, embedding: itemEmbeddings.embedding })
+      .from(itemEmbeddings)
+      .where(inArray(itemEmbeddings.itemId, itemIds));
+    return new Map(rows.map(row => [row.itemId, JSON.parse(row.embedding) as number[]]));
+  }
+
   // Digests
   async createDigest(insertDigest: InsertDigest): Promise<Digest> {
     const id = nanoid();
@@ -252,8 +413,14 @@ export class PostgresStorage implements IStorage {
     return digest;
   }
 
-  async getLatestDigest(): Promise<Digest | undefined> {
-    const [digest] = await db.select().from(digests).orderBy(desc(digests.generatedAt)).limit(1);
+  // Latest public digest, or the user's own personalized one if that is newer
+  async getLatestDigest(userId?: string): Promise<Digest | undefined> {
+    const [digest] = await db
+      .select()
+      .from(digests)
+      .where(digestVisibleTo(userId))
+      .orderBy(desc(digests.generatedAt))
+      .limit(1);
     return digest;
   }
 
@@ -262,8 +429,9 @@ export class PostgresStorage implements IStorage {
     return digest;
   }
 
+  // Public digests only; personalized ones are never listed
   async getAllDigests(): Promise<Digest[]> {
-    return await db.select().from(digests).orderBy(desc(digests.generatedAt));
+    return await db.select().from(digests).where(digestVisibleTo(undefined)).orderBy(desc(digests.generatedAt));
   }
 
   async deleteDigest(id: string): Promise<void> {
@@ -276,6 +444,20 @@ export class PostgresStorage implements IStorage {
     return user;
   }
 
+  async getUserByInboundEmailToken(token: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.inboundEmailToken, token)).limit(1);
+    return user;
+  }
+
+  async setUserInboundEmailToken(userId: string, token: string): Promise<User> {
+    const [user] = await db
+      .update(users)
+      .set({ inboundEmailToken: token, updatedAt: new Date() })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+
   async upsertUser(userData: UpsertUser): Promise<User> {
     // First check if user exists by email (if email is provided)
     if (userData.email) {
@@ -345,6 +527,7 @@ export class PostgresStorage implements IStorage {
         set: {
           favoriteTopics: prefsData.favoriteTopics as any,
           preferredSourceTypes: prefsData.preferredSourceTypes as any,
+          ...(prefsData.personalizedRanking !== undefined ? { personalizedRanking: prefsData.personalizedRanking } : {}),
           updatedAt: new Date(),
         },
       })
@@ -382,19 +565,35 @@ export class PostgresStorage implements IStorage {
         sourceId: items.sourceId,
         doi: items.doi,
         url: items.url,
+        linkedUrl: items.linkedUrl,
         authorOrChannel: items.authorOrChannel,
         publishedAt: items.publishedAt,
         ingestedAt: items.ingestedAt,
         rawExcerpt: items.rawExcerpt,
         fullText: items.fullText,
+        paperSections: items.paperSections,
         pdfUrl: items.pdfUrl,
+        media: items.media,
+        publication: items.publication,
+        article: items.article,
+        fingerprint: items.fingerprint,
+        guid: items.guid,
+        contentHash: items.contentHash,
+        contentUpdatedAt: items.contentUpdatedAt,
+        alternates: items.alternates,
+        integrity: items.integrity,
+        integrityCheckedAt: items.integrityCheckedAt,
         engagement: items.engagement,
         topics: items.topics,
+        topicScores: items.topicScores,
         isPreprint: items.isPreprint,
         journalName: items.journalName,
         hashDedupe: items.hashDedupe,
+        feedId: items.feedId,
         qualityMetrics: items.qualityMetrics,
         score: items.score,
+        rankingStrategy: items.rankingStrategy,
+        rankingVersion: items.rankingVersion,
         scoreBreakdown: items.scoreBreakdown,
       })
       .from(savedItems)
@@ -554,19 +753,35 @@ export class PostgresStorage implements IStorage {
         sourceId: items.sourceId,
         doi: items.doi,
         url: items.url,
+        linkedUrl: items.linkedUrl,
         authorOrChannel: items.authorOrChannel,
         publishedAt: items.publishedAt,
         ingestedAt: items.ingestedAt,
         rawExcerpt: items.rawExcerpt,
         fullText: items.fullText,
+        paperSections: items.paperSections,
         pdfUrl: items.pdfUrl,
+        media: items.media,
+        publication: items.publication,
+        article: items.article,
+        fingerprint: items.fingerprint,
+        guid: items.guid,
+        contentHash: items.contentHash,
+        contentUpdatedAt: items.contentUpdatedAt,
+        alternates: items.alternates,
+        integrity: items.integrity,
+        integrityCheckedAt: items.integrityCheckedAt,
         engagement: items.engagement,
         topics: items.topics,
+        topicScores: items.topicScores,
         isPreprint: items.isPreprint,
         journalName: items.journalName,
         hashDedupe: items.hashDedupe,
+        feedId: items.feedId,
         qualityMetrics: items.qualityMetrics,
         score: items.score,
+        rankingStrategy: items.rankingStrategy,
+        rankingVersion: items.rankingVersion,
         scoreBreakdown: items.scoreBreakdown,
       })
       .from(itemFolders)
@@ -630,21 +845,67 @@ export class PostgresStorage implements IStorage {
       .where(eq(feedCatalog.id, feedId));
   }
 
-  async getItemsByFeedUrl(feedUrl: string, limit: number = 5): Promise<Item[]> {
-    // Extract domain from feed URL to match items
-    const feedDomain = new URL(feedUrl).hostname.replace(/^www\./, '');
-    
-    // Match items by domain in their URL (best effort matching)
+  // Items a feed produced, either as the primary feed or through item_feeds
+  private feedItemsCondition(feedId: string) {
+    return or(
+      eq(items.feedId, feedId),
+      sql`${items.id} IN (SELECT ${itemFeeds.itemId} FROM ${itemFeeds} WHERE ${itemFeeds.feedId} = ${feedId})`
+    );
+  }
+
+  async getItemsByFeedId(feedId: string, limit: number = 5): Promise<Item[]> {
     const results = await db
       .select()
       .from(items)
-      .where(sql`${items.url} LIKE ${'%' + feedDomain + '%'}`)
+      .where(this.feedItemsCondition(feedId))
       .orderBy(desc(items.publishedAt))
       .limit(limit);
     
     return results;
   }
 
+  // Only the items userId may see, whatever feeds they are subscribed to
+  async getFeedItemsInWindow(feedIds: string[], start: string, end: string, userId: string): Promise<Item[]> {
+    if (feedIds.length === 0) return [];
+
+    return await db
+      .select()
+      .from(items)
+      .where(
+        and(
+          or(...feedIds.map(feedId => this.feedItemsCondition(feedId))),
+          gte(items.publishedAt, start),
+          lte(items.publishedAt, end),
+          itemVisibleTo(userId)
+        )
+      )
+      .orderBy(desc(items.publishedAt));
+  }
+
+  async getFeedItemStats(feedId: string): Promise<{ itemCount: number; lastPublishedAt: string | null; averageScore: number | null }> {
+    const [result] = await db
+      .select({
+        itemCount: count(),
+        lastPublishedAt: sql<string | null>`MAX(${items.publishedAt})`,
+        averageScore: avg(items.score),
+      })
+      .from(items)
+      .where(this.feedItemsCondition(feedId));
+    
+    return {
+      itemCount: Number(result?.itemCount || 0),
+      lastPublishedAt: result?.lastPublishedAt || null,
+      averageScore: result?.averageScore != null ? Math.round(Number(result.averageScore)) : null,
+    };
+  }
+
+  async linkItemToFeed(itemId: string, feedId: string): Promise<void> {
+    await db
+      .insert(itemFeeds)
+      .values({ id: nanoid(), itemId, feedId })
+      .onConflictDoNothing();
+  }
+
   async getFeedCatalog(filters?: { domain?: string; sourceType?: string; search?: string; featured?: boolean }): Promise<FeedCatalog[]> {
     let query = db.select().from(feedCatalog);
     
@@ -677,10 +938,10 @@ export class PostgresStorage implements IStorage {
     
     query = query.where(and(...conditions)) as any;
     
-    // Order by starter rank if featured, otherwise by name
+    // Order by starter rank if featured, otherwise by reputation (qualityScore) then name
     const results = filters?.featured 
       ? await query.orderBy(feedCatalog.starterRank, feedCatalog.name)
-      : await query.orderBy(feedCatalog.name);
+      : await query.orderBy(sql`${feedCatalog.qualityScore} DESC NULLS LAST`, feedCatalog.name);
     
     console.log(`[Storage] getFeedCatalog returned ${results.length} feeds`);
     return results;
@@ -870,6 +1131,104 @@ export class PostgresStorage implements IStorage {
       .where(eq(feedCatalog.id, feedId));
   }
 
+  async updateFeedFetchValidators(
+    feedId: string,
+    validators: {
+      etag?: string | null;
+      lastModified?: string | null;
+      contentHash?: string | null;
+    }
+  ): Promise<void> {
+    await db
+      .update(feedCatalog)
+      .set(validators)
+      .where(eq(feedCatalog.id, feedId));
+  }
+
+  async getFeedsDueForFetch(now: Date): Promise<FeedCatalog[]> {
+    // Only active feeds that someone is subscribed to are polled; newsletters arrive by email
+    const results = await db
+      .select()
+      .from(feedCatalog)
+      .where(
+        and(
+          eq(feedCatalog.isActive, true),
+          ne(feedCatalog.sourceType, 'newsletter'),
+          or(isNull(feedCatalog.nextFetchAt), lte(feedCatalog.nextFetchAt, now)),
+          sql`${feedCatalog.id} IN (SELECT ${userFeedSubscriptions.feedId} FROM ${userFeedSubscriptions} WHERE ${userFeedSubscriptions.isActive} = true)`
+        )
+      )
+      .orderBy(sql`${feedCatalog.nextFetchAt} ASC NULLS FIRST`);
+    
+    return results;
+  }
+
+  async getSubscriberTiersForFeeds(feedIds: string[]): Promise<Array<{ feedId: string; tier: string | null }>> {
+    if (feedIds.length === 0) return [];
+    
+    // Users without a subscription row are on the free tier (tier is null here)
+    const results = await db
+      .select({
+        feedId: userFeedSubscriptions.feedId,
+        tier: userSubscriptions.tier,
+      })
+      .from(userFeedSubscriptions)
+      .leftJoin(userSubscriptions, eq(userFeedSubscriptions.userId, userSubscriptions.userId))
+      .where(
+        and(
+          inArray(userFeedSubscriptions.feedId, feedIds),
+          eq(userFeedSubscriptions.isActive, true)
+        )
+      );
+    
+    return results;
+  }
+
+  async getFeedPublishDates(feedId: string, limit: number = 30): Promise<string[]> {
+    const recent = await this.getItemsByFeedId(feedId, limit);
+    return recent.map(item => item.publishedAt);
+  }
+
+  async updateFeedSchedule(
+    feedId: string,
+    schedule: { nextFetchAt: Date; fetchIntervalMinutes?: number }
+  ): Promise<void> {
+    await db
+      .update(feedCatalog)
+      .set(schedule)
+      .where(eq(feedCatalog.id, feedId));
+  }
+
+  async updateFeedWebSub(
+    feedId: string,
+    state: {
+      websubHub?: string | null;
+      websubTopic?: string | null;
+      websubStatus?: WebSubStatus | null;
+      websubLeaseExpiresAt?: Date | null;
+    }
+  ): Promise<void> {
+    await db
+      .update(feedCatalog)
+      .set(state)
+      .where(eq(feedCatalog.id, feedId));
+  }
+
+  async getFeedsWithExpiringWebSubLeases(before: Date): Promise<FeedCatalog[]> {
+    const results = await db
+      .select()
+      .from(feedCatalog)
+      .where(
+        and(
+          eq(feedCatalog.isActive, true),
+          eq(feedCatalog.websubStatus, 'subscribed'),
+          lte(feedCatalog.websubLeaseExpiresAt, before)
+        )
+      );
+    
+    return results;
+  }
+
   async deactivateFeed(feedId: string): Promise<void> {
     await db
       .update(feedCatalog)
@@ -956,6 +1315,29 @@ export class PostgresStorage implements IStorage {
     return ref;
   }
 
+  async upsertRelatedRef(insertRef: InsertRelatedRef): Promise<RelatedRef> {
+    const [existing] = await db
+      .select()
+      .from(relatedRefs)
+      .where(and(
+        eq(relatedRefs.itemId, insertRef.itemId),
+        eq(relatedRefs.platform, insertRef.platform),
+        eq(relatedRefs.url, insertRef.url)
+      ))
+      .limit(1);
+
+    if (!existing) {
+      return this.createRelatedRef(insertRef);
+    }
+
+    const [ref] = await db
+      .update(relatedRefs)
+      .set({ label: insertRef.label, counts: insertRef.counts } as any)
+      .where(eq(relatedRefs.id, existing.id))
+      .returning();
+    return ref;
+  }
+
   async getRelatedRefsByItemId(itemId: string): Promise<RelatedRef[]> {
     return await db
       .select()
@@ -963,16 +1345,71 @@ export class PostgresStorage implements IStorage {
       .where(eq(relatedRefs.itemId, itemId));
   }
 
+  async getRelatedRefsByItemIds(itemIds: string[]): Promise<RelatedRef[]> {
+    if (itemIds.length === 0) return [];
+    return await db
+      .select()
+      .from(relatedRefs)
+      .where(inArray(relatedRefs.itemId, itemIds));
+  }
+
   async getItemByDOI(doi: string): Promise<Item | undefined> {
     if (!doi) return undefined;
     const [item] = await db
       .select()
       .from(items)
-      .where(eq(items.doi, doi))
+      .where(and(sql`lower(${items.doi}) = ${doi.toLowerCase()}`, itemVisibleTo(undefined))) // DOIs are case-insensitive; newsletter items are private
       .limit(1);
     return item;
   }
 
+  // Near-duplicate merges (admin report)
+  async createNearDuplicateMerge(insertMerge: InsertNearDuplicateMerge): Promise<NearDuplicateMerge> {
+    const id = nanoid();
+    const [merge] = await db
+      .insert(nearDuplicateMerges)
+      .values({
+        ...insertMerge,
+        id,
+      })
+      .returning();
+    return merge;
+  }
+
+  async getNearDuplicateMergeOf(hash: string, feedId: string | null, guid: string | null): Promise<NearDuplicateMerge | undefined> {
+    const [merge] = await db
+      .select()
+      .from(nearDuplicateMerges)
+      .where(or(
+        eq(nearDuplicateMerges.duplicateHash, hash),
+        feedId && guid ? and(eq(nearDuplicateMerges.feedId, feedId), eq(nearDuplicateMerges.duplicateGuid, guid)) : undefined
+      ))
+      .limit(1);
+    return merge;
+  }
+
+  async getNearDuplicateMerges(since: Date, limit: number): Promise<NearDuplicateMergeReport[]> {
+    const rows = await db
+      .select({
+        merge: nearDuplicateMerges,
+        canonicalTitle: items.title,
+        canonicalUrl: items.url,
+        canonicalSourceType: items.sourceType,
+      })
+      .from(nearDuplicateMerges)
+      .innerJoin(items, eq(nearDuplicateMerges.canonicalItemId, items.id))
+      .where(gte(nearDuplicateMerges.createdAt, since))
+      .orderBy(desc(nearDuplicateMerges.createdAt))
+      .limit(limit);
+
+    return rows.map(row => ({
+      ...row.merge,
+      canonicalTitle: row.canonicalTitle,
+      canonicalUrl: row.canonicalUrl,
+      canonicalSourceType: row.canonicalSourceType,
+    }));
+  }
+
   // User Ratings (community quality assessment)
   async upsertUserRating(insertRating: InsertUserRating): Promise<UserRating> {
     const id = nanoid();
@@ -1751,9 +2188,17 @@ export class PostgresStorage implements IStorage {
 
   async deleteOldNotifications(hoursOld: number): Promise<number> {
     const cutoffDate = new Date(Date.now() - hoursOld * 60 * 60 * 1000);
+    // Retraction notices about saved items stay until the user has seen them
     const result = await db
       .delete(feedNotifications)
-      .where(lte(feedNotifications.createdAt, cutoffDate));
+      .where(and(
+        lte(feedNotifications.createdAt, cutoffDate),
+        or(
+          isNull(feedNotifications.actionType),
+          ne(feedNotifications.actionType, 'integrity'),
+          eq(feedNotifications.isRead, true),
+        ),
+      ));
     return result.rowCount || 0;
   }
 
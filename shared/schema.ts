@@ -1,11 +1,14 @@
 import { z } from "zod";
 import { sql } from 'drizzle-orm';
-import { pgTable, varchar, text, timestamp, json, integer, boolean, index, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, varchar, text, timestamp, json, integer, boolean, index, uniqueIndex, jsonb, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 
-export const sourceTypes = ['journal', 'reddit', 'substack', 'youtube', 'podcast'] as const;
+export const sourceTypes = ['journal', 'reddit', 'substack', 'youtube', 'podcast', 'hackernews', 'mastodon', 'bluesky', 'newsletter'] as const;
 export const methodologies = ['RCT', 'Cohort', 'Case', 'Review', 'Meta', 'Preprint', 'NA'] as const;
 export const evidenceLevels = ['A', 'B', 'C'] as const;
+export const literatureSources = ['arxiv', 'biorxiv', 'medrxiv', 'pubmed'] as const;
+// Community platforms whose posts discuss content published elsewhere
+export const discussionSourceTypes = ['reddit', 'hackernews', 'mastodon', 'bluesky'] as const;
 
 export const topics = [
   // Health & Wellness
@@ -62,6 +65,153 @@ export type SourceType = typeof sourceTypes[number];
 export type Methodology = typeof methodologies[number];
 export type EvidenceLevel = typeof evidenceLevels[number];
 export type Topic = typeof topics[number];
+export type LiteratureSource = typeof literatureSources[number];
+
+// Topics can be added at runtime (taxonomyTopics below), so schemas only check a
+// slug's shape; accepted values are checked against the live taxonomy (server/services/taxonomy.ts)
+const TOPIC_SLUG_PATTERN = /^[A-Za-z0-9]+(_[A-Za-z0-9]+)*$/;
+export const topicSlugSchema = z.custom<Topic>(
+  value => typeof value === 'string' && value.length <= 100 && TOPIC_SLUG_PATTERN.test(value),
+  "Invalid topic slug"
+);
+
+export type EngagementCounts = { comments: number; upvotes: number; views: number };
+
+// Counts are what the source reported. status 'unknown' means the source exposes
+// no engagement signal (counts are zero placeholders, not measurements).
+export type ItemEngagement = EngagementCounts & {
+  status?: 'reported' | 'unknown';
+  bySource?: Record<string, EngagementCounts>; // Per-source counts ("<sourceType>:<sourceId>"), summed into the totals
+  upvoteRatio?: number; // Reddit
+  flair?: string | null; // Reddit link flair
+  over18?: boolean; // Reddit NSFW flag
+  refreshedAt?: string; // Last time the counts were refreshed from a source
+};
+
+// Timestamped chapter (podcast:chapters, video chapters)
+export type MediaChapter = {
+  startSeconds: number;
+  endSeconds?: number;
+  title: string;
+  url?: string;
+  imageUrl?: string;
+};
+
+// Host/guest credited on an episode (podcast:person)
+export type MediaPerson = {
+  name: string;
+  role: string; // host, guest, cover art designer, ...
+  group: string; // cast, crew, writing, ...
+  href?: string;
+  imageUrl?: string;
+};
+
+// Stretch of a transcript with its start time, merged from caption cues (server/core/key-moments.ts)
+export type TranscriptCue = {
+  startSeconds: number;
+  text: string;
+  speaker?: string;
+};
+
+// Podcast/video extras beyond the text content
+export type ItemMedia = {
+  transcriptUrl?: string;
+  transcriptType?: string; // MIME type of the transcript file
+  transcript?: TranscriptCue[]; // Timed transcript (fullText holds it flattened)
+  chaptersUrl?: string;
+  chapters?: MediaChapter[];
+  persons?: MediaPerson[];
+};
+
+// Bibliographic details for items from literature databases (arXiv, bioRxiv/medRxiv, PubMed)
+export type PublicationLink = {
+  rel: 'preprint' | 'published' | 'version' | 'pdf' | 'abstract';
+  url: string;
+  doi?: string;
+  label?: string; // e.g. "v2", "Published in Cell"
+};
+
+export type ItemPublication = {
+  source: LiteratureSource;
+  externalId: string; // arXiv id, bioRxiv/medRxiv DOI, PMID
+  authors: string[];
+  version?: string; // Preprint version ("v2")
+  categories?: string[]; // arXiv/bioRxiv categories or MeSH headings
+  links: PublicationLink[];
+};
+
+// Article extracted from the item's web page (feeds that only ship a summary)
+export type ItemArticle = {
+  byline?: string;
+  siteName?: string;
+  leadImageUrl?: string;
+  wordCount: number;
+  readingTimeMinutes: number;
+  extractedAt: string;
+};
+
+// Sections recognized in a paper's full text (server/core/paper-sections.ts)
+export const paperSectionKinds = [
+  'abstract', 'introduction', 'methods', 'results', 'discussion', 'conclusions',
+  'limitations', 'funding', 'conflicts', 'references'
+] as const;
+export type PaperSectionKind = typeof paperSectionKinds[number];
+
+export type PaperSection = {
+  kind: PaperSectionKind;
+  heading: string; // As printed in the paper
+  text: string;
+};
+
+// Copy of the item from another source, folded in by near-duplicate detection
+export type ItemAlternate = {
+  url: string;
+  title: string;
+  sourceType: SourceType;
+  feedId?: string;
+  similarity: number; // Estimated % of text shared with the canonical item
+  addedAt: string;
+};
+
+// How each of an item's topics was assigned, and how sure the tagger is (0-1)
+export type ItemTopicScore = {
+  topic: Topic;
+  confidence: number;
+  method: 'keyword' | 'embedding' | 'feed';
+};
+
+// Post-publication notices on a journal item, most severe first
+export const integrityStatuses = ['retracted', 'expression_of_concern', 'corrected'] as const;
+export type IntegrityStatus = typeof integrityStatuses[number];
+
+export type ItemIntegrityNotice = {
+  status: IntegrityStatus;
+  source: 'crossref' | 'retraction_watch';
+  noticeDoi?: string; // DOI of the retraction/correction notice
+  date?: string;
+  reason?: string;
+};
+
+// Set by the retraction check (server/services/retractions.ts); status is the most severe notice
+export type ItemIntegrity = {
+  status: IntegrityStatus;
+  notices: ItemIntegrityNotice[];
+  flaggedAt: string;
+};
+
+// Piece of a text diff (server/core/text-diff.ts); long unchanged runs are shortened to their ends
+export type TextDiffOp = {
+  op: 'equal' | 'insert' | 'delete';
+  text: string;
+};
+
+export const revisedItemFields = ['title', 'rawExcerpt', 'fullText'] as const;
+export type RevisedItemField = typeof revisedItemFields[number];
+
+export type ItemRevisionChange = {
+  field: RevisedItemField;
+  diff: TextDiffOp[];
+};
 
 // Drizzle table definitions
 export const items = pgTable('items', {
@@ -70,19 +220,35 @@ export const items = pgTable('items', {
   sourceId: text('source_id').notNull(),
   doi: text('doi'),
   url: text('url').notNull(),
+  linkedUrl: text('linked_url'), // Article/paper a discussion post links to (Reddit link posts, HN stories, Mastodon/Bluesky link cards)
   title: text('title').notNull(),
   authorOrChannel: text('author_or_channel').notNull(),
   publishedAt: text('published_at').notNull(),
   ingestedAt: text('ingested_at').notNull(),
   rawExcerpt: text('raw_excerpt').notNull(),
   fullText: text('full_text'), // Full content: PDF text, transcript, or full post
+  paperSections: json('paper_sections').$type<PaperSection[]>(), // fullText of a PDF split into abstract, methods, results...
   pdfUrl: text('pdf_url'), // Unpaywall PDF URL for open access papers
-  engagement: json('engagement').$type<{ comments: number; upvotes: number; views: number }>().notNull(),
+  media: json('media').$type<ItemMedia>(), // Transcript/chapters sources, chapters and people (podcasts)
+  publication: json('publication').$type<ItemPublication>(), // Authors and preprint/published version links (literature sources)
+  article: json('article').$type<ItemArticle>(), // Byline, lead image and reading time of the extracted article (fullText holds its text)
+  fingerprint: text('fingerprint'), // MinHash of title + excerpt (server/core/fingerprint.ts)
+  guid: text('guid'), // Feed entry id (RSS guid / Atom id), stable across title and URL edits
+  contentHash: varchar('content_hash', { length: 64 }), // SHA-256 of the entry's title and body as the feed last published them
+  contentUpdatedAt: text('content_updated_at'), // Last time the feed republished the entry with a changed body
+  alternates: json('alternates').$type<ItemAlternate[]>(), // Near-duplicate copies from other sources
+  integrity: json('integrity').$type<ItemIntegrity>(), // Retraction, expression of concern or correction
+  integrityCheckedAt: text('integrity_checked_at'), // Last Crossref update-to/updated-by check
+  engagement: json('engagement').$type<ItemEngagement>().notNull(),
   topics: json('topics').$type<Topic[]>().notNull(),
+  topicScores: json('topic_scores').$type<ItemTopicScore[]>(), // Confidence behind each entry of topics (server/services/topic-classifier.ts)
   isPreprint: boolean('is_preprint').notNull().default(false),
   journalName: text('journal_name'),
   hashDedupe: varchar('hash_dedupe', { length: 64 }).notNull().unique(),
+  feedId: varchar('feed_id', { length: 255 }).references(() => feedCatalog.id, { onDelete: 'set null' }), // Catalog feed the item was first ingested from
   score: integer('score'),
+  rankingStrategy: varchar('ranking_strategy', { length: 50 }), // Ranking strategy behind score (server/core/ranking.ts)
+  rankingVersion: integer('ranking_version'), // Version of that strategy; older versions are rescored by /admin/run/rescore
   // Quality metrics for unified transparent scoring
   qualityMetrics: json('quality_metrics').$type<{
     // Content Quality (from AI)
@@ -104,6 +270,7 @@ export const items = pgTable('items', {
     subredditQuality?: number;
     channelSubscribers?: number;
     authorReputation?: number;
+    sourceReputation?: number; // 0-100, nightly feed/author reputation
     
     // Traditional metrics (journals only - shown separately)
     citationCount?: number;
@@ -135,15 +302,48 @@ export const items = pgTable('items', {
   hashIdx: index('items_hash_idx').on(table.hashDedupe),
   sourceTypeIdx: index('items_source_type_idx').on(table.sourceType),
   publishedAtIdx: index('items_published_at_idx').on(table.publishedAt),
-  doiIdx: index('items_doi_idx').on(table.doi),
+  doiIdx: index('items_doi_idx').on(sql`lower(${table.doi})`), // DOI lookups compare case-insensitively
+  feedIdIdx: index('items_feed_id_idx').on(table.feedId),
+  urlIdx: index('items_url_idx').on(table.url),
+  feedGuidIdx: index('items_feed_guid_idx').on(table.feedId, table.guid),
 }));
 
+// Content changes the feed published after an item was stored (server/services/item-revisions.ts)
+export const itemRevisions = pgTable('item_revisions', {
+  id: varchar('id', { length: 255 }).primaryKey(),
+  itemId: varchar('item_id', { length: 255 }).notNull().references(() => items.id, { onDelete: 'cascade' }),
+  detectedAt: timestamp('detected_at').defaultNow().notNull(),
+  previousHash: varchar('previous_hash', { length: 64 }),
+  contentHash: varchar('content_hash', { length: 64 }).notNull(),
+  changes: json('changes').$type<ItemRevisionChange[]>().notNull(),
+  changeRatio: integer('change_ratio').notNull(), // % of the text that changed (0-100)
+  material: boolean('material').notNull(), // Title changed or enough of the body to redo the summary
+  summaryRegenerated: boolean('summary_regenerated').notNull().default(false),
+}, (table) => ({
+  itemIdx: index('item_revisions_item_idx').on(table.itemId, table.detectedAt),
+}));
+
+export type ItemRevision = typeof itemRevisions.$inferSelect;
+
+// Retraction Watch database, imported from its CSV export (server/scripts/import-retraction-watch.ts)
+export const retractionWatchEntries = pgTable('retraction_watch_entries', {
+  originalDoi: text('original_doi').primaryKey(), // Lowercased DOI of the affected paper
+  noticeDoi: text('notice_doi'),
+  nature: varchar('nature', { length: 50 }).notNull(), // Retraction Watch "RetractionNature"
+  noticeDate: text('notice_date'),
+  reason: text('reason'),
+  importedAt: text('imported_at').notNull(),
+});
+
+export type RetractionWatchEntry = typeof retractionWatchEntries.$inferSelect;
+
 export const summaries = pgTable('summaries', {
   itemId: varchar('item_id', { length: 255 }).primaryKey().references(() => items.id, { onDelete: 'cascade' }),
   keyInsights: text('key_insights').notNull(),
   clinicalTakeaway: text('clinical_takeaway').notNull(),
   methodology: varchar('methodology', { length: 20 }).notNull(),
   levelOfEvidence: varchar('level_of_evidence', { length: 1 }).notNull(),
+  keyMoments: json('key_moments').$type<KeyMoment[]>(), // Videos and podcasts with a timed transcript
 });
 
 export const digests = pgTable('digests', {
@@ -153,6 +353,7 @@ export const digests = pgTable('digests', {
   windowEnd: text('window_end').notNull(),
   generatedAt: text('generated_at').notNull(),
   sections: json('sections').notNull(),
+  userId: varchar('user_id').references(() => users.id, { onDelete: 'cascade' }), // Owner of a personalized digest; null for the public weekly digest
 }, (table) => ({
   slugIdx: index('digests_slug_idx').on(table.slug),
   generatedAtIdx: index('digests_generated_at_idx').on(table.generatedAt),
@@ -165,6 +366,7 @@ export const itemSchema = z.object({
   sourceId: z.string(),
   doi: z.string().nullable(),
   url: z.string().url(),
+  linkedUrl: z.string().nullable().optional(),
   title: z.string(),
   authorOrChannel: z.string(),
   publishedAt: z.string(),
@@ -174,11 +376,16 @@ export const itemSchema = z.object({
     comments: z.number().default(0),
     upvotes: z.number().default(0),
     views: z.number().default(0),
+    status: z.enum(['reported', 'unknown']).optional(),
+    upvoteRatio: z.number().optional(),
+    flair: z.string().nullable().optional(),
+    over18: z.boolean().optional(),
   }),
-  topics: z.array(z.enum(topics)),
+  topics: z.array(topicSlugSchema),
   isPreprint: z.boolean().default(false),
   journalName: z.string().nullable(),
   hashDedupe: z.string(),
+  feedId: z.string().nullable().optional(),
   score: z.number().optional(),
 });
 
@@ -187,37 +394,107 @@ export const insertItemSchema = createInsertSchema(items).omit({ id: true });
 export type Item = typeof items.$inferSelect;
 export type InsertItem = z.infer<typeof insertItemSchema>;
 
+// Point in a video or episode the summary says is worth jumping to; url opens it there
+export const keyMomentSchema = z.object({
+  startSeconds: z.number(),
+  title: z.string(),
+  url: z.string(),
+});
+
+export type KeyMoment = z.infer<typeof keyMomentSchema>;
+
 export const summarySchema = z.object({
   itemId: z.string(),
   keyInsights: z.string(),
   clinicalTakeaway: z.string(),
   methodology: z.enum(methodologies),
   levelOfEvidence: z.enum(evidenceLevels),
+  keyMoments: z.array(keyMomentSchema).optional(),
 });
 
-export const insertSummarySchema = createInsertSchema(summaries);
+export const insertSummarySchema = createInsertSchema(summaries, {
+  keyMoments: z.array(keyMomentSchema).nullable().optional(),
+});
 
 export type Summary = typeof summaries.$inferSelect;
 export type InsertSummary = z.infer<typeof insertSummarySchema>;
 
+// Community discussion of a digest item (from related_refs)
+export const itemDiscussionSchema = z.object({
+  platform: z.string(),
+  label: z.string(),
+  url: z.string(),
+  counts: z.object({
+    comments: z.number().optional(),
+    upvotes: z.number().optional(),
+    views: z.number().optional(),
+  }),
+});
+
+// How an item made it into a digest: where it came from, how it ranked, and every pass it survived
+export const inclusionOrigins = ['window', 'subscription', 'newsletter', 'starter', 'featured-fallback', 'cached'] as const;
+export type InclusionOrigin = typeof inclusionOrigins[number];
+
+export const inclusionTraceSchema = z.object({
+  origin: z.object({
+    path: z.enum(inclusionOrigins), // 'window' = weekly digest, every item ingested in the window
+    feedId: z.string().nullable(),
+    feedName: z.string().nullable(),
+  }),
+  matchedTopics: z.array(z.string()), // The reader's favorite (and custom) topics it matched
+  ranking: z.object({
+    strategy: z.string(),
+    version: z.number(),
+    score: z.number(),
+    components: z.array(z.object({
+      signal: z.string(),
+      weight: z.number(),
+      points: z.number(), // Weighted contribution to the score
+    })),
+    preference: z.object({
+      weight: z.number(), // Share of the ordering taken from the reader's preference model
+      probability: z.number(),
+    }).optional(),
+  }),
+  positions: z.object({
+    ranked: z.number(), // 1-based, among every candidate of the digest after ranking
+    sectionCandidate: z.number(), // Among the section's candidates, before diversity selection and quotas
+    final: z.number(), // In the section
+  }),
+  filters: z.array(z.object({
+    name: z.enum(['window', 'quality', 'topics', 'selection']),
+    detail: z.string(),
+  })),
+});
+
 export const digestSectionItemSchema = z.object({
   itemId: z.string(),
   title: z.string(),
   url: z.string(),
   sourceType: z.enum(sourceTypes),
   publishedAt: z.string(),
-  topics: z.array(z.enum(topics)),
+  topics: z.array(topicSlugSchema),
   keyInsights: z.string().optional(),
   clinicalTakeaway: z.string().optional(),
   methodology: z.enum(methodologies).optional(),
   levelOfEvidence: z.enum(evidenceLevels).optional(),
+  keyMoments: z.array(keyMomentSchema).optional(),
   journalName: z.string().nullable().optional(),
   authorOrChannel: z.string().optional(),
   pdfUrl: z.string().nullable().optional(), // Open access PDF URL from Unpaywall
+  readingTimeMinutes: z.number().optional(), // Extracted articles
+  discussions: z.array(itemDiscussionSchema).optional(),
+  discussionCommunities: z.number().optional(), // Distinct subreddits, instances, platforms... among discussions
+  integrity: z.object({
+    status: z.enum(integrityStatuses),
+    noticeDoi: z.string().optional(),
+    date: z.string().optional(),
+  }).optional(),
   engagement: z.object({
     comments: z.number(),
     upvotes: z.number(),
     views: z.number(),
+    status: z.enum(['reported', 'unknown']).optional(),
   }).optional(),
   scoreBreakdown: z.object({
     contentQuality: z.number(),
@@ -228,6 +505,7 @@ export const digestSectionItemSchema = z.object({
     totalScore: z.number(),
     explanation: z.string(),
   }).optional(),
+  inclusion: inclusionTraceSchema.optional(), // Digests generated before traces were recorded have none
 });
 
 export const categorySummarySchema = z.object({
@@ -237,6 +515,44 @@ export const categorySummarySchema = z.object({
   clinicalImplications: z.string(),
 });
 
+// Per-section digest selection: maximal marginal relevance over item embeddings with source/topic caps
+export const digestSectionKeys = ['research', 'community', 'expert'] as const;
+export type DigestSectionKey = typeof digestSectionKeys[number];
+
+export const digestSelectionConfigSchema = z.object({
+  lambda: z.number().min(0).max(1), // 1 = ranked order only, 0 = novelty only
+  maxPerSource: z.number().int().min(1), // Items per feed (or journal/channel for items without a feed)
+  maxPerTopic: z.number().int().min(1), // Items per primary topic
+});
+
+// Per-section overrides of the default selection config, e.g. { research: { maxPerSource: 2 } }
+export const digestSelectionOverridesSchema = z.object({
+  research: digestSelectionConfigSchema.partial(),
+  community: digestSelectionConfigSchema.partial(),
+  expert: digestSelectionConfigSchema.partial(),
+}).partial();
+
+export const digestSelectionPickSchema = z.object({
+  candidateRank: z.number(), // 1-based position among the section's ranked candidates
+  relevance: z.number(),
+  maxSimilarity: z.number().nullable(), // To the closest item picked before it; null for the first pick or without embeddings
+  similarTo: z.string().nullable(),
+  hasEmbedding: z.boolean().optional(), // False when the item couldn't be compared for similarity
+  mmrScore: z.number(),
+  source: z.string(),
+  topic: z.string().nullable(),
+  capsRelaxed: z.boolean(), // Every remaining candidate was over a cap, so the caps were ignored
+  reason: z.string(),
+});
+
+export const digestSectionSelectionSchema = z.object({
+  config: digestSelectionConfigSchema,
+  candidates: z.number(),
+  skippedForCaps: z.number(), // Candidates that would have been picked next but hit a cap
+  withoutEmbedding: z.number().optional(), // Candidates considered that had no embedding
+  picks: z.record(z.string(), digestSelectionPickSchema), // By item id
+});
+
 export const digestSchema = z.object({
   id: z.string(),
   slug: z.string(),
@@ -250,6 +566,16 @@ export const digestSchema = z.object({
     researchHighlightsSummary: categorySummarySchema.optional(),
     communityTrendsSummary: categorySummarySchema.optional(),
     expertCommentarySummary: categorySummarySchema.optional(),
+    ranking: z.object({
+      strategy: z.string(),
+      version: z.number(),
+      personalized: z.boolean().optional(), // Re-ranked with the user's preference model
+    }).optional(), // Strategy the digest was ranked with
+    selection: z.object({
+      research: digestSectionSelectionSchema,
+      community: digestSectionSelectionSchema,
+      expert: digestSectionSelectionSchema,
+    }).partial().optional(), // Why each item was picked, per section
   }),
 });
 
@@ -258,7 +584,13 @@ export const insertDigestSchema = createInsertSchema(digests).omit({ id: true, g
 export type Digest = typeof digests.$inferSelect;
 export type InsertDigest = z.infer<typeof insertDigestSchema>;
 export type DigestSectionItem = z.infer<typeof digestSectionItemSchema>;
+export type InclusionTrace = z.infer<typeof inclusionTraceSchema>;
+export type ItemDiscussion = z.infer<typeof itemDiscussionSchema>;
 export type CategorySummary = z.infer<typeof categorySummarySchema>;
+export type DigestSelectionConfig = z.infer<typeof digestSelectionConfigSchema>;
+export type DigestSelectionOverrides = z.infer<typeof digestSelectionOverridesSchema>;
+export type DigestSelectionPick = z.infer<typeof digestSelectionPickSchema>;
+export type DigestSectionSelection = z.infer<typeof digestSectionSelectionSchema>;
 
 // Session storage table (required for Replit Auth)
 export const sessions = pgTable(
@@ -281,6 +613,7 @@ export const users = pgTable("users", {
   lastName: varchar("last_name"),
   profileImageUrl: varchar("profile_image_url"),
   isTestAccount: boolean("is_test_account").notNull().default(false),
+  inboundEmailToken: varchar("inbound_email_token", { length: 32 }).unique(), // u-<token>@ inbound newsletter address
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -291,8 +624,9 @@ export type User = typeof users.$inferSelect;
 // User preferences table
 export const userPreferences = pgTable("user_preferences", {
   userId: varchar("user_id").primaryKey().references(() => users.id, { onDelete: 'cascade' }),
-  favoriteTopics: json("favorite_topics").$type<Topic[]>().notNull().default(sql`'[]'::json`),
+  favoriteTopics: json("favorite_topics").$type<Topic[]>().notNull().default(sql`'[]'::json`), // Taxonomy slugs, plus "custom:<id>" for the user's custom topics
   preferredSourceTypes: json("preferred_source_types").$type<SourceType[]>().notNull().default(sql`'[]'::json`),
+  personalizedRanking: boolean("personalized_ranking").notNull().default(true), // Re-rank digests with the user's preference model
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
@@ -398,6 +732,22 @@ export type HealingTactic = typeof healingTactics[number];
 export const healingStatuses = ['healthy', 'degraded', 'healing', 'failed'] as const;
 export type HealingStatus = typeof healingStatuses[number];
 
+export const websubStatuses = ['pending', 'subscribed', 'unsubscribed', 'denied', 'failed'] as const;
+export type WebSubStatus = typeof websubStatuses[number];
+
+// Saved search driving a literature database adapter. Terms are AND-ed; categories are OR-ed.
+export const literatureQuerySchema = z.object({
+  source: z.enum(literatureSources),
+  keywords: z.array(z.string().trim().min(1)).max(10).default([]),
+  meshTerms: z.array(z.string().trim().min(1)).max(10).default([]), // PubMed only
+  categories: z.array(z.string().trim().min(1)).max(10).default([]), // arXiv/bioRxiv/medRxiv categories, PubMed publication types
+}).refine(
+  query => query.keywords.length + query.meshTerms.length + query.categories.length > 0,
+  { message: 'A literature query needs at least one keyword, MeSH term or category' }
+);
+
+export type LiteratureQuery = z.infer<typeof literatureQuerySchema>;
+
 // Feed catalog table - master list of all available RSS feeds
 export const feedCatalog = pgTable("feed_catalog", {
   id: varchar("id", { length: 255 }).primaryKey(),
@@ -410,7 +760,7 @@ export const feedCatalog = pgTable("feed_catalog", {
   topics: json("topics").$type<Topic[]>().notNull().default(sql`'[]'::json`), // Topics this feed covers
   featured: boolean("featured").notNull().default(false), // Curated starter feed
   starterRank: integer("starter_rank"), // Order for featured feeds (lower = higher priority)
-  qualityScore: integer("quality_score").default(50), // Quality metric 0-100 for ranking
+  qualityScore: integer("quality_score").default(50), // Quality metric 0-100 for ranking; the feed's latest source reputation once computed
   isApproved: boolean("is_approved").notNull().default(false),
   isActive: boolean("is_active").notNull().default(true),
   submittedBy: varchar("submitted_by").references(() => users.id, { onDelete: 'set null' }),
@@ -425,11 +775,26 @@ export const feedCatalog = pgTable("feed_catalog", {
   healingStatus: varchar("healing_status", { length: 20 }).default('healthy'),
   lastHealingAt: timestamp("last_healing_at"),
   preferredRecoveryTactic: varchar("preferred_recovery_tactic", { length: 50 }),
+  // Conditional fetch validators (skip unchanged feeds)
+  etag: text("etag"), // ETag from last successful fetch, sent as If-None-Match
+  lastModified: text("last_modified"), // Last-Modified from last successful fetch, sent as If-Modified-Since
+  contentHash: varchar("content_hash", { length: 64 }), // SHA-256 of last fetched feed body
+  // Adaptive polling (learned from publish cadence)
+  nextFetchAt: timestamp("next_fetch_at"), // When the polling scheduler should fetch this feed next
+  fetchIntervalMinutes: integer("fetch_interval_minutes"), // Current learned polling interval
+  // Saved literature query (arXiv, bioRxiv/medRxiv, PubMed) fetched through an API adapter instead of RSS
+  literatureQuery: json("literature_query").$type<LiteratureQuery>(),
+  // WebSub push subscription (hub advertised by the feed)
+  websubHub: text("websub_hub"), // Hub URL we subscribed through
+  websubTopic: text("websub_topic"), // Topic URL (rel="self") registered with the hub
+  websubStatus: varchar("websub_status", { length: 20 }), // 'pending', 'subscribed', 'unsubscribed', 'denied', 'failed'
+  websubLeaseExpiresAt: timestamp("websub_lease_expires_at"), // Renew before this or the hub stops pushing
 }, (table) => ({
   domainIdx: index("feed_catalog_domain_idx").on(table.domain),
   isApprovedIdx: index("feed_catalog_is_approved_idx").on(table.isApproved),
   sourceTypeIdx: index("feed_catalog_source_type_idx").on(table.sourceType),
   featuredIdx: index("feed_catalog_featured_idx").on(table.featured),
+  nextFetchAtIdx: index("feed_catalog_next_fetch_at_idx").on(table.nextFetchAt),
 }));
 
 export const feedCatalogSchema = z.object({
@@ -440,7 +805,7 @@ export const feedCatalogSchema = z.object({
   category: z.string(),
   description: z.string().optional(),
   sourceType: z.enum(sourceTypes),
-  topics: z.array(z.enum(topics)),
+  topics: z.array(topicSlugSchema),
   featured: z.boolean(),
   starterRank: z.number().nullable().optional(),
   qualityScore: z.number().nullable().optional(),
@@ -457,6 +822,16 @@ export const feedCatalogSchema = z.object({
   healingStatus: z.enum(healingStatuses).nullable().optional(),
   lastHealingAt: z.date().nullable().optional(),
   preferredRecoveryTactic: z.enum(healingTactics).nullable().optional(),
+  etag: z.string().nullable().optional(),
+  lastModified: z.string().nullable().optional(),
+  contentHash: z.string().nullable().optional(),
+  nextFetchAt: z.date().nullable().optional(),
+  fetchIntervalMinutes: z.number().nullable().optional(),
+  literatureQuery: literatureQuerySchema.nullable().optional(),
+  websubHub: z.string().nullable().optional(),
+  websubTopic: z.string().nullable().optional(),
+  websubStatus: z.enum(websubStatuses).nullable().optional(),
+  websubLeaseExpiresAt: z.date().nullable().optional(),
 });
 
 export const insertFeedCatalogSchema = createInsertSchema(feedCatalog).omit({ id: true, createdAt: true });
@@ -464,6 +839,23 @@ export const insertFeedCatalogSchema = createInsertSchema(feedCatalog).omit({ id
 export type FeedCatalog = typeof feedCatalog.$inferSelect;
 export type InsertFeedCatalog = z.infer<typeof insertFeedCatalogSchema>;
 
+// Item <-> feed provenance: an item can reach us through more than one feed
+// (items.feedId keeps the first one, this table records all of them)
+export const itemFeeds = pgTable("item_feeds", {
+  id: varchar("id", { length: 255 }).primaryKey(),
+  itemId: varchar("item_id", { length: 255 }).notNull().references(() => items.id, { onDelete: 'cascade' }),
+  feedId: varchar("feed_id", { length: 255 }).notNull().references(() => feedCatalog.id, { onDelete: 'cascade' }),
+  firstSeenAt: timestamp("first_seen_at").defaultNow(),
+}, (table) => ({
+  itemFeedIdx: uniqueIndex("item_feeds_item_feed_idx").on(table.itemId, table.feedId),
+  feedIdIdx: index("item_feeds_feed_id_idx").on(table.feedId),
+}));
+
+export const insertItemFeedSchema = createInsertSchema(itemFeeds).omit({ id: true, firstSeenAt: true });
+
+export type ItemFeed = typeof itemFeeds.$inferSelect;
+export type InsertItemFeed = z.infer<typeof insertItemFeedSchema>;
+
 // Feed health attempts table - tracks healing attempts for failing feeds
 export const feedHealthAttempts = pgTable("feed_health_attempts", {
   id: varchar("id", { length: 255 }).primaryKey(),
@@ -528,11 +920,43 @@ export const insertFeedHealingProfileSchema = createInsertSchema(feedHealingProf
 export type FeedHealingProfile = typeof feedHealingProfiles.$inferSelect;
 export type InsertFeedHealingProfile = z.infer<typeof insertFeedHealingProfileSchema>;
 
+// Source reputation history - recomputed nightly per feed and per author/channel (server/services/source-reputation.ts)
+export const reputationSubjects = ['feed', 'author'] as const;
+export type ReputationSubject = typeof reputationSubjects[number];
+
+// Track record a reputation was computed from, over the job's window of recent items
+export type SourceReputationInputs = {
+  items: number;
+  avgContentQuality: number | null; // 0-40, from score breakdowns
+  ratings: number;
+  avgRating: number | null; // 1-5
+  saves: number;
+  retracted: number; // Retracted or under an expression of concern
+  corrected: number;
+  healingAttempts?: number; // Feeds only: recovery attempts after failed fetches
+  healingFailures?: number;
+};
+
+export const sourceReputations = pgTable("source_reputations", {
+  id: varchar("id", { length: 255 }).primaryKey(),
+  subjectType: varchar("subject_type", { length: 20 }).notNull(), // 'feed' | 'author'
+  subjectKey: text("subject_key").notNull(), // Feed id, or normalized author/channel name
+  score: integer("score").notNull(), // 0-100
+  components: json("components").$type<Record<string, number>>().notNull(), // Component name -> 0-1 value
+  inputs: json("inputs").$type<SourceReputationInputs>().notNull(),
+  computedAt: timestamp("computed_at").notNull().defaultNow(),
+}, (table) => ({
+  subjectIdx: index("source_reputations_subject_idx").on(table.subjectType, table.subjectKey, table.computedAt),
+}));
+
+export type SourceReputation = typeof sourceReputations.$inferSelect;
+
 // Feed notifications table for user-facing feed health messages
 export const feedNotifications = pgTable("feed_notifications", {
   id: varchar("id", { length: 255 }).primaryKey(),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
   feedId: varchar("feed_id", { length: 255 }).references(() => feedCatalog.id, { onDelete: 'cascade' }),
+  itemId: varchar("item_id", { length: 255 }).references(() => items.id, { onDelete: 'cascade' }), // Saved item a notice is about (retractions)
   severity: varchar("severity", { length: 20 }).notNull(), // 'warning', 'error', 'info'
   message: text("message").notNull(),
   technicalDetails: text("technical_details"), // Store the original error for debugging
@@ -540,7 +964,7 @@ export const feedNotifications = pgTable("feed_notifications", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
   lastNotifiedAt: timestamp("last_notified_at"), // For throttling
   // Action-related fields for user decisions on feed substitutions
-  actionType: varchar("action_type", { length: 50 }), // 'substitution', 'healing', 'removal'
+  actionType: varchar("action_type", { length: 50 }), // 'substitution', 'healing', 'removal', 'integrity'
   actionRequired: boolean("action_required").notNull().default(false),
   alternativeFeedId: varchar("alternative_feed_id", { length: 255 }).references(() => feedCatalog.id),
   alternativeFeedName: varchar("alternative_feed_name", { length: 500 }),
@@ -558,13 +982,14 @@ export const feedNotificationSchema = z.object({
   id: z.string(),
   userId: z.string(),
   feedId: z.string().nullable(),
+  itemId: z.string().nullable().optional(),
   severity: z.enum(['warning', 'error', 'info']),
   message: z.string(),
   technicalDetails: z.string().nullable().optional(),
   isRead: z.boolean(),
   createdAt: z.date(),
   lastNotifiedAt: z.date().nullable().optional(),
-  actionType: z.enum(['substitution', 'healing', 'removal']).nullable().optional(),
+  actionType: z.enum(['substitution', 'healing', 'removal', 'integrity']).nullable().optional(),
   actionRequired: z.boolean(),
   alternativeFeedId: z.string().nullable().optional(),
   alternativeFeedName: z.string().nullable().optional(),
@@ -665,6 +1090,7 @@ export const itemEmbeddings = pgTable("item_embeddings", {
   itemId: varchar("item_id", { length: 255 }).primaryKey().references(() => items.id, { onDelete: 'cascade' }),
   embedding: text("embedding").notNull(), // Stored as JSON array, queried with pgvector
   model: varchar("model", { length: 100 }).notNull().default('text-embedding-3-small'),
+  source: varchar("source", { length: 20 }).notNull().default('summary'), // 'summary', or 'excerpt' (title + excerpt, until the item is summarized)
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -672,6 +1098,7 @@ export const itemEmbeddingSchema = z.object({
   itemId: z.string(),
   embedding: z.string(), // JSON stringified array of floats
   model: z.string(),
+  source: z.enum(['summary', 'excerpt']),
   createdAt: z.date().optional(),
 });
 
@@ -744,6 +1171,167 @@ export const insertRelatedRefSchema = createInsertSchema(relatedRefs).omit({ id:
 export type RelatedRef = typeof relatedRefs.$inferSelect;
 export type InsertRelatedRef = z.infer<typeof insertRelatedRefSchema>;
 
+// Near-duplicate merges - audit log of copies folded into a canonical item
+export const nearDuplicateMerges = pgTable("near_duplicate_merges", {
+  id: varchar("id", { length: 255 }).primaryKey(),
+  canonicalItemId: varchar("canonical_item_id", { length: 255 }).notNull().references(() => items.id, { onDelete: 'cascade' }),
+  duplicateUrl: text("duplicate_url").notNull(),
+  duplicateTitle: text("duplicate_title").notNull(),
+  duplicateSourceType: varchar("duplicate_source_type", { length: 50 }).notNull(),
+  feedId: varchar("feed_id", { length: 255 }).references(() => feedCatalog.id, { onDelete: 'set null' }),
+  duplicateHash: varchar("duplicate_hash", { length: 64 }), // The copy's hashDedupe, so re-polls are recognised before enrichment
+  duplicateGuid: text("duplicate_guid"), // The copy's feed entry id
+  similarity: integer("similarity").notNull(), // Estimated % of text in common
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  canonicalItemIdx: index("near_duplicate_merges_canonical_idx").on(table.canonicalItemId),
+  createdAtIdx: index("near_duplicate_merges_created_at_idx").on(table.createdAt),
+  duplicateHashIdx: index("near_duplicate_merges_duplicate_hash_idx").on(table.duplicateHash),
+  duplicateGuidIdx: index("near_duplicate_merges_duplicate_guid_idx").on(table.feedId, table.duplicateGuid),
+}));
+
+export const insertNearDuplicateMergeSchema = createInsertSchema(nearDuplicateMerges).omit({ id: true, createdAt: true });
+
+export type NearDuplicateMerge = typeof nearDuplicateMerges.$inferSelect;
+export type InsertNearDuplicateMerge = z.infer<typeof insertNearDuplicateMergeSchema>;
+
+// Topic taxonomy. Root rows are categories; every row below one is a topic that
+// items, feeds and preferences can carry. The topics array above is the
+// built-in set seeded from server/seeds/topic-taxonomy.json; admins can add,
+// merge and rename topics at runtime. Merged or renamed topics keep their row,
+// deprecated, so old slugs still resolve through replacedBy.
+export const taxonomyTopics = pgTable("taxonomy_topics", {
+  slug: varchar("slug", { length: 100 }).primaryKey(),
+  label: text("label").notNull(),
+  description: text("description"),
+  synonyms: json("synonyms").$type<string[]>().notNull().default(sql`'[]'::json`),
+  parentSlug: varchar("parent_slug", { length: 100 }).references((): AnyPgColumn => taxonomyTopics.slug, { onDelete: 'set null' }),
+  sortOrder: integer("sort_order").notNull().default(0),
+  deprecatedAt: timestamp("deprecated_at"),
+  replacedBy: varchar("replaced_by", { length: 100 }), // Topic a deprecated topic was merged into or renamed to; null when it was retired
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  parentIdx: index("taxonomy_topics_parent_idx").on(table.parentSlug),
+}));
+
+export const taxonomySlugSchema = z.string().regex(TOPIC_SLUG_PATTERN, "Slugs are letters and digits joined by underscores").max(100);
+
+export const insertTaxonomyTopicSchema = createInsertSchema(taxonomyTopics, {
+  slug: taxonomySlugSchema,
+  label: z.string().trim().min(1).max(100),
+  synonyms: z.array(z.string().trim().min(1)).max(50),
+}).omit({ deprecatedAt: true, replacedBy: true, createdAt: true, updatedAt: true });
+
+export const updateTaxonomyTopicSchema = insertTaxonomyTopicSchema.omit({ slug: true }).partial();
+
+export type TaxonomyTopic = typeof taxonomyTopics.$inferSelect;
+export type InsertTaxonomyTopic = z.infer<typeof insertTaxonomyTopicSchema>;
+export type UpdateTaxonomyTopic = z.infer<typeof updateTaxonomyTopicSchema>;
+
+// Node of the /api/topics tree; roots are categories
+export type TopicTreeNode = {
+  slug: string;
+  label: string;
+  description: string | null;
+  synonyms: string[];
+  children: TopicTreeNode[];
+};
+
+// Audit log of topic merges, renames and retirements, with the rows remapped
+export const topicRemaps = pgTable("topic_remaps", {
+  id: varchar("id", { length: 255 }).primaryKey(),
+  fromSlug: varchar("from_slug", { length: 100 }).notNull(),
+  toSlug: varchar("to_slug", { length: 100 }), // Null when the topic was retired and removed everywhere
+  action: varchar("action", { length: 20 }).notNull(), // merge, rename, retire
+  itemsUpdated: integer("items_updated").notNull().default(0),
+  feedsUpdated: integer("feeds_updated").notNull().default(0),
+  preferencesUpdated: integer("preferences_updated").notNull().default(0),
+  createdBy: varchar("created_by", { length: 255 }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  fromSlugIdx: index("topic_remaps_from_slug_idx").on(table.fromSlug),
+}));
+
+export type TopicRemap = typeof topicRemaps.$inferSelect;
+
+// Private topics a user defines with keyword rules and/or example ("seed") items.
+// They are referenced as "custom:<id>" wherever taxonomy slugs are accepted for that user
+export const customTopics = pgTable("custom_topics", {
+  id: varchar("id", { length: 255 }).primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  label: text("label").notNull(),
+  description: text("description"),
+  includeKeywords: json("include_keywords").$type<string[]>().notNull().default(sql`'[]'::json`), // Any one matching tags the item
+  excludeKeywords: json("exclude_keywords").$type<string[]>().notNull().default(sql`'[]'::json`), // Any one matching vetoes the tag
+  seedItemIds: json("seed_item_ids").$type<string[]>().notNull().default(sql`'[]'::json`),
+  seedEmbedding: text("seed_embedding"), // JSON centroid of the seed items' embeddings; null without seeds
+  minSimilarity: integer("min_similarity").notNull().default(50), // Cosine similarity % to the centroid needed for an embedding match
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  userIdIdx: index("custom_topics_user_id_idx").on(table.userId),
+}));
+
+export const CUSTOM_TOPIC_PREFIX = 'custom:';
+
+export function customTopicSlug(id: string): string {
+  return `${CUSTOM_TOPIC_PREFIX}${id}`;
+}
+
+export function isCustomTopicSlug(value: string): boolean {
+  return value.startsWith(CUSTOM_TOPIC_PREFIX);
+}
+
+const keywordListSchema = z.array(z.string().trim().min(1).max(100)).max(50);
+
+export const insertCustomTopicSchema = createInsertSchema(customTopics, {
+  label: z.string().trim().min(1).max(100),
+  includeKeywords: keywordListSchema,
+  excludeKeywords: keywordListSchema,
+  seedItemIds: z.array(z.string()).max(20),
+  minSimilarity: z.number().int().min(1).max(100),
+}).omit({ id: true, userId: true, seedEmbedding: true, createdAt: true, updatedAt: true });
+
+export const updateCustomTopicSchema = insertCustomTopicSchema.partial();
+
+export type CustomTopic = typeof customTopics.$inferSelect;
+export type InsertCustomTopic = z.infer<typeof insertCustomTopicSchema>;
+export type UpdateCustomTopic = z.infer<typeof updateCustomTopicSchema>;
+
+// Items tagged with a user's custom topic, at ingest, digest generation or when the topic is saved
+export const itemCustomTopics = pgTable("item_custom_topics", {
+  id: varchar("id", { length: 255 }).primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  customTopicId: varchar("custom_topic_id", { length: 255 }).notNull().references(() => customTopics.id, { onDelete: 'cascade' }),
+  itemId: varchar("item_id", { length: 255 }).notNull().references(() => items.id, { onDelete: 'cascade' }),
+  method: varchar("method", { length: 20 }).notNull(), // keyword, embedding
+  confidence: integer("confidence").notNull(), // 0-100
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  topicItemIdx: uniqueIndex("item_custom_topics_topic_item_idx").on(table.customTopicId, table.itemId),
+  userItemIdx: index("item_custom_topics_user_item_idx").on(table.userId, table.itemId),
+}));
+
+export type ItemCustomTopic = typeof itemCustomTopics.$inferSelect;
+
+// Per-user logistic model over item features (server/services/preference-model.ts),
+// retrained nightly from reads, saves, folder assignments and ratings
+export type PreferenceModel = {
+  bias: number;
+  weights: Record<string, number>; // Feature name (server/core/preference-features.ts) -> weight
+};
+
+export const userRankingModels = pgTable("user_ranking_models", {
+  userId: varchar("user_id").primaryKey().references(() => users.id, { onDelete: 'cascade' }),
+  model: json("model").$type<PreferenceModel>().notNull(),
+  positives: integer("positives").notNull(),
+  negatives: integer("negatives").notNull(),
+  trainedAt: timestamp("trained_at").notNull().defaultNow(),
+});
+
+export type UserRankingModel = typeof userRankingModels.$inferSelect;
+
 // ========================================
 // MULTI-TENANT SAAS TABLES
 // ========================================
@@ -870,10 +1458,11 @@ export const chatConversations = pgTable("chat_conversations", {
     timestamp: string;
   }>>().notNull().default(sql`'[]'::json`),
   scope: json("scope").$type<{
-    type: 'current_digest' | 'all_digests' | 'saved_items' | 'folder';
+    type: 'current_digest' | 'all_digests' | 'saved_items' | 'folder' | 'topic';
     digestId?: string;
     userId?: string;
     folderId?: string;
+    topic?: string;
   } | null>(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),